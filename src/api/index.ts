@@ -1,6 +1,6 @@
-import { connectMongo, disconnectMongo } from "@/common/db/mongo";
 import { env } from "@/api/env.config";
 import { app, logger } from "@/api/server";
+import { connectMongo, disconnectMongo } from "@/common/db/mongo";
 
 async function main() {
 	await connectMongo(env.MONGO_URI, env.MONGO_DB);
@@ -2,11 +2,20 @@ import { OpenAPIRegistry, OpenApiGeneratorV3 } from "@asteasolutions/zod-to-open
 
 import { feeRegistry } from "@/api/routes/fee/fee.router";
 import { healthCheckRegistry } from "@/api/routes/health-check/health-check.router";
+import { integratorRegistry } from "@/api/routes/integrator/integrator.router";
+import { reorgRegistry } from "@/api/routes/reorg/reorg.router";
+import { withdrawalRegistry } from "@/api/routes/withdrawal/withdrawal.router";
 
 export type OpenAPIDocument = ReturnType<OpenApiGeneratorV3["generateDocument"]>;
 
 export function generateOpenAPIDocument(): OpenAPIDocument {
-	const registry = new OpenAPIRegistry([healthCheckRegistry, feeRegistry]);
+	const registry = new OpenAPIRegistry([
+		healthCheckRegistry,
+		feeRegistry,
+		reorgRegistry,
+		withdrawalRegistry,
+		integratorRegistry,
+	]);
 	const generator = new OpenApiGeneratorV3(registry.definitions);
 
 	return generator.generateDocument({
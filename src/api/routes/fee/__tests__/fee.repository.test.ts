@@ -3,6 +3,8 @@ import { describe, type Mock } from "vitest";
 
 import { FeeRepository } from "@/api/routes/fee/fee.repository";
 import { FeeCollectedEventModel } from "@/fee-collector/models/fee-collected-event";
+import { ProvisionalFeeEventModel } from "@/fee-collector/models/provisional-fee-event";
+import { TokenModel } from "@/fee-collector/models/token";
 
 vi.mock("@/fee-collector/models/fee-collected-event", () => ({
 	FeeCollectedEventModel: {
@@ -10,6 +12,18 @@ vi.mock("@/fee-collector/models/fee-collected-event", () => ({
 	},
 }));
 
+vi.mock("@/fee-collector/models/provisional-fee-event", () => ({
+	ProvisionalFeeEventModel: {
+		find: vi.fn(),
+	},
+}));
+
+vi.mock("@/fee-collector/models/token", () => ({
+	TokenModel: {
+		find: vi.fn(),
+	},
+}));
+
 describe("FeeRepository", () => {
 	let feeRepository: FeeRepository;
 	let findMock: Mock;
@@ -21,6 +35,7 @@ describe("FeeRepository", () => {
 	const createDoc = (overrides: Record<string, unknown> = {}) => ({
 		_id: new Types.ObjectId(),
 		chainId: 137,
+		contractAddress: "0xbd6c7b0d2f68c2b7805d88388319cfb6ecb50ea9",
 		blockNumber: 100,
 		blockHash: "0xaaa",
 		txHash: "0xbbb",
@@ -76,7 +91,7 @@ describe("FeeRepository", () => {
 				limit: 2,
 			});
 
-			expect(findMock).toHaveBeenCalledWith({ integrator: "0xabcdef" });
+			expect(findMock).toHaveBeenCalledWith({ integrator: "0xabcdef", reorgId: null });
 			expect(sortMock).toHaveBeenCalledWith({ blockNumber: 1, logIndex: 1, _id: 1 });
 			expect(limitMock).toHaveBeenCalledWith(3);
 			expect(leanMock).toHaveBeenCalled();
@@ -84,7 +99,9 @@ describe("FeeRepository", () => {
 			expect(result).toEqual([
 				{
 					id: String(docs[0]?._id),
+					status: "confirmed",
 					chainId: 137,
+					contractAddress: "0xbd6c7b0d2f68c2b7805d88388319cfb6ecb50ea9",
 					blockNumber: 100,
 					blockHash: "0xaaa",
 					txHash: "0xbbb",
@@ -97,7 +114,9 @@ describe("FeeRepository", () => {
 				},
 				{
 					id: String(docs[1]?._id),
+					status: "confirmed",
 					chainId: 137,
+					contractAddress: "0xbd6c7b0d2f68c2b7805d88388319cfb6ecb50ea9",
 					blockNumber: 101,
 					blockHash: "0xccc",
 					txHash: "0xddd",
@@ -139,5 +158,167 @@ describe("FeeRepository", () => {
 			]);
 			expect(limitMock).toHaveBeenCalledWith(26); // limit + 1 for pagination check
 		});
+
+		it("should include orphaned events with their reorg when asked to", async () => {
+			const reorgId = new Types.ObjectId();
+			const orphanedAt = new Date("2024-01-01T00:00:00.000Z");
+			execMock.mockResolvedValue([createDoc({ reorgId, orphanedAt }), createDoc({ reorgId: null })]);
+
+			const result = await feeRepository.findByIntegrator({ integrator: "0xaaaa", limit: 10, includeOrphaned: true });
+
+			expect(findMock).toHaveBeenCalledWith({ integrator: "0xaaaa" });
+			expect(result[0]).toMatchObject({ orphanedAt: "2024-01-01T00:00:00.000Z", reorgId: String(reorgId) });
+			expect(result[1]).not.toHaveProperty("reorgId");
+			expect(result[1]).not.toHaveProperty("orphanedAt");
+		});
+
+		it("should return USD values of priced events only", async () => {
+			execMock.mockResolvedValue([
+				createDoc({ priceStatus: "priced", integratorFeeUsd: 2.5, lifiFeeUsd: 0.5 }),
+				createDoc({ priceStatus: "unpriced", unpricedReason: "unknown-price" }),
+			]);
+
+			const result = await feeRepository.findByIntegrator({ integrator: "0xaaaa", limit: 10 });
+
+			expect(result[0]).toMatchObject({ integratorFeeUsd: 2.5, lifiFeeUsd: 0.5 });
+			expect(result[1]).not.toHaveProperty("integratorFeeUsd");
+			expect(result[1]).not.toHaveProperty("lifiFeeUsd");
+		});
+
+		it("should filter by the transaction sender and return the context of enriched events", async () => {
+			const txContext = {
+				txFrom: "0x3333333333333333333333333333333333333333",
+				txTo: "0x1231deb6f5749ef6ce6943a275a1d3e7486f4eae",
+				txGasUsed: "210000",
+				txEffectiveGasPrice: "30000000000",
+				txMethodSelector: "0x4630a0d8",
+			};
+			execMock.mockResolvedValue([createDoc(txContext), createDoc()]);
+
+			const result = await feeRepository.findByIntegrator({
+				integrator: "0xaaaa",
+				sender: "0x3333333333333333333333333333333333333333",
+				limit: 10,
+			});
+
+			expect(findMock).toHaveBeenCalledWith({
+				integrator: "0xaaaa",
+				txFrom: "0x3333333333333333333333333333333333333333",
+				reorgId: null,
+			});
+			expect(result[0]).toMatchObject(txContext);
+			expect(result[1]).not.toHaveProperty("txFrom");
+		});
+
+		describe("with provisional events", () => {
+			let provisionalFindMock: Mock;
+			let provisionalLimitMock: Mock;
+
+			const mockProvisional = (docs: Record<string, unknown>[]) => {
+				provisionalLimitMock = vi.fn().mockReturnValue({ lean: () => ({ exec: async () => docs }) });
+				provisionalFindMock.mockReturnValue({ sort: () => ({ limit: provisionalLimitMock }) });
+			};
+
+			beforeEach(() => {
+				provisionalFindMock = ProvisionalFeeEventModel.find as unknown as Mock;
+				provisionalFindMock.mockReset();
+			});
+
+			it("should not read them unless asked to", async () => {
+				execMock.mockResolvedValue([createDoc()]);
+
+				await feeRepository.findByIntegrator({ integrator: "0xaaaa", limit: 10 });
+
+				expect(provisionalFindMock).not.toHaveBeenCalled();
+			});
+
+			it("should merge them in block order, labelled, and leave out ones confirmed since", async () => {
+				const confirmed = createDoc({ blockNumber: 100, txHash: "0x100" });
+				const alreadyConfirmed = createDoc({ blockNumber: 100, txHash: "0x100" });
+				const pending = createDoc({ blockNumber: 150, txHash: "0x150" });
+				const cursor = { blockNumber: 90, logIndex: 0, id: "64b1f7b7396b38f8f4b8a3f2" };
+				execMock.mockResolvedValue([confirmed, createDoc({ blockNumber: 200, txHash: "0x200" })]);
+				mockProvisional([alreadyConfirmed, pending]);
+
+				const result = await feeRepository.findByIntegrator({
+					integrator: "0xAAAA",
+					chainId: 137,
+					cursor,
+					limit: 10,
+					includeProvisional: true,
+				});
+
+				expect(provisionalFindMock).toHaveBeenCalledWith({
+					integrator: "0xaaaa",
+					chainId: 137,
+					$or: expect.arrayContaining([{ blockNumber: { $gt: 90 } }]),
+				});
+				expect(provisionalLimitMock).toHaveBeenCalledWith(11);
+				expect(result.map(({ blockNumber, status }) => [blockNumber, status])).toEqual([
+					[100, "confirmed"],
+					[150, "provisional"],
+					[200, "confirmed"],
+				]);
+				expect(result[1]).toMatchObject({ id: String(pending._id), txHash: "0x150" });
+			});
+
+			it("should cut the merged page to the page size plus one", async () => {
+				execMock.mockResolvedValue([createDoc({ blockNumber: 100 }), createDoc({ blockNumber: 300 })]);
+				mockProvisional([createDoc({ blockNumber: 200, txHash: "0x200" })]);
+
+				const result = await feeRepository.findByIntegrator({
+					integrator: "0xaaaa",
+					limit: 1,
+					includeProvisional: true,
+				});
+
+				expect(result.map(({ blockNumber }) => blockNumber)).toEqual([100, 200]);
+			});
+
+			it("should leave them out when filtering by sender, which they have no context for", async () => {
+				execMock.mockResolvedValue([]);
+
+				await feeRepository.findByIntegrator({
+					integrator: "0xaaaa",
+					sender: "0x3333333333333333333333333333333333333333",
+					limit: 10,
+					includeProvisional: true,
+				});
+
+				expect(provisionalFindMock).not.toHaveBeenCalled();
+			});
+		});
+	});
+
+	describe("findTokens", () => {
+		it("queries the given tokens and maps documents", async () => {
+			const tokenFindMock = TokenModel.find as unknown as Mock;
+			const address = "0x1111111111111111111111111111111111111111";
+			tokenFindMock.mockReturnValue({
+				lean: () => ({
+					exec: async () => [
+						{
+							_id: new Types.ObjectId(),
+							chainId: 137,
+							address,
+							symbol: "USDC",
+							name: "USD Coin",
+							decimals: 6,
+							native: false,
+						},
+					],
+				}),
+			});
+
+			const result = await feeRepository.findTokens([{ chainId: 137, address }]);
+
+			expect(tokenFindMock).toHaveBeenCalledWith({ $or: [{ chainId: 137, address }] });
+			expect(result).toEqual([{ chainId: 137, address, symbol: "USDC", name: "USD Coin", decimals: 6, native: false }]);
+		});
+
+		it("should not query without tokens", async () => {
+			await expect(feeRepository.findTokens([])).resolves.toEqual([]);
+			expect(TokenModel.find).not.toHaveBeenCalled();
+		});
 	});
 });
@@ -7,14 +7,16 @@ import { FeeService, FeeServiceError } from "@/api/routes/fee/fee.service";
 interface LoggerWithErrorOnly extends Pick<Logger, "error"> {}
 
 describe("FeeService", () => {
-	let repositoryMock: { findByIntegrator: Mock };
+	let repositoryMock: { findByIntegrator: Mock; findTokens: Mock };
 	let loggerMock: LoggerWithErrorOnly;
 	let feeService: FeeService;
 
 	// Helpers
 	const createRow = (overrides: Partial<FeeEventRow> = {}): FeeEventRow => ({
 		id: "64b1f7b7396b38f8f4b8a3f1",
+		status: "confirmed",
 		chainId: 137,
+		contractAddress: "0xbd6c7b0d2f68c2b7805d88388319cfb6ecb50ea9",
 		blockNumber: 100,
 		blockHash: "0xaaa",
 		txHash: "0x111",
@@ -33,6 +35,7 @@ describe("FeeService", () => {
 	beforeEach(() => {
 		repositoryMock = {
 			findByIntegrator: vi.fn(),
+			findTokens: vi.fn(),
 		};
 		loggerMock = {
 			error: vi.fn(),
@@ -69,17 +72,21 @@ describe("FeeService", () => {
 			];
 			repositoryMock.findByIntegrator.mockResolvedValue(rows);
 
-			const result = await feeService.findByIntegrator("0xabc", 137, undefined, 2);
+			const result = await feeService.findByIntegrator("0xabc", { chainId: 137, limit: 2 });
 
 			expect(repositoryMock.findByIntegrator).toHaveBeenCalledWith({
 				integrator: "0xabc",
 				chainId: 137,
 				cursor: undefined,
 				limit: 2,
+				includeOrphaned: false,
+				includeProvisional: false,
 			});
 			expect(result.data).toEqual([
 				{
+					status: "confirmed",
 					chainId: 137,
+					contractAddress: "0xbd6c7b0d2f68c2b7805d88388319cfb6ecb50ea9",
 					blockNumber: 100,
 					blockHash: "0xaaa",
 					txHash: "0x111",
@@ -91,7 +98,9 @@ describe("FeeService", () => {
 					blockTimestamp: 1_700_000_000,
 				},
 				{
+					status: "confirmed",
 					chainId: 137,
+					contractAddress: "0xbd6c7b0d2f68c2b7805d88388319cfb6ecb50ea9",
 					blockNumber: 101,
 					blockHash: "0xbbb",
 					txHash: "0x222",
@@ -116,7 +125,7 @@ describe("FeeService", () => {
 		it("should return cursor as null when there is no next page", async () => {
 			repositoryMock.findByIntegrator.mockResolvedValue([createRow({ chainId: 1 })]);
 
-			const result = await feeService.findByIntegrator("0xabc", undefined, undefined, 5);
+			const result = await feeService.findByIntegrator("0xabc", { limit: 5 });
 
 			expect(result.cursor).toBeNull();
 			expect(result.data).toHaveLength(1);
@@ -125,25 +134,115 @@ describe("FeeService", () => {
 		it("should clamp limit to max and min bounds (1 and 200) before querying repository", async () => {
 			repositoryMock.findByIntegrator.mockResolvedValue([]);
 
-			await feeService.findByIntegrator("0xabc", undefined, undefined, 10_000);
-			await feeService.findByIntegrator("0xabc", undefined, undefined, 0);
+			await feeService.findByIntegrator("0xabc", { limit: 10_000 });
+			await feeService.findByIntegrator("0xabc", { limit: 0 });
 
 			expect(repositoryMock.findByIntegrator).toHaveBeenNthCalledWith(1, {
 				integrator: "0xabc",
 				chainId: undefined,
 				cursor: undefined,
 				limit: 200,
+				includeOrphaned: false,
+				includeProvisional: false,
 			});
 			expect(repositoryMock.findByIntegrator).toHaveBeenNthCalledWith(2, {
 				integrator: "0xabc",
 				chainId: undefined,
 				cursor: undefined,
 				limit: 1,
+				includeOrphaned: false,
+				includeProvisional: false,
 			});
 		});
 
+		it("should return orphaned events with their reorg when includeOrphaned is set", async () => {
+			repositoryMock.findByIntegrator.mockResolvedValue([
+				createRow({ orphanedAt: "2024-01-01T00:00:00.000Z", reorgId: "64b1f7b7396b38f8f4b8a3f9" }),
+			]);
+
+			const result = await feeService.findByIntegrator("0xabc", { limit: 10, includeOrphaned: true });
+
+			expect(repositoryMock.findByIntegrator).toHaveBeenCalledWith(expect.objectContaining({ includeOrphaned: true }));
+			expect(result.data[0]).toMatchObject({
+				orphanedAt: "2024-01-01T00:00:00.000Z",
+				reorgId: "64b1f7b7396b38f8f4b8a3f9",
+			});
+		});
+
+		it("should pass USD values through for priced events", async () => {
+			repositoryMock.findByIntegrator.mockResolvedValue([
+				createRow({ integratorFeeUsd: 2.5, lifiFeeUsd: 0.5 }),
+				createRow({ id: "64b1f7b7396b38f8f4b8a3fa" }),
+			]);
+
+			const result = await feeService.findByIntegrator("0xabc");
+
+			expect(result.data[0]).toMatchObject({ integratorFeeUsd: 2.5, lifiFeeUsd: 0.5 });
+			expect(result.data[1]).not.toHaveProperty("integratorFeeUsd");
+		});
+
+		it("should pass the sender to the repository and the transaction context through", async () => {
+			const sender = "0x3333333333333333333333333333333333333333";
+			const txContext = {
+				txFrom: sender,
+				txTo: null,
+				txGasUsed: "210000",
+				txEffectiveGasPrice: "30000000000",
+				txMethodSelector: null,
+			};
+			repositoryMock.findByIntegrator.mockResolvedValue([createRow(txContext)]);
+
+			const result = await feeService.findByIntegrator("0xabc", { sender });
+
+			expect(repositoryMock.findByIntegrator).toHaveBeenCalledWith(expect.objectContaining({ sender }));
+			expect(result.data[0]).toMatchObject(txContext);
+		});
+
+		it("should add token metadata and formatted amounts with include=token", async () => {
+			const usdc = "0x1111111111111111111111111111111111111111";
+			const unknownToken = "0x4444444444444444444444444444444444444444";
+			const noDecimals = "0x5555555555555555555555555555555555555555";
+			repositoryMock.findByIntegrator.mockResolvedValue([
+				createRow({ token: usdc, integratorFee: "1500000", lifiFee: "250000" }),
+				createRow({ id: "64b1f7b7396b38f8f4b8a3f2", token: unknownToken }),
+				createRow({ id: "64b1f7b7396b38f8f4b8a3f3", token: noDecimals }),
+			]);
+			repositoryMock.findTokens.mockResolvedValue([
+				{ chainId: 137, address: usdc, symbol: "USDC", name: "USD Coin", decimals: 6, native: false },
+				{ chainId: 137, address: noDecimals, symbol: "ODD", name: null, decimals: null, native: false },
+			]);
+
+			const result = await feeService.findByIntegrator("0xabc", { limit: 10, includeToken: true });
+
+			expect(repositoryMock.findTokens).toHaveBeenCalledWith([
+				{ chainId: 137, address: usdc },
+				{ chainId: 137, address: unknownToken },
+				{ chainId: 137, address: noDecimals },
+			]);
+			expect(result.data[0]).toMatchObject({
+				tokenMetadata: { symbol: "USDC", name: "USD Coin", decimals: 6, native: false },
+				integratorFeeFormatted: "1.5",
+				lifiFeeFormatted: "0.25",
+			});
+			// Not resolved by the worker yet
+			expect(result.data[1]).toMatchObject({ tokenMetadata: null });
+			expect(result.data[1]).not.toHaveProperty("integratorFeeFormatted");
+			// Without decimals the amounts can't be formatted
+			expect(result.data[2]).toMatchObject({ tokenMetadata: { symbol: "ODD", decimals: null } });
+			expect(result.data[2]).not.toHaveProperty("integratorFeeFormatted");
+		});
+
+		it("should not look up tokens without include=token", async () => {
+			repositoryMock.findByIntegrator.mockResolvedValue([createRow()]);
+
+			const result = await feeService.findByIntegrator("0xabc");
+
+			expect(repositoryMock.findTokens).not.toHaveBeenCalled();
+			expect(result.data[0]).not.toHaveProperty("tokenMetadata");
+		});
+
 		it("should throw INVALID_CURSOR when cursor payload is malformed", async () => {
-			await expect(feeService.findByIntegrator("0xabc", undefined, "not-base64", 10)).rejects.toMatchObject({
+			await expect(feeService.findByIntegrator("0xabc", { cursor: "not-base64", limit: 10 })).rejects.toMatchObject({
 				statusCode: StatusCodes.BAD_REQUEST,
 				code: "INVALID_CURSOR",
 				message: "Invalid cursor",
@@ -161,13 +260,15 @@ describe("FeeService", () => {
 			};
 			const cursor = encodeCursor(cursorObject);
 
-			await feeService.findByIntegrator("0xabc", 1, cursor, 10);
+			await feeService.findByIntegrator("0xabc", { chainId: 1, cursor, limit: 10 });
 
 			expect(repositoryMock.findByIntegrator).toHaveBeenCalledWith({
 				integrator: "0xabc",
 				chainId: 1,
 				cursor: cursorObject,
 				limit: 10,
+				includeOrphaned: false,
+				includeProvisional: false,
 			});
 		});
 
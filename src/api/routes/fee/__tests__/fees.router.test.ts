@@ -12,7 +12,9 @@ describe("Fees API Endpoints", () => {
 		const responseObject: FeeEventList = {
 			data: [
 				{
+					status: "confirmed",
 					chainId: 137,
+					contractAddress: "0xbd6c7b0d2f68c2b7805d88388319cfb6ecb50ea9",
 					blockNumber: 78600000,
 					blockHash: "0xabc",
 					txHash: "0xdef",
@@ -32,7 +34,13 @@ describe("Fees API Endpoints", () => {
 
 		expect(response.statusCode).toEqual(StatusCodes.OK);
 		expect(response.body).toEqual(responseObject);
-		expect(findByIntegratorSpy).toHaveBeenCalledWith(integrator.toLowerCase(), 137, undefined, 1);
+		expect(findByIntegratorSpy).toHaveBeenCalledWith(integrator.toLowerCase(), {
+			chainId: 137,
+			limit: 1,
+			includeOrphaned: false,
+			includeProvisional: false,
+			includeToken: false,
+		});
 	});
 
 	it("GET /fees uses default limit and forwards cursor", async () => {
@@ -42,14 +50,116 @@ describe("Fees API Endpoints", () => {
 		const response = await request(app).get("/fees").query({ integrator, cursor: "opaque-cursor" });
 
 		expect(response.statusCode).toEqual(StatusCodes.OK);
+		expect(findByIntegratorSpy).toHaveBeenCalledWith(integrator.toLowerCase(), {
+			cursor: "opaque-cursor",
+			limit: defaultLimit,
+			includeOrphaned: false,
+			includeProvisional: false,
+			includeToken: false,
+		});
+	});
+
+	it("GET /fees forwards includeOrphaned", async () => {
+		const findByIntegratorSpy = vi.spyOn(feeService, "findByIntegrator").mockResolvedValue({ data: [], cursor: null });
+
+		const response = await request(app).get("/fees").query({ integrator, includeOrphaned: "true" });
+
+		expect(response.statusCode).toEqual(StatusCodes.OK);
+		expect(findByIntegratorSpy).toHaveBeenCalledWith(integrator.toLowerCase(), {
+			limit: 50,
+			includeOrphaned: true,
+			includeProvisional: false,
+			includeToken: false,
+		});
+	});
+
+	it("GET /fees forwards includeProvisional and returns each event's status", async () => {
+		const provisionalEvent = {
+			status: "provisional" as const,
+			chainId: 137,
+			contractAddress: "0xbd6c7b0d2f68c2b7805d88388319cfb6ecb50ea9",
+			blockNumber: 78600100,
+			blockHash: "0xabc",
+			txHash: "0xdef",
+			logIndex: 5,
+			token: "0x2222222222222222222222222222222222222222",
+			integrator,
+			integratorFee: "100",
+			lifiFee: "20",
+			blockTimestamp: 1700000000,
+		};
+		const findByIntegratorSpy = vi
+			.spyOn(feeService, "findByIntegrator")
+			.mockResolvedValue({ data: [provisionalEvent], cursor: null });
+
+		const response = await request(app).get("/fees").query({ integrator, includeProvisional: "true" });
+
+		expect(response.statusCode).toEqual(StatusCodes.OK);
+		expect(response.body.data).toEqual([provisionalEvent]);
 		expect(findByIntegratorSpy).toHaveBeenCalledWith(
 			integrator.toLowerCase(),
-			undefined,
-			"opaque-cursor",
-			defaultLimit,
+			expect.objectContaining({ includeProvisional: true }),
 		);
 	});
 
+	it("GET /fees rejects a non-boolean includeProvisional", async () => {
+		const response = await request(app).get("/fees").query({ integrator, includeProvisional: "1" });
+
+		expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+		expect(response.body.error.message).toContain("includeProvisional");
+	});
+
+	it("GET /fees forwards include=token", async () => {
+		const findByIntegratorSpy = vi.spyOn(feeService, "findByIntegrator").mockResolvedValue({ data: [], cursor: null });
+
+		const response = await request(app).get("/fees").query({ integrator, include: "token" });
+
+		expect(response.statusCode).toEqual(StatusCodes.OK);
+		expect(findByIntegratorSpy).toHaveBeenCalledWith(integrator.toLowerCase(), {
+			limit: 50,
+			includeOrphaned: false,
+			includeProvisional: false,
+			includeToken: true,
+		});
+	});
+
+	it("GET /fees forwards the sender, lowercased", async () => {
+		const findByIntegratorSpy = vi.spyOn(feeService, "findByIntegrator").mockResolvedValue({ data: [], cursor: null });
+		const sender = "0x3333333333333333333333333333333333333ABC";
+
+		const response = await request(app).get("/fees").query({ integrator, sender });
+
+		expect(response.statusCode).toEqual(StatusCodes.OK);
+		expect(findByIntegratorSpy).toHaveBeenCalledWith(integrator.toLowerCase(), {
+			sender: sender.toLowerCase(),
+			limit: 50,
+			includeOrphaned: false,
+			includeProvisional: false,
+			includeToken: false,
+		});
+	});
+
+	it("GET /fees rejects an invalid sender", async () => {
+		const response = await request(app).get("/fees").query({ integrator, sender: "0x123" });
+
+		expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+		expect(response.body.error.message).toContain("sender");
+	});
+
+	it("GET /fees rejects an unknown include", async () => {
+		const response = await request(app).get("/fees").query({ integrator, include: "price" });
+
+		expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+		expect(response.body.error.message).toContain("include");
+	});
+
+	it("GET /fees rejects a non-boolean includeOrphaned", async () => {
+		const response = await request(app).get("/fees").query({ integrator, includeOrphaned: "yes" });
+
+		expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+		expect(response.body.error.message).toContain("includeOrphaned");
+	});
+
 	it("GET /fees returns bad request for an invalid integrator", async () => {
 		const findByIntegratorSpy = vi.spyOn(feeService, "findByIntegrator");
 
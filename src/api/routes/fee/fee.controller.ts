@@ -1,18 +1,9 @@
 import type { Request, RequestHandler, Response } from "express";
 import { StatusCodes } from "http-status-codes";
-import type { ZodError } from "zod";
 
 import { GetFeesQuerySchema } from "@/api/routes/fee/fee.model";
 import { type FeeService, FeeServiceError } from "@/api/routes/fee/fee.service";
-
-function formatZodError(error: ZodError): string {
-	return error.errors
-		.map((issue) => {
-			const path = issue.path.join(".");
-			return path ? `${path}: ${issue.message}` : issue.message;
-		})
-		.join("; ");
-}
+import { formatZodError } from "@/api/utils/validation";
 
 export class FeeController {
 	constructor(private readonly feeService: FeeService) {}
@@ -29,8 +20,17 @@ export class FeeController {
 		}
 
 		try {
-			const { integrator, chainId, cursor, limit } = parsedQuery.data;
-			const feeEvents = await this.feeService.findByIntegrator(integrator, chainId, cursor, limit);
+			const { integrator, chainId, sender, cursor, limit, includeOrphaned, includeProvisional, include } =
+				parsedQuery.data;
+			const feeEvents = await this.feeService.findByIntegrator(integrator, {
+				chainId,
+				sender,
+				cursor,
+				limit,
+				includeOrphaned,
+				includeProvisional,
+				includeToken: include === "token",
+			});
 			return res.status(StatusCodes.OK).send(feeEvents);
 		} catch (error) {
 			if (error instanceof FeeServiceError) {
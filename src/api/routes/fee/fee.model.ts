@@ -3,8 +3,22 @@ import { z } from "zod";
 
 extendZodWithOpenApi(z);
 
+export const TokenMetadataSchema = z.object({
+	/** Null when the token contract doesn't implement the getter. */
+	symbol: z.string().nullable(),
+	name: z.string().nullable(),
+	decimals: z.number().nullable(),
+	/** The chain's native token (zero address) rather than an ERC-20 contract. */
+	native: z.boolean(),
+});
+
+/** `confirmed` events are past the chain's confirmation depth; `provisional` ones were pushed by a log subscription. */
+export const FEE_EVENT_STATUSES = ["confirmed", "provisional"] as const;
+
 export const FeeEventSchema = z.object({
+	status: z.enum(FEE_EVENT_STATUSES),
 	chainId: z.number(),
+	contractAddress: z.string(),
 	blockNumber: z.number(),
 	blockHash: z.string(),
 	txHash: z.string(),
@@ -14,6 +28,30 @@ export const FeeEventSchema = z.object({
 	integratorFee: z.string(),
 	lifiFee: z.string(),
 	blockTimestamp: z.number(),
+	/** Only on orphaned events, i.e. with `includeOrphaned=true`: when a reorg rolled the event's block back. */
+	orphanedAt: z.string().datetime().optional(),
+	/** Only on orphaned events: the reorg that orphaned the event, see `GET /reorgs`. */
+	reorgId: z.string().optional(),
+	/** Only on chains with transaction enrichment: sender of the transaction that paid the fee. */
+	txFrom: z.string().optional(),
+	/** Only with enrichment: contract the transaction called; null for contract creations. */
+	txTo: z.string().nullable().optional(),
+	/** Only with enrichment: gas used by the whole transaction. */
+	txGasUsed: z.string().optional(),
+	/** Only with enrichment: price paid per unit of gas, in wei. */
+	txEffectiveGasPrice: z.string().optional(),
+	/** Only with enrichment: 4-byte selector of the method the transaction called; null for plain transfers. */
+	txMethodSelector: z.string().nullable().optional(),
+	/** Only on events priced by the worker: `integratorFee` in USD at `blockTimestamp`. */
+	integratorFeeUsd: z.number().optional(),
+	/** Only on events priced by the worker: `lifiFee` in USD at `blockTimestamp`. */
+	lifiFeeUsd: z.number().optional(),
+	/** Only with `include=token`; null while the worker hasn't resolved the token yet. */
+	tokenMetadata: TokenMetadataSchema.nullable().optional(),
+	/** Only with `include=token`, for tokens with known decimals: `integratorFee` in whole tokens. */
+	integratorFeeFormatted: z.string().optional(),
+	/** Only with `include=token`, for tokens with known decimals: `lifiFee` in whole tokens. */
+	lifiFeeFormatted: z.string().optional(),
 });
 
 export const FeeEventListSchema = z.object({
@@ -34,14 +72,41 @@ export const GetFeesQuerySchema = z.object({
 		.regex(/^0x[0-9a-fA-F]{40}$/, "Must be a valid EVM address")
 		.transform((v) => v.toLowerCase()),
 	chainId: z.coerce.number().int().positive().optional(),
+	sender: z
+		.string()
+		.regex(/^0x[0-9a-fA-F]{40}$/, "Must be a valid EVM address")
+		.transform((v) => v.toLowerCase())
+		.optional()
+		.openapi({
+			description: "Only fees paid by transactions from this address; needs transaction enrichment on the chain",
+		}),
 	limit: z.coerce.number().int().min(1).max(200).default(50),
 	cursor: z.string().min(1).optional(),
+	includeOrphaned: z
+		.enum(["true", "false"])
+		.default("false")
+		.transform((v) => v === "true")
+		.openapi({ description: "Also return events orphaned by a reorg" }),
+	includeProvisional: z
+		.enum(["true", "false"])
+		.default("false")
+		.transform((v) => v === "true")
+		.openapi({
+			description:
+				"Also return events not yet confirmed, as pushed by a log subscription; left out when filtering by `sender`",
+		}),
+	include: z
+		.enum(["token"])
+		.optional()
+		.openapi({ description: "`token` adds token metadata and decimal-formatted amounts to each event" }),
 });
 
 export const GetFeesSchema = z.object({
 	query: GetFeesQuerySchema,
 });
 
+export type TokenMetadata = z.infer<typeof TokenMetadataSchema>;
+export type FeeEventStatus = (typeof FEE_EVENT_STATUSES)[number];
 export type FeeEvent = z.infer<typeof FeeEventSchema>;
 export type FeeEventList = z.infer<typeof FeeEventListSchema>;
 export type FeeError = z.infer<typeof FeeErrorSchema>;
@@ -1,7 +1,9 @@
 import { Types } from "mongoose";
 
-import type { FeeEvent } from "@/api/routes/fee/fee.model";
+import type { FeeEvent, TokenMetadata } from "@/api/routes/fee/fee.model";
 import { FeeCollectedEventModel } from "@/fee-collector/models/fee-collected-event";
+import { ProvisionalFeeEventModel } from "@/fee-collector/models/provisional-fee-event";
+import { TokenModel } from "@/fee-collector/models/token";
 
 export interface FeesCursor {
 	blockNumber: number;
@@ -12,14 +14,27 @@ export interface FeesCursor {
 interface FindByIntegratorOptions {
 	integrator: string;
 	chainId?: number;
+	/** Only events whose transaction was sent from this address (enriched events only). */
+	sender?: string;
 	cursor?: FeesCursor;
 	limit: number;
+	/** Orphaned events are left out unless set. */
+	includeOrphaned?: boolean;
+	/** Also returns unconfirmed events of `provisional_fee_events`, which have no transaction context to match `sender`. */
+	includeProvisional?: boolean;
 }
 
 export interface FeeEventRow extends FeeEvent {
 	id: string;
 }
 
+export interface TokenRef {
+	chainId: number;
+	address: string;
+}
+
+export interface TokenMetadataRow extends TokenMetadata, TokenRef {}
+
 export class FeeRepository {
 	async findByIntegrator(options: FindByIntegratorOptions): Promise<FeeEventRow[]> {
 		const filter: Record<string, unknown> = { integrator: options.integrator.toLowerCase() };
@@ -28,16 +43,16 @@ export class FeeRepository {
 			filter.chainId = options.chainId;
 		}
 
+		if (options.sender !== undefined) {
+			filter.txFrom = options.sender.toLowerCase();
+		}
+
+		if (!options.includeOrphaned) {
+			filter.reorgId = null;
+		}
+
 		if (options.cursor) {
-			filter.$or = [
-				{ blockNumber: { $gt: options.cursor.blockNumber } },
-				{ blockNumber: options.cursor.blockNumber, logIndex: { $gt: options.cursor.logIndex } },
-				{
-					blockNumber: options.cursor.blockNumber,
-					logIndex: options.cursor.logIndex,
-					_id: { $gt: new Types.ObjectId(options.cursor.id) },
-				},
-			];
+			filter.$or = cursorCondition(options.cursor);
 		}
 
 		const docs = await FeeCollectedEventModel.find(filter)
@@ -46,9 +61,60 @@ export class FeeRepository {
 			.lean()
 			.exec();
 
+		const rows: FeeEventRow[] = docs.map((doc) => ({
+			id: String(doc._id),
+			status: "confirmed",
+			chainId: doc.chainId,
+			contractAddress: doc.contractAddress,
+			blockNumber: doc.blockNumber,
+			blockHash: doc.blockHash,
+			txHash: doc.txHash,
+			logIndex: doc.logIndex,
+			token: doc.token,
+			integrator: doc.integrator,
+			integratorFee: doc.integratorFee,
+			lifiFee: doc.lifiFee,
+			blockTimestamp: doc.blockTimestamp,
+			...(doc.reorgId && { orphanedAt: doc.orphanedAt?.toISOString(), reorgId: String(doc.reorgId) }),
+			...(doc.txFrom !== undefined && {
+				txFrom: doc.txFrom,
+				txTo: doc.txTo,
+				txGasUsed: doc.txGasUsed,
+				txEffectiveGasPrice: doc.txEffectiveGasPrice,
+				txMethodSelector: doc.txMethodSelector,
+			}),
+			...(doc.priceStatus === "priced" && { integratorFeeUsd: doc.integratorFeeUsd, lifiFeeUsd: doc.lifiFeeUsd }),
+		}));
+
+		if (!options.includeProvisional || options.sender !== undefined) return rows;
+
+		const provisional = await this.findProvisional(options);
+		return mergeByPosition(rows, provisional).slice(0, options.limit + 1);
+	}
+
+	/** Unconfirmed events of the page, in the same order and with the same page size as the confirmed ones. */
+	private async findProvisional(options: FindByIntegratorOptions): Promise<FeeEventRow[]> {
+		const filter: Record<string, unknown> = { integrator: options.integrator.toLowerCase() };
+
+		if (options.chainId !== undefined) {
+			filter.chainId = options.chainId;
+		}
+
+		if (options.cursor) {
+			filter.$or = cursorCondition(options.cursor);
+		}
+
+		const docs = await ProvisionalFeeEventModel.find(filter)
+			.sort({ blockNumber: 1, logIndex: 1, _id: 1 })
+			.limit(options.limit + 1)
+			.lean()
+			.exec();
+
 		return docs.map((doc) => ({
 			id: String(doc._id),
+			status: "provisional",
 			chainId: doc.chainId,
+			contractAddress: doc.contractAddress,
 			blockNumber: doc.blockNumber,
 			blockHash: doc.blockHash,
 			txHash: doc.txHash,
@@ -60,4 +126,48 @@ export class FeeRepository {
 			blockTimestamp: doc.blockTimestamp,
 		}));
 	}
+
+	/** Metadata of the given tokens, as far as the worker has resolved them. */
+	async findTokens(tokens: TokenRef[]): Promise<TokenMetadataRow[]> {
+		if (tokens.length === 0) return [];
+
+		const docs = await TokenModel.find({ $or: tokens.map(({ chainId, address }) => ({ chainId, address })) })
+			.lean()
+			.exec();
+
+		return docs.map((doc) => ({
+			chainId: doc.chainId,
+			address: doc.address,
+			symbol: doc.symbol,
+			name: doc.name,
+			decimals: doc.decimals,
+			native: doc.native,
+		}));
+	}
+}
+
+/** Events after the cursor's `(blockNumber, logIndex, _id)` position. */
+function cursorCondition(cursor: FeesCursor): Record<string, unknown>[] {
+	return [
+		{ blockNumber: { $gt: cursor.blockNumber } },
+		{ blockNumber: cursor.blockNumber, logIndex: { $gt: cursor.logIndex } },
+		{
+			blockNumber: cursor.blockNumber,
+			logIndex: cursor.logIndex,
+			_id: { $gt: new Types.ObjectId(cursor.id) },
+		},
+	];
+}
+
+/**
+ * Merges confirmed and provisional rows in cursor order. A provisional event the sync has confirmed in the
+ * meantime, but not yet cleared, is left out: its confirmed copy takes its place.
+ */
+function mergeByPosition(confirmed: FeeEventRow[], provisional: FeeEventRow[]): FeeEventRow[] {
+	const eventKey = (row: FeeEventRow) => `${row.chainId}:${row.txHash}:${row.logIndex}`;
+	const confirmedKeys = new Set(confirmed.map(eventKey));
+
+	return [...confirmed, ...provisional.filter((row) => !confirmedKeys.has(eventKey(row)))].sort(
+		(a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex || a.id.localeCompare(b.id),
+	);
 }
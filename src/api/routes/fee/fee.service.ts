@@ -1,9 +1,10 @@
+import { ethers } from "ethers";
 import { StatusCodes } from "http-status-codes";
 import type { Logger } from "pino";
 import { z } from "zod";
 
 import type { FeeEventList } from "@/api/routes/fee/fee.model";
-import type { FeeEventRow, FeeRepository, FeesCursor } from "./fee.repository";
+import type { FeeEventRow, FeeRepository, FeesCursor, TokenMetadataRow } from "./fee.repository";
 
 const MAX_LIMIT = 200;
 const DEFAULT_LIMIT = 50;
@@ -14,6 +15,21 @@ const cursorSchema = z.object({
 	id: z.string().regex(OBJECT_ID_PATTERN),
 });
 
+export interface FindFeesOptions {
+	chainId?: number;
+	/** Only fees paid by transactions from this address. */
+	sender?: string;
+	/** Opaque cursor of the previous page. */
+	cursor?: string;
+	limit?: number;
+	/** Orphaned events are left out unless set. */
+	includeOrphaned?: boolean;
+	/** Also returns events pushed by a log subscription that aren't confirmed yet. */
+	includeProvisional?: boolean;
+	/** Adds token metadata and decimal-formatted amounts to each event. */
+	includeToken?: boolean;
+}
+
 export class FeeServiceError extends Error {
 	constructor(
 		public readonly statusCode: number,
@@ -31,12 +47,16 @@ export class FeeService {
 		private readonly logger: Logger,
 	) {}
 
-	async findByIntegrator(
-		integrator: string,
-		chainId?: number,
-		cursor?: string,
-		limit: number = DEFAULT_LIMIT,
-	): Promise<FeeEventList> {
+	async findByIntegrator(integrator: string, options: FindFeesOptions = {}): Promise<FeeEventList> {
+		const {
+			chainId,
+			sender,
+			cursor,
+			limit = DEFAULT_LIMIT,
+			includeOrphaned = false,
+			includeProvisional = false,
+			includeToken = false,
+		} = options;
 		try {
 			const safeLimit = Math.min(Math.max(1, limit), MAX_LIMIT);
 			let decodedCursor: FeesCursor | undefined;
@@ -51,14 +71,18 @@ export class FeeService {
 			const rows = await this.feesRepository.findByIntegrator({
 				integrator,
 				chainId,
+				sender,
 				cursor: decodedCursor,
 				limit: safeLimit,
+				includeOrphaned,
+				includeProvisional,
 			});
 
 			const hasNextPage = rows.length > safeLimit;
 			// Only take rows up to safeLimit for the current page
 			const pageRows = hasNextPage ? rows.slice(0, safeLimit) : rows;
-			const data = mapRowsToEvents(pageRows);
+			const tokens = includeToken ? await this.findTokens(pageRows) : undefined;
+			const data = mapRowsToEvents(pageRows, tokens);
 
 			// Generate cursor for the next page if there is one.
 			// We use the last item of the current page as the cursor reference point.
@@ -90,6 +114,15 @@ export class FeeService {
 			);
 		}
 	}
+
+	/** Metadata of the tokens on a page, keyed by `chainId:address`. */
+	private async findTokens(rows: FeeEventRow[]): Promise<Map<string, TokenMetadataRow>> {
+		const refs = new Map(
+			rows.map((row) => [tokenKey(row.chainId, row.token), { chainId: row.chainId, address: row.token }]),
+		);
+		const tokens = await this.feesRepository.findTokens([...refs.values()]);
+		return new Map(tokens.map((token) => [tokenKey(token.chainId, token.address), token]));
+	}
 }
 
 /**
@@ -115,9 +148,29 @@ function decodeCursor(cursor: string): FeesCursor | undefined {
 	}
 }
 
-function mapRowsToEvents(rows: FeeEventRow[]) {
+function tokenKey(chainId: number, address: string): string {
+	return `${chainId}:${address}`;
+}
+
+/** Token metadata and whole-token amounts of `include=token`; amounts are left out while decimals are unknown. */
+function tokenFields(row: FeeEventRow, token: TokenMetadataRow | undefined) {
+	if (!token) return { tokenMetadata: null };
+
+	const { symbol, name, decimals, native } = token;
+	return {
+		tokenMetadata: { symbol, name, decimals, native },
+		...(decimals !== null && {
+			integratorFeeFormatted: ethers.utils.formatUnits(row.integratorFee, decimals),
+			lifiFeeFormatted: ethers.utils.formatUnits(row.lifiFee, decimals),
+		}),
+	};
+}
+
+function mapRowsToEvents(rows: FeeEventRow[], tokens?: Map<string, TokenMetadataRow>) {
 	return rows.map((row) => ({
+		status: row.status,
 		chainId: row.chainId,
+		contractAddress: row.contractAddress,
 		blockNumber: row.blockNumber,
 		blockHash: row.blockHash,
 		txHash: row.txHash,
@@ -127,5 +180,15 @@ function mapRowsToEvents(rows: FeeEventRow[]) {
 		integratorFee: row.integratorFee,
 		lifiFee: row.lifiFee,
 		blockTimestamp: row.blockTimestamp,
+		...(row.reorgId && { orphanedAt: row.orphanedAt, reorgId: row.reorgId }),
+		...(row.txFrom !== undefined && {
+			txFrom: row.txFrom,
+			txTo: row.txTo,
+			txGasUsed: row.txGasUsed,
+			txEffectiveGasPrice: row.txEffectiveGasPrice,
+			txMethodSelector: row.txMethodSelector,
+		}),
+		...(row.integratorFeeUsd !== undefined && { integratorFeeUsd: row.integratorFeeUsd, lifiFeeUsd: row.lifiFeeUsd }),
+		...(tokens && tokenFields(row, tokens.get(tokenKey(row.chainId, row.token)))),
 	}));
 }
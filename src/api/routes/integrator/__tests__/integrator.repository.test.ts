@@ -0,0 +1,94 @@
+import { Types } from "mongoose";
+import { describe, type Mock } from "vitest";
+
+import { IntegratorRepository } from "@/api/routes/integrator/integrator.repository";
+import { IntegratorBalanceModel } from "@/fee-collector/models/integrator-balance";
+
+vi.mock("@/fee-collector/models/integrator-balance", () => ({
+	IntegratorBalanceModel: {
+		find: vi.fn(),
+	},
+}));
+
+describe("IntegratorRepository", () => {
+	let integratorRepository: IntegratorRepository;
+	let findMock: Mock;
+	let sortMock: Mock;
+	let leanMock: Mock;
+	let execMock: Mock;
+
+	const createDoc = (overrides: Record<string, unknown> = {}) => ({
+		_id: new Types.ObjectId(),
+		chainId: 137,
+		integrator: "0x2222222222222222222222222222222222222222",
+		token: "0x1111111111111111111111111111111111111111",
+		collected: "1000000000000000000000",
+		withdrawn: "400000000000000000000",
+		outstanding: "600000000000000000000",
+		integratorFeeUsd: 1250.5,
+		lifiFeeUsd: 250.1,
+		unpricedEvents: 1,
+		computedAt: new Date("2024-01-01T00:00:00.000Z"),
+		...overrides,
+	});
+
+	beforeEach(() => {
+		integratorRepository = new IntegratorRepository();
+		findMock = IntegratorBalanceModel.find as unknown as Mock;
+		sortMock = vi.fn();
+		leanMock = vi.fn();
+		execMock = vi.fn();
+
+		const queryChain = {
+			sort: sortMock,
+			lean: leanMock,
+			exec: execMock,
+		};
+
+		findMock.mockReturnValue(queryChain);
+		sortMock.mockReturnValue(queryChain);
+		leanMock.mockReturnValue(queryChain);
+	});
+
+	describe("findBalances", () => {
+		it("queries by normalized integrator and maps documents", async () => {
+			execMock.mockResolvedValue([createDoc()]);
+
+			const result = await integratorRepository.findBalances({ integrator: "0xABCDEF" });
+
+			expect(findMock).toHaveBeenCalledWith({ integrator: "0xabcdef" });
+			expect(sortMock).toHaveBeenCalledWith({ chainId: 1, token: 1 });
+			expect(result).toEqual([
+				{
+					chainId: 137,
+					token: "0x1111111111111111111111111111111111111111",
+					collected: "1000000000000000000000",
+					withdrawn: "400000000000000000000",
+					outstanding: "600000000000000000000",
+					integratorFeeUsd: 1250.5,
+					lifiFeeUsd: 250.1,
+					unpricedEvents: 1,
+					updatedAt: "2024-01-01T00:00:00.000Z",
+				},
+			]);
+		});
+
+		it("should report zero USD for balances stored before USD pricing", async () => {
+			execMock.mockResolvedValue([
+				createDoc({ integratorFeeUsd: undefined, lifiFeeUsd: undefined, unpricedEvents: undefined }),
+			]);
+
+			const [balance] = await integratorRepository.findBalances({ integrator: "0xaaaa" });
+
+			expect(balance).toMatchObject({ integratorFeeUsd: 0, lifiFeeUsd: 0, unpricedEvents: 0 });
+		});
+
+		it("should apply chain and token filters", async () => {
+			execMock.mockResolvedValue([]);
+
+			await integratorRepository.findBalances({ integrator: "0xaaaa", chainId: 1, token: "0xBBBB" });
+
+			expect(findMock).toHaveBeenCalledWith({ integrator: "0xaaaa", chainId: 1, token: "0xbbbb" });
+		});
+	});
+});
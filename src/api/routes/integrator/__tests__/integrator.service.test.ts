@@ -0,0 +1,61 @@
+import { StatusCodes } from "http-status-codes";
+import type { Logger } from "pino";
+import type { Mock } from "vitest";
+import type { IntegratorRepository } from "@/api/routes/integrator/integrator.repository";
+import { IntegratorService, IntegratorServiceError } from "@/api/routes/integrator/integrator.service";
+
+interface LoggerWithErrorOnly extends Pick<Logger, "error"> {}
+
+describe("IntegratorService", () => {
+	let repositoryMock: { findBalances: Mock };
+	let loggerMock: LoggerWithErrorOnly;
+	let integratorService: IntegratorService;
+
+	const integrator = "0x2222222222222222222222222222222222222222";
+
+	beforeEach(() => {
+		repositoryMock = {
+			findBalances: vi.fn(),
+		};
+		loggerMock = {
+			error: vi.fn(),
+		};
+		integratorService = new IntegratorService(
+			repositoryMock as unknown as IntegratorRepository,
+			loggerMock as unknown as Logger,
+		);
+	});
+
+	it("returns the integrator's balances", async () => {
+		const balance = {
+			chainId: 137,
+			token: "0x1111111111111111111111111111111111111111",
+			collected: "10",
+			withdrawn: "4",
+			outstanding: "6",
+			integratorFeeUsd: 10.5,
+			lifiFeeUsd: 2.1,
+			unpricedEvents: 0,
+			updatedAt: "2024-01-01T00:00:00.000Z",
+		};
+		repositoryMock.findBalances.mockResolvedValue([balance]);
+
+		const result = await integratorService.getBalances(integrator, 137);
+
+		expect(repositoryMock.findBalances).toHaveBeenCalledWith({ integrator, chainId: 137, token: undefined });
+		expect(result).toEqual({ integrator, data: [balance] });
+	});
+
+	it("wraps repository failures in an internal error", async () => {
+		repositoryMock.findBalances.mockRejectedValue(new Error("db down"));
+
+		const promise = integratorService.getBalances(integrator);
+
+		await expect(promise).rejects.toBeInstanceOf(IntegratorServiceError);
+		await expect(promise).rejects.toMatchObject({
+			statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
+			code: "INTERNAL_ERROR",
+		});
+		expect(loggerMock.error).toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,48 @@
+import { StatusCodes } from "http-status-codes";
+import request from "supertest";
+
+import type { IntegratorBalanceList } from "@/api/routes/integrator/integrator.model";
+import { integratorService } from "@/api/routes/integrator/integrator.router";
+import { app } from "@/api/server";
+
+describe("Integrators API Endpoints", () => {
+	const integrator = "0x2222222222222222222222222222222222222222";
+
+	it("GET /integrators/:address/balances returns data for a valid request", async () => {
+		const responseObject: IntegratorBalanceList = {
+			integrator,
+			data: [
+				{
+					chainId: 137,
+					token: "0x1111111111111111111111111111111111111111",
+					collected: "10",
+					withdrawn: "4",
+					outstanding: "6",
+					integratorFeeUsd: 10.5,
+					lifiFeeUsd: 2.1,
+					unpricedEvents: 0,
+					updatedAt: "2024-01-01T00:00:00.000Z",
+				},
+			],
+		};
+		const getBalancesSpy = vi.spyOn(integratorService, "getBalances").mockResolvedValue(responseObject);
+
+		const response = await request(app)
+			.get(`/integrators/${integrator.toUpperCase().replace("0X", "0x")}/balances`)
+			.query({ chainId: "137", token: "0x1111111111111111111111111111111111111111" });
+
+		expect(response.statusCode).toEqual(StatusCodes.OK);
+		expect(response.body).toEqual(responseObject);
+		expect(getBalancesSpy).toHaveBeenCalledWith(integrator, 137, "0x1111111111111111111111111111111111111111");
+	});
+
+	it("GET /integrators/:address/balances returns bad request for an invalid address", async () => {
+		const getBalancesSpy = vi.spyOn(integratorService, "getBalances");
+
+		const response = await request(app).get("/integrators/0x1234/balances");
+
+		expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+		expect(response.body.error.code).toEqual("INVALID_REQUEST");
+		expect(getBalancesSpy).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,44 @@
+import type { Request, RequestHandler, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+
+import { GetBalancesSchema } from "@/api/routes/integrator/integrator.model";
+import { type IntegratorService, IntegratorServiceError } from "@/api/routes/integrator/integrator.service";
+import { formatZodError } from "@/api/utils/validation";
+
+export class IntegratorController {
+	constructor(private readonly integratorService: IntegratorService) {}
+
+	public getBalances: RequestHandler = async (req: Request, res: Response) => {
+		const parsedRequest = GetBalancesSchema.safeParse({ params: req.params, query: req.query });
+		if (!parsedRequest.success) {
+			return res.status(StatusCodes.BAD_REQUEST).send({
+				error: {
+					code: "INVALID_REQUEST",
+					message: formatZodError(parsedRequest.error),
+				},
+			});
+		}
+
+		try {
+			const { params, query } = parsedRequest.data;
+			const balances = await this.integratorService.getBalances(params.address, query.chainId, query.token);
+			return res.status(StatusCodes.OK).send(balances);
+		} catch (error) {
+			if (error instanceof IntegratorServiceError) {
+				return res.status(error.statusCode).send({
+					error: {
+						code: error.code,
+						message: error.message,
+					},
+				});
+			}
+
+			return res.status(StatusCodes.INTERNAL_SERVER_ERROR).send({
+				error: {
+					code: "INTERNAL_ERROR",
+					message: "An unexpected error occurred.",
+				},
+			});
+		}
+	};
+}
@@ -0,0 +1,62 @@
+import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+import { z } from "zod";
+
+extendZodWithOpenApi(z);
+
+export const IntegratorBalanceSchema = z.object({
+	chainId: z.number(),
+	token: z.string(),
+	/** Sum of the integrator's fees over its FeesCollected events. */
+	collected: z.string(),
+	/** Sum of its FeesWithdrawn withdrawals. */
+	withdrawn: z.string(),
+	/** `collected - withdrawn`; negative if it withdrew fees collected before the indexed range. */
+	outstanding: z.string(),
+	/** Sum of `integratorFeeUsd` over the priced events, i.e. the USD value collected at collection time. */
+	integratorFeeUsd: z.number(),
+	/** Sum of `lifiFeeUsd` over the same events: LI.FI's share of the integrator's fees, in USD. */
+	lifiFeeUsd: z.number(),
+	/** Events not priced yet, or without a known price; the USD sums leave them out. */
+	unpricedEvents: z.number(),
+	/** When the balance was last recomputed from the indexed events. */
+	updatedAt: z.string().datetime(),
+});
+
+export const IntegratorBalanceListSchema = z.object({
+	integrator: z.string(),
+	data: z.array(IntegratorBalanceSchema),
+});
+
+export const IntegratorErrorSchema = z.object({
+	error: z.object({
+		code: z.string(),
+		message: z.string(),
+	}),
+});
+
+export const GetBalancesParamsSchema = z.object({
+	address: z
+		.string()
+		.regex(/^0x[0-9a-fA-F]{40}$/, "Must be a valid EVM address")
+		.transform((v) => v.toLowerCase())
+		.openapi({ description: "Integrator address" }),
+});
+
+export const GetBalancesQuerySchema = z.object({
+	chainId: z.coerce.number().int().positive().optional(),
+	token: z
+		.string()
+		.regex(/^0x[0-9a-fA-F]{40}$/, "Must be a valid EVM address")
+		.transform((v) => v.toLowerCase())
+		.optional(),
+});
+
+export const GetBalancesSchema = z.object({
+	params: GetBalancesParamsSchema,
+	query: GetBalancesQuerySchema,
+});
+
+export type IntegratorBalance = z.infer<typeof IntegratorBalanceSchema>;
+export type IntegratorBalanceList = z.infer<typeof IntegratorBalanceListSchema>;
+export type IntegratorError = z.infer<typeof IntegratorErrorSchema>;
+export type GetBalancesQuery = z.infer<typeof GetBalancesQuerySchema>;
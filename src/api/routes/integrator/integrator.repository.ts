@@ -0,0 +1,37 @@
+import type { IntegratorBalance } from "@/api/routes/integrator/integrator.model";
+import { IntegratorBalanceModel } from "@/fee-collector/models/integrator-balance";
+
+interface FindBalancesOptions {
+	integrator: string;
+	chainId?: number;
+	token?: string;
+}
+
+export class IntegratorRepository {
+	async findBalances(options: FindBalancesOptions): Promise<IntegratorBalance[]> {
+		const filter: Record<string, unknown> = { integrator: options.integrator.toLowerCase() };
+
+		if (options.chainId !== undefined) {
+			filter.chainId = options.chainId;
+		}
+
+		if (options.token !== undefined) {
+			filter.token = options.token.toLowerCase();
+		}
+
+		const docs = await IntegratorBalanceModel.find(filter).sort({ chainId: 1, token: 1 }).lean().exec();
+
+		return docs.map((doc) => ({
+			chainId: doc.chainId,
+			token: doc.token,
+			collected: doc.collected,
+			withdrawn: doc.withdrawn,
+			outstanding: doc.outstanding,
+			// Balances stored before USD pricing lack the USD fields until their next refresh
+			integratorFeeUsd: doc.integratorFeeUsd ?? 0,
+			lifiFeeUsd: doc.lifiFeeUsd ?? 0,
+			unpricedEvents: doc.unpricedEvents ?? 0,
+			updatedAt: doc.computedAt.toISOString(),
+		}));
+	}
+}
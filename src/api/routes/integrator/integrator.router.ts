@@ -0,0 +1,65 @@
+import { OpenAPIRegistry } from "@asteasolutions/zod-to-openapi";
+import express, { type Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { pino } from "pino";
+
+import { IntegratorController } from "@/api/routes/integrator/integrator.controller";
+import {
+	GetBalancesSchema,
+	IntegratorBalanceListSchema,
+	IntegratorBalanceSchema,
+	IntegratorErrorSchema,
+} from "@/api/routes/integrator/integrator.model";
+import { IntegratorRepository } from "@/api/routes/integrator/integrator.repository";
+import { IntegratorService } from "@/api/routes/integrator/integrator.service";
+
+export const integratorRegistry = new OpenAPIRegistry();
+
+integratorRegistry.register("IntegratorBalance", IntegratorBalanceSchema);
+integratorRegistry.registerPath({
+	method: "get",
+	path: "/integrators/{address}/balances",
+	tags: ["Integrators"],
+	request: {
+		params: GetBalancesSchema.shape.params,
+		query: GetBalancesSchema.shape.query,
+	},
+	responses: {
+		[StatusCodes.OK]: {
+			description: "Success",
+			content: {
+				"application/json": {
+					schema: IntegratorBalanceListSchema,
+				},
+			},
+		},
+		[StatusCodes.BAD_REQUEST]: {
+			description: "Bad Request",
+			content: {
+				"application/json": {
+					schema: IntegratorErrorSchema,
+				},
+			},
+		},
+		[StatusCodes.INTERNAL_SERVER_ERROR]: {
+			description: "Internal Server Error",
+			content: {
+				"application/json": {
+					schema: IntegratorErrorSchema,
+				},
+			},
+		},
+	},
+});
+
+export const integratorRepository = new IntegratorRepository();
+export const integratorService = new IntegratorService(integratorRepository, pino({ name: "integrators-service" }));
+export const integratorController = new IntegratorController(integratorService);
+
+function createIntegratorRouter(): Router {
+	const router = express.Router();
+	router.get("/:address/balances", integratorController.getBalances);
+	return router;
+}
+
+export const integratorRouter = createIntegratorRouter();
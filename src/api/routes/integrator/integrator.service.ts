@@ -0,0 +1,38 @@
+import { StatusCodes } from "http-status-codes";
+import type { Logger } from "pino";
+
+import type { IntegratorBalanceList } from "@/api/routes/integrator/integrator.model";
+import type { IntegratorRepository } from "./integrator.repository";
+
+export class IntegratorServiceError extends Error {
+	constructor(
+		public readonly statusCode: number,
+		public readonly code: string,
+		message: string,
+	) {
+		super(message);
+		this.name = "IntegratorServiceError";
+	}
+}
+
+export class IntegratorService {
+	constructor(
+		private readonly integratorRepository: IntegratorRepository,
+		private readonly logger: Logger,
+	) {}
+
+	/** Balances are few per integrator (one per chain and token), so they are returned in one page. */
+	async getBalances(integrator: string, chainId?: number, token?: string): Promise<IntegratorBalanceList> {
+		try {
+			const data = await this.integratorRepository.findBalances({ integrator, chainId, token });
+			return { integrator, data };
+		} catch (error) {
+			this.logger.error(`Error finding balances for integrator ${integrator}: ${(error as Error).message}`);
+			throw new IntegratorServiceError(
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				"INTERNAL_ERROR",
+				"An error occurred while retrieving balances.",
+			);
+		}
+	}
+}
@@ -0,0 +1,92 @@
+import { Types } from "mongoose";
+import { describe, type Mock } from "vitest";
+
+import { ReorgRepository } from "@/api/routes/reorg/reorg.repository";
+import { ReorgModel } from "@/fee-collector/models/reorg";
+
+vi.mock("@/fee-collector/models/reorg", () => ({
+	ReorgModel: {
+		find: vi.fn(),
+	},
+}));
+
+describe("ReorgRepository", () => {
+	let reorgRepository: ReorgRepository;
+	let findMock: Mock;
+	let sortMock: Mock;
+	let limitMock: Mock;
+	let execMock: Mock;
+
+	beforeEach(() => {
+		reorgRepository = new ReorgRepository();
+		findMock = ReorgModel.find as unknown as Mock;
+		sortMock = vi.fn();
+		limitMock = vi.fn();
+		execMock = vi.fn();
+
+		const queryChain = {
+			sort: sortMock,
+			limit: limitMock,
+			lean: () => queryChain,
+			exec: execMock,
+		};
+
+		findMock.mockReturnValue(queryChain);
+		sortMock.mockReturnValue(queryChain);
+		limitMock.mockReturnValue(queryChain);
+	});
+
+	it("queries newest first and maps documents", async () => {
+		const doc = {
+			_id: new Types.ObjectId(),
+			chainId: 137,
+			blockNumber: 150,
+			oldBlockHash: "0xold",
+			newBlockHash: "0xnew",
+			commonAncestorBlock: 146,
+			depth: 4,
+			orphanedEvents: 2,
+			affectedIntegrators: ["0x2222222222222222222222222222222222222222"],
+			createdAt: new Date("2024-01-01T00:00:00.000Z"),
+		};
+		execMock.mockResolvedValue([doc]);
+
+		const result = await reorgRepository.find({ limit: 10 });
+
+		expect(findMock).toHaveBeenCalledWith({});
+		expect(sortMock).toHaveBeenCalledWith({ _id: -1 });
+		expect(limitMock).toHaveBeenCalledWith(11);
+		expect(result).toEqual([
+			{
+				id: String(doc._id),
+				chainId: 137,
+				blockNumber: 150,
+				oldBlockHash: "0xold",
+				newBlockHash: "0xnew",
+				commonAncestorBlock: 146,
+				depth: 4,
+				orphanedEvents: 2,
+				orphanedWithdrawals: 0,
+				affectedIntegrators: ["0x2222222222222222222222222222222222222222"],
+				detectedAt: "2024-01-01T00:00:00.000Z",
+			},
+		]);
+	});
+
+	it("should apply chain, integrator and cursor filters", async () => {
+		execMock.mockResolvedValue([]);
+
+		await reorgRepository.find({
+			chainId: 1,
+			integrator: "0xABCD",
+			cursor: { id: "64b1f7b7396b38f8f4b8a3f2" },
+			limit: 25,
+		});
+
+		expect(findMock).toHaveBeenCalledWith({
+			chainId: 1,
+			affectedIntegrators: "0xabcd",
+			_id: { $lt: new Types.ObjectId("64b1f7b7396b38f8f4b8a3f2") },
+		});
+	});
+});
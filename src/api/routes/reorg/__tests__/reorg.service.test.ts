@@ -0,0 +1,82 @@
+import { StatusCodes } from "http-status-codes";
+import type { Logger } from "pino";
+import type { Mock } from "vitest";
+import type { Reorg } from "@/api/routes/reorg/reorg.model";
+import type { ReorgRepository } from "@/api/routes/reorg/reorg.repository";
+import { ReorgService } from "@/api/routes/reorg/reorg.service";
+
+describe("ReorgService", () => {
+	let repositoryMock: { find: Mock };
+	let loggerMock: Pick<Logger, "error">;
+	let reorgService: ReorgService;
+
+	const createRow = (id: string): Reorg => ({
+		id,
+		chainId: 137,
+		blockNumber: 150,
+		oldBlockHash: "0xold",
+		newBlockHash: "0xnew",
+		commonAncestorBlock: 146,
+		depth: 4,
+		orphanedEvents: 2,
+		orphanedWithdrawals: 1,
+		affectedIntegrators: [],
+		detectedAt: "2024-01-01T00:00:00.000Z",
+	});
+	const encodeCursor = (payload: { id: string }) => Buffer.from(JSON.stringify(payload), "utf-8").toString("base64");
+
+	beforeEach(() => {
+		repositoryMock = { find: vi.fn() };
+		loggerMock = { error: vi.fn() };
+		reorgService = new ReorgService(repositoryMock as unknown as ReorgRepository, loggerMock as Logger);
+	});
+
+	it("should return a page and build the next cursor from its last reorg", async () => {
+		repositoryMock.find.mockResolvedValue([
+			createRow("64b1f7b7396b38f8f4b8a3f3"),
+			createRow("64b1f7b7396b38f8f4b8a3f2"),
+			createRow("64b1f7b7396b38f8f4b8a3f1"),
+		]);
+
+		const result = await reorgService.find(137, "0xabc", undefined, 2);
+
+		expect(repositoryMock.find).toHaveBeenCalledWith({
+			chainId: 137,
+			integrator: "0xabc",
+			cursor: undefined,
+			limit: 2,
+		});
+		expect(result.data.map((reorg) => reorg.id)).toEqual(["64b1f7b7396b38f8f4b8a3f3", "64b1f7b7396b38f8f4b8a3f2"]);
+		expect(result.cursor).toBe(encodeCursor({ id: "64b1f7b7396b38f8f4b8a3f2" }));
+	});
+
+	it("should pass a valid cursor on and return a null cursor on the last page", async () => {
+		repositoryMock.find.mockResolvedValue([createRow("64b1f7b7396b38f8f4b8a3f1")]);
+
+		const result = await reorgService.find(undefined, undefined, encodeCursor({ id: "64b1f7b7396b38f8f4b8a3f2" }), 10);
+
+		expect(repositoryMock.find).toHaveBeenCalledWith(
+			expect.objectContaining({ cursor: { id: "64b1f7b7396b38f8f4b8a3f2" } }),
+		);
+		expect(result.cursor).toBeNull();
+	});
+
+	it("should throw INVALID_CURSOR when the cursor is malformed", async () => {
+		await expect(reorgService.find(undefined, undefined, "not-base64")).rejects.toMatchObject({
+			statusCode: StatusCodes.BAD_REQUEST,
+			code: "INVALID_CURSOR",
+		});
+		expect(repositoryMock.find).not.toHaveBeenCalled();
+	});
+
+	it("should wrap unknown errors into INTERNAL_ERROR and log them", async () => {
+		repositoryMock.find.mockRejectedValue(new Error("db down"));
+
+		await expect(reorgService.find()).rejects.toMatchObject({
+			statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
+			code: "INTERNAL_ERROR",
+			message: "An error occurred while retrieving reorgs.",
+		});
+		expect(loggerMock.error).toHaveBeenCalledWith(expect.stringContaining("db down"));
+	});
+});
@@ -0,0 +1,57 @@
+import { StatusCodes } from "http-status-codes";
+import request from "supertest";
+
+import type { ReorgList } from "@/api/routes/reorg/reorg.model";
+import { reorgService } from "@/api/routes/reorg/reorg.router";
+import { app } from "@/api/server";
+
+describe("Reorgs API Endpoints", () => {
+	it("GET /reorgs returns data for a valid request", async () => {
+		const responseObject: ReorgList = {
+			data: [
+				{
+					id: "64b1f7b7396b38f8f4b8a3f2",
+					chainId: 137,
+					blockNumber: 150,
+					oldBlockHash: "0xold",
+					newBlockHash: "0xnew",
+					commonAncestorBlock: 146,
+					depth: 4,
+					orphanedEvents: 2,
+					orphanedWithdrawals: 1,
+					affectedIntegrators: ["0x1111111111111111111111111111111111111111"],
+					detectedAt: "2024-01-01T00:00:00.000Z",
+				},
+			],
+			cursor: null,
+		};
+		const findSpy = vi.spyOn(reorgService, "find").mockResolvedValue(responseObject);
+
+		const response = await request(app)
+			.get("/reorgs")
+			.query({ chainId: "137", integrator: "0x1111111111111111111111111111111111111111", limit: "1" });
+
+		expect(response.statusCode).toEqual(StatusCodes.OK);
+		expect(response.body).toEqual(responseObject);
+		expect(findSpy).toHaveBeenCalledWith(137, "0x1111111111111111111111111111111111111111", undefined, 1);
+	});
+
+	it("GET /reorgs uses the default limit without filters", async () => {
+		const findSpy = vi.spyOn(reorgService, "find").mockResolvedValue({ data: [], cursor: null });
+
+		const response = await request(app).get("/reorgs");
+
+		expect(response.statusCode).toEqual(StatusCodes.OK);
+		expect(findSpy).toHaveBeenCalledWith(undefined, undefined, undefined, 50);
+	});
+
+	it("GET /reorgs returns bad request for an invalid integrator", async () => {
+		const findSpy = vi.spyOn(reorgService, "find");
+
+		const response = await request(app).get("/reorgs").query({ integrator: "not-an-address" });
+
+		expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+		expect(response.body.error.code).toEqual("INVALID_REQUEST");
+		expect(findSpy).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,44 @@
+import type { Request, RequestHandler, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+
+import { GetReorgsQuerySchema } from "@/api/routes/reorg/reorg.model";
+import { type ReorgService, ReorgServiceError } from "@/api/routes/reorg/reorg.service";
+import { formatZodError } from "@/api/utils/validation";
+
+export class ReorgController {
+	constructor(private readonly reorgService: ReorgService) {}
+
+	public getReorgs: RequestHandler = async (req: Request, res: Response) => {
+		const parsedQuery = GetReorgsQuerySchema.safeParse(req.query);
+		if (!parsedQuery.success) {
+			return res.status(StatusCodes.BAD_REQUEST).send({
+				error: {
+					code: "INVALID_REQUEST",
+					message: formatZodError(parsedQuery.error),
+				},
+			});
+		}
+
+		try {
+			const { chainId, integrator, cursor, limit } = parsedQuery.data;
+			const reorgs = await this.reorgService.find(chainId, integrator, cursor, limit);
+			return res.status(StatusCodes.OK).send(reorgs);
+		} catch (error) {
+			if (error instanceof ReorgServiceError) {
+				return res.status(error.statusCode).send({
+					error: {
+						code: error.code,
+						message: error.message,
+					},
+				});
+			}
+
+			return res.status(StatusCodes.INTERNAL_SERVER_ERROR).send({
+				error: {
+					code: "INTERNAL_ERROR",
+					message: "An unexpected error occurred.",
+				},
+			});
+		}
+	};
+}
@@ -0,0 +1,52 @@
+import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+import { z } from "zod";
+
+extendZodWithOpenApi(z);
+
+export const ReorgSchema = z.object({
+	id: z.string(),
+	chainId: z.number(),
+	/** The checkpoint block whose hash no longer matched the chain. */
+	blockNumber: z.number(),
+	oldBlockHash: z.string(),
+	newBlockHash: z.string(),
+	commonAncestorBlock: z.number(),
+	depth: z.number(),
+	orphanedEvents: z.number(),
+	orphanedWithdrawals: z.number(),
+	affectedIntegrators: z.array(z.string()),
+	detectedAt: z.string().datetime(),
+});
+
+export const ReorgListSchema = z.object({
+	data: z.array(ReorgSchema),
+	cursor: z.string().nullable(),
+});
+
+export const ReorgErrorSchema = z.object({
+	error: z.object({
+		code: z.string(),
+		message: z.string(),
+	}),
+});
+
+export const GetReorgsQuerySchema = z.object({
+	chainId: z.coerce.number().int().positive().optional(),
+	integrator: z
+		.string()
+		.regex(/^0x[0-9a-fA-F]{40}$/, "Must be a valid EVM address")
+		.transform((v) => v.toLowerCase())
+		.optional()
+		.openapi({ description: "Only reorgs that orphaned at least one of this integrator's events" }),
+	limit: z.coerce.number().int().min(1).max(200).default(50),
+	cursor: z.string().min(1).optional(),
+});
+
+export const GetReorgsSchema = z.object({
+	query: GetReorgsQuerySchema,
+});
+
+export type Reorg = z.infer<typeof ReorgSchema>;
+export type ReorgList = z.infer<typeof ReorgListSchema>;
+export type ReorgError = z.infer<typeof ReorgErrorSchema>;
+export type GetReorgsQuery = z.infer<typeof GetReorgsQuerySchema>;
@@ -0,0 +1,54 @@
+import { Types } from "mongoose";
+
+import type { Reorg } from "@/api/routes/reorg/reorg.model";
+import { ReorgModel } from "@/fee-collector/models/reorg";
+
+export interface ReorgsCursor {
+	id: string;
+}
+
+interface FindReorgsOptions {
+	chainId?: number;
+	integrator?: string;
+	cursor?: ReorgsCursor;
+	limit: number;
+}
+
+export class ReorgRepository {
+	async find(options: FindReorgsOptions): Promise<Reorg[]> {
+		const filter: Record<string, unknown> = {};
+
+		if (options.chainId !== undefined) {
+			filter.chainId = options.chainId;
+		}
+
+		if (options.integrator) {
+			filter.affectedIntegrators = options.integrator.toLowerCase();
+		}
+
+		if (options.cursor) {
+			filter._id = { $lt: new Types.ObjectId(options.cursor.id) };
+		}
+
+		const docs = await ReorgModel.find(filter)
+			.sort({ _id: -1 })
+			.limit(options.limit + 1) // Fetch one extra to determine if there's a next page
+			.lean()
+			.exec();
+
+		return docs.map((doc) => ({
+			id: String(doc._id),
+			chainId: doc.chainId,
+			blockNumber: doc.blockNumber,
+			oldBlockHash: doc.oldBlockHash,
+			newBlockHash: doc.newBlockHash,
+			commonAncestorBlock: doc.commonAncestorBlock,
+			depth: doc.depth,
+			orphanedEvents: doc.orphanedEvents,
+			// Missing on reorgs recorded before withdrawals were indexed
+			orphanedWithdrawals: doc.orphanedWithdrawals ?? 0,
+			affectedIntegrators: doc.affectedIntegrators,
+			detectedAt: doc.createdAt.toISOString(),
+		}));
+	}
+}
@@ -0,0 +1,59 @@
+import { OpenAPIRegistry } from "@asteasolutions/zod-to-openapi";
+import express, { type Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { pino } from "pino";
+
+import { ReorgController } from "@/api/routes/reorg/reorg.controller";
+import { GetReorgsSchema, ReorgErrorSchema, ReorgListSchema, ReorgSchema } from "@/api/routes/reorg/reorg.model";
+import { ReorgRepository } from "@/api/routes/reorg/reorg.repository";
+import { ReorgService } from "@/api/routes/reorg/reorg.service";
+
+export const reorgRegistry = new OpenAPIRegistry();
+
+reorgRegistry.register("Reorg", ReorgSchema);
+reorgRegistry.registerPath({
+	method: "get",
+	path: "/reorgs",
+	tags: ["Reorgs"],
+	request: {
+		query: GetReorgsSchema.shape.query,
+	},
+	responses: {
+		[StatusCodes.OK]: {
+			description: "Success",
+			content: {
+				"application/json": {
+					schema: ReorgListSchema,
+				},
+			},
+		},
+		[StatusCodes.BAD_REQUEST]: {
+			description: "Bad Request",
+			content: {
+				"application/json": {
+					schema: ReorgErrorSchema,
+				},
+			},
+		},
+		[StatusCodes.INTERNAL_SERVER_ERROR]: {
+			description: "Internal Server Error",
+			content: {
+				"application/json": {
+					schema: ReorgErrorSchema,
+				},
+			},
+		},
+	},
+});
+
+export const reorgRepository = new ReorgRepository();
+export const reorgService = new ReorgService(reorgRepository, pino({ name: "reorgs-service" }));
+export const reorgController = new ReorgController(reorgService);
+
+function createReorgRouter(): Router {
+	const router = express.Router();
+	router.get("/", reorgController.getReorgs);
+	return router;
+}
+
+export const reorgRouter = createReorgRouter();
@@ -0,0 +1,99 @@
+import { StatusCodes } from "http-status-codes";
+import type { Logger } from "pino";
+import { z } from "zod";
+
+import type { ReorgList } from "@/api/routes/reorg/reorg.model";
+import type { ReorgRepository, ReorgsCursor } from "./reorg.repository";
+
+const MAX_LIMIT = 200;
+const DEFAULT_LIMIT = 50;
+const OBJECT_ID_PATTERN = /^[0-9a-fA-F]{24}$/;
+const cursorSchema = z.object({
+	id: z.string().regex(OBJECT_ID_PATTERN),
+});
+
+export class ReorgServiceError extends Error {
+	constructor(
+		public readonly statusCode: number,
+		public readonly code: string,
+		message: string,
+	) {
+		super(message);
+		this.name = "ReorgServiceError";
+	}
+}
+
+export class ReorgService {
+	constructor(
+		private readonly reorgRepository: ReorgRepository,
+		private readonly logger: Logger,
+	) {}
+
+	async find(
+		chainId?: number,
+		integrator?: string,
+		cursor?: string,
+		limit: number = DEFAULT_LIMIT,
+	): Promise<ReorgList> {
+		try {
+			const safeLimit = Math.min(Math.max(1, limit), MAX_LIMIT);
+			let decodedCursor: ReorgsCursor | undefined;
+
+			if (cursor) {
+				decodedCursor = decodeCursor(cursor);
+				if (!decodedCursor) {
+					throw new ReorgServiceError(StatusCodes.BAD_REQUEST, "INVALID_CURSOR", "Invalid cursor");
+				}
+			}
+
+			const rows = await this.reorgRepository.find({
+				chainId,
+				integrator,
+				cursor: decodedCursor,
+				limit: safeLimit,
+			});
+
+			const hasNextPage = rows.length > safeLimit;
+			const data = hasNextPage ? rows.slice(0, safeLimit) : rows;
+			const lastRow = data[data.length - 1];
+
+			return {
+				data,
+				cursor: hasNextPage && lastRow ? encodeCursor({ id: lastRow.id }) : null,
+			};
+		} catch (error) {
+			if (error instanceof ReorgServiceError) {
+				throw error;
+			}
+
+			this.logger.error(`Error finding reorgs: ${(error as Error).message}`);
+			throw new ReorgServiceError(
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				"INTERNAL_ERROR",
+				"An error occurred while retrieving reorgs.",
+			);
+		}
+	}
+}
+
+/**
+ * Cursor format:
+ * base64(JSON.stringify({ id }))
+ *
+ * Ordering semantics:
+ * reorgs are sorted newest first by _id, and pagination continues with the next older reorg.
+ */
+function encodeCursor(payload: ReorgsCursor): string {
+	return Buffer.from(JSON.stringify(payload), "utf-8").toString("base64");
+}
+
+function decodeCursor(cursor: string): ReorgsCursor | undefined {
+	try {
+		const decoded = Buffer.from(cursor, "base64").toString("utf-8");
+		const parsed = cursorSchema.safeParse(JSON.parse(decoded));
+
+		return parsed.success ? parsed.data : undefined;
+	} catch {
+		return;
+	}
+}
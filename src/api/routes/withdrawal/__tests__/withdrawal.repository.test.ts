@@ -0,0 +1,150 @@
+import { Types } from "mongoose";
+import { describe, type Mock } from "vitest";
+
+import { WithdrawalRepository } from "@/api/routes/withdrawal/withdrawal.repository";
+import { FeesWithdrawnEventModel } from "@/fee-collector/models/fees-withdrawn-event";
+import { LiFiFeesWithdrawnEventModel } from "@/fee-collector/models/lifi-fees-withdrawn-event";
+
+vi.mock("@/fee-collector/models/fees-withdrawn-event", () => ({
+	FeesWithdrawnEventModel: {
+		find: vi.fn(),
+	},
+}));
+
+vi.mock("@/fee-collector/models/lifi-fees-withdrawn-event", () => ({
+	LiFiFeesWithdrawnEventModel: {
+		find: vi.fn(),
+	},
+}));
+
+describe("WithdrawalRepository", () => {
+	let withdrawalRepository: WithdrawalRepository;
+	let integratorFindMock: Mock;
+	let lifiFindMock: Mock;
+	let integratorExecMock: Mock;
+	let lifiExecMock: Mock;
+	let limitMock: Mock;
+	let sortMock: Mock;
+
+	const createDoc = (overrides: Record<string, unknown> = {}) => ({
+		_id: new Types.ObjectId(),
+		chainId: 137,
+		contractAddress: "0xbd6c7b0d2f68c2b7805d88388319cfb6ecb50ea9",
+		blockNumber: 100,
+		blockHash: "0xaaa",
+		txHash: "0xbbb",
+		logIndex: 1,
+		token: "0x1111111111111111111111111111111111111111",
+		to: "0x2222222222222222222222222222222222222222",
+		amount: "10",
+		blockTimestamp: 1_700_000_000,
+		...overrides,
+	});
+
+	// Mimics Mongoose's `.find().sort().limit().lean().exec()` chain
+	function queryChain(execMock: Mock) {
+		const chain = {
+			sort: (sort: unknown) => {
+				sortMock(sort);
+				return chain;
+			},
+			limit: (limit: number) => {
+				limitMock(limit);
+				return chain;
+			},
+			lean: () => chain,
+			exec: execMock,
+		};
+		return chain;
+	}
+
+	beforeEach(() => {
+		withdrawalRepository = new WithdrawalRepository();
+		integratorFindMock = FeesWithdrawnEventModel.find as unknown as Mock;
+		lifiFindMock = LiFiFeesWithdrawnEventModel.find as unknown as Mock;
+		sortMock = vi.fn();
+		limitMock = vi.fn();
+		integratorExecMock = vi.fn().mockResolvedValue([]);
+		lifiExecMock = vi.fn().mockResolvedValue([]);
+		integratorFindMock.mockReturnValue(queryChain(integratorExecMock));
+		lifiFindMock.mockReturnValue(queryChain(lifiExecMock));
+	});
+
+	it("should merge both kinds into one chain-ordered list, tagged with their type", async () => {
+		const integratorDocs = [createDoc({ blockNumber: 100, logIndex: 1 }), createDoc({ blockNumber: 102, logIndex: 0 })];
+		const lifiDocs = [createDoc({ blockNumber: 101, logIndex: 4, to: "0x3333333333333333333333333333333333333333" })];
+		integratorExecMock.mockResolvedValue(integratorDocs);
+		lifiExecMock.mockResolvedValue(lifiDocs);
+
+		const result = await withdrawalRepository.find({ limit: 10 });
+
+		expect(integratorFindMock).toHaveBeenCalledWith({ reorgId: null });
+		expect(lifiFindMock).toHaveBeenCalledWith({ reorgId: null });
+		expect(sortMock).toHaveBeenCalledWith({ blockNumber: 1, logIndex: 1, _id: 1 });
+		expect(limitMock).toHaveBeenCalledWith(11);
+		expect(result.map((row) => [row.type, row.blockNumber])).toEqual([
+			["integrator", 100],
+			["lifi", 101],
+			["integrator", 102],
+		]);
+		expect(result[1]).toEqual({
+			id: String(lifiDocs[0]?._id),
+			type: "lifi",
+			chainId: 137,
+			contractAddress: "0xbd6c7b0d2f68c2b7805d88388319cfb6ecb50ea9",
+			blockNumber: 101,
+			blockHash: "0xaaa",
+			txHash: "0xbbb",
+			logIndex: 4,
+			token: "0x1111111111111111111111111111111111111111",
+			to: "0x3333333333333333333333333333333333333333",
+			amount: "10",
+			blockTimestamp: 1_700_000_000,
+		});
+	});
+
+	it("should cap the merged list at limit + 1", async () => {
+		integratorExecMock.mockResolvedValue([createDoc({ blockNumber: 100 }), createDoc({ blockNumber: 103 })]);
+		lifiExecMock.mockResolvedValue([createDoc({ blockNumber: 101 }), createDoc({ blockNumber: 102 })]);
+
+		const result = await withdrawalRepository.find({ limit: 2 });
+
+		expect(result.map((row) => row.blockNumber)).toEqual([100, 101, 102]);
+	});
+
+	it("should only query integrator withdrawals for an integrator, with chain and cursor filters", async () => {
+		await withdrawalRepository.find({
+			chainId: 1,
+			integrator: "0xABCD",
+			cursor: { blockNumber: 100, logIndex: 3, id: "64b1f7b7396b38f8f4b8a3f2" },
+			limit: 25,
+		});
+
+		expect(lifiFindMock).not.toHaveBeenCalled();
+		expect(integratorFindMock).toHaveBeenCalledWith({
+			chainId: 1,
+			to: "0xabcd",
+			reorgId: null,
+			$or: [
+				{ blockNumber: { $gt: 100 } },
+				{ blockNumber: 100, logIndex: { $gt: 3 } },
+				{ blockNumber: 100, logIndex: 3, _id: { $gt: expect.any(Types.ObjectId) } },
+			],
+		});
+	});
+
+	it("should only query the requested type and include orphaned withdrawals when asked to", async () => {
+		const reorgId = new Types.ObjectId();
+		lifiExecMock.mockResolvedValue([
+			createDoc({ reorgId, orphanedAt: new Date("2024-01-01T00:00:00.000Z") }),
+			createDoc({ reorgId: null }),
+		]);
+
+		const result = await withdrawalRepository.find({ type: "lifi", limit: 10, includeOrphaned: true });
+
+		expect(integratorFindMock).not.toHaveBeenCalled();
+		expect(lifiFindMock).toHaveBeenCalledWith({});
+		expect(result[0]).toMatchObject({ orphanedAt: "2024-01-01T00:00:00.000Z", reorgId: String(reorgId) });
+		expect(result[1]).not.toHaveProperty("reorgId");
+	});
+});
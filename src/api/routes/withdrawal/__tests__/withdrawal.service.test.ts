@@ -0,0 +1,105 @@
+import { StatusCodes } from "http-status-codes";
+import type { Logger } from "pino";
+import type { Mock } from "vitest";
+import type { WithdrawalRepository, WithdrawalRow } from "@/api/routes/withdrawal/withdrawal.repository";
+import { WithdrawalService, WithdrawalServiceError } from "@/api/routes/withdrawal/withdrawal.service";
+
+describe("WithdrawalService", () => {
+	let repositoryMock: { find: Mock };
+	let loggerMock: Pick<Logger, "error">;
+	let withdrawalService: WithdrawalService;
+
+	const createRow = (overrides: Partial<WithdrawalRow> = {}): WithdrawalRow => ({
+		id: "64b1f7b7396b38f8f4b8a3f1",
+		type: "integrator",
+		chainId: 137,
+		contractAddress: "0xbd6c7b0d2f68c2b7805d88388319cfb6ecb50ea9",
+		blockNumber: 100,
+		blockHash: "0xaaa",
+		txHash: "0x111",
+		logIndex: 1,
+		token: "0x1111111111111111111111111111111111111111",
+		to: "0x2222222222222222222222222222222222222222",
+		amount: "10",
+		blockTimestamp: 1_700_000_000,
+		...overrides,
+	});
+	const encodeCursor = (payload: { blockNumber: number; logIndex: number; id: string }) =>
+		Buffer.from(JSON.stringify(payload), "utf-8").toString("base64");
+	const decodeCursor = (cursor: string) => JSON.parse(Buffer.from(cursor, "base64").toString("utf-8"));
+
+	beforeEach(() => {
+		repositoryMock = { find: vi.fn() };
+		loggerMock = { error: vi.fn() };
+		withdrawalService = new WithdrawalService(repositoryMock as unknown as WithdrawalRepository, loggerMock as Logger);
+	});
+
+	it("should return the first page without ids and build the next cursor from its last row", async () => {
+		repositoryMock.find.mockResolvedValue([
+			createRow(),
+			createRow({ id: "64b1f7b7396b38f8f4b8a3f2", type: "lifi", blockNumber: 101, logIndex: 0 }),
+			createRow({ id: "64b1f7b7396b38f8f4b8a3f3", blockNumber: 102 }),
+		]);
+
+		const result = await withdrawalService.find(137, undefined, undefined, undefined, 2);
+
+		expect(repositoryMock.find).toHaveBeenCalledWith({
+			chainId: 137,
+			type: undefined,
+			integrator: undefined,
+			cursor: undefined,
+			limit: 2,
+			includeOrphaned: false,
+		});
+		expect(result.data).toHaveLength(2);
+		expect(result.data[1]).not.toHaveProperty("id");
+		expect(result.data[1]?.type).toBe("lifi");
+		expect(decodeCursor(result.cursor as string)).toEqual({
+			blockNumber: 101,
+			logIndex: 0,
+			id: "64b1f7b7396b38f8f4b8a3f2",
+		});
+	});
+
+	it("should decode the cursor and return a null cursor on the last page", async () => {
+		repositoryMock.find.mockResolvedValue([createRow()]);
+		const cursor = { blockNumber: 99, logIndex: 0, id: "64b1f7b7396b38f8f4b8a3f0" };
+
+		const result = await withdrawalService.find(undefined, "integrator", "0xabc", encodeCursor(cursor), 10, true);
+
+		expect(repositoryMock.find).toHaveBeenCalledWith({
+			chainId: undefined,
+			type: "integrator",
+			integrator: "0xabc",
+			cursor,
+			limit: 10,
+			includeOrphaned: true,
+		});
+		expect(result.cursor).toBeNull();
+	});
+
+	it("should reject an invalid cursor", async () => {
+		await expect(withdrawalService.find(undefined, undefined, undefined, "not-a-cursor")).rejects.toMatchObject({
+			statusCode: StatusCodes.BAD_REQUEST,
+			code: "INVALID_CURSOR",
+		});
+		expect(repositoryMock.find).not.toHaveBeenCalled();
+	});
+
+	it("should reject an integrator filter on LI.FI withdrawals", async () => {
+		await expect(withdrawalService.find(undefined, "lifi", "0xabc")).rejects.toMatchObject({
+			statusCode: StatusCodes.BAD_REQUEST,
+			code: "INVALID_REQUEST",
+		});
+	});
+
+	it("should wrap repository errors", async () => {
+		repositoryMock.find.mockRejectedValue(new Error("db down"));
+
+		const error = await withdrawalService.find().catch((err) => err);
+
+		expect(error).toBeInstanceOf(WithdrawalServiceError);
+		expect(error).toMatchObject({ statusCode: StatusCodes.INTERNAL_SERVER_ERROR, code: "INTERNAL_ERROR" });
+		expect(loggerMock.error).toHaveBeenCalledWith("Error finding withdrawals: db down");
+	});
+});
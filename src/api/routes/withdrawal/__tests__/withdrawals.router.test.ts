@@ -0,0 +1,68 @@
+import { StatusCodes } from "http-status-codes";
+import request from "supertest";
+
+import type { WithdrawalList } from "@/api/routes/withdrawal/withdrawal.model";
+import { withdrawalService } from "@/api/routes/withdrawal/withdrawal.router";
+import { app } from "@/api/server";
+
+describe("Withdrawals API Endpoints", () => {
+	it("GET /withdrawals returns data for a valid request", async () => {
+		const responseObject: WithdrawalList = {
+			data: [
+				{
+					type: "integrator",
+					chainId: 137,
+					contractAddress: "0xbd6c7b0d2f68c2b7805d88388319cfb6ecb50ea9",
+					blockNumber: 100,
+					blockHash: "0xaaa",
+					txHash: "0x111",
+					logIndex: 1,
+					token: "0x1111111111111111111111111111111111111111",
+					to: "0x2222222222222222222222222222222222222222",
+					amount: "10",
+					blockTimestamp: 1_700_000_000,
+				},
+			],
+			cursor: null,
+		};
+		const findSpy = vi.spyOn(withdrawalService, "find").mockResolvedValue(responseObject);
+
+		const response = await request(app).get("/withdrawals").query({
+			chainId: "137",
+			type: "integrator",
+			integrator: "0x2222222222222222222222222222222222222222",
+			limit: "1",
+			includeOrphaned: "true",
+		});
+
+		expect(response.statusCode).toEqual(StatusCodes.OK);
+		expect(response.body).toEqual(responseObject);
+		expect(findSpy).toHaveBeenCalledWith(
+			137,
+			"integrator",
+			"0x2222222222222222222222222222222222222222",
+			undefined,
+			1,
+			true,
+		);
+	});
+
+	it("GET /withdrawals uses the defaults without filters", async () => {
+		const findSpy = vi.spyOn(withdrawalService, "find").mockResolvedValue({ data: [], cursor: null });
+
+		const response = await request(app).get("/withdrawals");
+
+		expect(response.statusCode).toEqual(StatusCodes.OK);
+		expect(findSpy).toHaveBeenCalledWith(undefined, undefined, undefined, undefined, 50, false);
+	});
+
+	it("GET /withdrawals returns bad request for an unknown type", async () => {
+		const findSpy = vi.spyOn(withdrawalService, "find");
+
+		const response = await request(app).get("/withdrawals").query({ type: "owner" });
+
+		expect(response.statusCode).toEqual(StatusCodes.BAD_REQUEST);
+		expect(response.body.error.code).toEqual("INVALID_REQUEST");
+		expect(findSpy).not.toHaveBeenCalled();
+	});
+});
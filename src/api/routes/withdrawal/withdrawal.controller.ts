@@ -0,0 +1,44 @@
+import type { Request, RequestHandler, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+
+import { GetWithdrawalsQuerySchema } from "@/api/routes/withdrawal/withdrawal.model";
+import { type WithdrawalService, WithdrawalServiceError } from "@/api/routes/withdrawal/withdrawal.service";
+import { formatZodError } from "@/api/utils/validation";
+
+export class WithdrawalController {
+	constructor(private readonly withdrawalService: WithdrawalService) {}
+
+	public getWithdrawals: RequestHandler = async (req: Request, res: Response) => {
+		const parsedQuery = GetWithdrawalsQuerySchema.safeParse(req.query);
+		if (!parsedQuery.success) {
+			return res.status(StatusCodes.BAD_REQUEST).send({
+				error: {
+					code: "INVALID_REQUEST",
+					message: formatZodError(parsedQuery.error),
+				},
+			});
+		}
+
+		try {
+			const { chainId, type, integrator, cursor, limit, includeOrphaned } = parsedQuery.data;
+			const withdrawals = await this.withdrawalService.find(chainId, type, integrator, cursor, limit, includeOrphaned);
+			return res.status(StatusCodes.OK).send(withdrawals);
+		} catch (error) {
+			if (error instanceof WithdrawalServiceError) {
+				return res.status(error.statusCode).send({
+					error: {
+						code: error.code,
+						message: error.message,
+					},
+				});
+			}
+
+			return res.status(StatusCodes.INTERNAL_SERVER_ERROR).send({
+				error: {
+					code: "INTERNAL_ERROR",
+					message: "An unexpected error occurred.",
+				},
+			});
+		}
+	};
+}
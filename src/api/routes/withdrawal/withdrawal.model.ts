@@ -0,0 +1,67 @@
+import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+import { z } from "zod";
+
+extendZodWithOpenApi(z);
+
+export const WithdrawalTypeSchema = z.enum(["integrator", "lifi"]).openapi({
+	description: "`integrator` for FeesWithdrawn (an integrator withdrew its fees), `lifi` for LiFiFeesWithdrawn",
+});
+
+export const WithdrawalSchema = z.object({
+	type: WithdrawalTypeSchema,
+	chainId: z.number(),
+	contractAddress: z.string(),
+	blockNumber: z.number(),
+	blockHash: z.string(),
+	txHash: z.string(),
+	logIndex: z.number(),
+	token: z.string(),
+	/** Recipient; for integrator withdrawals, the integrator itself. */
+	to: z.string(),
+	amount: z.string(),
+	blockTimestamp: z.number(),
+	/** Only on orphaned withdrawals, i.e. with `includeOrphaned=true`: when a reorg rolled the block back. */
+	orphanedAt: z.string().datetime().optional(),
+	/** Only on orphaned withdrawals: the reorg that orphaned them, see `GET /reorgs`. */
+	reorgId: z.string().optional(),
+});
+
+export const WithdrawalListSchema = z.object({
+	data: z.array(WithdrawalSchema),
+	cursor: z.string().nullable(),
+});
+
+export const WithdrawalErrorSchema = z.object({
+	error: z.object({
+		code: z.string(),
+		message: z.string(),
+	}),
+});
+
+export const GetWithdrawalsQuerySchema = z.object({
+	type: WithdrawalTypeSchema.optional(),
+	integrator: z
+		.string()
+		.regex(/^0x[0-9a-fA-F]{40}$/, "Must be a valid EVM address")
+		.transform((v) => v.toLowerCase())
+		.optional()
+		.openapi({ description: "Only this integrator's withdrawals; implies `type=integrator`" }),
+	chainId: z.coerce.number().int().positive().optional(),
+	limit: z.coerce.number().int().min(1).max(200).default(50),
+	cursor: z.string().min(1).optional(),
+	includeOrphaned: z
+		.enum(["true", "false"])
+		.default("false")
+		.transform((v) => v === "true")
+		.openapi({ description: "Also return withdrawals orphaned by a reorg" }),
+});
+
+export const GetWithdrawalsSchema = z.object({
+	query: GetWithdrawalsQuerySchema,
+});
+
+export type WithdrawalType = z.infer<typeof WithdrawalTypeSchema>;
+export type Withdrawal = z.infer<typeof WithdrawalSchema>;
+export type WithdrawalList = z.infer<typeof WithdrawalListSchema>;
+export type WithdrawalError = z.infer<typeof WithdrawalErrorSchema>;
+export type GetWithdrawalsQuery = z.infer<typeof GetWithdrawalsQuerySchema>;
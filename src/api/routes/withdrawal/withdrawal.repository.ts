@@ -0,0 +1,107 @@
+import { Types } from "mongoose";
+
+import type { Withdrawal, WithdrawalType } from "@/api/routes/withdrawal/withdrawal.model";
+import { FeesWithdrawnEventModel } from "@/fee-collector/models/fees-withdrawn-event";
+import { LiFiFeesWithdrawnEventModel } from "@/fee-collector/models/lifi-fees-withdrawn-event";
+
+export interface WithdrawalsCursor {
+	blockNumber: number;
+	logIndex: number;
+	id: string;
+}
+
+interface FindWithdrawalsOptions {
+	chainId?: number;
+	/** Both kinds unless set. */
+	type?: WithdrawalType;
+	/** Only FeesWithdrawn events of this integrator. */
+	integrator?: string;
+	cursor?: WithdrawalsCursor;
+	limit: number;
+	/** Orphaned withdrawals are left out unless set. */
+	includeOrphaned?: boolean;
+}
+
+export interface WithdrawalRow extends Withdrawal {
+	id: string;
+}
+
+const MODELS = {
+	integrator: FeesWithdrawnEventModel,
+	lifi: LiFiFeesWithdrawnEventModel,
+} as const;
+
+export class WithdrawalRepository {
+	/**
+	 * Withdrawals of both collections merged into one (blockNumber, logIndex, _id) ordering. Each collection
+	 * is asked for `limit + 1` rows past the cursor, which is enough to fill the merged page and tell if there's more.
+	 */
+	async find(options: FindWithdrawalsOptions): Promise<WithdrawalRow[]> {
+		const filter: Record<string, unknown> = {};
+
+		if (options.chainId !== undefined) {
+			filter.chainId = options.chainId;
+		}
+
+		if (options.integrator) {
+			filter.to = options.integrator.toLowerCase();
+		}
+
+		if (!options.includeOrphaned) {
+			filter.reorgId = null;
+		}
+
+		if (options.cursor) {
+			filter.$or = [
+				{ blockNumber: { $gt: options.cursor.blockNumber } },
+				{ blockNumber: options.cursor.blockNumber, logIndex: { $gt: options.cursor.logIndex } },
+				{
+					blockNumber: options.cursor.blockNumber,
+					logIndex: options.cursor.logIndex,
+					_id: { $gt: new Types.ObjectId(options.cursor.id) },
+				},
+			];
+		}
+
+		const results = await Promise.all(
+			typesToQuery(options).map(async (type) => {
+				const docs = await MODELS[type]
+					.find(filter)
+					.sort({ blockNumber: 1, logIndex: 1, _id: 1 })
+					.limit(options.limit + 1) // Fetch one extra to determine if there's a next page
+					.lean()
+					.exec();
+
+				return docs.map(
+					(doc): WithdrawalRow => ({
+						id: String(doc._id),
+						type,
+						chainId: doc.chainId,
+						contractAddress: doc.contractAddress,
+						blockNumber: doc.blockNumber,
+						blockHash: doc.blockHash,
+						txHash: doc.txHash,
+						logIndex: doc.logIndex,
+						token: doc.token,
+						to: doc.to,
+						amount: doc.amount,
+						blockTimestamp: doc.blockTimestamp,
+						...(doc.reorgId && { orphanedAt: doc.orphanedAt?.toISOString(), reorgId: String(doc.reorgId) }),
+					}),
+				);
+			}),
+		);
+
+		// ObjectId hex strings sort like the ids themselves, so the merge matches MongoDB's _id order
+		return results
+			.flat()
+			.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex || (a.id < b.id ? -1 : 1))
+			.slice(0, options.limit + 1);
+	}
+}
+
+function typesToQuery(options: FindWithdrawalsOptions): WithdrawalType[] {
+	if (options.type) return [options.type];
+	// LI.FI withdrawals have no integrator, so an integrator filter rules them out
+	return options.integrator ? ["integrator"] : ["integrator", "lifi"];
+}
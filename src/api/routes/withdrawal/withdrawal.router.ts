@@ -0,0 +1,64 @@
+import { OpenAPIRegistry } from "@asteasolutions/zod-to-openapi";
+import express, { type Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { pino } from "pino";
+
+import { WithdrawalController } from "@/api/routes/withdrawal/withdrawal.controller";
+import {
+	GetWithdrawalsSchema,
+	WithdrawalErrorSchema,
+	WithdrawalListSchema,
+	WithdrawalSchema,
+} from "@/api/routes/withdrawal/withdrawal.model";
+import { WithdrawalRepository } from "@/api/routes/withdrawal/withdrawal.repository";
+import { WithdrawalService } from "@/api/routes/withdrawal/withdrawal.service";
+
+export const withdrawalRegistry = new OpenAPIRegistry();
+
+withdrawalRegistry.register("Withdrawal", WithdrawalSchema);
+withdrawalRegistry.registerPath({
+	method: "get",
+	path: "/withdrawals",
+	tags: ["Withdrawals"],
+	request: {
+		query: GetWithdrawalsSchema.shape.query,
+	},
+	responses: {
+		[StatusCodes.OK]: {
+			description: "Success",
+			content: {
+				"application/json": {
+					schema: WithdrawalListSchema,
+				},
+			},
+		},
+		[StatusCodes.BAD_REQUEST]: {
+			description: "Bad Request",
+			content: {
+				"application/json": {
+					schema: WithdrawalErrorSchema,
+				},
+			},
+		},
+		[StatusCodes.INTERNAL_SERVER_ERROR]: {
+			description: "Internal Server Error",
+			content: {
+				"application/json": {
+					schema: WithdrawalErrorSchema,
+				},
+			},
+		},
+	},
+});
+
+export const withdrawalRepository = new WithdrawalRepository();
+export const withdrawalService = new WithdrawalService(withdrawalRepository, pino({ name: "withdrawals-service" }));
+export const withdrawalController = new WithdrawalController(withdrawalService);
+
+function createWithdrawalRouter(): Router {
+	const router = express.Router();
+	router.get("/", withdrawalController.getWithdrawals);
+	return router;
+}
+
+export const withdrawalRouter = createWithdrawalRouter();
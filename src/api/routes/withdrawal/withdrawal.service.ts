@@ -0,0 +1,122 @@
+import { StatusCodes } from "http-status-codes";
+import type { Logger } from "pino";
+import { z } from "zod";
+
+import type { WithdrawalList, WithdrawalType } from "@/api/routes/withdrawal/withdrawal.model";
+import type { WithdrawalRepository, WithdrawalRow, WithdrawalsCursor } from "./withdrawal.repository";
+
+const MAX_LIMIT = 200;
+const DEFAULT_LIMIT = 50;
+const OBJECT_ID_PATTERN = /^[0-9a-fA-F]{24}$/;
+const cursorSchema = z.object({
+	blockNumber: z.number().int(),
+	logIndex: z.number().int(),
+	id: z.string().regex(OBJECT_ID_PATTERN),
+});
+
+export class WithdrawalServiceError extends Error {
+	constructor(
+		public readonly statusCode: number,
+		public readonly code: string,
+		message: string,
+	) {
+		super(message);
+		this.name = "WithdrawalServiceError";
+	}
+}
+
+export class WithdrawalService {
+	constructor(
+		private readonly withdrawalRepository: WithdrawalRepository,
+		private readonly logger: Logger,
+	) {}
+
+	async find(
+		chainId?: number,
+		type?: WithdrawalType,
+		integrator?: string,
+		cursor?: string,
+		limit: number = DEFAULT_LIMIT,
+		includeOrphaned = false,
+	): Promise<WithdrawalList> {
+		try {
+			if (integrator && type === "lifi") {
+				throw new WithdrawalServiceError(
+					StatusCodes.BAD_REQUEST,
+					"INVALID_REQUEST",
+					"integrator only applies to integrator withdrawals, not type=lifi",
+				);
+			}
+
+			const safeLimit = Math.min(Math.max(1, limit), MAX_LIMIT);
+			let decodedCursor: WithdrawalsCursor | undefined;
+
+			if (cursor) {
+				decodedCursor = decodeCursor(cursor);
+				if (!decodedCursor) {
+					throw new WithdrawalServiceError(StatusCodes.BAD_REQUEST, "INVALID_CURSOR", "Invalid cursor");
+				}
+			}
+
+			const rows = await this.withdrawalRepository.find({
+				chainId,
+				type,
+				integrator,
+				cursor: decodedCursor,
+				limit: safeLimit,
+				includeOrphaned,
+			});
+
+			const hasNextPage = rows.length > safeLimit;
+			const pageRows = hasNextPage ? rows.slice(0, safeLimit) : rows;
+			const lastRow = pageRows[pageRows.length - 1];
+			const nextCursor =
+				hasNextPage && lastRow
+					? encodeCursor({ blockNumber: lastRow.blockNumber, logIndex: lastRow.logIndex, id: lastRow.id })
+					: null;
+
+			return {
+				data: mapRowsToWithdrawals(pageRows),
+				cursor: nextCursor,
+			};
+		} catch (error) {
+			if (error instanceof WithdrawalServiceError) {
+				throw error;
+			}
+
+			this.logger.error(`Error finding withdrawals: ${(error as Error).message}`);
+			throw new WithdrawalServiceError(
+				StatusCodes.INTERNAL_SERVER_ERROR,
+				"INTERNAL_ERROR",
+				"An error occurred while retrieving withdrawals.",
+			);
+		}
+	}
+}
+
+/**
+ * Cursor format:
+ * base64(JSON.stringify({ blockNumber, logIndex, id }))
+ *
+ * Ordering semantics:
+ * withdrawals of both kinds are sorted by (blockNumber ASC, logIndex ASC, _id ASC), like fees,
+ * and pagination continues from the strict successor of that tuple.
+ */
+function encodeCursor(payload: WithdrawalsCursor): string {
+	return Buffer.from(JSON.stringify(payload), "utf-8").toString("base64");
+}
+
+function decodeCursor(cursor: string): WithdrawalsCursor | undefined {
+	try {
+		const decoded = Buffer.from(cursor, "base64").toString("utf-8");
+		const parsed = cursorSchema.safeParse(JSON.parse(decoded));
+
+		return parsed.success ? parsed.data : undefined;
+	} catch {
+		return;
+	}
+}
+
+function mapRowsToWithdrawals(rows: WithdrawalRow[]) {
+	return rows.map(({ id: _id, ...withdrawal }) => withdrawal);
+}
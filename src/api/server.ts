@@ -2,13 +2,16 @@ import cors from "cors";
 import express, { type Express } from "express";
 import helmet from "helmet";
 import { pino } from "pino";
-import { feeRouter } from "@/api/routes/fee/fee.router";
-import { healthCheckRouter } from "@/api/routes/health-check/health-check.router";
-import { openAPIRouter } from "@/api/routes/api-docs/open-api.router";
+import { env } from "@/api/env.config";
 import errorHandler from "@/api/middleware/error.handler";
 import rateLimiter from "@/api/middleware/rate.limiter";
 import requestLogger from "@/api/middleware/request.logger";
-import { env } from "@/api/env.config";
+import { openAPIRouter } from "@/api/routes/api-docs/open-api.router";
+import { feeRouter } from "@/api/routes/fee/fee.router";
+import { healthCheckRouter } from "@/api/routes/health-check/health-check.router";
+import { integratorRouter } from "@/api/routes/integrator/integrator.router";
+import { reorgRouter } from "@/api/routes/reorg/reorg.router";
+import { withdrawalRouter } from "@/api/routes/withdrawal/withdrawal.router";
 
 const logger = pino({ name: "server start" });
 const app: Express = express();
@@ -29,6 +32,9 @@ app.use(requestLogger);
 // Routes
 app.use("/health-check", healthCheckRouter);
 app.use("/fees", feeRouter);
+app.use("/reorgs", reorgRouter);
+app.use("/withdrawals", withdrawalRouter);
+app.use("/integrators", integratorRouter);
 
 // Swagger UI
 app.use(openAPIRouter);
@@ -0,0 +1,11 @@
+import type { ZodError } from "zod";
+
+/** Joins every issue into one `path: message` list, the format used by INVALID_REQUEST errors. */
+export function formatZodError(error: ZodError): string {
+	return error.errors
+		.map((issue) => {
+			const path = issue.path.join(".");
+			return path ? `${path}: ${issue.message}` : issue.message;
+		})
+		.join("; ");
+}
@@ -0,0 +1,53 @@
+import { BigNumber, ethers } from "ethers";
+import {
+	decodeFeesCollected,
+	FEES_COLLECTED_TOPICS,
+	type FeesCollectedAbiVersion,
+	findFeesCollectedVersion,
+	UnknownAbiVersionError,
+} from "@/fee-collector/abi/fees-collected";
+
+const token = "0x1111111111111111111111111111111111111111";
+const integrator = "0x2222222222222222222222222222222222222222";
+
+function log(topics: string[], data: string, blockNumber = 100) {
+	return { blockNumber, topics, data } as ethers.providers.Log;
+}
+
+describe("FeesCollected ABI versions", () => {
+	it("should decode a v1 log into the common arguments", () => {
+		const v1 = new ethers.utils.Interface([
+			"event FeesCollected(address indexed _token, address indexed _integrator, uint256 _integratorFee, uint256 _lifiFee)",
+		]);
+		const { data, topics } = v1.encodeEventLog(v1.getEvent("FeesCollected"), [token, integrator, 10, 2]);
+
+		const args = decodeFeesCollected(137, log(topics, data));
+
+		expect(FEES_COLLECTED_TOPICS).toEqual([topics[0]]);
+		expect(args.token.toLowerCase()).toBe(token);
+		expect(args.integrator.toLowerCase()).toBe(integrator);
+		expect(args.integratorFee.toString()).toBe("10");
+		expect(args.lifiFee.toString()).toBe("2");
+	});
+
+	it("should throw UnknownAbiVersionError for a topic no version has", () => {
+		expect(() => decodeFeesCollected(137, log(["0xdead"], "0x"))).toThrow(UnknownAbiVersionError);
+	});
+
+	// Moving `indexed` keeps the topic, so versions sharing one are told apart by their blocks on each chain
+	it("should pick the version active at the log's block on its chain", () => {
+		const decoded = { token, integrator, integratorFee: BigNumber.from(1), lifiFee: BigNumber.from(0) };
+		const versions: FeesCollectedAbiVersion[] = [
+			{ version: "v1", topic: "0xfee", activeBlocks: { 137: { fromBlock: 0, toBlock: 499 } }, decode: () => decoded },
+			{ version: "v2", topic: "0xfee", activeBlocks: { 137: { fromBlock: 500 } }, decode: () => decoded },
+		];
+
+		expect(findFeesCollectedVersion(137, log(["0xfee"], "0x", 499), versions)?.version).toBe("v1");
+		expect(findFeesCollectedVersion(137, log(["0xfee"], "0x", 500), versions)?.version).toBe("v2");
+		// Without ranges for the chain, the first version with the topic applies at every block
+		expect(findFeesCollectedVersion(1, log(["0xfee"], "0x", 500), versions)?.version).toBe("v1");
+		expect(() => decodeFeesCollected(137, log(["0xother"], "0x", 500), versions)).toThrow(
+			"Log with topic 0xother at block 500 matches no known FeesCollected ABI version",
+		);
+	});
+});
@@ -0,0 +1,205 @@
+const mocks = vi.hoisted(() => ({
+	connectMongo: vi.fn(),
+	disconnectMongo: vi.fn(),
+	parseChainFlag: vi.fn(),
+	createWorkerConfigs: vi.fn(),
+	getChainStatus: vi.fn(),
+	planReset: vi.fn(),
+	applyReset: vi.fn(),
+	planPurge: vi.fn(),
+	applyPurge: vi.fn(),
+	planRescan: vi.fn(),
+	rescanRange: vi.fn(),
+	withAuditRecord: vi.fn(),
+}));
+
+vi.mock("@/common/db/mongo", () => ({
+	connectMongo: mocks.connectMongo,
+	disconnectMongo: mocks.disconnectMongo,
+}));
+
+vi.mock("@/fee-collector/services/admin.service", () => ({
+	getChainStatus: mocks.getChainStatus,
+	planReset: mocks.planReset,
+	applyReset: mocks.applyReset,
+	planPurge: mocks.planPurge,
+	applyPurge: mocks.applyPurge,
+	planRescan: mocks.planRescan,
+	rescanRange: mocks.rescanRange,
+	withAuditRecord: mocks.withAuditRecord,
+}));
+
+vi.mock("@/fee-collector/worker.helpers", () => ({
+	parseChainFlag: mocks.parseChainFlag,
+	createWorkerConfigs: mocks.createWorkerConfigs,
+}));
+
+vi.mock("@/fee-collector/config/chains.config", () => ({
+	CHAIN_REGISTRY: [
+		{ chainId: 137, name: "polygon", enabled: true, deployments: [] },
+		{ chainId: 1, name: "ethereum", enabled: false, deployments: [] },
+	],
+}));
+
+vi.mock("@/fee-collector/config/env.config", () => ({
+	env: { MONGO_URI: "mongodb://localhost:27017", MONGO_DB: "test-db" },
+}));
+
+import type { Logger } from "pino";
+import { parseAdminArgs, run } from "@/fee-collector/admin";
+import { CHAIN_REGISTRY } from "@/fee-collector/config/chains.config";
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: () => logger } as unknown as Logger;
+
+describe("parseAdminArgs", () => {
+	it("should select the chains --chain names for status", () => {
+		mocks.parseChainFlag.mockReturnValueOnce(["polygon"]);
+
+		expect(parseAdminArgs(["node", "admin.js", "--", "status"], CHAIN_REGISTRY)).toEqual({
+			command: "status",
+			chains: [CHAIN_REGISTRY[0]],
+		});
+	});
+
+	it("should parse each mutating command with its flags", () => {
+		expect(
+			parseAdminArgs(["node", "admin.js", "reset", "--chain", "ethereum", "--to-block", "0", "--yes"], CHAIN_REGISTRY),
+		).toEqual({ command: "reset", chain: CHAIN_REGISTRY[1], toBlock: 0, dryRun: false, yes: true });
+		expect(
+			parseAdminArgs(["node", "admin.js", "purge-events", "--chain", "polygon", "--from", "500"], CHAIN_REGISTRY),
+		).toMatchObject({ command: "purge-events", fromBlock: 500 });
+		expect(
+			parseAdminArgs(
+				["node", "admin.js", "rescan", "--chain", "polygon", "--range", "100:200", "--dry-run"],
+				CHAIN_REGISTRY,
+			),
+		).toMatchObject({ command: "rescan", fromBlock: 100, toBlock: 200, dryRun: true });
+	});
+
+	it("should reject unknown commands and missing or invalid flags", () => {
+		expect(() => parseAdminArgs(["node", "admin.js", "drop"], CHAIN_REGISTRY)).toThrow('Unknown command "drop"');
+		expect(() => parseAdminArgs(["node", "admin.js", "reset", "--to-block", "5"], CHAIN_REGISTRY)).toThrow(
+			"reset needs exactly one chain",
+		);
+		expect(() => parseAdminArgs(["node", "admin.js", "reset", "--chain", "polygon"], CHAIN_REGISTRY)).toThrow(
+			"reset needs --to-block <block>",
+		);
+		expect(() =>
+			parseAdminArgs(["node", "admin.js", "rescan", "--chain", "polygon", "--range", "200:100"], CHAIN_REGISTRY),
+		).toThrow("--range must be <from>:<to> with from <= to");
+		expect(() =>
+			parseAdminArgs(["node", "admin.js", "rescan", "--chain", "polygon", "--range", "100-200"], CHAIN_REGISTRY),
+		).toThrow("rescan needs --range <from>:<to>");
+	});
+});
+
+describe("Admin run()", () => {
+	const client = { mock: "client" };
+	const syncConfig = { chainId: 137, confirmations: 20, batchSize: 100, enrichTransactions: false };
+	const resetPlan = { chainId: 137, fromBlock: 900, toBlock: 800, toBlockHash: "0xhash800", ledgerEntries: 3 };
+	const signal = new AbortController().signal;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		process.exitCode = undefined;
+		mocks.createWorkerConfigs.mockImplementation((chains: { name: string }[]) =>
+			chains.map((chain) => ({ chain, client, syncConfig })),
+		);
+		mocks.planReset.mockResolvedValue(resetPlan);
+		mocks.applyReset.mockResolvedValue({ fromBlock: 900, toBlock: 800, ledgerEntries: 3 });
+		mocks.withAuditRecord.mockImplementation((_context, _plan, fn: () => Promise<unknown>) => fn());
+	});
+
+	it("should log each chain's status", async () => {
+		mocks.parseChainFlag.mockReturnValue(["polygon"]);
+		mocks.getChainStatus.mockResolvedValue({ chain: "polygon", lag: 4 });
+
+		await run(["node", "admin.js", "status"], signal, logger);
+
+		expect(mocks.getChainStatus).toHaveBeenCalledWith(client, { chainId: 137, name: "polygon", confirmations: 20 });
+		expect(logger.info).toHaveBeenCalledWith({ status: { chain: "polygon", lag: 4 } }, "chain status");
+		expect(mocks.disconnectMongo).toHaveBeenCalledTimes(1);
+	});
+
+	it("should only log the plan on a dry run", async () => {
+		const prompt = vi.fn();
+
+		await run(
+			["node", "admin.js", "reset", "--chain", "polygon", "--to-block", "800", "--dry-run"],
+			signal,
+			logger,
+			prompt,
+		);
+
+		expect(logger.info).toHaveBeenCalledWith({ plan: resetPlan }, "dry run, reset not applied");
+		expect(prompt).not.toHaveBeenCalled();
+		expect(mocks.withAuditRecord).not.toHaveBeenCalled();
+		expect(mocks.applyReset).not.toHaveBeenCalled();
+	});
+
+	it("should apply a destructive command once the operator types the chain's name, with an audit record", async () => {
+		const prompt = vi.fn().mockResolvedValue("polygon\n");
+
+		await run(["node", "admin.js", "reset", "--chain", "polygon", "--to-block", "800"], signal, logger, prompt);
+
+		expect(prompt).toHaveBeenCalledWith('Type "polygon" to reset as planned above: ');
+		expect(mocks.withAuditRecord).toHaveBeenCalledWith(
+			expect.objectContaining({
+				command: "reset",
+				chainId: 137,
+				argv: ["reset", "--chain", "polygon", "--to-block", "800"],
+			}),
+			resetPlan,
+			expect.any(Function),
+		);
+		expect(mocks.applyReset).toHaveBeenCalledWith(resetPlan, logger);
+		expect(process.exitCode).toBeUndefined();
+	});
+
+	it("should change nothing and exit non-zero when not confirmed", async () => {
+		const prompt = vi.fn().mockResolvedValue("ethereum");
+
+		await run(["node", "admin.js", "reset", "--chain", "polygon", "--to-block", "800"], signal, logger, prompt);
+
+		expect(mocks.withAuditRecord).not.toHaveBeenCalled();
+		expect(mocks.applyReset).not.toHaveBeenCalled();
+		expect(process.exitCode).toBe(1);
+	});
+
+	it("should skip the prompt with --yes", async () => {
+		const prompt = vi.fn();
+		const purgePlan = { chainId: 137, fromBlock: 500 };
+		mocks.planPurge.mockResolvedValue(purgePlan);
+		mocks.applyPurge.mockResolvedValue({ feesCollected: 5 });
+
+		await run(
+			["node", "admin.js", "purge-events", "--chain", "polygon", "--from", "500", "--yes"],
+			signal,
+			logger,
+			prompt,
+		);
+
+		expect(prompt).not.toHaveBeenCalled();
+		expect(mocks.applyPurge).toHaveBeenCalledWith(purgePlan, logger);
+	});
+
+	it("should rescan without a prompt and exit non-zero when stopped early", async () => {
+		const prompt = vi.fn();
+		const rescanPlan = { chainId: 137, fromBlock: 100, toBlock: 200, storedEvents: 4 };
+		mocks.planRescan.mockResolvedValue(rescanPlan);
+		mocks.rescanRange.mockResolvedValue({ lastProcessedBlock: 150, eventsAdded: 1 });
+
+		await run(["node", "admin.js", "rescan", "--chain", "polygon", "--range", "100:200"], signal, logger, prompt);
+
+		expect(mocks.planRescan).toHaveBeenCalledWith(
+			client,
+			syncConfig,
+			expect.objectContaining({ fromBlock: 100, toBlock: 200 }),
+			logger,
+		);
+		expect(mocks.rescanRange).toHaveBeenCalledWith(client, rescanPlan, syncConfig, logger, signal);
+		expect(mocks.withAuditRecord).toHaveBeenCalledTimes(1);
+		expect(prompt).not.toHaveBeenCalled();
+		expect(process.exitCode).toBe(1);
+	});
+});
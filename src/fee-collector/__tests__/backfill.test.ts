@@ -0,0 +1,175 @@
+const mocks = vi.hoisted(() => ({
+	connectMongo: vi.fn(),
+	disconnectMongo: vi.fn(),
+	backfill: vi.fn(),
+	createWorkerConfigs: vi.fn(),
+}));
+
+vi.mock("@/common/db/mongo", () => ({
+	connectMongo: mocks.connectMongo,
+	disconnectMongo: mocks.disconnectMongo,
+}));
+
+vi.mock("@/fee-collector/services/backfill.service", () => ({
+	backfill: mocks.backfill,
+}));
+
+vi.mock("@/fee-collector/worker.helpers", () => ({
+	createWorkerConfigs: mocks.createWorkerConfigs,
+}));
+
+vi.mock("@/fee-collector/config/chains.config", () => ({
+	CHAIN_REGISTRY: [
+		{ chainId: 137, name: "polygon", enabled: true, deployments: [{ address: "0xcontract", startBlock: 100 }] },
+		{ chainId: 1, name: "ethereum", enabled: false, deployments: [{ address: "0xcontract", startBlock: 500 }] },
+	],
+	getChainStartBlock: (deployments: { startBlock: number }[]) => Math.min(...deployments.map((d) => d.startBlock)),
+}));
+
+vi.mock("@/fee-collector/config/env.config", () => ({
+	env: {
+		MONGO_URI: "mongodb://localhost:27017",
+		MONGO_DB: "test-db",
+		FEE_COLLECTOR_BACKFILL_SEGMENT_SIZE: 50_000,
+		FEE_COLLECTOR_BACKFILL_CONCURRENCY: 4,
+	},
+}));
+
+import type { Logger } from "pino";
+import { parseBackfillArgs, run } from "@/fee-collector/backfill";
+import { CHAIN_REGISTRY } from "@/fee-collector/config/chains.config";
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Logger;
+
+describe("parseBackfillArgs", () => {
+	it("should default the range start, segment size and concurrency", () => {
+		expect(parseBackfillArgs(["node", "backfill.js", "--chain", "polygon"], CHAIN_REGISTRY)).toEqual({
+			chain: CHAIN_REGISTRY[0],
+			fromBlock: 100,
+			toBlock: undefined,
+			segmentSize: 50_000,
+			concurrency: 4,
+		});
+	});
+
+	it("should parse explicit flags and accept disabled chains", () => {
+		const argv = [
+			"node",
+			"backfill.js",
+			"--chain",
+			"ethereum",
+			"--from",
+			"600",
+			"--to",
+			"900",
+			"--segment-size",
+			"100",
+		];
+
+		expect(parseBackfillArgs([...argv, "--concurrency", "8"], CHAIN_REGISTRY)).toEqual({
+			chain: CHAIN_REGISTRY[1],
+			fromBlock: 600,
+			toBlock: 900,
+			segmentSize: 100,
+			concurrency: 8,
+		});
+	});
+
+	it("should require exactly one known chain", () => {
+		expect(() => parseBackfillArgs(["node", "backfill.js"], CHAIN_REGISTRY)).toThrow(
+			"Backfill needs exactly one chain",
+		);
+		expect(() => parseBackfillArgs(["node", "backfill.js", "--chain", "polygon,ethereum"], CHAIN_REGISTRY)).toThrow(
+			"Backfill needs exactly one chain",
+		);
+		expect(() => parseBackfillArgs(["node", "backfill.js", "--chain", "solana"], CHAIN_REGISTRY)).toThrow(
+			'Unknown chain "solana". Valid chains: polygon, ethereum',
+		);
+	});
+
+	it("should reject invalid numbers and inverted ranges", () => {
+		expect(() =>
+			parseBackfillArgs(["node", "backfill.js", "--chain", "polygon", "--concurrency", "0"], CHAIN_REGISTRY),
+		).toThrow('--concurrency must be an integer of at least 1, got "0"');
+		expect(() =>
+			parseBackfillArgs(["node", "backfill.js", "--chain", "polygon", "--from", "--to", "5"], CHAIN_REGISTRY),
+		).toThrow("--from needs a value");
+		expect(() =>
+			parseBackfillArgs(["node", "backfill.js", "--chain", "polygon", "--from", "200", "--to", "150"], CHAIN_REGISTRY),
+		).toThrow("--to (150) must not be below --from (200)");
+	});
+});
+
+describe("Backfill run()", () => {
+	const client = { mock: "client" };
+	const syncConfig = {
+		chainId: 137,
+		confirmations: 20,
+		batchSize: 10,
+		minBatchSize: 1,
+		maxBatchSize: 2000,
+		targetLogsPerBatch: 1000,
+		batchDelayMs: 200,
+		enrichTransactions: true,
+	};
+	const report = { chainId: 137, fromBlock: 100, toBlock: 200, gaps: [], complete: true };
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		process.exitCode = undefined;
+		mocks.createWorkerConfigs.mockReturnValue([{ client, syncConfig }]);
+		mocks.backfill.mockResolvedValue(report);
+	});
+
+	it("should backfill the chain with its sync settings and log the coverage report", async () => {
+		const signal = new AbortController().signal;
+
+		await run(["node", "backfill.js", "--chain", "polygon", "--to", "200"], signal, logger);
+
+		expect(mocks.createWorkerConfigs).toHaveBeenCalledWith([CHAIN_REGISTRY[0]]);
+		expect(mocks.backfill).toHaveBeenCalledWith(
+			client,
+			{
+				chainId: 137,
+				fromBlock: 100,
+				toBlock: 200,
+				confirmations: 20,
+				segmentSize: 50_000,
+				concurrency: 4,
+				batchSize: 10,
+				minBatchSize: 1,
+				maxBatchSize: 2000,
+				targetLogsPerBatch: 1000,
+				batchDelayMs: 200,
+				enrichTransactions: true,
+			},
+			logger,
+			signal,
+		);
+		expect(logger.info).toHaveBeenCalledWith({ chain: "polygon", report }, "backfill complete");
+		expect(process.exitCode).toBeUndefined();
+		expect(mocks.disconnectMongo).toHaveBeenCalledTimes(1);
+	});
+
+	it("should exit non-zero when gaps remain", async () => {
+		const incomplete = { ...report, gaps: [{ fromBlock: 150, toBlock: 200 }], complete: false };
+		mocks.backfill.mockResolvedValue(incomplete);
+
+		await run(["node", "backfill.js", "--chain", "polygon"], new AbortController().signal, logger);
+
+		expect(logger.warn).toHaveBeenCalledWith(
+			{ chain: "polygon", report: incomplete },
+			"backfill incomplete, re-run the same range to resume",
+		);
+		expect(process.exitCode).toBe(1);
+	});
+
+	it("should disconnect mongo when the backfill throws", async () => {
+		mocks.backfill.mockRejectedValue(new Error("Backfill range is empty"));
+
+		await expect(
+			run(["node", "backfill.js", "--chain", "polygon"], new AbortController().signal, logger),
+		).rejects.toThrow("Backfill range is empty");
+		expect(mocks.disconnectMongo).toHaveBeenCalledTimes(1);
+	});
+});
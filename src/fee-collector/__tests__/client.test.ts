@@ -1,17 +1,40 @@
 const mocks = vi.hoisted(() => {
-	const provider = {
+	const createProvider = () => ({
 		getBlock: vi.fn(),
 		getBlockNumber: vi.fn(),
+		getTransaction: vi.fn(),
+		getTransactionReceipt: vi.fn(),
+		getCode: vi.fn(),
+		send: vi.fn(),
+		connection: { url: "" },
+		formatter: {
+			block: (raw: unknown) => raw,
+			transactionResponse: (raw: unknown) => raw,
+			receipt: (raw: unknown) => raw,
+		},
+	});
+	const providers: Record<string, ReturnType<typeof createProvider>> = {
+		"https://rpc-a.example": createProvider(),
+		"https://rpc-b.example": createProvider(),
+		"https://rpc-c.example": createProvider(),
 	};
 	const contract = {
-		filters: { FeesCollected: vi.fn() },
+		address: "0xcontract",
+		interface: { getEventTopic: (name: string) => `topic:${name}` },
 		queryFilter: vi.fn(),
 	};
+	// ERC-20 getters, and the bytes32 variants of early tokens
+	const token = { symbol: vi.fn(), name: vi.fn(), decimals: vi.fn() };
+	const legacyToken = { symbol: vi.fn(), name: vi.fn() };
 	return {
-		provider,
+		providers,
 		contract,
+		token,
+		legacyToken,
 		StaticJsonRpcProvider: vi.fn(),
+		Contract: vi.fn(),
 		connect: vi.fn(),
+		fetchJson: vi.fn(),
 	};
 });
 
@@ -20,51 +43,517 @@ vi.mock("ethers", () => ({
 		providers: {
 			StaticJsonRpcProvider: mocks.StaticJsonRpcProvider,
 		},
+		Contract: mocks.Contract,
+		constants: { AddressZero: "0x0000000000000000000000000000000000000000" },
+		utils: {
+			fetchJson: mocks.fetchJson,
+			parseBytes32String: (value: string) => Buffer.from(value.slice(2), "hex").toString().replace(/\0+$/, ""),
+		},
 	},
 }));
 
 vi.mock("lifi-contract-types", () => ({
 	FeeCollector__factory: {
 		connect: mocks.connect,
+		createInterface: () => ({
+			events: {
+				"FeesCollected(address,address,uint256,uint256)": { name: "FeesCollected" },
+				"FeesWithdrawn(address,address,uint256)": { name: "FeesWithdrawn" },
+				"LiFiFeesWithdrawn(address,uint256)": { name: "LiFiFeesWithdrawn" },
+				"OwnershipTransferred(address,address)": { name: "OwnershipTransferred" },
+			},
+			getEventTopic: (fragment: { name: string }) => `topic:${fragment.name}`,
+		}),
 	},
 }));
 
+vi.mock("@/fee-collector/abi/fees-collected", () => ({
+	FEES_COLLECTED_TOPICS: ["topic:FeesCollected", "topic:FeesCollectedV2"],
+}));
+
+import type { Logger } from "pino";
 import { createFeeCollectorClient } from "@/fee-collector/client";
+import { RequestSchedulerRegistry } from "@/fee-collector/rpc/request-scheduler";
 
 describe("createFeeCollectorClient", () => {
+	const logger = { warn: vi.fn() } as unknown as Logger;
+	const nativeCurrency = { symbol: "ETH", name: "Ether", decimals: 18 };
+	const options = {
+		quorum: false,
+		maxConsecutiveFailures: 3,
+		cooldownMs: 60_000,
+		nativeCurrency,
+		rpcBatchSize: 2,
+		blockCacheSize: 100,
+		rateLimit: { requestsPerSecond: 0, maxConcurrency: 10 },
+		logger,
+	};
+	const deployments = [{ address: "0xcontract", startBlock: 0 }];
+	const [providerA, providerB, providerC] = Object.values(mocks.providers);
+
+	function endpoints(count: number) {
+		return Object.keys(mocks.providers)
+			.slice(0, count)
+			.map((url, priority) => ({ url, priority }));
+	}
+
+	function block(hash: string, number = 123) {
+		return { number, hash, timestamp: 1_700_000_000 };
+	}
+
+	// Answers each eth_getBlockByNumber of a batch with the block's header, hashed by `hashOf`
+	function answerBatches(hashOf: (blockNumber: number) => string = () => "0xabc") {
+		mocks.fetchJson.mockImplementation(async (_connection: unknown, body: string) =>
+			(JSON.parse(body) as { id: number; params: [string, boolean] }[]).map(({ id, params }) => ({
+				id,
+				result: block(hashOf(Number(params[0])), Number(params[0])),
+			})),
+		);
+	}
+
+	function batchedBlockNumbers(call: number): number[] {
+		const body = JSON.parse(mocks.fetchJson.mock.calls[call][1]) as { params: [string, boolean] }[];
+		return body.map(({ params }) => Number(params[0]));
+	}
+
 	beforeEach(() => {
 		vi.clearAllMocks();
 
-		mocks.provider.getBlock.mockResolvedValue({ number: 123, hash: "0xabc", timestamp: 1_700_000_000 });
-		mocks.provider.getBlockNumber.mockResolvedValue(456);
-		mocks.contract.filters.FeesCollected.mockReturnValue("fees-filter");
-		mocks.contract.queryFilter.mockResolvedValue([{ id: "event-1" }]);
+		for (const provider of Object.values(mocks.providers)) {
+			provider.getBlock.mockImplementation(async (blockNumber: number) => block("0xabc", blockNumber));
+			provider.getBlockNumber.mockResolvedValue(456);
+		}
+		mocks.contract.queryFilter.mockResolvedValue([{ id: "event-1", topics: ["topic:FeesCollected"] }]);
 
-		mocks.StaticJsonRpcProvider.mockReturnValue(mocks.provider);
+		mocks.StaticJsonRpcProvider.mockImplementation((url: string) => mocks.providers[url]);
+		answerBatches();
 		mocks.connect.mockReturnValue(mocks.contract);
+		mocks.Contract.mockImplementation((_address: string, abi: string[]) =>
+			abi.some((fragment) => fragment.includes("bytes32")) ? mocks.legacyToken : mocks.token,
+		);
 	});
 
 	it("should create provider and contract, then delegate event queries", async () => {
-		const client = createFeeCollectorClient("https://rpc.example", "0xcontract");
+		const client = createFeeCollectorClient(endpoints(1), deployments, options);
+
+		const events = await client.queryFeesCollected(100, 200);
+
+		expect(mocks.StaticJsonRpcProvider).toHaveBeenCalledWith("https://rpc-a.example");
+		expect(mocks.connect).toHaveBeenCalledWith("0xcontract", providerA);
+		expect(mocks.contract.queryFilter).toHaveBeenCalledWith({ address: "0xcontract" }, 100, 200);
+		expect(events).toEqual([{ id: "event-1", topics: ["topic:FeesCollected"] }]);
+	});
+
+	it("should share one scheduler per rate-limit group between clients, with the strictest limits", () => {
+		const schedulers = new RequestSchedulerRegistry();
+		const withSchedulers = { ...options, rateLimit: { requestsPerSecond: 25, maxConcurrency: 10 }, schedulers };
+
+		createFeeCollectorClient(
+			[
+				{ url: "https://rpc-a.example", priority: 0, rateLimitGroup: "account" },
+				{ url: "https://rpc-b.example", priority: 1 },
+			],
+			deployments,
+			withSchedulers,
+		);
+		createFeeCollectorClient(
+			[{ url: "https://rpc-c.example", priority: 0, rateLimitGroup: "account", rateLimit: { requestsPerSecond: 5 } }],
+			deployments,
+			withSchedulers,
+		);
+
+		expect(schedulers.stats()).toEqual([
+			{ key: "account", requestsPerSecond: 5, maxConcurrency: 10, queued: 0, inFlight: 0 },
+			{ key: "https://rpc-b.example", requestsPerSecond: 25, maxConcurrency: 10, queued: 0, inFlight: 0 },
+		]);
+	});
+
+	// Other events of the ABI are dropped; a log no known event matches may be a new version of FeesCollected
+	it("should return the logs of every FeesCollected version and the logs no known event matches", async () => {
+		mocks.contract.queryFilter.mockResolvedValue([
+			{ id: "v1", blockNumber: 100, logIndex: 0, topics: ["topic:FeesCollected"] },
+			{ id: "withdrawal", blockNumber: 100, logIndex: 1, topics: ["topic:FeesWithdrawn"] },
+			{ id: "v2", blockNumber: 100, logIndex: 2, topics: ["topic:FeesCollectedV2"] },
+			{ id: "ownership", blockNumber: 100, logIndex: 3, topics: ["topic:OwnershipTransferred"] },
+			{ id: "unknown", blockNumber: 100, logIndex: 4, topics: ["topic:FeesCollectedV3"] },
+		]);
+		const client = createFeeCollectorClient(endpoints(1), deployments, options);
+
+		const events = await client.queryFeesCollected(100, 200);
+
+		expect(events.map((event) => (event as unknown as { id: string }).id)).toEqual(["v1", "v2", "unknown"]);
+	});
+
+	it("should query every deployment active in the range, clipped to its blocks, and merge the results", async () => {
+		const oldContract = { address: "0xold", queryFilter: vi.fn() };
+		const newContract = { address: "0xnew", queryFilter: vi.fn() };
+		mocks.connect.mockImplementation((address: string) => (address === "0xold" ? oldContract : newContract));
+		oldContract.queryFilter.mockResolvedValue([
+			{ id: "old-2", blockNumber: 150, logIndex: 0, topics: ["topic:FeesCollected"] },
+			{ id: "old-1", blockNumber: 120, logIndex: 4, topics: ["topic:FeesCollected"] },
+		]);
+		newContract.queryFilter.mockResolvedValue([
+			{ id: "new-1", blockNumber: 150, logIndex: 1, topics: ["topic:FeesCollected"] },
+		]);
+		const client = createFeeCollectorClient(
+			endpoints(1),
+			[
+				{ address: "0xold", startBlock: 0, endBlock: 160 },
+				{ address: "0xnew", startBlock: 140 },
+				{ address: "0xfuture", startBlock: 500 },
+			],
+			options,
+		);
 
 		const events = await client.queryFeesCollected(100, 200);
 
-		expect(mocks.StaticJsonRpcProvider).toHaveBeenCalledWith("https://rpc.example");
-		expect(mocks.connect).toHaveBeenCalledWith("0xcontract", mocks.provider);
-		expect(mocks.contract.filters.FeesCollected).toHaveBeenCalledTimes(1);
-		expect(mocks.contract.queryFilter).toHaveBeenCalledWith("fees-filter", 100, 200);
-		expect(events).toEqual([{ id: "event-1" }]);
+		expect(oldContract.queryFilter).toHaveBeenCalledWith({ address: "0xold" }, 100, 160);
+		expect(newContract.queryFilter).toHaveBeenCalledTimes(1);
+		expect(newContract.queryFilter).toHaveBeenCalledWith({ address: "0xnew" }, 140, 200);
+		expect(events.map((event) => (event as unknown as { id: string }).id)).toEqual(["old-1", "old-2", "new-1"]);
+	});
+
+	it("should split one log query per deployment into fee events and withdrawals", async () => {
+		mocks.contract.queryFilter.mockResolvedValue([
+			{ id: "fee", blockNumber: 100, logIndex: 0, topics: ["topic:FeesCollected"] },
+			{ id: "withdrawal", blockNumber: 100, logIndex: 1, topics: ["topic:FeesWithdrawn"] },
+			{ id: "lifi-withdrawal", blockNumber: 100, logIndex: 2, topics: ["topic:LiFiFeesWithdrawn"] },
+			{ id: "ownership", blockNumber: 100, logIndex: 3, topics: ["topic:OwnershipTransferred"] },
+			{ id: "unknown", blockNumber: 100, logIndex: 4, topics: ["topic:FeesCollectedV3"] },
+		]);
+		const client = createFeeCollectorClient(endpoints(1), deployments, options);
+
+		const { feesCollected, withdrawals } = await client.queryLogs(100, 200);
+
+		expect(mocks.contract.queryFilter).toHaveBeenCalledTimes(1);
+		expect(mocks.contract.queryFilter).toHaveBeenCalledWith({ address: "0xcontract" }, 100, 200);
+		expect(feesCollected.map((event) => (event as unknown as { id: string }).id)).toEqual(["fee", "unknown"]);
+		expect(withdrawals.map((event) => (event as unknown as { id: string }).id)).toEqual([
+			"withdrawal",
+			"lifi-withdrawal",
+		]);
+	});
+
+	it("should not call the RPC when no deployment is active in the range", async () => {
+		const client = createFeeCollectorClient(endpoints(1), [{ address: "0xcontract", startBlock: 500 }], options);
+
+		await expect(client.queryFeesCollected(100, 200)).resolves.toEqual([]);
+
+		expect(mocks.contract.queryFilter).not.toHaveBeenCalled();
 	});
 
 	it("should delegate block lookups to the provider", async () => {
-		const client = createFeeCollectorClient("https://rpc.example", "0xcontract");
+		const client = createFeeCollectorClient(endpoints(1), deployments, options);
 
-		const block = await client.getBlock(123);
+		const result = await client.getBlock(123);
 		const latestBlockNumber = await client.getBlockNumber();
 
-		expect(mocks.provider.getBlock).toHaveBeenCalledWith(123);
-		expect(mocks.provider.getBlockNumber).toHaveBeenCalledTimes(1);
-		expect(block).toEqual({ number: 123, hash: "0xabc", timestamp: 1_700_000_000 });
+		expect(providerA.getBlock).toHaveBeenCalledWith(123);
+		expect(providerA.getBlockNumber).toHaveBeenCalledTimes(1);
+		expect(result).toEqual(block("0xabc"));
 		expect(latestBlockNumber).toBe(456);
 	});
+
+	it("should fail over to the next endpoint and report it in the health stats", async () => {
+		providerA.getBlockNumber.mockRejectedValue(new Error("rate limited"));
+		const client = createFeeCollectorClient(endpoints(2), deployments, options);
+
+		await expect(client.getBlockNumber()).resolves.toBe(456);
+
+		expect(providerB.getBlockNumber).toHaveBeenCalledTimes(1);
+		expect(client.getEndpointHealth()).toEqual([
+			expect.objectContaining({ endpoint: "https://rpc-a.example", failures: 1, lastError: "rate limited" }),
+			expect.objectContaining({ endpoint: "https://rpc-b.example", successes: 1, failures: 0 }),
+		]);
+	});
+
+	describe("getBlocks", () => {
+		it("should fetch each block once, in JSON-RPC batches of at most rpcBatchSize", async () => {
+			const client = createFeeCollectorClient(endpoints(1), deployments, options);
+
+			const blocks = await client.getBlocks([10, 11, 10, 12]);
+
+			// A chunk of one block needs no batch
+			expect(mocks.fetchJson).toHaveBeenCalledTimes(1);
+			expect(batchedBlockNumbers(0)).toEqual([10, 11]);
+			expect(providerA.getBlock).toHaveBeenCalledWith(12);
+			expect(blocks.map((b) => b?.number)).toEqual([10, 11, 10, 12]);
+		});
+
+		it("should serve cached headers without calling the RPC again", async () => {
+			const client = createFeeCollectorClient(endpoints(1), deployments, options);
+			await client.getBlocks([10, 11]);
+
+			await expect(client.getBlock(11)).resolves.toMatchObject({ number: 11 });
+			await client.getBlocks([10, 11, 12, 13]);
+
+			expect(mocks.fetchJson).toHaveBeenCalledTimes(2);
+			expect(batchedBlockNumbers(1)).toEqual([12, 13]);
+			expect(providerA.getBlock).not.toHaveBeenCalled();
+		});
+
+		it("should read fresh headers past the cache and evict the headers above a changed one", async () => {
+			const client = createFeeCollectorClient(endpoints(1), deployments, options);
+			await client.getBlocks([10, 11]);
+			providerA.getBlock.mockResolvedValue(block("0xfork", 10));
+
+			await expect(client.getBlock(10, { fresh: true })).resolves.toEqual(block("0xfork", 10));
+			await client.getBlocks([10, 11]);
+
+			expect(mocks.fetchJson).toHaveBeenCalledTimes(1);
+			expect(providerA.getBlock).toHaveBeenCalledTimes(2);
+			expect(providerA.getBlock).toHaveBeenLastCalledWith(11);
+		});
+
+		it("should not cache blocks the chain doesn't have yet", async () => {
+			mocks.fetchJson.mockResolvedValue([
+				{ id: 0, result: block("0xabc", 10) },
+				{ id: 1, result: null },
+			]);
+			const client = createFeeCollectorClient(endpoints(1), deployments, options);
+
+			await expect(client.getBlocks([10, 11])).resolves.toEqual([block("0xabc", 10), null]);
+			await client.getBlock(11);
+
+			expect(providerA.getBlock).toHaveBeenCalledWith(11);
+		});
+
+		it("should fail over when an endpoint answers part of a batch with an error", async () => {
+			mocks.fetchJson
+				.mockResolvedValueOnce([
+					{ id: 0, result: block("0xabc", 10) },
+					{ id: 1, error: { code: -32005, message: "limit exceeded" } },
+				])
+				.mockResolvedValueOnce([
+					{ id: 0, result: block("0xabc", 10) },
+					{ id: 1, result: block("0xabc", 11) },
+				]);
+			const client = createFeeCollectorClient(endpoints(2), deployments, options);
+
+			await expect(client.getBlocks([10, 11])).resolves.toEqual([block("0xabc", 10), block("0xabc", 11)]);
+			expect(client.getEndpointHealth()).toEqual([
+				expect.objectContaining({
+					endpoint: "https://rpc-a.example",
+					failures: 1,
+					lastError: "eth_getBlockByNumber (id 1) failed: limit exceeded (code -32005)",
+				}),
+				expect.objectContaining({ endpoint: "https://rpc-b.example", successes: 1 }),
+			]);
+		});
+
+		it("should fail over when an endpoint doesn't support batches", async () => {
+			mocks.fetchJson
+				.mockResolvedValueOnce({ jsonrpc: "2.0", id: null, error: { code: -32600, message: "batch not supported" } })
+				.mockResolvedValueOnce([
+					{ id: 0, result: block("0xabc", 10) },
+					{ id: 1, result: block("0xabc", 11) },
+				]);
+			const client = createFeeCollectorClient(endpoints(2), deployments, options);
+
+			await expect(client.getBlocks([10, 11])).resolves.toHaveLength(2);
+			expect(client.getEndpointHealth()[0]).toMatchObject({
+				lastError: "Batch of 2 requests rejected: batch not supported",
+			});
+		});
+	});
+
+	describe("getTransactions", () => {
+		it("should fetch each transaction with its receipt, in batches of at most rpcBatchSize requests", async () => {
+			mocks.fetchJson.mockImplementation(async (_connection: unknown, body: string) =>
+				(JSON.parse(body) as { id: number; method: string; params: [string] }[]).map(({ id, method, params }) => ({
+					id,
+					// The endpoint doesn't know 0xtx3's receipt yet
+					result: params[0] === "0xtx3" && method === "eth_getTransactionReceipt" ? null : { method, hash: params[0] },
+				})),
+			);
+			const client = createFeeCollectorClient(endpoints(1), deployments, { ...options, rpcBatchSize: 4 });
+
+			const transactions = await client.getTransactions(["0xtx1", "0xtx2", "0xtx3"]);
+
+			expect(mocks.fetchJson).toHaveBeenCalledTimes(2);
+			expect(JSON.parse(mocks.fetchJson.mock.calls[0][1]).map((request: { method: string }) => request.method)).toEqual(
+				[
+					"eth_getTransactionByHash",
+					"eth_getTransactionReceipt",
+					"eth_getTransactionByHash",
+					"eth_getTransactionReceipt",
+				],
+			);
+			expect(transactions).toEqual([
+				{
+					transaction: { method: "eth_getTransactionByHash", hash: "0xtx1" },
+					receipt: { method: "eth_getTransactionReceipt", hash: "0xtx1" },
+				},
+				{
+					transaction: { method: "eth_getTransactionByHash", hash: "0xtx2" },
+					receipt: { method: "eth_getTransactionReceipt", hash: "0xtx2" },
+				},
+				null,
+			]);
+		});
+
+		it("should send plain requests when batching is off", async () => {
+			providerA.getTransaction.mockResolvedValue({ hash: "0xtx1" });
+			providerA.getTransactionReceipt.mockResolvedValue({ transactionHash: "0xtx1" });
+			const client = createFeeCollectorClient(endpoints(1), deployments, { ...options, rpcBatchSize: 1 });
+
+			await expect(client.getTransactions(["0xtx1"])).resolves.toEqual([
+				{ transaction: { hash: "0xtx1" }, receipt: { transactionHash: "0xtx1" } },
+			]);
+			expect(mocks.fetchJson).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("preflight reads", () => {
+		it("should ask every endpoint for its chain id, reporting the ones that fail", async () => {
+			providerA.send.mockResolvedValue("0x89");
+			providerB.send.mockResolvedValue("0x1");
+			providerC.send.mockRejectedValue(new Error("timeout"));
+			const client = createFeeCollectorClient(endpoints(3), deployments, options);
+
+			await expect(client.getEndpointChainIds()).resolves.toEqual([
+				{ endpoint: "https://rpc-a.example", status: "fulfilled", value: 137 },
+				{ endpoint: "https://rpc-b.example", status: "fulfilled", value: 1 },
+				{ endpoint: "https://rpc-c.example", status: "rejected", reason: new Error("timeout") },
+			]);
+			expect(providerA.send).toHaveBeenCalledWith("eth_chainId", []);
+		});
+
+		it("should read contract code at a block, failing over like other calls", async () => {
+			providerA.getCode.mockRejectedValue(new Error("missing trie node"));
+			providerB.getCode.mockResolvedValue("0x6080");
+			const client = createFeeCollectorClient(endpoints(2), deployments, options);
+
+			await expect(client.getCode("0xcontract", 99)).resolves.toBe("0x6080");
+			expect(providerB.getCode).toHaveBeenCalledWith("0xcontract", 99);
+		});
+	});
+
+	describe("getTokenMetadata", () => {
+		const callException = Object.assign(new Error("call revert exception"), { code: "CALL_EXCEPTION" });
+
+		it("should return the chain's native currency for the zero address", async () => {
+			const polygon = { symbol: "POL", name: "Polygon Ecosystem Token", decimals: 18 };
+			const client = createFeeCollectorClient(endpoints(1), deployments, { ...options, nativeCurrency: polygon });
+
+			await expect(client.getTokenMetadata("0x0000000000000000000000000000000000000000")).resolves.toEqual({
+				...polygon,
+				native: true,
+			});
+			expect(mocks.Contract).not.toHaveBeenCalled();
+		});
+
+		it("should read the ERC-20 getters of a token", async () => {
+			mocks.token.symbol.mockResolvedValue("USDC");
+			mocks.token.name.mockResolvedValue("USD Coin");
+			mocks.token.decimals.mockResolvedValue(6);
+			const client = createFeeCollectorClient(endpoints(1), deployments, options);
+
+			await expect(client.getTokenMetadata("0xtoken")).resolves.toEqual({
+				symbol: "USDC",
+				name: "USD Coin",
+				decimals: 6,
+				native: false,
+			});
+			expect(mocks.Contract).toHaveBeenCalledWith("0xtoken", expect.any(Array), providerA);
+		});
+
+		it("should fall back to bytes32 getters and leave out what the token doesn't implement", async () => {
+			mocks.token.symbol.mockRejectedValue(callException);
+			mocks.legacyToken.symbol.mockResolvedValue(`0x${Buffer.from("MKR").toString("hex").padEnd(64, "0")}`);
+			mocks.token.name.mockRejectedValue(callException);
+			mocks.legacyToken.name.mockRejectedValue(callException);
+			mocks.token.decimals.mockResolvedValue(18);
+			const client = createFeeCollectorClient(endpoints(1), deployments, options);
+
+			await expect(client.getTokenMetadata("0xmkr")).resolves.toEqual({
+				symbol: "MKR",
+				name: null,
+				decimals: 18,
+				native: false,
+			});
+			// A token that lacks a getter is not the endpoint's fault
+			expect(client.getEndpointHealth()).toEqual([expect.objectContaining({ successes: 1, failures: 0 })]);
+		});
+
+		it("should fail over when the endpoint itself fails", async () => {
+			mocks.token.symbol.mockRejectedValueOnce(new Error("timeout")).mockResolvedValue("USDC");
+			mocks.token.name.mockResolvedValue("USD Coin");
+			mocks.token.decimals.mockResolvedValue(6);
+			const client = createFeeCollectorClient(endpoints(2), deployments, options);
+
+			await expect(client.getTokenMetadata("0xtoken")).resolves.toMatchObject({ symbol: "USDC" });
+			expect(client.getEndpointHealth()).toEqual([
+				expect.objectContaining({ endpoint: "https://rpc-a.example", failures: 1, lastError: "timeout" }),
+				expect.objectContaining({ endpoint: "https://rpc-b.example", successes: 1 }),
+			]);
+		});
+	});
+
+	describe("quorum mode", () => {
+		const quorumOptions = { ...options, quorum: true };
+
+		it("should return the block whose hash a majority of endpoints agree on", async () => {
+			providerC.getBlock.mockResolvedValue(block("0xfork"));
+			const client = createFeeCollectorClient(endpoints(3), deployments, quorumOptions);
+
+			await expect(client.getBlock(123)).resolves.toEqual(block("0xabc"));
+
+			expect(providerA.getBlock).toHaveBeenCalledWith(123);
+			expect(providerB.getBlock).toHaveBeenCalledWith(123);
+			expect(providerC.getBlock).toHaveBeenCalledWith(123);
+		});
+
+		it("should agree on each block of a batch separately", async () => {
+			answerBatches((blockNumber) => (blockNumber === 11 ? "0xfork" : "0xabc"));
+			const client = createFeeCollectorClient(endpoints(3), deployments, quorumOptions);
+
+			await expect(client.getBlocks([10, 11])).resolves.toEqual([block("0xabc", 10), block("0xfork", 11)]);
+			expect(mocks.fetchJson).toHaveBeenCalledTimes(3);
+		});
+
+		it("should throw when no hash has a majority", async () => {
+			providerB.getBlock.mockResolvedValue(block("0xfork"));
+			providerC.getBlock.mockRejectedValue(new Error("timeout"));
+			const client = createFeeCollectorClient(endpoints(3), deployments, quorumOptions);
+
+			await expect(client.getBlock(123)).rejects.toThrow(
+				"No quorum for block 123: 2 of 3 endpoints must agree on the hash, got 0xabc=1, 0xfork=1",
+			);
+		});
+
+		it("should return null when a majority doesn't have the block yet", async () => {
+			providerA.getBlock.mockResolvedValue(null);
+			providerB.getBlock.mockResolvedValue(null);
+			const client = createFeeCollectorClient(endpoints(3), deployments, quorumOptions);
+
+			await expect(client.getBlock(123)).resolves.toBeNull();
+		});
+
+		it("should use the highest block number a majority of endpoints has reached", async () => {
+			providerA.getBlockNumber.mockResolvedValue(500);
+			providerB.getBlockNumber.mockResolvedValue(460);
+			const client = createFeeCollectorClient(endpoints(3), deployments, quorumOptions);
+
+			await expect(client.getBlockNumber()).resolves.toBe(460);
+		});
+
+		it("should throw when too few endpoints answer for the block number", async () => {
+			providerA.getBlockNumber.mockRejectedValue(new Error("timeout"));
+			providerB.getBlockNumber.mockRejectedValue(new Error("timeout"));
+			const client = createFeeCollectorClient(endpoints(3), deployments, quorumOptions);
+
+			await expect(client.getBlockNumber()).rejects.toThrow(
+				"No quorum for latest block number: 2 of 3 endpoints must answer, got 1",
+			);
+		});
+
+		it("should behave like a plain client with a single endpoint", async () => {
+			providerA.getBlockNumber.mockRejectedValueOnce(new Error("timeout"));
+			const client = createFeeCollectorClient(endpoints(1), deployments, quorumOptions);
+
+			await expect(client.getBlockNumber()).rejects.toThrow("timeout");
+			await expect(client.getBlockNumber()).resolves.toBe(456);
+		});
+	});
 });
@@ -0,0 +1,232 @@
+import { loadChainRegistry, parseChainRegistry } from "@/fee-collector/config/chains.config";
+
+describe("parseChainRegistry", () => {
+	const defaults = {
+		confirmations: 64,
+		batchSize: 2000,
+		pollIntervalMs: 30_000,
+		reorgBacktrack: 200,
+		rpcBatchSize: 50,
+		maxLagBlocks: 500,
+		retry: { maxAttempts: 3, initialDelayMs: 5000, maxDelayMs: 60_000, jitter: 0.2, operations: {} },
+	};
+	const address = "0xbD6C7B0d2f68c2b7805d88388319cfB6EcB50eA9";
+
+	function chainEntry(overrides: Record<string, unknown> = {}) {
+		return {
+			name: "polygon",
+			chainId: 137,
+			rpcUrls: ["https://polygon-rpc.com"],
+			deployments: [{ address, startBlock: 100 }],
+			...overrides,
+		};
+	}
+
+	it("should fill in defaults for settings an entry doesn't override", () => {
+		const [chain] = parseChainRegistry({ chains: [chainEntry()] }, defaults, {});
+
+		expect(chain).toEqual({
+			chainId: 137,
+			name: "polygon",
+			enabled: true,
+			rpcEndpoints: [{ url: "https://polygon-rpc.com", priority: 0 }],
+			deployments: [{ address, startBlock: 100 }],
+			nativeCurrency: { symbol: "ETH", name: "Ether", decimals: 18 },
+			enrichTransactions: false,
+			...defaults,
+		});
+	});
+
+	it("should apply per-chain overrides", () => {
+		const [chain] = parseChainRegistry(
+			{
+				chains: [
+					chainEntry({
+						enabled: false,
+						confirmations: 12,
+						batchSize: 500,
+						pollIntervalMs: 12_000,
+						rpcBatchSize: 10,
+						maxLagBlocks: 100,
+						enrichTransactions: true,
+					}),
+				],
+			},
+			defaults,
+			{},
+		);
+
+		expect(chain).toMatchObject({
+			enabled: false,
+			confirmations: 12,
+			batchSize: 500,
+			pollIntervalMs: 12_000,
+			reorgBacktrack: 200,
+			rpcBatchSize: 10,
+			maxLagBlocks: 100,
+			enrichTransactions: true,
+		});
+	});
+
+	it("should merge the entry's retry policy and per-operation overrides over the default policy", () => {
+		const [chain] = parseChainRegistry(
+			{ chains: [chainEntry({ retry: { maxAttempts: 5, operations: { queryBatchLogs: { maxDelayMs: 120_000 } } } })] },
+			defaults,
+			{},
+		);
+
+		expect(chain.retry).toEqual({
+			maxAttempts: 5,
+			initialDelayMs: 5000,
+			maxDelayMs: 60_000,
+			jitter: 0.2,
+			operations: { queryBatchLogs: { maxDelayMs: 120_000 } },
+		});
+		expect(() => parseChainRegistry({ chains: [chainEntry({ retry: { jitter: 2 } })] }, defaults, {})).toThrow(
+			"chains.0.retry.jitter: Number must be less than or equal to 1",
+		);
+	});
+
+	it("should take the chain's native currency from the entry", () => {
+		const nativeCurrency = { symbol: "POL", name: "Polygon Ecosystem Token", decimals: 18 };
+
+		const [chain] = parseChainRegistry({ chains: [chainEntry({ nativeCurrency })] }, defaults, {});
+
+		expect(chain.nativeCurrency).toEqual(nativeCurrency);
+		expect(() =>
+			parseChainRegistry({ chains: [chainEntry({ nativeCurrency: { symbol: "POL" } })] }, defaults, {}),
+		).toThrow("chains.0.nativeCurrency.name: Required");
+	});
+
+	it("should fill RPC URLs from environment variables, with fallbacks", () => {
+		const [chain] = parseChainRegistry(
+			{
+				chains: [
+					chainEntry({
+						// biome-ignore lint/suspicious/noTemplateCurlyInString: registry placeholder syntax, not a template
+						rpcUrls: ["https://polygon.example/${RPC_KEY}", "${BACKUP_RPC_URL:-https://polygon-rpc.com}"],
+					}),
+				],
+			},
+			defaults,
+			{ RPC_KEY: "secret" },
+		);
+
+		expect(chain.rpcEndpoints).toEqual([
+			{ url: "https://polygon.example/secret", priority: 0 },
+			{ url: "https://polygon-rpc.com", priority: 1 },
+		]);
+	});
+
+	it("should accept RPC endpoints with their own rate limit and rate-limit group", () => {
+		const [chain] = parseChainRegistry(
+			{
+				chains: [
+					chainEntry({
+						rpcUrls: [
+							{
+								url: "https://polygon.example/key",
+								rateLimitGroup: "provider-account",
+								rateLimit: { requestsPerSecond: 10 },
+							},
+							"https://polygon-rpc.com",
+						],
+					}),
+				],
+			},
+			defaults,
+			{},
+		);
+
+		expect(chain.rpcEndpoints).toEqual([
+			{
+				url: "https://polygon.example/key",
+				priority: 0,
+				rateLimitGroup: "provider-account",
+				rateLimit: { requestsPerSecond: 10 },
+			},
+			{ url: "https://polygon-rpc.com", priority: 1 },
+		]);
+	});
+
+	it("should reject references to unset environment variables", () => {
+		// biome-ignore lint/suspicious/noTemplateCurlyInString: registry placeholder syntax, not a template
+		const rpcUrls = ["https://polygon.example/${RPC_KEY}"];
+
+		expect(() => parseChainRegistry({ chains: [chainEntry({ rpcUrls })] }, defaults, {})).toThrow(
+			"Invalid chain registry: chains.0.rpcUrls.0: Environment variable RPC_KEY is not set",
+		);
+	});
+
+	it("should turn on log subscriptions only for a WebSocket URL that resolves to a value", () => {
+		// biome-ignore lint/suspicious/noTemplateCurlyInString: registry placeholder syntax, not a template
+		const wsUrl = "${POLYGON_WS_URL:-}";
+
+		const [subscribed] = parseChainRegistry({ chains: [chainEntry({ wsUrl })] }, defaults, {
+			POLYGON_WS_URL: "wss://polygon.example/ws",
+		});
+		const [polledOnly] = parseChainRegistry({ chains: [chainEntry({ wsUrl })] }, defaults, {});
+
+		expect(subscribed.wsUrl).toBe("wss://polygon.example/ws");
+		expect(polledOnly).not.toHaveProperty("wsUrl");
+		expect(() =>
+			parseChainRegistry({ chains: [chainEntry({ wsUrl: "https://polygon-rpc.com" })] }, defaults, {}),
+		).toThrow("chains.0.wsUrl: Must be a ws:// or wss:// URL");
+	});
+
+	it("should reject duplicate chain names and ids", () => {
+		expect(() =>
+			parseChainRegistry({ chains: [chainEntry(), chainEntry({ name: "polygon-2" })] }, defaults, {}),
+		).toThrow("chains.1.chainId: Duplicate chainId 137");
+		expect(() => parseChainRegistry({ chains: [chainEntry(), chainEntry({ chainId: 1 })] }, defaults, {})).toThrow(
+			"chains.1.name: Duplicate name polygon",
+		);
+	});
+
+	it("should reject invalid deployments and unknown keys", () => {
+		expect(() =>
+			parseChainRegistry(
+				{ chains: [chainEntry({ deployments: [{ address: "0x123", startBlock: 1 }] })] },
+				defaults,
+				{},
+			),
+		).toThrow("chains.0.deployments.0.address: Must be a valid EVM address");
+		expect(() =>
+			parseChainRegistry(
+				{ chains: [chainEntry({ deployments: [{ address, startBlock: 200, endBlock: 100 }] })] },
+				defaults,
+				{},
+			),
+		).toThrow("startBlock must not exceed endBlock");
+		expect(() => parseChainRegistry({ chains: [chainEntry({ rpcUrl: "typo" })] }, defaults, {})).toThrow(
+			"Unrecognized key(s) in object: 'rpcUrl'",
+		);
+	});
+});
+
+describe("loadChainRegistry", () => {
+	const defaults = {
+		confirmations: 64,
+		batchSize: 2000,
+		pollIntervalMs: 30_000,
+		reorgBacktrack: 200,
+		rpcBatchSize: 50,
+		maxLagBlocks: 500,
+		retry: { maxAttempts: 3, initialDelayMs: 5000, maxDelayMs: 60_000, jitter: 0.2, operations: {} },
+	};
+
+	it("should load the chain registry shipped with the repo", () => {
+		const registry = loadChainRegistry("chains.json", defaults, {});
+
+		expect(registry.map((chain) => [chain.name, chain.chainId, chain.enabled])).toEqual([
+			["polygon", 137, true],
+			["ethereum", 1, false],
+		]);
+	});
+
+	it("should name the file when it can't be read", () => {
+		expect(() => loadChainRegistry("missing-chains.json", defaults, {})).toThrow(
+			/Could not read chain registry .*missing-chains\.json/,
+		);
+	});
+});
@@ -0,0 +1,91 @@
+const mocks = vi.hoisted(() => ({
+	connectMongo: vi.fn(),
+	disconnectMongo: vi.fn(),
+	listDeadLetters: vi.fn(),
+	reprocessDeadLetters: vi.fn(),
+	parseChainFlag: vi.fn(),
+	createWorkerConfigs: vi.fn(),
+}));
+
+vi.mock("@/common/db/mongo", () => ({
+	connectMongo: mocks.connectMongo,
+	disconnectMongo: mocks.disconnectMongo,
+}));
+
+vi.mock("@/fee-collector/services/dead-letter.service", () => ({
+	listDeadLetters: mocks.listDeadLetters,
+	reprocessDeadLetters: mocks.reprocessDeadLetters,
+}));
+
+vi.mock("@/fee-collector/worker.helpers", () => ({
+	parseChainFlag: mocks.parseChainFlag,
+	createWorkerConfigs: mocks.createWorkerConfigs,
+}));
+
+vi.mock("@/fee-collector/config/chains.config", () => ({
+	CHAIN_REGISTRY: [
+		{ chainId: 137, name: "polygon", enabled: true },
+		{ chainId: 1, name: "ethereum", enabled: false },
+	],
+}));
+
+vi.mock("@/fee-collector/config/env.config", () => ({
+	env: {
+		MONGO_URI: "mongodb://localhost:27017",
+		MONGO_DB: "test-db",
+	},
+}));
+
+import type { Logger } from "pino";
+import { run } from "@/fee-collector/dead-letters";
+
+const loggerMocks = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: vi.fn() };
+const logger = loggerMocks as unknown as Logger;
+
+describe("dead-letters run()", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		loggerMocks.child.mockReturnValue(logger);
+		mocks.connectMongo.mockResolvedValue(undefined);
+		mocks.disconnectMongo.mockResolvedValue(undefined);
+		mocks.parseChainFlag.mockReturnValue(["polygon"]);
+		mocks.listDeadLetters.mockResolvedValue([{ txHash: "0xtx", logIndex: 1 }]);
+		mocks.reprocessDeadLetters.mockResolvedValue({ retried: 2, resolved: 1, failed: 1 });
+	});
+
+	it("should list each selected chain's dead letters, resolved ones included with --all", async () => {
+		await run(["node", "dead-letters.js", "list", "--chain", "polygon", "--all"], logger);
+
+		expect(mocks.listDeadLetters).toHaveBeenCalledWith(137, { includeResolved: true });
+		expect(logger.info).toHaveBeenCalledWith(
+			{ chain: "polygon", count: 1, deadLetters: [{ txHash: "0xtx", logIndex: 1 }] },
+			"dead letters",
+		);
+		expect(mocks.reprocessDeadLetters).not.toHaveBeenCalled();
+		expect(mocks.disconnectMongo).toHaveBeenCalledTimes(1);
+	});
+
+	it("should re-process with each chain's client and enrichment setting", async () => {
+		const client = { getBlocks: vi.fn() };
+		mocks.createWorkerConfigs.mockReturnValue([
+			{ chain: { chainId: 137, name: "polygon" }, client, syncConfig: { enrichTransactions: true } },
+		]);
+
+		await run(["node", "dead-letters.js", "--", "reprocess"], logger);
+
+		expect(mocks.createWorkerConfigs).toHaveBeenCalledWith([{ chainId: 137, name: "polygon", enabled: true }]);
+		expect(mocks.reprocessDeadLetters).toHaveBeenCalledWith(client, 137, logger, { enrichTransactions: true });
+		expect(logger.info).toHaveBeenCalledWith(
+			{ chain: "polygon", report: { retried: 2, resolved: 1, failed: 1 } },
+			"re-processing complete",
+		);
+		expect(mocks.disconnectMongo).toHaveBeenCalledTimes(1);
+	});
+
+	it("should reject an unknown command before connecting", async () => {
+		await expect(run(["node", "dead-letters.js", "purge"], logger)).rejects.toThrow(
+			'Unknown command "purge". Valid commands: list, reprocess',
+		);
+		expect(mocks.connectMongo).not.toHaveBeenCalled();
+	});
+});
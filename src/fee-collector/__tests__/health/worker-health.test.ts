@@ -0,0 +1,182 @@
+import { WorkerHealth } from "@/fee-collector/health/worker-health";
+
+describe("WorkerHealth", () => {
+	let now: number;
+	let health: WorkerHealth;
+
+	beforeEach(() => {
+		now = 1_000_000;
+		health = new WorkerHealth({ livenessWindowMs: 60_000, now: () => now });
+		health.track([
+			{ name: "polygon", maxLagBlocks: 100 },
+			{ name: "ethereum", maxLagBlocks: 10 },
+		]);
+	});
+
+	describe("liveness", () => {
+		it("should count the window from startup until the first cycle finishes", () => {
+			now += 60_000;
+			expect(health.liveness().status).toBe("ok");
+
+			now += 1;
+			expect(health.liveness()).toMatchObject({
+				status: "failing",
+				reason: "no worker cycle finished and no checkpoint saved in 60s (window: 60s)",
+			});
+		});
+
+		it("should pass again once a cycle finishes", () => {
+			now += 120_000;
+			health.cycleFinished();
+
+			expect(health.liveness()).toMatchObject({ status: "ok", lastCycleFinishedAt: new Date(now).toISOString() });
+		});
+
+		it("should stay live through a long cycle while checkpoints keep being saved", () => {
+			for (let batch = 1; batch <= 5; batch++) {
+				now += 50_000;
+				health.checkpointSaved("polygon", { safeBlock: 100_000, lastProcessedBlock: batch * 1000 });
+			}
+			expect(health.liveness()).toMatchObject({ status: "ok", lastCheckpointAt: new Date(now).toISOString() });
+
+			now += 61_000;
+			expect(health.liveness()).toMatchObject({
+				status: "failing",
+				reason: "no worker cycle finished and no checkpoint saved in 61s (window: 60s)",
+			});
+		});
+	});
+
+	describe("readiness", () => {
+		it("should fail until the first cycle finishes and the chains have synced", () => {
+			expect(health.readiness()).toMatchObject({ status: "failing", reason: "no worker cycle finished yet" });
+
+			health.cycleFinished();
+
+			expect(health.readiness()).toMatchObject({
+				status: "failing",
+				reason: "chains not ready: polygon, ethereum",
+				chains: [
+					{ chain: "polygon", role: "pending", ready: false, reason: "not synced yet" },
+					{ chain: "ethereum", role: "pending", ready: false, reason: "not synced yet" },
+				],
+			});
+		});
+
+		it("should compare each chain's lag with its own threshold", () => {
+			health.chainSynced("polygon", { safeBlock: 1000, lastProcessedBlock: 950 });
+			health.chainSynced("ethereum", { safeBlock: 1000, lastProcessedBlock: 950 });
+			health.cycleFinished();
+
+			expect(health.readiness()).toMatchObject({
+				status: "failing",
+				reason: "chains not ready: ethereum",
+				chains: [
+					{ chain: "polygon", ready: true, lagBlocks: 50 },
+					{ chain: "ethereum", ready: false, lagBlocks: 50, reason: "50 blocks behind the safe block (max 10)" },
+				],
+			});
+		});
+
+		it("should keep a failed chain's progress and fail it once it hasn't synced within the window", () => {
+			health.chainSynced("polygon", { safeBlock: 1000, lastProcessedBlock: 1000 });
+			health.chainStandby("ethereum");
+			health.cycleFinished();
+			now += 61_000;
+			health.chainFailed("polygon", new Error("all RPC endpoints failed"));
+			health.cycleFinished();
+
+			const [polygon] = health.readiness().chains;
+
+			expect(polygon).toMatchObject({
+				ready: false,
+				reason: "no successful sync or saved checkpoint in 61s",
+				lastProcessedBlock: 1000,
+				lastError: "all RPC endpoints failed",
+			});
+		});
+
+		it("should fail a chain whose cycles keep failing once the head outruns its checkpoint", () => {
+			health.chainSynced("polygon", { safeBlock: 1000, lastProcessedBlock: 1000 });
+			health.chainStandby("ethereum");
+			health.cycleFinished();
+			health.chainFailed("polygon", new Error("all RPC endpoints failed"), {
+				safeBlock: 1200,
+				lastProcessedBlock: 1000,
+			});
+			health.chainFailed("ethereum", new Error("lease store down"), null);
+			health.cycleFinished();
+
+			expect(health.readiness().chains).toEqual([
+				expect.objectContaining({
+					chain: "polygon",
+					ready: false,
+					lagBlocks: 200,
+					reason: "200 blocks behind the safe block (max 100)",
+				}),
+				expect.objectContaining({ chain: "ethereum", ready: false, reason: "not synced yet" }),
+			]);
+		});
+
+		it("should fail a refused chain with its failed checks as the last error", () => {
+			health.chainSynced("polygon", { safeBlock: 1000, lastProcessedBlock: 1000 });
+			health.chainRefused("ethereum", ["chainId: serves chain 10", "bytecode: no contract code at 0xcontract"]);
+			health.cycleFinished();
+
+			expect(health.readiness()).toMatchObject({
+				status: "failing",
+				reason: "chains not ready: ethereum",
+				chains: [
+					{ chain: "polygon", ready: true },
+					{
+						chain: "ethereum",
+						role: "refused",
+						ready: false,
+						reason: "refused by its preflight checks",
+						lastError: "chainId: serves chain 10; bytecode: no contract code at 0xcontract",
+					},
+				],
+			});
+		});
+
+		it("should report the lag of a chain still catching up instead of a missing sync", () => {
+			health.chainSynced("polygon", { safeBlock: 1000, lastProcessedBlock: 1000 });
+			health.chainStandby("ethereum");
+			health.cycleFinished();
+			now += 120_000;
+			health.checkpointSaved("polygon", { safeBlock: 5000, lastProcessedBlock: 2000 });
+
+			expect(health.readiness().chains[0]).toMatchObject({
+				chain: "polygon",
+				ready: false,
+				lagBlocks: 3000,
+				reason: "3000 blocks behind the safe block (max 100)",
+				lastCheckpointAt: new Date(now).toISOString(),
+			});
+		});
+
+		it("should treat chains on standby as ready", () => {
+			health.chainStandby("polygon");
+			health.chainStandby("ethereum");
+			health.cycleFinished();
+
+			expect(health.readiness().status).toBe("ok");
+		});
+	});
+
+	describe("track", () => {
+		it("should keep the state of chains still tracked and drop the others", () => {
+			health.chainSynced("polygon", { safeBlock: 1000, lastProcessedBlock: 990 });
+
+			health.track([
+				{ name: "polygon", maxLagBlocks: 5 },
+				{ name: "arbitrum", maxLagBlocks: 100 },
+			]);
+
+			expect(health.readiness().chains).toEqual([
+				expect.objectContaining({ chain: "polygon", lagBlocks: 10, maxLagBlocks: 5, ready: false }),
+				expect.objectContaining({ chain: "arbitrum", role: "pending" }),
+			]);
+		});
+	});
+});
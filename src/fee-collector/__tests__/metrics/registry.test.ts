@@ -0,0 +1,72 @@
+import { MetricsRegistry } from "@/fee-collector/metrics/registry";
+
+describe("MetricsRegistry", () => {
+	it("should render counters and gauges in the Prometheus text format, one series per label set", () => {
+		const registry = new MetricsRegistry();
+		const counter = registry.counter("blocks_total", "Blocks scanned.");
+		const gauge = registry.gauge("lag_blocks", "Blocks behind head.");
+
+		counter.inc({ chain: "polygon" }, 10);
+		counter.inc({ chain: "polygon" });
+		counter.inc({ chain: "ethereum" }, 2);
+		gauge.set({ chain: "polygon" }, 40);
+		gauge.set({ chain: "polygon" }, 25);
+
+		expect(registry.render()).toBe(
+			[
+				"# HELP blocks_total Blocks scanned.",
+				"# TYPE blocks_total counter",
+				'blocks_total{chain="polygon"} 11',
+				'blocks_total{chain="ethereum"} 2',
+				"# HELP lag_blocks Blocks behind head.",
+				"# TYPE lag_blocks gauge",
+				'lag_blocks{chain="polygon"} 25',
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("should treat label sets in any order as one series and escape label values", () => {
+		const registry = new MetricsRegistry();
+		const counter = registry.counter("retries_total", "Retries.");
+
+		counter.inc({ chain: "polygon", operation: 'get "block"' });
+		counter.inc({ operation: 'get "block"', chain: "polygon" });
+
+		expect(registry.render()).toContain('retries_total{chain="polygon",operation="get \\"block\\""} 2');
+	});
+
+	it("should render cumulative histogram buckets with sum and count", () => {
+		const registry = new MetricsRegistry();
+		const histogram = registry.histogram("cycle_seconds", "Cycle duration.", [1, 5]);
+
+		histogram.observe({ chain: "polygon" }, 0.5);
+		histogram.observe({ chain: "polygon" }, 3);
+		histogram.observe({ chain: "polygon" }, 10);
+
+		expect(registry.render()).toBe(
+			[
+				"# HELP cycle_seconds Cycle duration.",
+				"# TYPE cycle_seconds histogram",
+				'cycle_seconds_bucket{chain="polygon",le="1"} 1',
+				'cycle_seconds_bucket{chain="polygon",le="5"} 2',
+				'cycle_seconds_bucket{chain="polygon",le="+Inf"} 3',
+				'cycle_seconds_sum{chain="polygon"} 13.5',
+				'cycle_seconds_count{chain="polygon"} 3',
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("should run collectors before each render, so read-off values are current when scraped", () => {
+		const registry = new MetricsRegistry();
+		const gauge = registry.gauge("queue_depth", "Queued requests.");
+		let queued = 3;
+		registry.addCollector(() => gauge.set({ group: "alchemy" }, queued));
+
+		expect(registry.render()).toContain('queue_depth{group="alchemy"} 3');
+
+		queued = 0;
+		expect(registry.render()).toContain('queue_depth{group="alchemy"} 0');
+	});
+});
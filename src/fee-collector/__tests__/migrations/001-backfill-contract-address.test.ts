@@ -0,0 +1,74 @@
+import type { Logger } from "pino";
+
+const mocks = vi.hoisted(() => ({
+	updateMany: vi.fn(),
+	countDocuments: vi.fn(),
+}));
+
+vi.mock("@/fee-collector/models/fee-collected-event", () => ({
+	FeeCollectedEventModel: {
+		updateMany: mocks.updateMany,
+		countDocuments: mocks.countDocuments,
+	},
+}));
+
+vi.mock("@/fee-collector/config/chains.config", () => ({
+	CHAIN_REGISTRY: [
+		{
+			chainId: 137,
+			name: "polygon",
+			deployments: [
+				{ address: "0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA", startBlock: 100, endBlock: 199 },
+				{ address: "0xBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB", startBlock: 200 },
+			],
+		},
+	],
+}));
+
+import { backfillContractAddress } from "@/fee-collector/migrations/001-backfill-contract-address";
+
+// Mimics Mongoose's `.updateMany().exec()` chain
+function execResult<T>(value: T) {
+	return { exec: async () => value };
+}
+
+describe("001-backfill-contract-address", () => {
+	const logger = { info: vi.fn() } as unknown as Logger;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mocks.updateMany.mockReturnValue(execResult({ modifiedCount: 3 }));
+		mocks.countDocuments.mockReturnValue(execResult(0));
+	});
+
+	it("should attribute events to the deployment whose block range contains them", async () => {
+		await backfillContractAddress.up(logger);
+
+		expect(mocks.updateMany).toHaveBeenCalledWith(
+			{
+				chainId: 137,
+				contractAddress: { $exists: false },
+				blockNumber: { $gte: 100, $lte: 199 },
+				$nor: [{ blockNumber: { $gte: 200 } }],
+			},
+			{ $set: { contractAddress: "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa" } },
+		);
+		expect(mocks.updateMany).toHaveBeenCalledWith(
+			{
+				chainId: 137,
+				contractAddress: { $exists: false },
+				blockNumber: { $gte: 200 },
+				$nor: [{ blockNumber: { $gte: 100, $lte: 199 } }],
+			},
+			{ $set: { contractAddress: "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb" } },
+		);
+	});
+
+	it("should fail when some events could not be attributed", async () => {
+		mocks.countDocuments.mockReturnValue(execResult(2));
+
+		await expect(backfillContractAddress.up(logger)).rejects.toThrow(
+			"2 fee events could not be attributed to a single deployment",
+		);
+	});
+});
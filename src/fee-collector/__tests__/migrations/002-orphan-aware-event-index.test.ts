@@ -0,0 +1,44 @@
+import type { Logger } from "pino";
+
+const mocks = vi.hoisted(() => ({
+	createIndexes: vi.fn(),
+	dropIndex: vi.fn(),
+}));
+
+vi.mock("@/fee-collector/models/fee-collected-event", () => ({
+	FeeCollectedEventModel: {
+		createIndexes: mocks.createIndexes,
+		collection: { dropIndex: mocks.dropIndex },
+	},
+}));
+
+import { orphanAwareEventIndex } from "@/fee-collector/migrations/002-orphan-aware-event-index";
+
+describe("002-orphan-aware-event-index", () => {
+	const logger = { info: vi.fn() } as unknown as Logger;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mocks.createIndexes.mockResolvedValue(undefined);
+		mocks.dropIndex.mockResolvedValue(undefined);
+	});
+
+	it("should build the new indexes before dropping the legacy unique index", async () => {
+		await orphanAwareEventIndex.up(logger);
+
+		expect(mocks.dropIndex).toHaveBeenCalledWith("chainId_1_txHash_1_logIndex_1");
+		expect(mocks.createIndexes.mock.invocationCallOrder[0]).toBeLessThan(mocks.dropIndex.mock.invocationCallOrder[0]);
+	});
+
+	it("should succeed when the legacy index is already gone", async () => {
+		mocks.dropIndex.mockRejectedValue(Object.assign(new Error("index not found"), { code: 27 }));
+
+		await expect(orphanAwareEventIndex.up(logger)).resolves.toBeUndefined();
+	});
+
+	it("should rethrow other errors", async () => {
+		mocks.dropIndex.mockRejectedValue(new Error("not authorized"));
+
+		await expect(orphanAwareEventIndex.up(logger)).rejects.toThrow("not authorized");
+	});
+});
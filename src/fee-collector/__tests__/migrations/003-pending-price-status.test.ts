@@ -0,0 +1,37 @@
+import type { Logger } from "pino";
+
+const mocks = vi.hoisted(() => ({
+	updateMany: vi.fn(),
+}));
+
+vi.mock("@/fee-collector/models/fee-collected-event", () => ({
+	FeeCollectedEventModel: {
+		updateMany: mocks.updateMany,
+	},
+}));
+
+import { pendingPriceStatus } from "@/fee-collector/migrations/003-pending-price-status";
+
+// Mimics Mongoose's `.updateMany().exec()` chain
+function execResult<T>(value: T) {
+	return { exec: async () => value };
+}
+
+describe("003-pending-price-status", () => {
+	const logger = { info: vi.fn() } as unknown as Logger;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mocks.updateMany.mockReturnValue(execResult({ modifiedCount: 5 }));
+	});
+
+	it("should mark events without a price status as pending, leaving priced ones alone", async () => {
+		await pendingPriceStatus.up(logger);
+
+		expect(mocks.updateMany).toHaveBeenCalledWith(
+			{ priceStatus: { $exists: false } },
+			{ $set: { priceStatus: "pending" } },
+		);
+		expect(logger.info).toHaveBeenCalledWith({ updated: 5 }, "queued events for pricing");
+	});
+});
@@ -0,0 +1,78 @@
+import type { Logger } from "pino";
+
+const mocks = vi.hoisted(() => ({
+	find: vi.fn(),
+	updateOne: vi.fn(),
+}));
+
+vi.mock("@/fee-collector/models/applied-migration", () => ({
+	AppliedMigrationModel: {
+		find: mocks.find,
+		updateOne: mocks.updateOne,
+	},
+}));
+
+import { type Migration, runMigrations } from "@/fee-collector/migrations/runner";
+
+// Mimics Mongoose's `.updateOne().exec()` chain
+function execResult<T>(value: T) {
+	return { exec: async () => value };
+}
+
+// Mimics Mongoose's `.find().lean().exec()` chain
+function findResult<T>(value: T) {
+	return { lean: () => execResult(value) };
+}
+
+describe("runMigrations", () => {
+	const loggerMocks = { info: vi.fn(), child: vi.fn() };
+	const logger = loggerMocks as unknown as Logger;
+
+	function createMigration(id: string): Migration {
+		return { id, description: `migration ${id}`, up: vi.fn().mockResolvedValue(undefined) };
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		loggerMocks.child.mockReturnValue(logger);
+		mocks.updateOne.mockReturnValue(execResult({ acknowledged: true }));
+	});
+
+	it("should apply pending migrations in order and record each one", async () => {
+		mocks.find.mockReturnValue(findResult([{ migrationId: "001" }]));
+		const migrations = [createMigration("001"), createMigration("002"), createMigration("003")];
+
+		const applied = await runMigrations(migrations, logger);
+
+		expect(applied).toEqual(["002", "003"]);
+		expect(migrations[0].up).not.toHaveBeenCalled();
+		expect(migrations[1].up).toHaveBeenCalledWith(logger);
+		expect(migrations[2].up).toHaveBeenCalledWith(logger);
+		expect(mocks.updateOne).toHaveBeenCalledTimes(2);
+		expect(mocks.updateOne).toHaveBeenCalledWith(
+			{ migrationId: "002" },
+			{ $setOnInsert: { migrationId: "002", description: "migration 002", appliedAt: expect.any(Date) } },
+			{ upsert: true },
+		);
+	});
+
+	it("should do nothing when every migration has been applied", async () => {
+		mocks.find.mockReturnValue(findResult([{ migrationId: "001" }]));
+
+		await expect(runMigrations([createMigration("001")], logger)).resolves.toEqual([]);
+
+		expect(mocks.updateOne).not.toHaveBeenCalled();
+	});
+
+	it("should stop at a failing migration without recording it", async () => {
+		mocks.find.mockReturnValue(findResult([]));
+		const failing = createMigration("001");
+		vi.mocked(failing.up).mockRejectedValue(new Error("boom"));
+		const next = createMigration("002");
+
+		await expect(runMigrations([failing, next], logger)).rejects.toThrow("boom");
+
+		expect(next.up).not.toHaveBeenCalled();
+		expect(mocks.updateOne).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,71 @@
+import { createFilePriceProvider } from "@/fee-collector/prices/file-price-provider";
+
+describe("createFilePriceProvider", () => {
+	const pol = "0x0000000000000000000000000000000000000000";
+	const usdc = "0x3c499c542cef5e3811e1192ce70d8cc03d5c3359";
+	const day = 86_400;
+
+	const file = {
+		prices: [
+			{
+				chainId: 137,
+				token: pol,
+				points: [
+					{ timestamp: 2 * day, usd: 0.47 },
+					{ timestamp: day, usd: 0.45 },
+				],
+			},
+			{
+				chainId: 137,
+				token: usdc.toUpperCase().replace("0X", "0x"),
+				maxAgeSeconds: null,
+				points: [{ timestamp: 0, usd: 1 }],
+			},
+		],
+	};
+
+	it("should price at the latest point at or before the timestamp", async () => {
+		const provider = createFilePriceProvider(file, day);
+
+		await expect(provider.getUsdPrice(137, pol, day)).resolves.toBe(0.45);
+		await expect(provider.getUsdPrice(137, pol, 2 * day - 1)).resolves.toBe(0.45);
+		await expect(provider.getUsdPrice(137, pol, 2 * day + 60)).resolves.toBe(0.47);
+	});
+
+	it("should have no price before the first point or once the latest one is stale", async () => {
+		const provider = createFilePriceProvider(file, day);
+
+		await expect(provider.getUsdPrice(137, pol, day - 1)).resolves.toBeNull();
+		await expect(provider.getUsdPrice(137, pol, 3 * day + 1)).resolves.toBeNull();
+	});
+
+	it("should never go stale for a series without a max age, matching addresses case-insensitively", async () => {
+		const provider = createFilePriceProvider(file, day);
+
+		await expect(provider.getUsdPrice(137, usdc, 1_700_000_000)).resolves.toBe(1);
+	});
+
+	it("should have no price for unknown tokens or chains", async () => {
+		const provider = createFilePriceProvider(file, day);
+
+		await expect(provider.getUsdPrice(1, pol, day)).resolves.toBeNull();
+		await expect(provider.getUsdPrice(137, "0x1111111111111111111111111111111111111111", day)).resolves.toBeNull();
+	});
+
+	it("should reject invalid files with the offending path", () => {
+		expect(() =>
+			createFilePriceProvider({ prices: [{ chainId: 137, token: "0xnope", points: [{ timestamp: 0, usd: 1 }] }] }, day),
+		).toThrow("Invalid price file: prices.0.token: Must be a valid EVM address");
+		expect(() => createFilePriceProvider({ prices: [{ chainId: 137, token: pol, points: [] }] }, day)).toThrow(
+			"prices.0.points",
+		);
+	});
+
+	it("should reject a token listed twice for the same chain", () => {
+		const series = { chainId: 137, token: pol, points: [{ timestamp: 0, usd: 1 }] };
+
+		expect(() => createFilePriceProvider({ prices: [series, series] }, day)).toThrow(
+			"prices.1.token: Duplicate price series for token",
+		);
+	});
+});
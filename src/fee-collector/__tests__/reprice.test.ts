@@ -0,0 +1,90 @@
+const mocks = vi.hoisted(() => ({
+	connectMongo: vi.fn(),
+	disconnectMongo: vi.fn(),
+	priceFees: vi.fn(),
+	repriceFees: vi.fn(),
+	loadFilePriceProvider: vi.fn(),
+	parseChainFlag: vi.fn(),
+}));
+
+vi.mock("@/common/db/mongo", () => ({
+	connectMongo: mocks.connectMongo,
+	disconnectMongo: mocks.disconnectMongo,
+}));
+
+vi.mock("@/fee-collector/services/pricing.service", () => ({
+	priceFees: mocks.priceFees,
+	repriceFees: mocks.repriceFees,
+}));
+
+vi.mock("@/fee-collector/prices/file-price-provider", () => ({
+	loadFilePriceProvider: mocks.loadFilePriceProvider,
+}));
+
+vi.mock("@/fee-collector/worker.helpers", () => ({
+	parseChainFlag: mocks.parseChainFlag,
+}));
+
+vi.mock("@/fee-collector/config/chains.config", () => ({
+	CHAIN_REGISTRY: [
+		{ chainId: 137, name: "polygon", enabled: true },
+		{ chainId: 1, name: "ethereum", enabled: false },
+	],
+}));
+
+vi.mock("@/fee-collector/config/env.config", () => ({
+	env: {
+		MONGO_URI: "mongodb://localhost:27017",
+		MONGO_DB: "test-db",
+		FEE_COLLECTOR_PRICES_FILE: "prices.json",
+		FEE_COLLECTOR_PRICE_MAX_AGE_SECONDS: 86_400,
+	},
+}));
+
+import type { Logger } from "pino";
+import { CHAIN_REGISTRY } from "@/fee-collector/config/chains.config";
+import { run } from "@/fee-collector/reprice";
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Logger;
+const priceProvider = { getUsdPrice: vi.fn() };
+
+describe("reprice run()", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mocks.connectMongo.mockResolvedValue(undefined);
+		mocks.disconnectMongo.mockResolvedValue(undefined);
+		mocks.loadFilePriceProvider.mockReturnValue(priceProvider);
+		mocks.parseChainFlag.mockReturnValue(["polygon", "ethereum"]);
+		mocks.priceFees.mockResolvedValue({ priced: 3, unpriced: 1, waiting: 0 });
+		mocks.repriceFees.mockResolvedValue({ priced: 2, unpriced: 4, waiting: 0 });
+	});
+
+	it("should price pending events, then retry unpriced ones, for every selected chain", async () => {
+		const argv = ["node", "reprice.js", "--chain", "polygon,ethereum"];
+
+		await run(argv, logger);
+
+		expect(mocks.parseChainFlag).toHaveBeenCalledWith(argv, CHAIN_REGISTRY);
+		expect(mocks.loadFilePriceProvider).toHaveBeenCalledWith("prices.json", 86_400);
+		for (const chainId of [137, 1]) {
+			expect(mocks.priceFees).toHaveBeenCalledWith(priceProvider, chainId, logger);
+			expect(mocks.repriceFees).toHaveBeenCalledWith(priceProvider, chainId, logger);
+		}
+		expect(logger.info).toHaveBeenCalledWith(
+			{
+				chain: "polygon",
+				pending: { priced: 3, unpriced: 1, waiting: 0 },
+				retried: { priced: 2, unpriced: 4, waiting: 0 },
+			},
+			"repricing complete",
+		);
+		expect(mocks.disconnectMongo).toHaveBeenCalledTimes(1);
+	});
+
+	it("should disconnect when pricing fails", async () => {
+		mocks.priceFees.mockRejectedValue(new Error("mongo down"));
+
+		await expect(run(["node", "reprice.js"], logger)).rejects.toThrow("mongo down");
+		expect(mocks.disconnectMongo).toHaveBeenCalledTimes(1);
+	});
+});
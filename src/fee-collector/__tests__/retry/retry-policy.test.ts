@@ -0,0 +1,149 @@
+import {
+	classifyRetryError,
+	computeRetryDelay,
+	currentRetryPolicies,
+	DEFAULT_RETRY_POLICY,
+	type RetryPolicies,
+	resolveRetryPolicy,
+	runWithRetryPolicies,
+} from "@/fee-collector/retry/retry-policy";
+
+// The shape ethers v5 gives provider errors: a SERVER_ERROR wrapping the JSON-RPC error, the raw body alongside
+function providerError(inner: { code: number; message: string }) {
+	return Object.assign(new Error("processing response error"), {
+		code: "SERVER_ERROR",
+		body: JSON.stringify({ jsonrpc: "2.0", id: 1, error: inner }),
+		error: Object.assign(new Error(inner.message), { code: inner.code }),
+	});
+}
+
+describe("classifyRetryError", () => {
+	it("should treat unknown, network and server errors as transient", () => {
+		const timeout = Object.assign(new Error("timeout"), { code: "TIMEOUT" });
+		const badGateway = Object.assign(new Error("bad response"), { code: "SERVER_ERROR", status: 502 });
+
+		expect(classifyRetryError(new Error("socket hang up"))).toEqual({ kind: "transient" });
+		expect(classifyRetryError(timeout)).toEqual({ kind: "transient" });
+		expect(classifyRetryError(badGateway)).toEqual({ kind: "transient" });
+		expect(classifyRetryError("not an error")).toEqual({ kind: "transient" });
+	});
+
+	it("should read the wait from a Retry-After header of a 429 response", () => {
+		const err = Object.assign(new Error("bad response"), {
+			code: "SERVER_ERROR",
+			status: 429,
+			headers: { "retry-after": "30" },
+		});
+
+		expect(classifyRetryError(err)).toEqual({ kind: "rate-limited", retryAfterMs: 30_000 });
+	});
+
+	it("should read the wait from a 'retry in' message of a wrapped JSON-RPC error", () => {
+		const err = providerError({ code: -32005, message: "Too many requests, retry in 10s" });
+
+		expect(classifyRetryError(err)).toEqual({ kind: "rate-limited", retryAfterMs: 10_000 });
+		expect(classifyRetryError(new Error("rate limit exceeded, try again in 250ms"))).toEqual({
+			kind: "rate-limited",
+			retryAfterMs: 250,
+		});
+	});
+
+	it("should classify a rate limit without a hint", () => {
+		expect(classifyRetryError(providerError({ code: -32005, message: "daily request count exceeded" }))).toEqual({
+			kind: "rate-limited",
+		});
+	});
+
+	it("should treat invalid arguments, unknown methods and range errors as fatal", () => {
+		expect(classifyRetryError(Object.assign(new Error("invalid address"), { code: "INVALID_ARGUMENT" }))).toEqual({
+			kind: "fatal",
+		});
+		expect(classifyRetryError(providerError({ code: -32601, message: "the method does not exist" }))).toEqual({
+			kind: "fatal",
+		});
+		expect(classifyRetryError(providerError({ code: -32000, message: "block range is too wide" }))).toEqual({
+			kind: "fatal",
+		});
+	});
+
+	it("should treat a -32005 'more than 10000 results' answer as a range error, not a rate limit", () => {
+		const err = providerError({
+			code: -32005,
+			message: "query returned more than 10000 results. Try with this block range [0x4AF5D00, 0x4AF5E2B].",
+		});
+
+		expect(classifyRetryError(err)).toEqual({ kind: "fatal" });
+	});
+
+	it("should sort Mongo errors by code and retryable label", () => {
+		const validation = Object.assign(new Error("Document failed validation"), { name: "MongoServerError", code: 121 });
+		const stepDown = Object.assign(new Error("not primary"), {
+			name: "MongoServerError",
+			code: 10107,
+			errorLabels: ["RetryableWriteError"],
+		});
+		const network = Object.assign(new Error("connection closed"), { name: "MongoNetworkError" });
+
+		expect(classifyRetryError(validation)).toEqual({ kind: "fatal" });
+		expect(classifyRetryError(stepDown)).toEqual({ kind: "transient" });
+		expect(classifyRetryError(network)).toEqual({ kind: "transient" });
+		expect(classifyRetryError(Object.assign(new Error("Cast to ObjectId failed"), { name: "CastError" }))).toEqual({
+			kind: "fatal",
+		});
+	});
+});
+
+describe("computeRetryDelay", () => {
+	const policy = { maxAttempts: 5, initialDelayMs: 1000, maxDelayMs: 5000, jitter: 0.5 };
+
+	it("should double the backoff per attempt up to maxDelayMs", () => {
+		const noJitter = () => 0;
+
+		expect(computeRetryDelay(policy, 1, { kind: "transient" }, noJitter)).toBe(1000);
+		expect(computeRetryDelay(policy, 2, { kind: "transient" }, noJitter)).toBe(2000);
+		expect(computeRetryDelay(policy, 4, { kind: "rate-limited" }, noJitter)).toBe(5000);
+	});
+
+	it("should randomize backoff delays downwards by up to the jitter share", () => {
+		expect(computeRetryDelay(policy, 2, { kind: "transient" }, () => 1)).toBe(1000);
+		expect(computeRetryDelay(policy, 2, { kind: "transient" }, () => 0.5)).toBe(1500);
+	});
+
+	it("should wait at least as long as the provider asked", () => {
+		expect(computeRetryDelay(policy, 1, { kind: "rate-limited", retryAfterMs: 3000 }, () => 0)).toBe(3000);
+		expect(computeRetryDelay(policy, 1, { kind: "rate-limited", retryAfterMs: 3000 }, () => 1)).toBe(4500);
+	});
+
+	it("should give up on fatal errors and on waits longer than maxDelayMs", () => {
+		expect(computeRetryDelay(policy, 1, { kind: "fatal" })).toBeNull();
+		expect(computeRetryDelay(policy, 1, { kind: "rate-limited", retryAfterMs: 60_000 })).toBeNull();
+	});
+});
+
+describe("resolveRetryPolicy", () => {
+	const policies: RetryPolicies = {
+		maxAttempts: 4,
+		initialDelayMs: 2000,
+		maxDelayMs: 30_000,
+		jitter: 0.1,
+		operations: { refreshBalances: { maxAttempts: 6 } },
+	};
+
+	it("should apply the operation's override over the chain's policy", () => {
+		expect(resolveRetryPolicy(policies, "refreshBalances")).toEqual({
+			maxAttempts: 6,
+			initialDelayMs: 2000,
+			maxDelayMs: 30_000,
+			jitter: 0.1,
+		});
+		expect(resolveRetryPolicy(policies, "getBlocks").maxAttempts).toBe(4);
+	});
+
+	it("should fall back to the default policy outside a chain's scope", async () => {
+		expect(resolveRetryPolicy(currentRetryPolicies(), "getBlocks")).toEqual(DEFAULT_RETRY_POLICY);
+
+		await runWithRetryPolicies(policies, async () => {
+			expect(resolveRetryPolicy(currentRetryPolicies(), "getBlocks").maxAttempts).toBe(4);
+		});
+	});
+});
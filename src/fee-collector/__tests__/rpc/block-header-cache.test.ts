@@ -0,0 +1,52 @@
+import type { ethers } from "ethers";
+import { BlockHeaderCache } from "@/fee-collector/rpc/block-header-cache";
+
+describe("BlockHeaderCache", () => {
+	function block(number: number, hash = `0x${number}`) {
+		return { number, hash } as ethers.providers.Block;
+	}
+
+	it("should evict the least recently used header beyond its size", () => {
+		const cache = new BlockHeaderCache(2);
+		cache.set(block(1));
+		cache.set(block(2));
+		cache.get(1);
+
+		cache.set(block(3));
+
+		expect(cache.size).toBe(2);
+		expect(cache.get(1)).toEqual(block(1));
+		expect(cache.get(2)).toBeUndefined();
+		expect(cache.get(3)).toEqual(block(3));
+	});
+
+	it("should evict the headers above a header whose hash changed", () => {
+		const cache = new BlockHeaderCache(10);
+		for (const number of [1, 2, 3, 4]) cache.set(block(number));
+
+		cache.set(block(2, "0xfork"));
+
+		expect(cache.get(1)).toEqual(block(1));
+		expect(cache.get(2)).toEqual(block(2, "0xfork"));
+		expect(cache.get(3)).toBeUndefined();
+		expect(cache.get(4)).toBeUndefined();
+	});
+
+	it("should keep the headers above a header stored again with the same hash", () => {
+		const cache = new BlockHeaderCache(10);
+		cache.set(block(1));
+		cache.set(block(2));
+
+		cache.set(block(1));
+
+		expect(cache.get(2)).toEqual(block(2));
+	});
+
+	it("should cache nothing with a size of 0", () => {
+		const cache = new BlockHeaderCache(0);
+
+		cache.set(block(1));
+
+		expect(cache.size).toBe(0);
+	});
+});
@@ -0,0 +1,149 @@
+import type { Logger } from "pino";
+
+import { RpcEndpointPool, redactRpcUrl } from "@/fee-collector/rpc/endpoint-pool";
+
+describe("RpcEndpointPool", () => {
+	const logger = { warn: vi.fn() } as unknown as Logger;
+	const options = { maxConsecutiveFailures: 2, cooldownMs: 60_000 };
+	const endpoints = [
+		{ url: "https://backup.example/key-b", priority: 1 },
+		{ url: "https://primary.example/key-a", priority: 0 },
+	];
+
+	function createPool() {
+		return new RpcEndpointPool(endpoints, (endpoint) => endpoint.url, options, logger);
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should require at least one endpoint", () => {
+		expect(() => new RpcEndpointPool([], () => null, options, logger)).toThrow("At least one RPC endpoint is required");
+	});
+
+	it("should call the highest-priority endpoint first", async () => {
+		const pool = createPool();
+		const call = vi.fn().mockResolvedValue("ok");
+
+		await expect(pool.execute("test", call)).resolves.toBe("ok");
+
+		expect(call).toHaveBeenCalledTimes(1);
+		expect(call).toHaveBeenCalledWith("https://primary.example/key-a");
+	});
+
+	it("should fail over to the next endpoint on error", async () => {
+		const pool = createPool();
+		const call = vi.fn().mockRejectedValueOnce(new Error("timeout")).mockResolvedValueOnce("from backup");
+
+		await expect(pool.execute("test", call)).resolves.toBe("from backup");
+
+		expect(call).toHaveBeenNthCalledWith(2, "https://backup.example/key-b");
+		expect(logger.warn).toHaveBeenCalledWith(
+			{ endpoint: "https://primary.example", label: "test", err: expect.any(Error) },
+			"rpc call failed, failing over",
+		);
+	});
+
+	it("should throw the last error when every endpoint fails", async () => {
+		const pool = createPool();
+		const call = vi
+			.fn()
+			.mockRejectedValueOnce(new Error("primary down"))
+			.mockRejectedValueOnce(new Error("backup down"));
+
+		await expect(pool.execute("test", call)).rejects.toThrow("backup down");
+	});
+
+	it("should take an endpoint out of rotation after consecutive failures, until the cooldown ends", async () => {
+		const pool = createPool();
+		const primaryDown = vi.fn(async (url: string) => {
+			if (url.includes("primary")) throw new Error("primary down");
+			return url;
+		});
+
+		await pool.execute("test", primaryDown);
+		await pool.execute("test", primaryDown);
+
+		const inCooldown = vi.fn().mockResolvedValue("ok");
+		await pool.execute("test", inCooldown);
+		expect(inCooldown).toHaveBeenCalledWith("https://backup.example/key-b");
+		expect(pool.getHealth()[0]).toMatchObject({
+			endpoint: "https://primary.example",
+			healthy: false,
+			consecutiveFailures: 2,
+			cooldownUntil: new Date("2025-01-01T00:01:00Z"),
+			lastError: "primary down",
+		});
+
+		vi.advanceTimersByTime(60_000);
+		const recovered = vi.fn().mockResolvedValue("ok");
+		await pool.execute("test", recovered);
+		expect(recovered).toHaveBeenCalledWith("https://primary.example/key-a");
+		expect(pool.getHealth()[0]).toMatchObject({ healthy: true, consecutiveFailures: 0, successes: 1 });
+	});
+
+	it("should still try cooling-down endpoints when none are healthy", async () => {
+		const pool = createPool();
+		const allDown = vi.fn().mockRejectedValue(new Error("down"));
+		await expect(pool.execute("test", allDown)).rejects.toThrow();
+		await expect(pool.execute("test", allDown)).rejects.toThrow();
+
+		const call = vi.fn().mockResolvedValue("ok");
+		await expect(pool.execute("test", call)).resolves.toBe("ok");
+	});
+
+	it("should pass range errors straight through without failing over or penalizing the endpoint", async () => {
+		const pool = createPool();
+		const call = vi.fn().mockRejectedValue(new Error("query returned more than 10000 results"));
+
+		await expect(pool.execute("test", call)).rejects.toThrow("query returned more than 10000 results");
+
+		expect(call).toHaveBeenCalledTimes(1);
+		expect(pool.getHealth()[0]).toMatchObject({ failures: 0, consecutiveFailures: 0 });
+	});
+
+	it("should query every healthy endpoint for quorum reads and drop failed answers", async () => {
+		const pool = createPool();
+		const call = vi.fn(async (url: string) => {
+			if (url.includes("backup")) throw new Error("backup down");
+			return url;
+		});
+
+		await expect(pool.executeAll(call)).resolves.toEqual({
+			queried: 2,
+			results: ["https://primary.example/key-a"],
+		});
+		expect(pool.getHealth()[1]).toMatchObject({ failures: 1, lastError: "backup down" });
+	});
+
+	it("should run per-endpoint checks against every endpoint, cooling-down ones included", async () => {
+		const pool = createPool();
+		const primaryDown = vi.fn().mockRejectedValue(new Error("primary down"));
+		await pool.execute("test", primaryDown).catch(() => undefined);
+		await pool.execute("test", primaryDown).catch(() => undefined);
+		const call = vi.fn(async (url: string) => {
+			if (url.includes("primary")) throw new Error("still down");
+			return url.length;
+		});
+
+		await expect(pool.executeEach(call)).resolves.toEqual([
+			{ endpoint: "https://primary.example", status: "rejected", reason: new Error("still down") },
+			{ endpoint: "https://backup.example", status: "fulfilled", value: "https://backup.example/key-b".length },
+		]);
+	});
+
+	it("should redact API keys from endpoint URLs", () => {
+		expect(redactRpcUrl("https://polygon-mainnet.g.alchemy.com/v2/secret-key")).toBe(
+			"https://polygon-mainnet.g.alchemy.com",
+		);
+		expect(redactRpcUrl("https://rpc.example/?apikey=secret")).toBe("https://rpc.example");
+		expect(redactRpcUrl("not a url")).toBe("<invalid url>");
+	});
+});
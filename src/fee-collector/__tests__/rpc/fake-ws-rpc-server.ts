@@ -0,0 +1,167 @@
+import { createHash } from "node:crypto";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Duplex } from "node:stream";
+
+type RpcHandler = (params: unknown[]) => unknown;
+
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+
+/**
+ * Minimal WebSocket JSON-RPC node for tests: answers requests from `handlers` and pushes
+ * `eth_subscription` notifications. Speaks just enough of RFC 6455 for the `ws` client ethers uses
+ * (unfragmented text frames, close frames).
+ */
+export class FakeWsRpcServer {
+	/** Every JSON-RPC request received, in order. */
+	readonly requests: { method: string; params: unknown[] }[] = [];
+	private readonly sockets = new Set<Duplex>();
+	private nextSubscriptionId = 1;
+
+	private constructor(
+		private readonly server: Server,
+		private readonly handlers: Record<string, RpcHandler>,
+	) {}
+
+	static async start(handlers: Record<string, RpcHandler> = {}): Promise<FakeWsRpcServer> {
+		const server = createServer();
+		const fake = new FakeWsRpcServer(server, handlers);
+		server.on("upgrade", (req, socket) => fake.accept(req, socket));
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		return fake;
+	}
+
+	get url(): string {
+		return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+	}
+
+	/**
+	 * Resolves once a request for `method` has been answered and the client has had time to read the reply.
+	 * Otherwise a notification sent right after an `eth_subscribe` reply can arrive in the same read and be
+	 * dropped, since the client only registers the subscription id once it has handled the reply.
+	 */
+	async waitForRequest(method: string): Promise<{ method: string; params: unknown[] }> {
+		for (;;) {
+			const request = this.requests.find((candidate) => candidate.method === method);
+			if (request) {
+				await new Promise((resolve) => setTimeout(resolve, 20));
+				return request;
+			}
+			await new Promise((resolve) => setTimeout(resolve, 5));
+		}
+	}
+
+	/** Pushes a notification for subscription `subscriptionId` to every connected client. */
+	notify(subscriptionId: string, result: unknown): void {
+		this.broadcast({ jsonrpc: "2.0", method: "eth_subscription", params: { subscription: subscriptionId, result } });
+	}
+
+	/** Drops every connection without a close handshake, like a node going away. */
+	dropConnections(): void {
+		for (const socket of this.sockets) socket.destroy();
+		this.sockets.clear();
+	}
+
+	async close(): Promise<void> {
+		this.dropConnections();
+		await new Promise((resolve) => this.server.close(resolve));
+	}
+
+	private accept(req: IncomingMessage, socket: Duplex): void {
+		const accept = createHash("sha1").update(`${req.headers["sec-websocket-key"]}${WEBSOCKET_GUID}`).digest("base64");
+		socket.write(
+			"HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+				`Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+		);
+		this.sockets.add(socket);
+		socket.on("close", () => this.sockets.delete(socket));
+		socket.on("error", () => this.sockets.delete(socket));
+
+		let buffered = Buffer.alloc(0);
+		socket.on("data", (chunk: Buffer) => {
+			buffered = Buffer.concat([buffered, chunk]);
+			for (let frame = readFrame(buffered); frame; frame = readFrame(buffered)) {
+				buffered = buffered.subarray(frame.length);
+				if (frame.opcode === OPCODE_CLOSE) {
+					socket.end(encodeFrame(OPCODE_CLOSE, frame.payload));
+					return;
+				}
+				if (frame.opcode === OPCODE_TEXT) this.handle(socket, frame.payload.toString("utf-8"));
+			}
+		});
+	}
+
+	private handle(socket: Duplex, message: string): void {
+		const { id, method, params } = JSON.parse(message) as { id: number; method: string; params: unknown[] };
+		this.requests.push({ method, params });
+
+		const handler = this.handlers[method] ?? this.defaultHandler(method);
+		const reply = handler
+			? { jsonrpc: "2.0", id, result: handler(params) }
+			: { jsonrpc: "2.0", id, error: { code: -32601, message: `method ${method} not supported` } };
+		socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(reply))));
+	}
+
+	private defaultHandler(method: string): RpcHandler | undefined {
+		switch (method) {
+			case "eth_chainId":
+				return () => "0x89";
+			case "eth_subscribe":
+				return () => `0x${(this.nextSubscriptionId++).toString(16)}`;
+			case "eth_unsubscribe":
+				return () => true;
+			default:
+				return undefined;
+		}
+	}
+
+	private broadcast(message: unknown): void {
+		const frame = encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message)));
+		for (const socket of this.sockets) socket.write(frame);
+	}
+}
+
+/** Decodes one complete client frame (always masked) from the start of `buffer`. */
+function readFrame(buffer: Buffer): { opcode: number; payload: Buffer; length: number } | null {
+	if (buffer.length < 2) return null;
+
+	const opcode = buffer[0] & 0x0f;
+	let payloadLength = buffer[1] & 0x7f;
+	let offset = 2;
+	if (payloadLength === 126) {
+		if (buffer.length < 4) return null;
+		payloadLength = buffer.readUInt16BE(2);
+		offset = 4;
+	} else if (payloadLength === 127) {
+		if (buffer.length < 10) return null;
+		payloadLength = Number(buffer.readBigUInt64BE(2));
+		offset = 10;
+	}
+
+	if (buffer.length < offset + 4 + payloadLength) return null;
+	const mask = buffer.subarray(offset, offset + 4);
+	const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + payloadLength));
+	for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+
+	return { opcode, payload, length: offset + 4 + payloadLength };
+}
+
+/** Encodes an unmasked server frame. */
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+	let header: Buffer;
+	if (payload.length < 126) {
+		header = Buffer.from([0x80 | opcode, payload.length]);
+	} else if (payload.length < 65_536) {
+		header = Buffer.alloc(4);
+		header.writeUInt16BE(payload.length, 2);
+		header[1] = 126;
+	} else {
+		header = Buffer.alloc(10);
+		header.writeBigUInt64BE(BigInt(payload.length), 2);
+		header[1] = 127;
+	}
+	header[0] = 0x80 | opcode;
+	return Buffer.concat([header, payload]);
+}
@@ -0,0 +1,153 @@
+import { ethers } from "ethers";
+import {
+	RequestScheduler,
+	RequestSchedulerRegistry,
+	ScheduledJsonRpcProvider,
+} from "@/fee-collector/rpc/request-scheduler";
+
+// A request that stays in flight until the test answers it
+function deferred<T = string>() {
+	let resolve!: (value: T) => void;
+	let reject!: (err: Error) => void;
+	const promise = new Promise<T>((res, rej) => {
+		resolve = res;
+		reject = rej;
+	});
+	return { promise, resolve, reject };
+}
+
+describe("RequestScheduler", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should hold requests beyond maxConcurrency in the queue until a slot frees up", async () => {
+		const scheduler = new RequestScheduler("https://rpc.example", { requestsPerSecond: 0, maxConcurrency: 2 });
+		const requests = [deferred(), deferred(), deferred()];
+		const started: number[] = [];
+
+		const results = requests.map((request, i) =>
+			scheduler.schedule(() => {
+				started.push(i);
+				return request.promise;
+			}),
+		);
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(started).toEqual([0, 1]);
+		expect(scheduler.stats()).toMatchObject({ queued: 1, inFlight: 2 });
+
+		requests[0].resolve("first");
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(started).toEqual([0, 1, 2]);
+		expect(scheduler.stats()).toMatchObject({ queued: 0, inFlight: 2 });
+		await expect(results[0]).resolves.toBe("first");
+	});
+
+	it("should let a burst of requestsPerSecond through and space the rest at the refill rate", async () => {
+		const scheduler = new RequestScheduler("https://rpc.example", { requestsPerSecond: 2, maxConcurrency: 10 });
+		const started: number[] = [];
+
+		for (const i of [0, 1, 2, 3]) {
+			scheduler.schedule(async () => {
+				started.push(i);
+			});
+		}
+		await vi.advanceTimersByTimeAsync(0);
+		expect(started).toEqual([0, 1]);
+
+		await vi.advanceTimersByTimeAsync(499);
+		expect(started).toEqual([0, 1]);
+
+		await vi.advanceTimersByTimeAsync(1);
+		expect(started).toEqual([0, 1, 2]);
+
+		await vi.advanceTimersByTimeAsync(500);
+		expect(started).toEqual([0, 1, 2, 3]);
+	});
+
+	it("should charge a batch a token per request and not let later requests overtake it", async () => {
+		const scheduler = new RequestScheduler("https://rpc.example", { requestsPerSecond: 4, maxConcurrency: 10 });
+		const started: string[] = [];
+		const run = (name: string) => async () => {
+			started.push(name);
+		};
+
+		scheduler.schedule(run("single"), 1);
+		scheduler.schedule(run("batch"), 4);
+		scheduler.schedule(run("next"), 1);
+		await vi.advanceTimersByTimeAsync(0);
+
+		// 3 tokens left, the batch needs 4
+		expect(started).toEqual(["single"]);
+		expect(scheduler.stats().queued).toBe(2);
+
+		await vi.advanceTimersByTimeAsync(250);
+		expect(started).toEqual(["single", "batch"]);
+
+		await vi.advanceTimersByTimeAsync(250);
+		expect(started).toEqual(["single", "batch", "next"]);
+	});
+
+	it("should pass a failed request's error on and free its slot", async () => {
+		const scheduler = new RequestScheduler("https://rpc.example", { requestsPerSecond: 0, maxConcurrency: 1 });
+
+		const failed = scheduler.schedule(() => Promise.reject(new Error("socket hang up")));
+		const next = scheduler.schedule(async () => "ok");
+
+		await expect(failed).rejects.toThrow("socket hang up");
+		await expect(next).resolves.toBe("ok");
+		expect(scheduler.stats()).toMatchObject({ queued: 0, inFlight: 0 });
+	});
+});
+
+describe("RequestSchedulerRegistry", () => {
+	it("should hand out one scheduler per key, restricted to the strictest limits it was asked for", () => {
+		const registry = new RequestSchedulerRegistry();
+
+		const first = registry.forKey("alchemy", { requestsPerSecond: 0, maxConcurrency: 4 });
+		const second = registry.forKey("alchemy", { requestsPerSecond: 10, maxConcurrency: 8 });
+		registry.forKey("https://polygon-rpc.com", { requestsPerSecond: 25, maxConcurrency: 10 });
+
+		expect(second).toBe(first);
+		expect(registry.stats()).toEqual([
+			{ key: "alchemy", requestsPerSecond: 10, maxConcurrency: 4, queued: 0, inFlight: 0 },
+			{ key: "https://polygon-rpc.com", requestsPerSecond: 25, maxConcurrency: 10, queued: 0, inFlight: 0 },
+		]);
+	});
+});
+
+describe("ScheduledJsonRpcProvider", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should send every JSON-RPC request through the endpoint's scheduler", async () => {
+		const answers = [deferred<unknown>(), deferred<unknown>()];
+		const send = vi
+			.spyOn(ethers.providers.JsonRpcProvider.prototype, "send")
+			.mockImplementation(() => answers[send.mock.calls.length - 1].promise);
+		const scheduler = new RequestScheduler("http://127.0.0.1:1", { requestsPerSecond: 0, maxConcurrency: 1 });
+		// A known network, so the provider doesn't send eth_chainId on its own
+		const provider = new ScheduledJsonRpcProvider("http://127.0.0.1:1", scheduler);
+		(provider as unknown as { _network: ethers.providers.Network })._network = { chainId: 137, name: "matic" };
+
+		const first = provider.send("eth_blockNumber", []);
+		const second = provider.send("eth_blockNumber", []);
+		await new Promise((resolve) => setImmediate(resolve));
+
+		expect(send).toHaveBeenCalledTimes(1);
+		expect(scheduler.stats()).toMatchObject({ queued: 1, inFlight: 1 });
+
+		answers[0].resolve("0x1");
+		answers[1].resolve("0x2");
+
+		await expect(first).resolves.toBe("0x1");
+		await expect(second).resolves.toBe("0x2");
+	});
+});
@@ -0,0 +1,371 @@
+import { Types } from "mongoose";
+import type { Logger } from "pino";
+
+const mocks = vi.hoisted(() => ({
+	chainState: null as { lastProcessedBlock: number; lastProcessedBlockHash: string; updatedAt: Date } | null,
+	leaseOwner: null as string | null,
+	chainStateUpdateOne: vi.fn(),
+	blockHashCountDocuments: vi.fn(),
+	blockHashDeleteMany: vi.fn(),
+	feeEventCountDocuments: vi.fn(),
+	feeEventDeleteMany: vi.fn(),
+	withdrawalCountDocuments: vi.fn(),
+	withdrawalDeleteMany: vi.fn(),
+	deadLetterCountDocuments: vi.fn(),
+	deadLetterDeleteMany: vi.fn(),
+	adminActionCreate: vi.fn(),
+	adminActionUpdateOne: vi.fn(),
+	balanceKeysFromBlock: vi.fn(),
+	reverseBalanceDeltas: vi.fn(),
+	queryBatchLogs: vi.fn(),
+	indexBatchLogs: vi.fn(),
+}));
+
+// Wraps a mock as a mongoose query method, resolved by `exec()`
+const { execOf } = vi.hoisted(() => ({
+	execOf:
+		(fn: (...args: unknown[]) => unknown) =>
+		(...args: unknown[]) => ({ exec: async () => fn(...args) }),
+}));
+
+vi.mock("@/fee-collector/models/chain-sync-state", () => ({
+	ChainSyncStateModel: {
+		findOne: () => ({ lean: () => ({ exec: async () => mocks.chainState }) }),
+		updateOne: execOf(mocks.chainStateUpdateOne),
+	},
+}));
+
+vi.mock("@/fee-collector/models/chain-lease", () => ({
+	ChainLeaseModel: {
+		findOne: () => ({ lean: () => ({ exec: async () => (mocks.leaseOwner ? { ownerId: mocks.leaseOwner } : null) }) }),
+	},
+}));
+
+vi.mock("@/fee-collector/models/block-hash", () => ({
+	BlockHashModel: {
+		countDocuments: execOf(mocks.blockHashCountDocuments),
+		deleteMany: execOf(mocks.blockHashDeleteMany),
+	},
+}));
+
+vi.mock("@/fee-collector/models/fee-collected-event", () => ({
+	FeeCollectedEventModel: {
+		countDocuments: execOf(mocks.feeEventCountDocuments),
+		deleteMany: execOf(mocks.feeEventDeleteMany),
+	},
+}));
+
+// Both withdrawal collections share one pair of mocks
+vi.mock("@/fee-collector/models/fees-withdrawn-event", () => ({
+	FeesWithdrawnEventModel: {
+		countDocuments: execOf(mocks.withdrawalCountDocuments),
+		deleteMany: execOf(mocks.withdrawalDeleteMany),
+	},
+}));
+
+vi.mock("@/fee-collector/models/lifi-fees-withdrawn-event", () => ({
+	LiFiFeesWithdrawnEventModel: {
+		countDocuments: execOf(mocks.withdrawalCountDocuments),
+		deleteMany: execOf(mocks.withdrawalDeleteMany),
+	},
+}));
+
+vi.mock("@/fee-collector/models/dead-letter-log", () => ({
+	DeadLetterLogModel: {
+		countDocuments: execOf(mocks.deadLetterCountDocuments),
+		deleteMany: execOf(mocks.deadLetterDeleteMany),
+	},
+}));
+
+vi.mock("@/fee-collector/models/admin-action", () => ({
+	AdminActionModel: {
+		create: mocks.adminActionCreate,
+		updateOne: execOf(mocks.adminActionUpdateOne),
+	},
+}));
+
+vi.mock("@/fee-collector/services/balance.service", () => ({
+	balanceKeysFromBlock: mocks.balanceKeysFromBlock,
+	reverseBalanceDeltas: mocks.reverseBalanceDeltas,
+}));
+
+vi.mock("@/fee-collector/services/sync.service", () => ({
+	queryBatchLogs: mocks.queryBatchLogs,
+	indexBatchLogs: mocks.indexBatchLogs,
+	withRetry: <T>(fn: () => Promise<T>) => fn(),
+}));
+
+import {
+	type AdminClient,
+	applyPurge,
+	applyReset,
+	ChainInUseError,
+	getChainStatus,
+	planPurge,
+	planRescan,
+	planReset,
+	rescanRange,
+	withAuditRecord,
+} from "@/fee-collector/services/admin.service";
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: () => logger } as unknown as Logger;
+const updatedAt = new Date("2026-01-01T00:00:00Z");
+
+function createClient(headBlock = 1000) {
+	return {
+		getBlockNumber: vi.fn().mockResolvedValue(headBlock),
+		getBlock: vi.fn(async (blockNumber: number) => ({ number: blockNumber, hash: `0xhash${blockNumber}` })),
+	} as unknown as AdminClient & {
+		getBlockNumber: ReturnType<typeof vi.fn>;
+		getBlock: ReturnType<typeof vi.fn>;
+	};
+}
+
+beforeEach(() => {
+	vi.clearAllMocks();
+	mocks.chainState = { lastProcessedBlock: 900, lastProcessedBlockHash: "0xhash900", updatedAt };
+	mocks.leaseOwner = null;
+	mocks.blockHashCountDocuments.mockReturnValue(3);
+	mocks.blockHashDeleteMany.mockReturnValue({ deletedCount: 3 });
+	mocks.feeEventCountDocuments.mockReturnValue(5);
+	mocks.feeEventDeleteMany.mockReturnValue({ deletedCount: 5 });
+	mocks.withdrawalCountDocuments.mockReturnValue(1);
+	mocks.withdrawalDeleteMany.mockReturnValue({ deletedCount: 1 });
+	mocks.deadLetterCountDocuments.mockReturnValue(2);
+	mocks.deadLetterDeleteMany.mockReturnValue({ deletedCount: 2 });
+	mocks.balanceKeysFromBlock.mockResolvedValue([{ chainId: 137, token: "0xtoken", integrator: "0xintegrator" }]);
+	mocks.adminActionCreate.mockResolvedValue({ _id: new Types.ObjectId() });
+});
+
+describe("getChainStatus", () => {
+	const chain = { chainId: 137, name: "polygon", confirmations: 20 };
+
+	it("should report the checkpoint, lease and lag behind the safe block", async () => {
+		mocks.leaseOwner = "worker-1";
+
+		expect(await getChainStatus(createClient(1000), chain)).toEqual({
+			chain: "polygon",
+			chainId: 137,
+			lastProcessedBlock: 900,
+			lastProcessedBlockHash: "0xhash900",
+			updatedAt,
+			headBlock: 1000,
+			safeBlock: 980,
+			lag: 80,
+			syncedBy: "worker-1",
+		});
+	});
+
+	it("should keep the stored state when the head can't be read", async () => {
+		const client = createClient();
+		client.getBlockNumber.mockRejectedValueOnce(new Error("connection refused"));
+		mocks.chainState = null;
+
+		expect(await getChainStatus(client, chain)).toMatchObject({
+			lastProcessedBlock: null,
+			headBlock: null,
+			lag: null,
+			error: "connection refused",
+		});
+		expect(client.getBlockNumber).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe("planReset / applyReset", () => {
+	it("should plan the reset with the block's current hash", async () => {
+		const client = createClient();
+
+		expect(await planReset(client, 137, 800, logger)).toEqual({
+			chainId: 137,
+			fromBlock: 900,
+			toBlock: 800,
+			toBlockHash: "0xhash800",
+			ledgerEntries: 3,
+			syncedBy: null,
+		});
+		expect(client.getBlock).toHaveBeenCalledWith(800, { fresh: true });
+		expect(mocks.blockHashCountDocuments).toHaveBeenCalledWith({ chainId: 137, blockNumber: { $gt: 800 } });
+	});
+
+	it("should refuse a block the chain doesn't have", async () => {
+		const client = createClient();
+		client.getBlock.mockResolvedValueOnce(null);
+
+		await expect(planReset(client, 137, 5000, logger)).rejects.toThrow("Block 5000 not found on chain 137");
+	});
+
+	it("should drop the ledger above the block and move the checkpoint", async () => {
+		const plan = await planReset(createClient(), 137, 800, logger);
+
+		expect(await applyReset(plan, logger)).toEqual({ fromBlock: 900, toBlock: 800, ledgerEntries: 3 });
+		expect(mocks.blockHashDeleteMany).toHaveBeenCalledWith({ chainId: 137, blockNumber: { $gt: 800 } });
+		expect(mocks.chainStateUpdateOne).toHaveBeenCalledWith(
+			{ chainId: 137 },
+			{ $set: { lastProcessedBlock: 800, lastProcessedBlockHash: "0xhash800" } },
+			{ upsert: true },
+		);
+	});
+
+	it("should refuse a chain a live worker is syncing", async () => {
+		const plan = await planReset(createClient(), 137, 800, logger);
+		mocks.leaseOwner = "worker-1";
+
+		await expect(applyReset(plan, logger)).rejects.toBeInstanceOf(ChainInUseError);
+		expect(mocks.chainStateUpdateOne).not.toHaveBeenCalled();
+	});
+});
+
+describe("planPurge / applyPurge", () => {
+	it("should plan the purge with a reset below the range when the checkpoint is in it", async () => {
+		const plan = await planPurge(createClient(), 137, 850, logger);
+
+		expect(plan).toMatchObject({
+			chainId: 137,
+			fromBlock: 850,
+			feesCollected: 5,
+			feesWithdrawn: 1,
+			lifiFeesWithdrawn: 1,
+			deadLetters: 2,
+			balances: 1,
+			reset: { toBlock: 849, toBlockHash: "0xhash849" },
+		});
+		expect(mocks.feeEventCountDocuments).toHaveBeenCalledWith({
+			chainId: 137,
+			blockNumber: { $gte: 850 },
+			reorgId: null,
+		});
+	});
+
+	it("should leave the checkpoint alone when it is below the range", async () => {
+		const plan = await planPurge(createClient(), 137, 950, logger);
+
+		expect(plan.reset).toBeNull();
+	});
+
+	it("should take the canonical events out of the balances, move the checkpoint and delete the events", async () => {
+		const plan = await planPurge(createClient(), 137, 850, logger);
+
+		const result = await applyPurge(plan, logger);
+
+		expect(result).toEqual({
+			feesCollected: 5,
+			feesWithdrawn: 1,
+			lifiFeesWithdrawn: 1,
+			deadLetters: 2,
+			balances: 1,
+			reset: { fromBlock: 900, toBlock: 849, ledgerEntries: 3 },
+		});
+		expect(mocks.chainStateUpdateOne.mock.invocationCallOrder[0]).toBeLessThan(
+			mocks.feeEventDeleteMany.mock.invocationCallOrder[0],
+		);
+		expect(mocks.feeEventDeleteMany).toHaveBeenCalledWith({ chainId: 137, blockNumber: { $gte: 850 }, reorgId: null });
+		expect(mocks.deadLetterDeleteMany).toHaveBeenCalledWith({
+			chainId: 137,
+			blockNumber: { $gte: 850 },
+			resolvedAt: null,
+		});
+		expect(mocks.reverseBalanceDeltas).toHaveBeenCalledWith(
+			[{ chainId: 137, token: "0xtoken", integrator: "0xintegrator" }],
+			849,
+			logger,
+		);
+		expect(mocks.reverseBalanceDeltas.mock.invocationCallOrder[0]).toBeLessThan(
+			mocks.feeEventDeleteMany.mock.invocationCallOrder[0],
+		);
+	});
+});
+
+describe("planRescan / rescanRange", () => {
+	const options = {
+		batchSize: 100,
+		minBatchSize: 10,
+		maxBatchSize: 100,
+		targetLogsPerBatch: 1000,
+		enrichTransactions: false,
+	};
+
+	it("should cap the range at the safe block", async () => {
+		expect(
+			await planRescan(
+				createClient(1000),
+				{ chainId: 137, confirmations: 20 },
+				{ fromBlock: 900, toBlock: 2000 },
+				logger,
+			),
+		).toEqual({
+			chainId: 137,
+			fromBlock: 900,
+			toBlock: 980,
+			storedEvents: 5,
+		});
+
+		await expect(
+			planRescan(createClient(1000), { chainId: 137, confirmations: 20 }, { fromBlock: 990, toBlock: 2000 }, logger),
+		).rejects.toThrow("Rescan range is empty");
+	});
+
+	it("should index the range in batches, shrinking rejected ones", async () => {
+		const client = createClient();
+		mocks.queryBatchLogs.mockRejectedValueOnce(new Error("block range is too wide"));
+		mocks.queryBatchLogs.mockResolvedValue({ feeLogs: [] });
+		mocks.indexBatchLogs.mockResolvedValue({ added: 2 });
+
+		const result = await rescanRange(
+			client,
+			{ chainId: 137, fromBlock: 100, toBlock: 199, storedEvents: 0 },
+			options,
+			logger,
+		);
+
+		expect(result).toEqual({ lastProcessedBlock: 199, eventsAdded: 4 });
+		expect(mocks.queryBatchLogs.mock.calls.map(([, from, to]) => [from, to])).toEqual([
+			[100, 199],
+			[100, 149],
+			[150, 199],
+		]);
+		expect(mocks.chainStateUpdateOne).not.toHaveBeenCalled();
+	});
+
+	it("should stop between batches once aborted", async () => {
+		const controller = new AbortController();
+		mocks.queryBatchLogs.mockResolvedValue({ feeLogs: [] });
+		mocks.indexBatchLogs.mockImplementation(async () => {
+			controller.abort();
+			return { added: 1 };
+		});
+
+		const result = await rescanRange(
+			createClient(),
+			{ chainId: 137, fromBlock: 100, toBlock: 399, storedEvents: 0 },
+			options,
+			logger,
+			controller.signal,
+		);
+
+		expect(result).toEqual({ lastProcessedBlock: 199, eventsAdded: 1 });
+	});
+});
+
+describe("withAuditRecord", () => {
+	const context = { command: "reset" as const, chainId: 137, operator: "ops@host", argv: ["reset"] };
+
+	it("should record the action before running it and its result after", async () => {
+		const fn = vi.fn().mockResolvedValue({ toBlock: 800 });
+
+		expect(await withAuditRecord(context, { toBlock: 800 }, fn)).toEqual({ toBlock: 800 });
+		expect(mocks.adminActionCreate).toHaveBeenCalledWith({ ...context, plan: { toBlock: 800 }, status: "started" });
+		expect(mocks.adminActionCreate.mock.invocationCallOrder[0]).toBeLessThan(fn.mock.invocationCallOrder[0]);
+		expect(mocks.adminActionUpdateOne).toHaveBeenCalledWith(expect.anything(), {
+			$set: { status: "done", result: { toBlock: 800 } },
+		});
+	});
+
+	it("should record the failure and rethrow it", async () => {
+		const error = new ChainInUseError(137, "worker-1");
+
+		await expect(withAuditRecord(context, {}, () => Promise.reject(error))).rejects.toBe(error);
+		expect(mocks.adminActionUpdateOne).toHaveBeenCalledWith(expect.anything(), {
+			$set: { status: "failed", error: error.message },
+		});
+	});
+});
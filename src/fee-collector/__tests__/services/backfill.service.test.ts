@@ -0,0 +1,321 @@
+import type { Logger } from "pino";
+
+const mocks = vi.hoisted(() => ({
+	segments: [] as Record<string, unknown>[],
+	segmentUpdateOne: vi.fn(),
+	chainStateUpdateOne: vi.fn(),
+	chainStateDeleteOne: vi.fn(),
+	feeEventBulkWrite: vi.fn(),
+	parseFeeCollectedEvents: vi.fn(),
+	parseWithdrawalEvents: vi.fn(),
+	refreshBalances: vi.fn(),
+	resolveTokens: vi.fn(),
+}));
+
+// Just enough of the `backfill_segments` collection to resume from checkpoints and build reports
+vi.mock("@/fee-collector/models/backfill-segment", () => {
+	type Segment = Record<string, number | string>;
+	type UpsertOp = { updateOne: { filter: Segment; update: { $setOnInsert: Segment } } };
+	const matches = (segment: Segment, filter: Segment) =>
+		Object.entries(filter).every(([key, value]) => segment[key] === value);
+	const inRange = (value: number, condition: { $gte?: number; $lte?: number }) =>
+		(condition.$gte === undefined || value >= condition.$gte) &&
+		(condition.$lte === undefined || value <= condition.$lte);
+
+	return {
+		BackfillSegmentModel: {
+			bulkWrite: async (ops: UpsertOp[]) => {
+				for (const { updateOne } of ops) {
+					if (!mocks.segments.some((segment) => matches(segment as Segment, updateOne.filter))) {
+						mocks.segments.push({ eventsAdded: 0, ...updateOne.update.$setOnInsert });
+					}
+				}
+			},
+			find: (filter: Record<string, number | { $gte?: number; $lte?: number }>) => ({
+				lean: () => ({
+					exec: async () =>
+						mocks.segments.filter(
+							(segment) =>
+								segment.chainId === filter.chainId &&
+								inRange(segment.fromBlock as number, filter.fromBlock as object) &&
+								inRange(segment.toBlock as number, filter.toBlock as object),
+						),
+				}),
+			}),
+			updateOne: (
+				filter: Segment,
+				update: { $set: Segment; $inc?: { eventsAdded: number }; $unset?: Record<string, 1> },
+			) => {
+				mocks.segmentUpdateOne(filter, update);
+				return {
+					exec: async () => {
+						const segment = mocks.segments.find((candidate) => matches(candidate as Segment, filter));
+						if (!segment) return;
+						Object.assign(segment, update.$set);
+						for (const key of Object.keys(update.$unset ?? {})) delete segment[key];
+						segment.eventsAdded = (segment.eventsAdded as number) + (update.$inc?.eventsAdded ?? 0);
+					},
+				};
+			},
+		},
+	};
+});
+
+vi.mock("@/fee-collector/models/chain-sync-state", () => ({
+	ChainSyncStateModel: {
+		updateOne: mocks.chainStateUpdateOne,
+		deleteOne: mocks.chainStateDeleteOne,
+	},
+}));
+
+vi.mock("@/fee-collector/models/fee-collected-event", () => ({
+	FeeCollectedEventModel: {
+		bulkWrite: mocks.feeEventBulkWrite,
+	},
+}));
+
+vi.mock("@/fee-collector/services/parsing.service", () => ({
+	parseFeeCollectedEvents: mocks.parseFeeCollectedEvents,
+	parseWithdrawalEvents: mocks.parseWithdrawalEvents,
+}));
+
+vi.mock("@/fee-collector/services/balance.service", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@/fee-collector/services/balance.service")>()),
+	refreshBalances: mocks.refreshBalances,
+}));
+
+vi.mock("@/fee-collector/services/token.service", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@/fee-collector/services/token.service")>()),
+	resolveTokens: mocks.resolveTokens,
+}));
+
+import { type BackfillConfig, backfill, findGaps, splitIntoSegments } from "@/fee-collector/services/backfill.service";
+import type { SyncClient } from "@/fee-collector/services/sync.service";
+
+describe("Backfill service", () => {
+	const config: BackfillConfig = {
+		chainId: 137,
+		fromBlock: 100,
+		toBlock: 129,
+		confirmations: 5,
+		segmentSize: 10,
+		concurrency: 2,
+		batchSize: 5,
+		minBatchSize: 1,
+		maxBatchSize: 5,
+		targetLogsPerBatch: 1000,
+		batchDelayMs: 0,
+		enrichTransactions: false,
+	};
+	const loggerMocks = { child: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+	const logger = loggerMocks as unknown as Logger;
+
+	// Mimics the client's single log query per batch with a test client's separate fee and withdrawal mocks
+	async function queryBothLogs(
+		client: Pick<SyncClient, "queryFeesCollected"> & { queryWithdrawals: SyncClient["queryFeesCollected"] },
+		fromBlock: number,
+		toBlock: number,
+	) {
+		const [feesCollected, withdrawals] = await Promise.all([
+			client.queryFeesCollected(fromBlock, toBlock),
+			client.queryWithdrawals(fromBlock, toBlock),
+		]);
+		return { feesCollected, withdrawals };
+	}
+
+	function createClient() {
+		return {
+			getBlockNumber: vi.fn().mockResolvedValue(1_000),
+			queryFeesCollected: vi.fn().mockResolvedValue([]),
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn(),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
+			getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
+				number: blockNumber,
+				hash: `0xblock${blockNumber}`,
+				timestamp: 1_700_000_000,
+			})),
+		};
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mocks.segments.length = 0;
+		loggerMocks.child.mockReturnValue(logger);
+		mocks.feeEventBulkWrite.mockResolvedValue({ upsertedCount: 1, matchedCount: 0 });
+		mocks.parseFeeCollectedEvents.mockReturnValue([{ chainId: 137, txHash: "0xtx", logIndex: 0 }]);
+		mocks.parseWithdrawalEvents.mockReturnValue({ feesWithdrawn: [], lifiFeesWithdrawn: [] });
+		mocks.refreshBalances.mockResolvedValue(undefined);
+		mocks.resolveTokens.mockResolvedValue(undefined);
+	});
+
+	it("should scan every segment in batches and report full coverage", async () => {
+		const client = createClient();
+		client.queryFeesCollected.mockImplementation(async (from: number) =>
+			from === 110 ? [{ blockNumber: 112, logIndex: 0 }] : [],
+		);
+
+		const report = await backfill(client, config, logger);
+
+		const ranges = client.queryFeesCollected.mock.calls.map(([from, to]) => `${from}-${to}`).sort();
+		expect(ranges).toEqual(["100-104", "105-109", "110-114", "115-119", "120-124", "125-129"]);
+		expect(report).toEqual({
+			chainId: 137,
+			fromBlock: 100,
+			toBlock: 129,
+			segments: { total: 3, pending: 0, done: 3, failed: 0 },
+			eventsAdded: 1,
+			coveredBlocks: 30,
+			gaps: [],
+			complete: true,
+		});
+	});
+
+	it("should checkpoint per segment and never touch the live sync state", async () => {
+		await backfill(createClient(), config, logger);
+
+		expect(mocks.segmentUpdateOne).toHaveBeenCalledWith(
+			{ chainId: 137, fromBlock: 100, toBlock: 109 },
+			expect.objectContaining({ $set: { lastProcessedBlock: 109, status: "done" } }),
+		);
+		expect(mocks.chainStateUpdateOne).not.toHaveBeenCalled();
+		expect(mocks.chainStateDeleteOne).not.toHaveBeenCalled();
+	});
+
+	it("should run at most `concurrency` segments at the same time", async () => {
+		const client = createClient();
+		let running = 0;
+		let maxRunning = 0;
+		client.queryFeesCollected.mockImplementation(async () => {
+			maxRunning = Math.max(maxRunning, ++running);
+			await new Promise((resolve) => setTimeout(resolve, 1));
+			running--;
+			return [];
+		});
+
+		await backfill(client, { ...config, segmentSize: 5, batchSize: 5 }, logger);
+
+		expect(maxRunning).toBe(2);
+	});
+
+	it("should cap toBlock at the safe block", async () => {
+		const client = createClient();
+		client.getBlockNumber.mockResolvedValue(120); // safe block 115
+
+		const report = await backfill(client, config, logger);
+
+		expect(report.toBlock).toBe(115);
+		expect(logger.warn).toHaveBeenCalledWith(
+			{ requested: 129, safeBlock: 115 },
+			"toBlock is past the safe block, capping it",
+		);
+	});
+
+	it("should mark a failing segment, keep going with the others and report the gap", async () => {
+		const client = createClient();
+		// A range error at the minimum batch size fails without retry backoff
+		client.queryFeesCollected.mockImplementation(async (from: number) => {
+			if (from === 115) throw new Error("block range is too wide");
+			return [];
+		});
+
+		const report = await backfill(client, { ...config, concurrency: 1, minBatchSize: 5 }, logger);
+
+		expect(report.segments).toEqual({ total: 3, pending: 0, done: 2, failed: 1 });
+		expect(report.gaps).toEqual([{ fromBlock: 115, toBlock: 119 }]);
+		expect(report.coveredBlocks).toBe(25);
+		expect(report.complete).toBe(false);
+		expect(mocks.segments.find((segment) => segment.fromBlock === 110)).toMatchObject({
+			status: "failed",
+			lastProcessedBlock: 114,
+			lastError: "block range is too wide",
+		});
+	});
+
+	it("should resume a segment from its checkpoint on re-run", async () => {
+		mocks.segments.push(
+			{ chainId: 137, fromBlock: 100, toBlock: 109, lastProcessedBlock: 109, status: "done", eventsAdded: 4 },
+			{ chainId: 137, fromBlock: 110, toBlock: 119, lastProcessedBlock: 114, status: "failed", eventsAdded: 0 },
+		);
+		const client = createClient();
+
+		const report = await backfill(client, config, logger);
+
+		const ranges = client.queryFeesCollected.mock.calls.map(([from, to]) => `${from}-${to}`).sort();
+		expect(ranges).toEqual(["115-119", "120-124", "125-129"]);
+		expect(report.complete).toBe(true);
+		expect(report.eventsAdded).toBe(4);
+		expect(mocks.segments.find((segment) => segment.fromBlock === 110)).not.toHaveProperty("lastError");
+	});
+
+	it("should shrink the batch when the provider rejects the range", async () => {
+		const client = createClient();
+		client.queryFeesCollected.mockImplementation(async (from: number, to: number) => {
+			if (to - from + 1 > 2) throw new Error("block range is too wide");
+			return [];
+		});
+
+		const report = await backfill(client, { ...config, toBlock: 109 }, logger);
+
+		expect(client.queryFeesCollected).toHaveBeenCalledWith(100, 101);
+		expect(report.complete).toBe(true);
+	});
+
+	it("should stop between batches when aborted and leave the rest for the next run", async () => {
+		const abortController = new AbortController();
+		const client = createClient();
+		client.queryFeesCollected.mockImplementation(async () => {
+			abortController.abort();
+			return [];
+		});
+
+		const report = await backfill(client, { ...config, concurrency: 1 }, logger, abortController.signal);
+
+		expect(client.queryFeesCollected).toHaveBeenCalledTimes(1);
+		expect(report.gaps).toEqual([{ fromBlock: 105, toBlock: 129 }]);
+	});
+
+	it("should reject an empty range", async () => {
+		const client = createClient();
+		client.getBlockNumber.mockResolvedValue(50);
+
+		await expect(backfill(client, config, logger)).rejects.toThrow(
+			"Backfill range is empty: fromBlock 100 is past toBlock 45",
+		);
+	});
+});
+
+describe("splitIntoSegments", () => {
+	it("should split a range into segments, the last one possibly shorter", () => {
+		expect(splitIntoSegments(100, 124, 10)).toEqual([
+			{ fromBlock: 100, toBlock: 109 },
+			{ fromBlock: 110, toBlock: 119 },
+			{ fromBlock: 120, toBlock: 124 },
+		]);
+	});
+});
+
+describe("findGaps", () => {
+	it("should return the parts of the range no covered range touches", () => {
+		expect(
+			findGaps(100, 199, [
+				{ fromBlock: 150, toBlock: 159 },
+				{ fromBlock: 90, toBlock: 109 },
+				{ fromBlock: 155, toBlock: 169 },
+			]),
+		).toEqual([
+			{ fromBlock: 110, toBlock: 149 },
+			{ fromBlock: 170, toBlock: 199 },
+		]);
+	});
+
+	it("should return the whole range when nothing is covered", () => {
+		expect(findGaps(100, 199, [])).toEqual([{ fromBlock: 100, toBlock: 199 }]);
+	});
+});
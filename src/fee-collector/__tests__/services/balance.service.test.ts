@@ -0,0 +1,460 @@
+import type { Logger } from "pino";
+
+const mocks = vi.hoisted(() => ({
+	feeEventAggregate: vi.fn(),
+	feesWithdrawnAggregate: vi.fn(),
+	balanceFindOne: vi.fn(),
+	balanceUpdateOne: vi.fn(),
+	chainStateFindOne: vi.fn(),
+}));
+
+vi.mock("@/fee-collector/models/chain-sync-state", () => ({
+	ChainSyncStateModel: {
+		findOne: mocks.chainStateFindOne,
+	},
+}));
+
+vi.mock("@/fee-collector/models/fee-collected-event", () => ({
+	FeeCollectedEventModel: {
+		aggregate: mocks.feeEventAggregate,
+	},
+}));
+
+vi.mock("@/fee-collector/models/fees-withdrawn-event", () => ({
+	FeesWithdrawnEventModel: {
+		aggregate: mocks.feesWithdrawnAggregate,
+	},
+}));
+
+vi.mock("@/fee-collector/models/integrator-balance", () => ({
+	IntegratorBalanceModel: {
+		findOne: mocks.balanceFindOne,
+		updateOne: mocks.balanceUpdateOne,
+	},
+}));
+
+import {
+	applyBalanceDeltas,
+	balanceKeysFromBlock,
+	balanceKeysOf,
+	refreshBalances,
+	reverseBalanceDeltas,
+} from "@/fee-collector/services/balance.service";
+import type { ParsedFeeCollectedEvent, ParsedWithdrawalEvent } from "@/fee-collector/services/parsing.service";
+
+describe("Balance service", () => {
+	const integrator = "0x2222222222222222222222222222222222222222";
+	const token = "0x1111111111111111111111111111111111111111";
+	const key = { chainId: 137, integrator, token };
+	const logger = { debug: vi.fn() } as unknown as Logger;
+
+	// Mimics Mongoose's `.updateOne().exec()` / `.aggregate().exec()` chain
+	function execResult<T>(value: T) {
+		return { exec: async () => value };
+	}
+
+	function execRejection(err: unknown) {
+		return { exec: async () => Promise.reject(err) };
+	}
+
+	// Mimics Mongoose's `.findOne().lean().exec()` chain
+	function leanResult<T>(value: T) {
+		return { lean: () => ({ exec: async () => value }) };
+	}
+
+	function storedBalance(fields: Record<string, unknown> = {}) {
+		return {
+			collected: "100",
+			withdrawn: "40",
+			integratorFeeUsd: 10,
+			lifiFeeUsd: 1,
+			unpricedEvents: 2,
+			appliedThroughBlock: 500,
+			...fields,
+		};
+	}
+
+	// What the `$group` stage of a balance refresh returns for `amounts`: 18-digit chunk sums, as Decimal128
+	function chunkSums(amounts: string[]) {
+		const sums: Record<string, { toString(): string }> = {};
+		for (let chunk = 0; chunk < 5; chunk++) {
+			const total = amounts.reduce((sum, amount) => {
+				const end = amount.length - chunk * 18;
+				return end > 0 ? sum + BigInt(amount.slice(Math.max(end - 18, 0), end)) : sum;
+			}, 0n);
+			sums[`amountChunk${chunk}`] = { toString: () => total.toString() };
+		}
+		return sums;
+	}
+
+	function feeGroup(
+		events: { integratorFee: string; priceStatus?: string; integratorFeeUsd?: number; lifiFeeUsd?: number }[],
+	) {
+		const priced = events.filter((e) => e.priceStatus === "priced");
+		return {
+			_id: null,
+			...chunkSums(events.map((e) => e.integratorFee)),
+			events: events.length,
+			pricedEvents: priced.length,
+			integratorFeeUsd: priced.reduce((sum, e) => sum + (e.integratorFeeUsd ?? 0), 0),
+			lifiFeeUsd: priced.reduce((sum, e) => sum + (e.lifiFeeUsd ?? 0), 0),
+		};
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mocks.feeEventAggregate.mockReturnValue(execResult([]));
+		mocks.feesWithdrawnAggregate.mockReturnValue(execResult([]));
+		mocks.balanceFindOne.mockReturnValue(leanResult(null));
+		mocks.balanceUpdateOne.mockReturnValue(execResult({ matchedCount: 1, upsertedCount: 0 }));
+		mocks.chainStateFindOne.mockReturnValue(leanResult({ lastProcessedBlock: 1000 }));
+	});
+
+	describe("refreshBalances", () => {
+		it("should sum the canonical amounts exactly, beyond the precision of a JS number", async () => {
+			mocks.feeEventAggregate.mockReturnValue(
+				execResult([feeGroup([{ integratorFee: "1000000000000000000000" }, { integratorFee: "9007199254740993" }])]),
+			);
+			mocks.feesWithdrawnAggregate.mockReturnValue(
+				execResult([{ _id: null, ...chunkSums(["400000000000000000001"]) }]),
+			);
+
+			await refreshBalances([key], logger);
+
+			expect(mocks.feeEventAggregate).toHaveBeenCalledWith([
+				{ $match: { chainId: 137, integrator, token, reorgId: null, blockNumber: { $lte: 1000 } } },
+				{ $group: expect.objectContaining({ _id: null, amountChunk0: expect.anything(), events: { $sum: 1 } }) },
+			]);
+			expect(mocks.feesWithdrawnAggregate).toHaveBeenCalledWith([
+				{ $match: { chainId: 137, to: integrator, token, reorgId: null, blockNumber: { $lte: 1000 } } },
+				{ $group: expect.objectContaining({ _id: null, amountChunk4: expect.anything() }) },
+			]);
+			expect(mocks.balanceUpdateOne).toHaveBeenCalledWith(
+				{ chainId: 137, integrator, token, appliedThroughBlock: null },
+				{
+					$set: {
+						chainId: 137,
+						integrator,
+						token,
+						collected: "1000009007199254740993",
+						withdrawn: "400000000000000000001",
+						outstanding: "600009007199254740992",
+						integratorFeeUsd: 0,
+						lifiFeeUsd: 0,
+						unpricedEvents: 2,
+						appliedThroughBlock: 1000,
+						computedAt: expect.any(Date),
+					},
+				},
+				{ upsert: true },
+			);
+		});
+
+		it("should carry chunk sums that outgrow their 18 digits into a uint256-sized total", async () => {
+			const maxUint256 = (2n ** 256n - 1n).toString();
+			mocks.feeEventAggregate.mockReturnValue(
+				execResult([feeGroup([{ integratorFee: maxUint256 }, { integratorFee: maxUint256 }, { integratorFee: "1" }])]),
+			);
+
+			await refreshBalances([key], logger);
+
+			expect(mocks.balanceUpdateOne).toHaveBeenCalledWith(
+				expect.anything(),
+				{ $set: expect.objectContaining({ collected: (2n ** 257n - 1n).toString() }) },
+				{ upsert: true },
+			);
+		});
+
+		it("should sum USD values of priced events only and count the others", async () => {
+			mocks.feeEventAggregate.mockReturnValue(
+				execResult([
+					feeGroup([
+						{ integratorFee: "1", priceStatus: "priced", integratorFeeUsd: 1.5, lifiFeeUsd: 0.25 },
+						{ integratorFee: "1", priceStatus: "priced", integratorFeeUsd: 2, lifiFeeUsd: 0.5 },
+						{ integratorFee: "1", priceStatus: "unpriced" },
+						{ integratorFee: "1", priceStatus: "pending" },
+					]),
+				]),
+			);
+
+			await refreshBalances([key], logger);
+
+			expect(mocks.balanceUpdateOne).toHaveBeenCalledWith(
+				expect.anything(),
+				{
+					$set: expect.objectContaining({
+						collected: "4",
+						integratorFeeUsd: 3.5,
+						lifiFeeUsd: 0.75,
+						unpricedEvents: 2,
+					}),
+				},
+				{ upsert: true },
+			);
+		});
+
+		it("should go negative when the integrator withdrew more than the indexed events collected", async () => {
+			mocks.feesWithdrawnAggregate.mockReturnValue(execResult([{ _id: null, ...chunkSums(["5"]) }]));
+
+			await refreshBalances([key], logger);
+
+			expect(mocks.balanceUpdateOne).toHaveBeenCalledWith(
+				expect.anything(),
+				{ $set: expect.objectContaining({ collected: "0", withdrawn: "5", outstanding: "-5" }) },
+				{ upsert: true },
+			);
+		});
+
+		it("should count through the watermark a sync batch moved past the checkpoint", async () => {
+			mocks.balanceFindOne.mockReturnValue(leanResult(storedBalance({ appliedThroughBlock: 1200 })));
+
+			await refreshBalances([key], logger);
+
+			expect(mocks.feeEventAggregate).toHaveBeenCalledWith([
+				expect.objectContaining({ $match: expect.objectContaining({ blockNumber: { $lte: 1200 } }) }),
+				expect.anything(),
+			]);
+			expect(mocks.balanceUpdateOne).toHaveBeenCalledWith(
+				{ chainId: 137, integrator, token, appliedThroughBlock: 1200 },
+				{ $set: expect.objectContaining({ appliedThroughBlock: 1200 }) },
+				{ upsert: true },
+			);
+		});
+
+		it("should count nothing before the chain's first checkpoint", async () => {
+			mocks.chainStateFindOne.mockReturnValue(leanResult(null));
+
+			await refreshBalances([key], logger);
+
+			expect(mocks.balanceUpdateOne).toHaveBeenCalledWith(
+				expect.anything(),
+				{ $set: expect.objectContaining({ collected: "0", appliedThroughBlock: -1 }) },
+				{ upsert: true },
+			);
+		});
+
+		it("should read the balance again when another writer stored it first", async () => {
+			mocks.balanceUpdateOne
+				.mockReturnValueOnce(execRejection(Object.assign(new Error("E11000"), { code: 11000 })))
+				.mockReturnValueOnce(execResult({ matchedCount: 0, upsertedCount: 0 }));
+			mocks.balanceFindOne
+				.mockReturnValueOnce(leanResult(null))
+				.mockReturnValueOnce(leanResult(storedBalance({ appliedThroughBlock: 900 })))
+				.mockReturnValue(leanResult(storedBalance({ appliedThroughBlock: 1000 })));
+
+			await refreshBalances([key], logger);
+
+			expect(mocks.balanceUpdateOne).toHaveBeenCalledTimes(3);
+			expect(mocks.balanceUpdateOne).toHaveBeenLastCalledWith(
+				{ chainId: 137, integrator, token, appliedThroughBlock: 1000 },
+				expect.anything(),
+				{ upsert: true },
+			);
+		});
+
+		it("should give up on a balance that keeps changing", async () => {
+			mocks.balanceUpdateOne.mockReturnValue(execResult({ matchedCount: 0, upsertedCount: 0 }));
+
+			await expect(refreshBalances([key], logger)).rejects.toThrow("kept changing while it was written");
+			expect(mocks.balanceUpdateOne).toHaveBeenCalledTimes(5);
+		});
+
+		it("should rethrow other write errors", async () => {
+			mocks.balanceUpdateOne.mockReturnValue(execRejection(new Error("connection reset")));
+
+			await expect(refreshBalances([key], logger)).rejects.toThrow("connection reset");
+		});
+
+		it("should do nothing without keys", async () => {
+			await refreshBalances([], logger);
+
+			expect(mocks.feeEventAggregate).not.toHaveBeenCalled();
+			expect(mocks.balanceUpdateOne).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("balanceKeysOf", () => {
+		it("should collect each key once, skipping LI.FI's own withdrawals", () => {
+			const event = { chainId: 137, integrator, token } as ParsedFeeCollectedEvent;
+			const otherToken = "0x3333333333333333333333333333333333333333";
+
+			const keys = balanceKeysOf([event, event], {
+				feesWithdrawn: [{ chainId: 137, to: integrator, token: otherToken } as ParsedWithdrawalEvent],
+				lifiFeesWithdrawn: [
+					{ chainId: 137, to: "0x4444444444444444444444444444444444444444", token } as ParsedWithdrawalEvent,
+				],
+			});
+
+			expect(keys).toEqual([key, { chainId: 137, integrator, token: otherToken }]);
+		});
+	});
+
+	describe("applyBalanceDeltas", () => {
+		it("should add only the events above the watermark and move it to the batch end", async () => {
+			mocks.balanceFindOne.mockReturnValue(leanResult(storedBalance()));
+			mocks.feeEventAggregate.mockReturnValue(
+				execResult([
+					feeGroup([
+						{ integratorFee: "9007199254740993" },
+						{ integratorFee: "7", priceStatus: "priced", integratorFeeUsd: 2, lifiFeeUsd: 0.5 },
+					]),
+				]),
+			);
+			mocks.feesWithdrawnAggregate.mockReturnValue(execResult([{ _id: null, ...chunkSums(["10"]) }]));
+
+			await applyBalanceDeltas([key], 600, logger);
+
+			expect(mocks.feeEventAggregate).toHaveBeenCalledWith([
+				{ $match: { chainId: 137, integrator, token, reorgId: null, blockNumber: { $gt: 500, $lte: 600 } } },
+				expect.anything(),
+			]);
+			expect(mocks.feesWithdrawnAggregate).toHaveBeenCalledWith([
+				{ $match: { chainId: 137, to: integrator, token, reorgId: null, blockNumber: { $gt: 500, $lte: 600 } } },
+				expect.anything(),
+			]);
+			expect(mocks.balanceUpdateOne).toHaveBeenCalledWith(
+				{ chainId: 137, integrator, token, appliedThroughBlock: 500 },
+				{
+					$set: expect.objectContaining({
+						collected: "9007199254741100",
+						withdrawn: "50",
+						outstanding: "9007199254741050",
+						integratorFeeUsd: 12,
+						lifiFeeUsd: 1.5,
+						unpricedEvents: 3,
+						appliedThroughBlock: 600,
+					}),
+				},
+				{ upsert: true },
+			);
+			expect(mocks.chainStateFindOne).not.toHaveBeenCalled();
+		});
+
+		it("should add nothing for a batch the watermark already passed, e.g. one re-scanned after a crash", async () => {
+			mocks.balanceFindOne.mockReturnValue(leanResult(storedBalance({ appliedThroughBlock: 600 })));
+
+			await applyBalanceDeltas([key], 600, logger);
+
+			expect(mocks.feeEventAggregate).not.toHaveBeenCalled();
+			expect(mocks.balanceUpdateOne).not.toHaveBeenCalled();
+		});
+
+		it("should count everything through the batch for a balance without a watermark", async () => {
+			mocks.balanceFindOne.mockReturnValue(leanResult(storedBalance({ appliedThroughBlock: undefined })));
+			mocks.feeEventAggregate.mockReturnValue(execResult([feeGroup([{ integratorFee: "5" }])]));
+
+			await applyBalanceDeltas([key], 600, logger);
+
+			expect(mocks.feeEventAggregate).toHaveBeenCalledWith([
+				expect.objectContaining({ $match: expect.objectContaining({ blockNumber: { $lte: 600 } }) }),
+				expect.anything(),
+			]);
+			expect(mocks.balanceUpdateOne).toHaveBeenCalledWith(
+				{ chainId: 137, integrator, token, appliedThroughBlock: null },
+				{ $set: expect.objectContaining({ collected: "5", withdrawn: "0", appliedThroughBlock: 600 }) },
+				{ upsert: true },
+			);
+		});
+
+		it("should add the delta to the balance as another writer left it", async () => {
+			mocks.balanceFindOne
+				.mockReturnValueOnce(leanResult(storedBalance()))
+				.mockReturnValue(leanResult(storedBalance({ collected: "150", appliedThroughBlock: 550 })));
+			mocks.balanceUpdateOne
+				.mockReturnValueOnce(execResult({ matchedCount: 0, upsertedCount: 0 }))
+				.mockReturnValue(execResult({ matchedCount: 1, upsertedCount: 0 }));
+			mocks.feeEventAggregate.mockReturnValue(execResult([feeGroup([{ integratorFee: "1" }])]));
+
+			await applyBalanceDeltas([key], 600, logger);
+
+			expect(mocks.feeEventAggregate).toHaveBeenLastCalledWith([
+				expect.objectContaining({ $match: expect.objectContaining({ blockNumber: { $gt: 550, $lte: 600 } }) }),
+				expect.anything(),
+			]);
+			expect(mocks.balanceUpdateOne).toHaveBeenLastCalledWith(
+				{ chainId: 137, integrator, token, appliedThroughBlock: 550 },
+				{ $set: expect.objectContaining({ collected: "151", appliedThroughBlock: 600 }) },
+				{ upsert: true },
+			);
+		});
+	});
+
+	describe("reverseBalanceDeltas", () => {
+		it("should subtract the canonical events above the rollback block and move the watermark back", async () => {
+			mocks.balanceFindOne.mockReturnValue(leanResult(storedBalance()));
+			mocks.feeEventAggregate.mockReturnValue(
+				execResult([feeGroup([{ integratorFee: "30", priceStatus: "priced", integratorFeeUsd: 3, lifiFeeUsd: 0.5 }])]),
+			);
+			mocks.feesWithdrawnAggregate.mockReturnValue(execResult([{ _id: null, ...chunkSums(["40"]) }]));
+
+			await reverseBalanceDeltas([key], 450, logger);
+
+			expect(mocks.feeEventAggregate).toHaveBeenCalledWith([
+				{ $match: { chainId: 137, integrator, token, reorgId: null, blockNumber: { $gt: 450, $lte: 500 } } },
+				expect.anything(),
+			]);
+			expect(mocks.balanceUpdateOne).toHaveBeenCalledWith(
+				{ chainId: 137, integrator, token, appliedThroughBlock: 500 },
+				{
+					$set: expect.objectContaining({
+						collected: "70",
+						withdrawn: "0",
+						outstanding: "70",
+						integratorFeeUsd: 7,
+						lifiFeeUsd: 0.5,
+						unpricedEvents: 2,
+						appliedThroughBlock: 450,
+					}),
+				},
+				{ upsert: true },
+			);
+		});
+
+		it("should subtract nothing from a balance already moved back, e.g. by an interrupted rollback", async () => {
+			mocks.balanceFindOne.mockReturnValue(leanResult(storedBalance({ appliedThroughBlock: 450 })));
+
+			await reverseBalanceDeltas([key], 450, logger);
+
+			expect(mocks.feeEventAggregate).not.toHaveBeenCalled();
+			expect(mocks.balanceUpdateOne).not.toHaveBeenCalled();
+		});
+
+		it("should recompute a balance without a watermark through the rollback block", async () => {
+			mocks.balanceFindOne.mockReturnValue(leanResult(storedBalance({ appliedThroughBlock: undefined })));
+
+			await reverseBalanceDeltas([key], 450, logger);
+
+			expect(mocks.feeEventAggregate).toHaveBeenCalledWith([
+				expect.objectContaining({ $match: expect.objectContaining({ blockNumber: { $lte: 450 } }) }),
+				expect.anything(),
+			]);
+			expect(mocks.balanceUpdateOne).toHaveBeenCalledWith(
+				expect.anything(),
+				{ $set: expect.objectContaining({ collected: "0", appliedThroughBlock: 450 }) },
+				{ upsert: true },
+			);
+		});
+	});
+
+	describe("balanceKeysFromBlock", () => {
+		it("should group the canonical events and withdrawals from the block on into keys", async () => {
+			mocks.feeEventAggregate.mockReturnValue(execResult([{ _id: { integrator, token } }]));
+			mocks.feesWithdrawnAggregate.mockReturnValue(
+				execResult([{ _id: { integrator, token } }, { _id: { integrator: "0xaaa", token } }]),
+			);
+
+			const keys = await balanceKeysFromBlock(137, 451);
+
+			const match = { $match: { chainId: 137, blockNumber: { $gte: 451 }, reorgId: null } };
+			expect(mocks.feeEventAggregate).toHaveBeenCalledWith([
+				match,
+				{ $group: { _id: { integrator: "$integrator", token: "$token" } } },
+			]);
+			expect(mocks.feesWithdrawnAggregate).toHaveBeenCalledWith([
+				match,
+				{ $group: { _id: { integrator: "$to", token: "$token" } } },
+			]);
+			expect(keys).toEqual([key, { chainId: 137, integrator: "0xaaa", token }]);
+		});
+	});
+});
@@ -0,0 +1,62 @@
+import {
+	clampBatchSize,
+	growBatchSize,
+	isRangeTooLargeError,
+	shrinkBatchSize,
+} from "@/fee-collector/services/batch-size.service";
+
+describe("Batch size service", () => {
+	const limits = { minBatchSize: 2, maxBatchSize: 100, targetLogsPerBatch: 500 };
+
+	describe("isRangeTooLargeError", () => {
+		it.each([
+			["geth / erigon", { message: "query returned more than 10000 results" }],
+			["alchemy (nested JSON-RPC error)", { error: { message: "Log response size exceeded." } }],
+			["infura", { body: '{"error":{"message":"query returned more than 10000 results"}}' }],
+			["quicknode", { message: "eth_getLogs is limited to a 10,000 range", reason: "block range too large" }],
+			["public nodes", { message: "exceed maximum block range: 1000" }],
+			["generic", { message: "too many results, try a smaller range" }],
+		])("should recognize %s range errors", (_provider, err) => {
+			expect(isRangeTooLargeError(err)).toBe(true);
+		});
+
+		it.each([
+			["timeouts", new Error("timeout")],
+			["rate limits", { message: "rate limit exceeded, retry in 10s" }],
+			["non-objects", "block range too large"],
+			["nullish values", null],
+		])("should not treat %s as range errors", (_kind, err) => {
+			expect(isRangeTooLargeError(err)).toBe(false);
+		});
+	});
+
+	describe("clampBatchSize", () => {
+		it("should keep sizes within the configured limits", () => {
+			expect(clampBatchSize(1, limits)).toBe(2);
+			expect(clampBatchSize(50, limits)).toBe(50);
+			expect(clampBatchSize(5000, limits)).toBe(100);
+		});
+	});
+
+	describe("shrinkBatchSize", () => {
+		it("should halve the size without going below the minimum", () => {
+			expect(shrinkBatchSize(40, limits)).toBe(20);
+			expect(shrinkBatchSize(3, limits)).toBe(2);
+		});
+	});
+
+	describe("growBatchSize", () => {
+		it("should double after a full batch with few logs, up to the maximum", () => {
+			expect(growBatchSize(20, 20, 10, limits)).toBe(40);
+			expect(growBatchSize(80, 80, 0, limits)).toBe(100);
+		});
+
+		it("should hold when the batch returned at least the target number of logs", () => {
+			expect(growBatchSize(20, 20, 500, limits)).toBe(20);
+		});
+
+		it("should hold after a partial batch at the chain tip", () => {
+			expect(growBatchSize(20, 3, 0, limits)).toBe(20);
+		});
+	});
+});
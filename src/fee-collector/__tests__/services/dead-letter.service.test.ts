@@ -0,0 +1,150 @@
+import type { Logger } from "pino";
+
+const mocks = vi.hoisted(() => ({
+	deadLetterFind: vi.fn(),
+	deadLetterUpdateMany: vi.fn(),
+	indexBatchLogs: vi.fn(),
+}));
+
+vi.mock("@/fee-collector/models/dead-letter-log", () => ({
+	DeadLetterLogModel: {
+		find: mocks.deadLetterFind,
+		updateMany: mocks.deadLetterUpdateMany,
+	},
+}));
+
+vi.mock("@/fee-collector/services/sync.service", () => ({
+	indexBatchLogs: mocks.indexBatchLogs,
+	withRetry: <T>(fn: () => Promise<T>) => fn(),
+}));
+
+import { listDeadLetters, reprocessDeadLetters } from "@/fee-collector/services/dead-letter.service";
+
+describe("Dead-letter service", () => {
+	const logger = { info: vi.fn(), warn: vi.fn() } as unknown as Logger;
+	const client = {} as Parameters<typeof reprocessDeadLetters>[0];
+
+	function deadLetter(id: string, kind: "FeesCollected" | "Withdrawal", logIndex: number) {
+		return {
+			_id: id,
+			chainId: 137,
+			kind,
+			address: "0x3333333333333333333333333333333333333333",
+			blockNumber: 100,
+			blockHash: "0xblock100",
+			txHash: "0xtx",
+			logIndex,
+			topics: ["0xtopic"],
+			data: "0xdata",
+			error: "no matching event",
+			retryCount: 0,
+			resolvedAt: null,
+		};
+	}
+
+	function rawLog(logIndex: number) {
+		return {
+			address: "0x3333333333333333333333333333333333333333",
+			blockNumber: 100,
+			blockHash: "0xblock100",
+			transactionHash: "0xtx",
+			logIndex,
+			topics: ["0xtopic"],
+			data: "0xdata",
+		};
+	}
+
+	// Mimics Mongoose's `.find().sort().limit().lean().exec()` chain
+	function sortedQueryResult<T>(value: T) {
+		return { sort: () => ({ limit: () => ({ lean: () => ({ exec: async () => value }) }) }) };
+	}
+
+	// Mimics Mongoose's `.updateMany().exec()` chain
+	function execResult<T>(value: T) {
+		return { exec: async () => value };
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mocks.deadLetterFind.mockReturnValue(sortedQueryResult([]));
+		mocks.deadLetterUpdateMany.mockReturnValue(execResult({ modifiedCount: 1 }));
+	});
+
+	describe("listDeadLetters", () => {
+		it("should list the open dead letters by default", async () => {
+			mocks.deadLetterFind.mockReturnValue(sortedQueryResult([deadLetter("a", "FeesCollected", 1)]));
+
+			const deadLetters = await listDeadLetters(137);
+
+			expect(mocks.deadLetterFind).toHaveBeenCalledWith({ chainId: 137, resolvedAt: null });
+			expect(deadLetters).toHaveLength(1);
+		});
+
+		it("should include the resolved ones when asked", async () => {
+			await listDeadLetters(137, { includeResolved: true });
+
+			expect(mocks.deadLetterFind).toHaveBeenCalledWith({ chainId: 137 });
+		});
+	});
+
+	describe("reprocessDeadLetters", () => {
+		it("should index the logs again, resolve the ones that parse and leave the others open", async () => {
+			mocks.deadLetterFind
+				.mockReturnValueOnce(
+					sortedQueryResult([
+						deadLetter("a", "FeesCollected", 1),
+						deadLetter("b", "Withdrawal", 2),
+						deadLetter("c", "FeesCollected", 3),
+					]),
+				)
+				.mockReturnValueOnce(sortedQueryResult([]));
+			mocks.indexBatchLogs.mockResolvedValue({
+				parsedEvents: [],
+				added: 2,
+				failures: [{ event: rawLog(3), error: new Error("still broken") }],
+			});
+
+			const report = await reprocessDeadLetters(client, 137, logger, { enrichTransactions: true });
+
+			expect(mocks.deadLetterUpdateMany).toHaveBeenCalledWith(
+				{ _id: { $in: ["a", "b", "c"] } },
+				{ $inc: { retryCount: 1 }, $set: { lastRetriedAt: expect.any(Date) } },
+			);
+			expect(mocks.indexBatchLogs).toHaveBeenCalledWith(
+				client,
+				137,
+				{ feesCollected: [rawLog(1), rawLog(3)], withdrawals: [rawLog(2)] },
+				logger,
+				{ enrichTransactions: true },
+			);
+			expect(mocks.deadLetterUpdateMany).toHaveBeenCalledWith(
+				{ _id: { $in: ["a", "b"] } },
+				{ $set: { resolvedAt: expect.any(Date) } },
+			);
+			expect(report).toEqual({ retried: 3, resolved: 2, failed: 1 });
+		});
+
+		// Logs that fail again stay open; paging past them keeps the run from retrying them forever
+		it("should page through the open dead letters by id", async () => {
+			mocks.deadLetterFind
+				.mockReturnValueOnce(sortedQueryResult([deadLetter("a", "FeesCollected", 1)]))
+				.mockReturnValueOnce(sortedQueryResult([]));
+			mocks.indexBatchLogs.mockResolvedValue({
+				parsedEvents: [],
+				added: 0,
+				failures: [{ event: rawLog(1), error: new Error("still broken") }],
+			});
+
+			const report = await reprocessDeadLetters(client, 137, logger);
+
+			expect(mocks.deadLetterFind).toHaveBeenNthCalledWith(1, { chainId: 137, resolvedAt: null });
+			expect(mocks.deadLetterFind).toHaveBeenNthCalledWith(2, {
+				chainId: 137,
+				resolvedAt: null,
+				_id: { $gt: "a" },
+			});
+			expect(mocks.deadLetterUpdateMany).toHaveBeenCalledTimes(1); // retry count only, nothing resolved
+			expect(report).toEqual({ retried: 1, resolved: 0, failed: 1 });
+		});
+	});
+});
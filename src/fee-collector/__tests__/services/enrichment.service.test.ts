@@ -0,0 +1,66 @@
+import type { Logger } from "pino";
+import type { TransactionWithReceipt } from "@/fee-collector/rpc/json-rpc-batch";
+import { fetchTransactionContexts, toTransactionContext } from "@/fee-collector/services/enrichment.service";
+import type { ParsedFeeCollectedEvent } from "@/fee-collector/services/parsing.service";
+
+describe("Enrichment service", () => {
+	const logger = { debug: vi.fn() } as unknown as Logger;
+
+	function transactionWithReceipt(
+		transaction: Record<string, unknown>,
+		receipt: Record<string, unknown>,
+	): TransactionWithReceipt {
+		return {
+			transaction: { from: "0xSender", to: "0xDiamond", data: "0x4630a0d8", ...transaction },
+			receipt: { gasUsed: BigInt(100_000), ...receipt },
+		} as unknown as TransactionWithReceipt;
+	}
+
+	describe("toTransactionContext", () => {
+		it("should read sender, target, gas and selector, lowercased", () => {
+			const context = toTransactionContext(
+				transactionWithReceipt({ data: "0x4630A0D8000000000000" }, { effectiveGasPrice: BigInt(25) }),
+			);
+
+			expect(context).toEqual({
+				txFrom: "0xsender",
+				txTo: "0xdiamond",
+				txGasUsed: "100000",
+				txEffectiveGasPrice: "25",
+				txMethodSelector: "0x4630a0d8",
+			});
+		});
+
+		it("should fall back to the gas price for receipts from before EIP-1559", () => {
+			const context = toTransactionContext(transactionWithReceipt({ gasPrice: BigInt(7) }, {}));
+
+			expect(context.txEffectiveGasPrice).toBe("7");
+		});
+
+		it("should leave out the target of contract creations and the selector of plain transfers", () => {
+			const context = toTransactionContext(transactionWithReceipt({ to: null, data: "0x" }, {}));
+
+			expect(context).toMatchObject({ txTo: null, txMethodSelector: null });
+		});
+	});
+
+	describe("fetchTransactionContexts", () => {
+		const event = (txHash: string) => ({ txHash }) as ParsedFeeCollectedEvent;
+
+		it("should fetch each transaction once, keyed by hash", async () => {
+			const client = { getTransactions: vi.fn().mockResolvedValue([transactionWithReceipt({}, {})]) };
+
+			const contexts = await fetchTransactionContexts(client, [event("0xtx"), event("0xtx")], logger);
+
+			expect(client.getTransactions).toHaveBeenCalledWith(["0xtx"]);
+			expect(contexts.get("0xtx")).toMatchObject({ txFrom: "0xsender" });
+		});
+
+		it("should not call the RPC without events", async () => {
+			const client = { getTransactions: vi.fn() };
+
+			await expect(fetchTransactionContexts(client, [], logger)).resolves.toEqual(new Map());
+			expect(client.getTransactions).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,169 @@
+import type { Logger } from "pino";
+
+const mocks = vi.hoisted(() => ({
+	updateOne: vi.fn(),
+	deleteOne: vi.fn(),
+	findOne: vi.fn(),
+}));
+
+vi.mock("@/fee-collector/models/chain-lease", () => ({
+	ChainLeaseModel: {
+		updateOne: mocks.updateOne,
+		deleteOne: mocks.deleteOne,
+		findOne: mocks.findOne,
+	},
+}));
+
+import {
+	acquireLease,
+	getLeaseHolder,
+	LeaseLostError,
+	releaseLease,
+	renewLease,
+	startLeaseHeartbeat,
+} from "@/fee-collector/services/lease.service";
+
+// Mimics Mongoose's `.updateOne().exec()` chain
+function execResult<T>(value: T) {
+	return { exec: async () => value };
+}
+
+function execRejection(err: unknown) {
+	return {
+		exec: async () => {
+			throw err;
+		},
+	};
+}
+
+describe("Lease service", () => {
+	const logger = { debug: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Logger;
+	const lease = { ownerId: "worker-a", ttlMs: 60_000, renewIntervalMs: 15_000 };
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	describe("acquireLease", () => {
+		it("should upsert the lease when it is free, expired or already ours", async () => {
+			mocks.updateOne.mockReturnValue(execResult({ matchedCount: 0, upsertedCount: 1 }));
+
+			const acquired = await acquireLease(137, "worker-a", 60_000);
+
+			const now = new Date("2025-01-01T00:00:00Z");
+			expect(acquired).toBe(true);
+			expect(mocks.updateOne).toHaveBeenCalledWith(
+				{ chainId: 137, $or: [{ ownerId: "worker-a" }, { expiresAt: { $lte: now } }] },
+				{ $set: { chainId: 137, ownerId: "worker-a", expiresAt: new Date(now.getTime() + 60_000) } },
+				{ upsert: true },
+			);
+		});
+
+		it("should return false when another live owner holds the lease (duplicate key on upsert)", async () => {
+			mocks.updateOne.mockReturnValue(execRejection(Object.assign(new Error("E11000"), { code: 11000 })));
+
+			await expect(acquireLease(137, "worker-b", 60_000)).resolves.toBe(false);
+		});
+
+		it("should rethrow unrelated errors", async () => {
+			mocks.updateOne.mockReturnValue(execRejection(new Error("mongo down")));
+
+			await expect(acquireLease(137, "worker-a", 60_000)).rejects.toThrow("mongo down");
+		});
+	});
+
+	describe("renewLease", () => {
+		it("should only extend an unexpired lease owned by the caller", async () => {
+			mocks.updateOne.mockReturnValue(execResult({ matchedCount: 1 }));
+
+			const renewed = await renewLease(137, "worker-a", 60_000);
+
+			const now = new Date("2025-01-01T00:00:00Z");
+			expect(renewed).toBe(true);
+			expect(mocks.updateOne).toHaveBeenCalledWith(
+				{ chainId: 137, ownerId: "worker-a", expiresAt: { $gt: now } },
+				{ $set: { expiresAt: new Date(now.getTime() + 60_000) } },
+			);
+		});
+
+		it("should return false when the lease was taken over", async () => {
+			mocks.updateOne.mockReturnValue(execResult({ matchedCount: 0 }));
+
+			await expect(renewLease(137, "worker-a", 60_000)).resolves.toBe(false);
+		});
+	});
+
+	describe("releaseLease / getLeaseHolder", () => {
+		it("should only delete the lease if the caller owns it", async () => {
+			mocks.deleteOne.mockReturnValue(execResult({ deletedCount: 1 }));
+
+			await releaseLease(137, "worker-a");
+
+			expect(mocks.deleteOne).toHaveBeenCalledWith({ chainId: 137, ownerId: "worker-a" });
+		});
+
+		it("should return the current holder or null", async () => {
+			const expiresAt = new Date("2025-01-01T00:01:00Z");
+			mocks.findOne
+				.mockReturnValueOnce({ lean: () => execResult({ chainId: 137, ownerId: "worker-b", expiresAt }) })
+				.mockReturnValueOnce({ lean: () => execResult(null) });
+
+			await expect(getLeaseHolder(137)).resolves.toEqual({ ownerId: "worker-b", expiresAt });
+			await expect(getLeaseHolder(137)).resolves.toBeNull();
+		});
+	});
+
+	describe("startLeaseHeartbeat", () => {
+		it("should renew on every interval and keep the lease held", async () => {
+			mocks.updateOne.mockReturnValue(execResult({ matchedCount: 1 }));
+			const heartbeat = startLeaseHeartbeat(137, lease, logger);
+
+			// Well past the original TTL, but renewals keep pushing the expiry
+			await vi.advanceTimersByTimeAsync(120_000);
+
+			expect(mocks.updateOne).toHaveBeenCalledTimes(8);
+			expect(() => heartbeat.assertHeld()).not.toThrow();
+			heartbeat.stop();
+		});
+
+		it("should report the lease as lost once a renewal is rejected", async () => {
+			mocks.updateOne.mockReturnValue(execResult({ matchedCount: 0 }));
+			const heartbeat = startLeaseHeartbeat(137, lease, logger);
+
+			expect(() => heartbeat.assertHeld()).not.toThrow();
+			await vi.advanceTimersByTimeAsync(15_000);
+
+			expect(() => heartbeat.assertHeld()).toThrow(LeaseLostError);
+			heartbeat.stop();
+		});
+
+		it("should treat the lease as lost once the local expiry passes without a successful renewal", async () => {
+			mocks.updateOne.mockReturnValue(execRejection(new Error("mongo unreachable")));
+			const heartbeat = startLeaseHeartbeat(137, lease, logger);
+
+			await vi.advanceTimersByTimeAsync(45_000);
+			expect(() => heartbeat.assertHeld()).not.toThrow();
+			expect(logger.warn).toHaveBeenCalled();
+
+			await vi.advanceTimersByTimeAsync(15_000);
+			expect(() => heartbeat.assertHeld()).toThrow("Lease for chain 137 lost by worker-a");
+			heartbeat.stop();
+		});
+
+		it("should stop renewing once stopped", async () => {
+			mocks.updateOne.mockReturnValue(execResult({ matchedCount: 1 }));
+			const heartbeat = startLeaseHeartbeat(137, lease, logger);
+
+			heartbeat.stop();
+			await vi.advanceTimersByTimeAsync(60_000);
+
+			expect(mocks.updateOne).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -1,4 +1,4 @@
-import { BigNumber, type ethers } from "ethers";
+import { BigNumber, ethers } from "ethers";
 
 const mocks = vi.hoisted(() => ({
 	parseLog: vi.fn(),
@@ -10,9 +10,15 @@ vi.mock("lifi-contract-types", () => ({
 	},
 }));
 
-import { parseFeeCollectedEvents } from "@/fee-collector/services/parsing.service";
+import { UnknownAbiVersionError } from "@/fee-collector/abi/fees-collected";
+import {
+	type ParseFailure,
+	parseFeeCollectedEvents,
+	parseWithdrawalEvents,
+} from "@/fee-collector/services/parsing.service";
 
 const rawEvent = {
+	address: "0xCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCC",
 	blockNumber: 100,
 	blockHash: "0xblockhash",
 	transactionHash: "0xtxhash",
@@ -21,27 +27,36 @@ const rawEvent = {
 	topics: [],
 } as unknown as ethers.Event;
 
+const feesCollectedV1 = new ethers.utils.Interface([
+	"event FeesCollected(address indexed _token, address indexed _integrator, uint256 _integratorFee, uint256 _lifiFee)",
+]);
+
+// A FeesCollected log as the v1 contract emits it
+function feesCollectedLog(args: [string, string, BigNumber, BigNumber], overrides: Partial<ethers.Event> = {}) {
+	const { data, topics } = feesCollectedV1.encodeEventLog(feesCollectedV1.getEvent("FeesCollected"), args);
+	return { ...rawEvent, data, topics, ...overrides } as ethers.Event;
+}
+
 describe("parseFeeCollectedEvents", () => {
 	beforeEach(() => {
 		vi.clearAllMocks();
 	});
 
 	it("should map decoded event args to valid DTO", () => {
-		mocks.parseLog.mockReturnValue({
-			args: [
-				"0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA", // token (mixed case)
-				"0xBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB", // integrator (mixed case)
-				BigNumber.from("1000000000000000000"), // integratorFee
-				BigNumber.from("42"), // lifiFee
-			],
-		});
+		const event = feesCollectedLog([
+			ethers.utils.getAddress("0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa"), // token (checksummed, mixed case)
+			ethers.utils.getAddress("0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb"), // integrator (checksummed, mixed case)
+			BigNumber.from("1000000000000000000"), // integratorFee
+			BigNumber.from("42"), // lifiFee
+		]);
 		const blockTimestamps = new Map([[100, 1_700_000_000]]);
 
-		const result = parseFeeCollectedEvents([rawEvent], 137, blockTimestamps);
+		const result = parseFeeCollectedEvents([event], 137, blockTimestamps);
 
 		expect(result).toEqual([
 			{
 				chainId: 137,
+				contractAddress: "0xcccccccccccccccccccccccccccccccccccccccc",
 				blockNumber: 100,
 				blockHash: "0xblockhash",
 				txHash: "0xtxhash",
@@ -56,18 +71,95 @@ describe("parseFeeCollectedEvents", () => {
 	});
 
 	it("should throw an error when a block timestamp is missing", () => {
-		mocks.parseLog.mockReturnValue({
-			args: [
+		const event = feesCollectedLog([
+			"0x1111111111111111111111111111111111111111",
+			"0x2222222222222222222222222222222222222222",
+			BigNumber.from("1"),
+			BigNumber.from("2"),
+		]);
+		const emptyTimestamps = new Map();
+
+		expect(() => parseFeeCollectedEvents([event], 1, emptyTimestamps)).toThrow("Missing block timestamp for block 100");
+	});
+
+	it("should collect logs that fail to decode and parse the others when given a failures list", () => {
+		const unknownEvent = { ...rawEvent, topics: ["0x1234"] } as ethers.Event;
+		const goodEvent = feesCollectedLog(
+			[
 				"0x1111111111111111111111111111111111111111",
 				"0x2222222222222222222222222222222222222222",
 				BigNumber.from("1"),
 				BigNumber.from("2"),
 			],
+			{ logIndex: 3 },
+		);
+		const failures: ParseFailure[] = [];
+
+		const result = parseFeeCollectedEvents([unknownEvent, goodEvent], 137, new Map([[100, 1]]), failures);
+
+		expect(result.map((event) => event.logIndex)).toEqual([3]);
+		expect(failures).toEqual([{ event: unknownEvent, error: expect.any(UnknownAbiVersionError) }]);
+	});
+});
+
+describe("parseWithdrawalEvents", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("should split withdrawals by event and map them to DTOs", () => {
+		mocks.parseLog
+			.mockReturnValueOnce({
+				name: "FeesWithdrawn",
+				args: [
+					"0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+					"0xBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB",
+					BigNumber.from("7"),
+				],
+			})
+			.mockReturnValueOnce({
+				name: "LiFiFeesWithdrawn",
+				args: [
+					"0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+					"0xDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDD",
+					BigNumber.from("9"),
+				],
+			});
+		const lifiEvent = { ...rawEvent, logIndex: 5 } as ethers.Event;
+
+		const result = parseWithdrawalEvents([rawEvent, lifiEvent], 137, new Map([[100, 1_700_000_000]]));
+
+		const common = {
+			chainId: 137,
+			contractAddress: "0xcccccccccccccccccccccccccccccccccccccccc",
+			blockNumber: 100,
+			blockHash: "0xblockhash",
+			txHash: "0xtxhash",
+			token: "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa",
+			blockTimestamp: 1_700_000_000,
+		};
+		expect(result).toEqual({
+			feesWithdrawn: [{ ...common, logIndex: 2, to: "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb", amount: "7" }],
+			lifiFeesWithdrawn: [{ ...common, logIndex: 5, to: "0xdddddddddddddddddddddddddddddddddddddddd", amount: "9" }],
 		});
-		const emptyTimestamps = new Map();
+	});
 
-		expect(() => parseFeeCollectedEvents([rawEvent], 1, emptyTimestamps)).toThrow(
-			"Missing block timestamp for block 100",
+	it("should reject an event that isn't a withdrawal", () => {
+		mocks.parseLog.mockReturnValue({ name: "FeesCollected", args: [] });
+
+		expect(() => parseWithdrawalEvents([rawEvent], 137, new Map([[100, 1_700_000_000]]))).toThrow(
+			"Unexpected FeesCollected event in tx 0xtxhash, expected a withdrawal",
 		);
 	});
+
+	it("should collect an event that isn't a withdrawal when given a failures list", () => {
+		mocks.parseLog.mockReturnValue({ name: "FeesCollected", args: [] });
+		const failures: ParseFailure[] = [];
+
+		const result = parseWithdrawalEvents([rawEvent], 137, new Map([[100, 1_700_000_000]]), failures);
+
+		expect(result).toEqual({ feesWithdrawn: [], lifiFeesWithdrawn: [] });
+		expect(failures).toEqual([{ event: rawEvent, error: expect.any(Error) }]);
+		expect(failures[0].error.message).toBe("Unexpected FeesCollected event in tx 0xtxhash, expected a withdrawal");
+	});
 });
@@ -0,0 +1,189 @@
+import type { Logger } from "pino";
+
+const mocks = vi.hoisted(() => ({
+	instanceUpdateOne: vi.fn(),
+	instanceDeleteOne: vi.fn(),
+	instanceFind: vi.fn(),
+	assignmentBulkWrite: vi.fn(),
+}));
+
+vi.mock("@/fee-collector/models/worker-instance", () => ({
+	WorkerInstanceModel: {
+		updateOne: mocks.instanceUpdateOne,
+		deleteOne: mocks.instanceDeleteOne,
+		find: mocks.instanceFind,
+	},
+}));
+
+vi.mock("@/fee-collector/models/chain-assignment", () => ({
+	ChainAssignmentModel: {
+		bulkWrite: mocks.assignmentBulkWrite,
+	},
+}));
+
+import {
+	claimAssignedChains,
+	computeAssignments,
+	deregisterInstance,
+	listLiveInstances,
+	registerInstance,
+	startInstanceHeartbeat,
+} from "@/fee-collector/services/pool.service";
+
+// Mimics Mongoose's `.updateOne().exec()` chain
+function execResult<T>(value: T) {
+	return { exec: async () => value };
+}
+
+// Mimics Mongoose's `.find().sort().lean().exec()` chain
+function findResult<T>(value: T) {
+	return { sort: () => ({ lean: () => execResult(value) }) };
+}
+
+describe("Pool service", () => {
+	const logger = { debug: vi.fn(), warn: vi.fn() } as unknown as Logger;
+	const chains = [
+		{ chainId: 137, name: "polygon" },
+		{ chainId: 1, name: "ethereum" },
+		{ chainId: 42161, name: "arbitrum" },
+	];
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+		mocks.instanceUpdateOne.mockReturnValue(execResult({ acknowledged: true }));
+		mocks.instanceDeleteOne.mockReturnValue(execResult({ acknowledged: true }));
+		mocks.assignmentBulkWrite.mockResolvedValue({ upsertedCount: 0 });
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	describe("computeAssignments", () => {
+		it("should deal chains round-robin over sorted instances", () => {
+			const assignments = computeAssignments([137, 1, 42161, 10], ["worker-b", "worker-a"]);
+
+			expect([...assignments.entries()]).toEqual([
+				[1, "worker-a"],
+				[10, "worker-b"],
+				[137, "worker-a"],
+				[42161, "worker-b"],
+			]);
+		});
+
+		it("should not depend on input order, so every instance computes the same split", () => {
+			const first = computeAssignments([1, 137, 10], ["worker-a", "worker-c", "worker-b"]);
+			const second = computeAssignments([10, 1, 137], ["worker-c", "worker-b", "worker-a"]);
+
+			expect(first).toEqual(second);
+		});
+
+		it("should move a dead instance's chains to the remaining ones", () => {
+			const before = computeAssignments([1, 10, 137], ["worker-a", "worker-b", "worker-c"]);
+			const after = computeAssignments([1, 10, 137], ["worker-a", "worker-c"]);
+
+			expect(before.get(10)).toBe("worker-b");
+			expect(new Set(after.values())).toEqual(new Set(["worker-a", "worker-c"]));
+		});
+
+		it("should return no assignments when there are no instances", () => {
+			expect(computeAssignments([1, 137], []).size).toBe(0);
+		});
+	});
+
+	describe("registration", () => {
+		it("should upsert the instance with a fresh expiry", async () => {
+			await registerInstance("worker-a", 60_000);
+
+			expect(mocks.instanceUpdateOne).toHaveBeenCalledWith(
+				{ instanceId: "worker-a" },
+				{ $set: { instanceId: "worker-a", expiresAt: new Date("2025-01-01T00:01:00Z") } },
+				{ upsert: true },
+			);
+		});
+
+		it("should delete the instance on deregistration", async () => {
+			await deregisterInstance("worker-a");
+
+			expect(mocks.instanceDeleteOne).toHaveBeenCalledWith({ instanceId: "worker-a" });
+		});
+
+		it("should only list instances whose registration has not expired", async () => {
+			mocks.instanceFind.mockReturnValue(findResult([{ instanceId: "worker-a" }, { instanceId: "worker-b" }]));
+
+			const instances = await listLiveInstances();
+
+			expect(mocks.instanceFind).toHaveBeenCalledWith({ expiresAt: { $gt: new Date("2025-01-01T00:00:00Z") } });
+			expect(instances).toEqual(["worker-a", "worker-b"]);
+		});
+
+		it("should refresh the registration on every heartbeat until stopped", async () => {
+			const heartbeat = startInstanceHeartbeat("worker-a", 60_000, 15_000, logger);
+
+			await vi.advanceTimersByTimeAsync(30_000);
+			heartbeat.stop();
+			await vi.advanceTimersByTimeAsync(30_000);
+
+			expect(mocks.instanceUpdateOne).toHaveBeenCalledTimes(2);
+		});
+
+		it("should log and keep going when a heartbeat fails", async () => {
+			mocks.instanceUpdateOne.mockReturnValue({
+				exec: async () => {
+					throw new Error("mongo down");
+				},
+			});
+			const heartbeat = startInstanceHeartbeat("worker-a", 60_000, 15_000, logger);
+
+			await vi.advanceTimersByTimeAsync(15_000);
+			heartbeat.stop();
+
+			expect(logger.warn).toHaveBeenCalledWith(
+				{ err: expect.any(Error), instanceId: "worker-a" },
+				"pool registration heartbeat failed, will retry",
+			);
+		});
+	});
+
+	describe("claimAssignedChains", () => {
+		it("should return and record only the chains assigned to this instance", async () => {
+			mocks.instanceFind.mockReturnValue(findResult([{ instanceId: "worker-a" }, { instanceId: "worker-b" }]));
+
+			const assigned = await claimAssignedChains("worker-b", chains, logger);
+
+			// Sorted chain ids [1, 137, 42161] → worker-a, worker-b, worker-a
+			expect(assigned).toEqual([137]);
+			expect(mocks.assignmentBulkWrite).toHaveBeenCalledWith(
+				[
+					{
+						updateOne: {
+							filter: { chainId: 137 },
+							update: { $set: { chainId: 137, chain: "polygon", instanceId: "worker-b" } },
+							upsert: true,
+						},
+					},
+				],
+				{ ordered: false },
+			);
+		});
+
+		it("should count itself as live even if its own registration has lapsed", async () => {
+			mocks.instanceFind.mockReturnValue(findResult([]));
+
+			const assigned = await claimAssignedChains("worker-a", chains, logger);
+
+			expect(assigned).toEqual([137, 1, 42161]);
+		});
+
+		it("should not write anything when no chain is assigned to this instance", async () => {
+			mocks.instanceFind.mockReturnValue(findResult([{ instanceId: "worker-a" }]));
+
+			const assigned = await claimAssignedChains("worker-z", [{ chainId: 137, name: "polygon" }], logger);
+
+			expect(assigned).toEqual([]);
+			expect(mocks.assignmentBulkWrite).not.toHaveBeenCalled();
+		});
+	});
+});
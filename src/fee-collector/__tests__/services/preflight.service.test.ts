@@ -0,0 +1,193 @@
+import type { Logger } from "pino";
+
+const mocks = vi.hoisted(() => ({
+	findOne: vi.fn(),
+}));
+
+vi.mock("@/fee-collector/models/chain-sync-state", () => ({
+	ChainSyncStateModel: { findOne: mocks.findOne },
+}));
+
+import { loadChainRegistry } from "@/fee-collector/config/chains.config";
+import type { EndpointResult } from "@/fee-collector/rpc/endpoint-pool";
+import { type PreflightClient, preflightChain } from "@/fee-collector/services/preflight.service";
+
+// Mimics Mongoose's `.findOne().lean().exec()` chain
+function leanResult<T>(value: T) {
+	return { lean: () => ({ exec: async () => value }) };
+}
+
+describe("preflightChain", () => {
+	const logger = { warn: vi.fn() } as unknown as Logger;
+	const current = "0x00000000000000000000000000000000000000c2";
+	const retired = "0x00000000000000000000000000000000000000c1";
+	const chain = {
+		chainId: 137,
+		name: "polygon",
+		deployments: [
+			{ address: retired, startBlock: 100, endBlock: 199 },
+			{ address: current, startBlock: 200 },
+		],
+	};
+	const defaults = {
+		confirmations: 64,
+		batchSize: 2000,
+		pollIntervalMs: 30_000,
+		reorgBacktrack: 200,
+		rpcBatchSize: 50,
+		maxLagBlocks: 500,
+		retry: { maxAttempts: 3, initialDelayMs: 5000, maxDelayMs: 60_000, jitter: 0.2, operations: {} },
+	};
+	let chainIds: EndpointResult<number>[];
+	let client: PreflightClient & {
+		getCode: ReturnType<typeof vi.fn>;
+		getBlockNumber: ReturnType<typeof vi.fn>;
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		chainIds = [
+			{ endpoint: "https://rpc-a.example", status: "fulfilled", value: 137 },
+			{ endpoint: "https://rpc-b.example", status: "fulfilled", value: 137 },
+		];
+		client = {
+			getEndpointChainIds: async () => chainIds,
+			// Both contracts exist now, and neither existed before its startBlock
+			getCode: vi.fn(async (_address: string, blockTag?: number) => (blockTag === undefined ? "0x6080" : "0x")),
+			getBlockNumber: vi.fn().mockResolvedValue(5000),
+		};
+		mocks.findOne.mockReturnValue(leanResult({ chainId: 137, lastProcessedBlock: 4000 }));
+	});
+
+	it("should pass a chain whose endpoints, contracts and checkpoint match the registry", async () => {
+		const report = await preflightChain(client, chain, logger);
+
+		expect(report).toEqual({
+			chain: "polygon",
+			passed: true,
+			checks: [
+				{ check: "chainId", status: "passed", detail: "2 of 2 endpoints answered with chain 137" },
+				{ check: "startBlock", status: "passed", detail: `${retired} has no code before block 100` },
+				{ check: "bytecode", status: "passed", detail: `${current} has contract code` },
+				{ check: "startBlock", status: "passed", detail: `${current} has no code before block 200` },
+				{ check: "syncState", status: "passed", detail: "checkpoint 4000, chain head 5000" },
+			],
+		});
+		// Retired deployments aren't expected to have code at the head
+		expect(client.getCode).not.toHaveBeenCalledWith(retired);
+		expect(client.getCode).toHaveBeenCalledWith(current, 199);
+	});
+
+	it("should fail when an endpoint serves another chain, naming the endpoint", async () => {
+		chainIds[1] = { endpoint: "https://rpc-b.example", status: "fulfilled", value: 1 };
+
+		const report = await preflightChain(client, chain, logger);
+
+		expect(report.passed).toBe(false);
+		expect(report.checks[0]).toEqual({
+			check: "chainId",
+			status: "failed",
+			detail: "expected chain 137, but https://rpc-b.example serves chain 1",
+		});
+	});
+
+	it("should fail when the current deployment has no code", async () => {
+		client.getCode.mockResolvedValue("0x");
+
+		const report = await preflightChain(client, chain, logger);
+
+		expect(report.passed).toBe(false);
+		expect(report.checks).toContainEqual({
+			check: "bytecode",
+			status: "failed",
+			detail: `no contract code at ${current}`,
+		});
+	});
+
+	it("should fail when a contract already existed before its startBlock", async () => {
+		client.getCode.mockResolvedValue("0x6080");
+
+		const report = await preflightChain(client, chain, logger);
+
+		expect(report.passed).toBe(false);
+		expect(report.checks).toContainEqual({
+			check: "startBlock",
+			status: "failed",
+			detail: `${current} already has code at block 199: its startBlock 200 is after the deployment, so earlier events would be missed (set lateStart if that is deliberate)`,
+		});
+	});
+
+	it("should only warn about a deployment older than its startBlock when it is marked lateStart", async () => {
+		client.getCode.mockResolvedValue("0x6080");
+		const lateChain = { ...chain, deployments: [{ address: current, startBlock: 200, lateStart: true }] };
+
+		const report = await preflightChain(client, lateChain, logger);
+
+		expect(report.passed).toBe(true);
+		expect(report.checks).toContainEqual({
+			check: "startBlock",
+			status: "warned",
+			detail: `${current} already has code at block 199: its events before startBlock 200 are left out (lateStart)`,
+		});
+		expect(logger.warn).toHaveBeenCalledWith(
+			{ chain: "polygon", check: "startBlock", detail: expect.stringContaining("(lateStart)") },
+			"preflight check warned",
+		);
+	});
+
+	// The shipped registry starts long after the contracts were deployed, which an archive node can tell
+	it("should pass every enabled chain of the shipped registry on an endpoint with historical state", async () => {
+		const registry = loadChainRegistry("chains.json", defaults, {});
+		client.getCode.mockResolvedValue("0x6080");
+		mocks.findOne.mockReturnValue(leanResult(null));
+
+		for (const registryChain of registry.filter((entry) => entry.enabled)) {
+			chainIds = [{ endpoint: "https://rpc-a.example", status: "fulfilled", value: registryChain.chainId }];
+
+			const report = await preflightChain(client, registryChain, logger);
+
+			expect(report).toMatchObject({ chain: registryChain.name, passed: true });
+		}
+	});
+
+	it("should fail when the stored checkpoint is ahead of the chain head", async () => {
+		mocks.findOne.mockReturnValue(leanResult({ chainId: 137, lastProcessedBlock: 9000 }));
+
+		const report = await preflightChain(client, chain, logger);
+
+		expect(report.passed).toBe(false);
+		expect(report.checks).toContainEqual({
+			check: "syncState",
+			status: "failed",
+			detail:
+				"stored checkpoint 9000 is ahead of the chain head 5000: the database belongs to another chain or network",
+		});
+	});
+
+	it("should skip checks it can't run with a warning instead of refusing the chain", async () => {
+		chainIds = [{ endpoint: "https://rpc-a.example", status: "rejected", reason: new Error("timeout") }];
+		client.getCode.mockImplementation(async (_address: string, blockTag?: number) => {
+			if (blockTag !== undefined) throw new Error("missing trie node");
+			return "0x6080";
+		});
+		mocks.findOne.mockReturnValue(leanResult(null));
+
+		const report = await preflightChain(client, chain, logger);
+
+		expect(report.passed).toBe(true);
+		expect(report.checks.filter((check) => check.status === "skipped").map((check) => check.check)).toEqual([
+			"chainId",
+			"startBlock",
+			"startBlock",
+		]);
+		expect(logger.warn).toHaveBeenCalledWith(
+			{
+				chain: "polygon",
+				check: "chainId",
+				detail: "no endpoint answered eth_chainId (https://rpc-a.example: timeout)",
+			},
+			"preflight check skipped",
+		);
+		expect(report.checks).toContainEqual({ check: "syncState", status: "passed", detail: "no stored checkpoint yet" });
+	});
+});
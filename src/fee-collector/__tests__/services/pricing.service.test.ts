@@ -0,0 +1,171 @@
+import type { Logger } from "pino";
+
+const mocks = vi.hoisted(() => ({
+	feeEventFind: vi.fn(),
+	feeEventBulkWrite: vi.fn(),
+	tokenFind: vi.fn(),
+	refreshBalances: vi.fn(),
+}));
+
+vi.mock("@/fee-collector/models/fee-collected-event", () => ({
+	FeeCollectedEventModel: {
+		find: mocks.feeEventFind,
+		bulkWrite: mocks.feeEventBulkWrite,
+	},
+}));
+
+vi.mock("@/fee-collector/models/token", () => ({
+	TokenModel: {
+		find: mocks.tokenFind,
+	},
+}));
+
+vi.mock("@/fee-collector/services/balance.service", () => ({
+	refreshBalances: mocks.refreshBalances,
+}));
+
+import { priceFees, repriceFees } from "@/fee-collector/services/pricing.service";
+
+describe("Pricing service", () => {
+	const integrator = "0x2222222222222222222222222222222222222222";
+	const usdc = "0x3c499c542cef5e3811e1192ce70d8cc03d5c3359";
+	const weird = "0x4444444444444444444444444444444444444444";
+	const fresh = "0x5555555555555555555555555555555555555555";
+	const logger = { info: vi.fn() } as unknown as Logger;
+	const provider = { getUsdPrice: vi.fn() };
+
+	function event(id: string, token: string) {
+		return { _id: id, token, integrator, integratorFee: "2500000", lifiFee: "500000", blockTimestamp: 1_700_000_000 };
+	}
+
+	// Mimics Mongoose's `.find().sort().limit().lean().exec()` chain
+	function sortedQueryResult<T>(value: T) {
+		return { sort: () => ({ limit: () => ({ lean: () => ({ exec: async () => value }) }) }) };
+	}
+
+	// Mimics Mongoose's `.find().lean().exec()` chain
+	function queryResult<T>(value: T) {
+		return { lean: () => ({ exec: async () => value }) };
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mocks.feeEventFind.mockReturnValue(sortedQueryResult([]));
+		mocks.feeEventBulkWrite.mockResolvedValue({});
+		mocks.refreshBalances.mockResolvedValue(undefined);
+		mocks.tokenFind.mockReturnValue(
+			queryResult([
+				{ address: usdc, decimals: 6 },
+				{ address: weird, decimals: null },
+			]),
+		);
+		provider.getUsdPrice.mockImplementation(async (_chainId: number, token: string) => (token === usdc ? 1.01 : null));
+	});
+
+	describe("priceFees", () => {
+		it("should value pending events in USD and mark the unpriceable ones for repricing", async () => {
+			mocks.feeEventFind.mockReturnValue(sortedQueryResult([event("a", usdc), event("b", weird)]));
+
+			const report = await priceFees(provider, 137, logger);
+
+			expect(mocks.feeEventFind).toHaveBeenCalledWith(
+				{ chainId: 137, priceStatus: "pending", reorgId: null },
+				{ token: 1, integrator: 1, integratorFee: 1, lifiFee: 1, blockTimestamp: 1 },
+			);
+			expect(provider.getUsdPrice).toHaveBeenCalledWith(137, usdc, 1_700_000_000);
+			expect(mocks.feeEventBulkWrite).toHaveBeenCalledWith(
+				[
+					{
+						updateOne: {
+							filter: { _id: "a", priceStatus: "pending" },
+							update: {
+								$set: {
+									priceStatus: "priced",
+									tokenPriceUsd: 1.01,
+									integratorFeeUsd: 2.525,
+									lifiFeeUsd: 0.505,
+									pricedAt: expect.any(Date),
+								},
+								$unset: { unpricedReason: "" },
+							},
+						},
+					},
+					{
+						updateOne: {
+							filter: { _id: "b", priceStatus: "pending" },
+							update: {
+								$set: { priceStatus: "unpriced", unpricedReason: "unknown-decimals", pricedAt: expect.any(Date) },
+							},
+						},
+					},
+				],
+				{ ordered: false },
+			);
+			expect(mocks.refreshBalances).toHaveBeenCalledWith([{ chainId: 137, integrator, token: usdc }], logger);
+			expect(report).toEqual({ priced: 1, unpriced: 1, waiting: 0 });
+		});
+
+		it("should record events the price source has no price for", async () => {
+			provider.getUsdPrice.mockResolvedValue(null);
+			mocks.feeEventFind.mockReturnValue(sortedQueryResult([event("a", usdc)]));
+
+			await priceFees(provider, 137, logger);
+
+			expect(mocks.feeEventBulkWrite).toHaveBeenCalledWith(
+				[
+					expect.objectContaining({
+						updateOne: expect.objectContaining({
+							update: { $set: expect.objectContaining({ priceStatus: "unpriced", unpricedReason: "unknown-price" }) },
+						}),
+					}),
+				],
+				{ ordered: false },
+			);
+			expect(mocks.refreshBalances).toHaveBeenCalledWith([], logger);
+		});
+
+		it("should leave events pending while their token isn't resolved", async () => {
+			mocks.feeEventFind.mockReturnValue(sortedQueryResult([event("a", fresh)]));
+
+			const report = await priceFees(provider, 137, logger);
+
+			expect(mocks.feeEventBulkWrite).not.toHaveBeenCalled();
+			expect(report).toEqual({ priced: 0, unpriced: 0, waiting: 1 });
+		});
+
+		it("should page through the events by _id", async () => {
+			const firstPage = Array.from({ length: 500 }, (_, i) => event(`id-${i}`, fresh));
+			mocks.feeEventFind.mockReturnValueOnce(sortedQueryResult(firstPage)).mockReturnValueOnce(sortedQueryResult([]));
+
+			await priceFees(provider, 137, logger);
+
+			expect(mocks.feeEventFind).toHaveBeenCalledTimes(2);
+			expect(mocks.feeEventFind).toHaveBeenLastCalledWith(
+				{ chainId: 137, priceStatus: "pending", reorgId: null, _id: { $gt: "id-499" } },
+				expect.anything(),
+			);
+		});
+	});
+
+	describe("repriceFees", () => {
+		it("should retry the unpriced events", async () => {
+			mocks.feeEventFind.mockReturnValue(sortedQueryResult([event("a", usdc)]));
+
+			const report = await repriceFees(provider, 137, logger);
+
+			expect(mocks.feeEventFind).toHaveBeenCalledWith(
+				{ chainId: 137, priceStatus: "unpriced", reorgId: null },
+				expect.anything(),
+			);
+			expect(mocks.feeEventBulkWrite).toHaveBeenCalledWith(
+				[
+					expect.objectContaining({
+						updateOne: expect.objectContaining({ filter: { _id: "a", priceStatus: "unpriced" } }),
+					}),
+				],
+				{ ordered: false },
+			);
+			expect(report).toEqual({ priced: 1, unpriced: 0, waiting: 0 });
+		});
+	});
+});
@@ -0,0 +1,258 @@
+import { ethers } from "ethers";
+import type { Logger } from "pino";
+
+import { FakeWsRpcServer } from "../rpc/fake-ws-rpc-server";
+
+const mocks = vi.hoisted(() => ({
+	updateOne: vi.fn(),
+	deleteOne: vi.fn(),
+	find: vi.fn(),
+	deleteMany: vi.fn(),
+}));
+
+// The real event ABI, so pushed logs are decoded the way the generated contract types would
+vi.mock("lifi-contract-types", async () => {
+	const { ethers } = await import("ethers");
+	const abi = [
+		"event FeesCollected(address indexed _token, address indexed _integrator, uint256 _integratorFee, uint256 _lifiFee)",
+	];
+	return {
+		FeeCollector__factory: {
+			connect: (address: string, provider: ethers.providers.Provider) => new ethers.Contract(address, abi, provider),
+			createInterface: () => new ethers.utils.Interface(abi),
+		},
+	};
+});
+
+vi.mock("@/fee-collector/models/provisional-fee-event", () => ({
+	ProvisionalFeeEventModel: {
+		updateOne: mocks.updateOne,
+		deleteOne: mocks.deleteOne,
+		find: mocks.find,
+		deleteMany: mocks.deleteMany,
+	},
+}));
+
+import { createFeeCollectorClient } from "@/fee-collector/client";
+import type { ParsedFeeCollectedEvent } from "@/fee-collector/services/parsing.service";
+import {
+	type ProvisionalSubscription,
+	reconcileProvisionalEvents,
+	startLogSubscription,
+} from "@/fee-collector/services/subscription.service";
+
+// Mimics Mongoose's `.updateOne().exec()` chain
+function execResult<T>(value: T) {
+	return { exec: async () => value };
+}
+
+async function waitFor(assertion: () => void): Promise<void> {
+	for (;;) {
+		try {
+			assertion();
+			return;
+		} catch {
+			await new Promise((resolve) => setTimeout(resolve, 5));
+		}
+	}
+}
+
+describe("Log subscription", () => {
+	const current = "0x1111111111111111111111111111111111111111";
+	const retired = "0x2222222222222222222222222222222222222222";
+	const token = "0x3333333333333333333333333333333333333333";
+	const integrator = "0x4444444444444444444444444444444444444444";
+	const blockHash = `0x${"ab".repeat(32)}`;
+	const nativeCurrency = { symbol: "POL", name: "Polygon Ecosystem Token", decimals: 18 };
+	const txHash = `0x${"cd".repeat(32)}`;
+	const loggerMocks = { child: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() };
+	const logger = loggerMocks as unknown as Logger;
+
+	let server: FakeWsRpcServer;
+	let subscription: ProvisionalSubscription | null;
+
+	function feesCollectedLog(overrides: Record<string, unknown> = {}) {
+		const iface = new ethers.utils.Interface([
+			"event FeesCollected(address indexed _token, address indexed _integrator, uint256 _integratorFee, uint256 _lifiFee)",
+		]);
+		const { data, topics } = iface.encodeEventLog(iface.getEvent("FeesCollected"), [token, integrator, 10, 2]);
+		return {
+			address: current,
+			topics,
+			data,
+			blockNumber: "0x64",
+			blockHash,
+			transactionHash: txHash,
+			transactionIndex: "0x0",
+			logIndex: "0x1",
+			removed: false,
+			...overrides,
+		};
+	}
+
+	function subscribe() {
+		const client = createFeeCollectorClient(
+			[{ url: "http://127.0.0.1:1", priority: 0 }],
+			[
+				{ address: retired, startBlock: 0, endBlock: 50 },
+				{ address: current, startBlock: 51 },
+			],
+			{
+				quorum: false,
+				maxConsecutiveFailures: 3,
+				cooldownMs: 60_000,
+				nativeCurrency,
+				rpcBatchSize: 50,
+				blockCacheSize: 1000,
+				rateLimit: { requestsPerSecond: 0, maxConcurrency: 10 },
+				wsUrl: server.url,
+				logger,
+			},
+		);
+		subscription = startLogSubscription(client, 137, logger);
+	}
+
+	beforeEach(async () => {
+		vi.clearAllMocks();
+		loggerMocks.child.mockReturnValue(logger);
+		mocks.updateOne.mockReturnValue(execResult({ acknowledged: true }));
+		mocks.deleteOne.mockReturnValue(execResult({ deletedCount: 1 }));
+		server = await FakeWsRpcServer.start({
+			eth_getBlockByHash: ([hash]) => ({
+				hash,
+				parentHash: `0x${"00".repeat(32)}`,
+				number: "0x64",
+				timestamp: "0x6553f100",
+				nonce: "0x0000000000000000",
+				difficulty: "0x0",
+				gasLimit: "0x1c9c380",
+				gasUsed: "0x0",
+				miner: `0x${"00".repeat(20)}`,
+				extraData: "0x",
+				transactions: [],
+			}),
+		});
+	});
+
+	afterEach(async () => {
+		await subscription?.stop();
+		subscription = null;
+		await server.close();
+	});
+
+	it("should subscribe to the logs of the current deployment only", async () => {
+		subscribe();
+
+		const request = await server.waitForRequest("eth_subscribe");
+
+		expect(request.params).toEqual([
+			"logs",
+			{ address: ethers.utils.getAddress(current), topics: [feesCollectedLog().topics[0]] },
+		]);
+	});
+
+	it("should record a pushed event as provisional, with its block timestamp", async () => {
+		subscribe();
+		await server.waitForRequest("eth_subscribe");
+
+		server.notify("0x1", feesCollectedLog());
+
+		await waitFor(() => expect(mocks.updateOne).toHaveBeenCalled());
+		expect(mocks.updateOne).toHaveBeenCalledWith(
+			{ chainId: 137, txHash, logIndex: 1 },
+			{
+				$set: {
+					chainId: 137,
+					contractAddress: current,
+					blockNumber: 100,
+					blockHash,
+					txHash,
+					logIndex: 1,
+					token,
+					integrator,
+					integratorFee: "10",
+					lifiFee: "2",
+					blockTimestamp: 0x6553f100,
+				},
+			},
+			{ upsert: true },
+		);
+	});
+
+	it("should remove a provisional event when the node un-mines its log", async () => {
+		subscribe();
+		await server.waitForRequest("eth_subscribe");
+
+		server.notify("0x1", feesCollectedLog({ removed: true }));
+
+		await waitFor(() => expect(mocks.deleteOne).toHaveBeenCalled());
+		expect(mocks.deleteOne).toHaveBeenCalledWith({ chainId: 137, txHash, logIndex: 1, blockHash });
+		expect(mocks.updateOne).not.toHaveBeenCalled();
+	});
+
+	it("should become inactive when the node drops the connection", async () => {
+		subscribe();
+		await server.waitForRequest("eth_subscribe");
+
+		server.dropConnections();
+
+		await waitFor(() => expect(subscription?.active).toBe(false));
+		expect(logger.warn).toHaveBeenCalledWith(
+			{ err: expect.any(Error) },
+			"log subscription closed, falling back to polling until it is restarted",
+		);
+	});
+
+	it("should return null for a chain without a WebSocket endpoint", () => {
+		const client = createFeeCollectorClient([{ url: "http://127.0.0.1:1", priority: 0 }], [], {
+			quorum: false,
+			maxConsecutiveFailures: 3,
+			cooldownMs: 60_000,
+			nativeCurrency,
+			rpcBatchSize: 50,
+			blockCacheSize: 1000,
+			rateLimit: { requestsPerSecond: 0, maxConcurrency: 10 },
+			logger,
+		});
+
+		expect(startLogSubscription(client, 137, logger)).toBeNull();
+	});
+});
+
+describe("reconcileProvisionalEvents", () => {
+	const logger = { info: vi.fn() } as unknown as Logger;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mocks.deleteMany.mockReturnValue(execResult({ deletedCount: 0 }));
+	});
+
+	it("should do nothing when no provisional events are pending", async () => {
+		mocks.find.mockReturnValue({ lean: () => execResult([]) });
+
+		await reconcileProvisionalEvents(137, 200, [], logger);
+
+		expect(mocks.deleteMany).not.toHaveBeenCalled();
+	});
+
+	it("should clear the provisional events up to the indexed block, counting the reorged-away ones", async () => {
+		mocks.find.mockReturnValue({
+			lean: () =>
+				execResult([
+					{ txHash: "0xtx1", logIndex: 0, blockHash: "0xcanonical" },
+					{ txHash: "0xtx2", logIndex: 3, blockHash: "0xorphaned" },
+				]),
+		});
+
+		await reconcileProvisionalEvents(
+			137,
+			200,
+			[{ txHash: "0xtx1", logIndex: 0, blockHash: "0xcanonical" }] as ParsedFeeCollectedEvent[],
+			logger,
+		);
+
+		expect(mocks.find).toHaveBeenCalledWith({ chainId: 137, blockNumber: { $lte: 200 } });
+		expect(mocks.deleteMany).toHaveBeenCalledWith({ chainId: 137, blockNumber: { $lte: 200 } });
+		expect(logger.info).toHaveBeenCalledWith({ confirmed: 1, dropped: 1 }, "reconciled provisional events");
+	});
+});
@@ -1,33 +1,129 @@
 import type { Logger } from "pino";
 import { expect } from "vitest";
-import { type SyncConfig, sync } from "@/fee-collector/services/sync.service";
+import { UnknownAbiVersionError } from "@/fee-collector/abi/fees-collected";
+import { ChainMetrics, runWithChainMetrics } from "@/fee-collector/metrics/worker-metrics";
+import { runWithRetryPolicies } from "@/fee-collector/retry/retry-policy";
+import {
+	ReorgTooDeepError,
+	readSyncProgress,
+	type SyncClient,
+	type SyncConfig,
+	sync,
+} from "@/fee-collector/services/sync.service";
 
 const mocks = vi.hoisted(() => ({
 	chainStateFindOne: vi.fn(),
 	chainStateUpdateOne: vi.fn(),
-	chainDeleteOne: vi.fn(),
-	feeEventDeleteMany: vi.fn(),
+	feeEventUpdateMany: vi.fn(),
+	feeEventCountDocuments: vi.fn(),
+	feeEventDistinct: vi.fn(),
 	feeEventBulkWrite: vi.fn(),
+	feesWithdrawnUpdateMany: vi.fn(),
+	feesWithdrawnCountDocuments: vi.fn(),
+	feesWithdrawnDistinct: vi.fn(),
+	feesWithdrawnBulkWrite: vi.fn(),
+	lifiFeesWithdrawnUpdateMany: vi.fn(),
+	lifiFeesWithdrawnCountDocuments: vi.fn(),
+	lifiFeesWithdrawnBulkWrite: vi.fn(),
+	reorgFindOneAndUpdate: vi.fn(),
+	provisionalFind: vi.fn(),
+	provisionalDeleteMany: vi.fn(),
+	blockHashFind: vi.fn(),
+	blockHashDeleteMany: vi.fn(),
+	blockHashBulkWrite: vi.fn(),
+	deadLetterBulkWrite: vi.fn(),
+	deadLetterDeleteMany: vi.fn(),
 	parseFeeCollectedEvents: vi.fn(),
+	parseWithdrawalEvents: vi.fn(),
+	balanceKeysFromBlock: vi.fn(),
+	applyBalanceDeltas: vi.fn(),
+	reverseBalanceDeltas: vi.fn(),
+	refreshBalances: vi.fn(),
+	resolveTokens: vi.fn(),
+	startLeaseHeartbeat: vi.fn(),
 }));
 
 vi.mock("@/fee-collector/models/chain-sync-state", () => ({
 	ChainSyncStateModel: {
 		findOne: mocks.chainStateFindOne,
 		updateOne: mocks.chainStateUpdateOne,
-		deleteOne: mocks.chainDeleteOne,
+	},
+}));
+
+vi.mock("@/fee-collector/models/block-hash", () => ({
+	BlockHashModel: {
+		find: mocks.blockHashFind,
+		deleteMany: mocks.blockHashDeleteMany,
+		bulkWrite: mocks.blockHashBulkWrite,
+	},
+}));
+
+vi.mock("@/fee-collector/models/dead-letter-log", () => ({
+	DeadLetterLogModel: {
+		bulkWrite: mocks.deadLetterBulkWrite,
+		deleteMany: mocks.deadLetterDeleteMany,
 	},
 }));
 
 vi.mock("@/fee-collector/models/fee-collected-event", () => ({
 	FeeCollectedEventModel: {
-		deleteMany: mocks.feeEventDeleteMany,
+		updateMany: mocks.feeEventUpdateMany,
+		countDocuments: mocks.feeEventCountDocuments,
+		distinct: mocks.feeEventDistinct,
 		bulkWrite: mocks.feeEventBulkWrite,
 	},
 }));
 
+vi.mock("@/fee-collector/models/fees-withdrawn-event", () => ({
+	FeesWithdrawnEventModel: {
+		updateMany: mocks.feesWithdrawnUpdateMany,
+		countDocuments: mocks.feesWithdrawnCountDocuments,
+		distinct: mocks.feesWithdrawnDistinct,
+		bulkWrite: mocks.feesWithdrawnBulkWrite,
+	},
+}));
+
+vi.mock("@/fee-collector/models/lifi-fees-withdrawn-event", () => ({
+	LiFiFeesWithdrawnEventModel: {
+		updateMany: mocks.lifiFeesWithdrawnUpdateMany,
+		countDocuments: mocks.lifiFeesWithdrawnCountDocuments,
+		bulkWrite: mocks.lifiFeesWithdrawnBulkWrite,
+	},
+}));
+
+vi.mock("@/fee-collector/models/provisional-fee-event", () => ({
+	ProvisionalFeeEventModel: {
+		find: mocks.provisionalFind,
+		deleteMany: mocks.provisionalDeleteMany,
+	},
+}));
+
+vi.mock("@/fee-collector/models/reorg", () => ({
+	ReorgModel: {
+		findOneAndUpdate: mocks.reorgFindOneAndUpdate,
+	},
+}));
+
 vi.mock("@/fee-collector/services/parsing.service", () => ({
 	parseFeeCollectedEvents: mocks.parseFeeCollectedEvents,
+	parseWithdrawalEvents: mocks.parseWithdrawalEvents,
+}));
+
+vi.mock("@/fee-collector/services/balance.service", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@/fee-collector/services/balance.service")>()),
+	balanceKeysFromBlock: mocks.balanceKeysFromBlock,
+	applyBalanceDeltas: mocks.applyBalanceDeltas,
+	reverseBalanceDeltas: mocks.reverseBalanceDeltas,
+	refreshBalances: mocks.refreshBalances,
+}));
+
+vi.mock("@/fee-collector/services/token.service", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@/fee-collector/services/token.service")>()),
+	resolveTokens: mocks.resolveTokens,
+}));
+
+vi.mock("@/fee-collector/services/lease.service", () => ({
+	startLeaseHeartbeat: mocks.startLeaseHeartbeat,
 }));
 
 describe("Sync service", () => {
@@ -36,10 +132,15 @@ describe("Sync service", () => {
 		startBlock: 100,
 		confirmations: 5,
 		batchSize: 10,
+		minBatchSize: 1,
+		maxBatchSize: 10,
+		targetLogsPerBatch: 1000,
 		reorgBacktrack: 10,
 		batchDelayMs: 0,
+		enrichTransactions: false,
 	};
 	const rawEvent = {
+		address: "0x3333333333333333333333333333333333333333",
 		blockNumber: 100,
 		blockHash: "0xblock100",
 		transactionHash: "0xtx",
@@ -50,6 +151,7 @@ describe("Sync service", () => {
 	const parsedEvents = [
 		{
 			chainId: 137,
+			contractAddress: "0x3333333333333333333333333333333333333333",
 			blockNumber: 100,
 			blockHash: "0xblock100",
 			txHash: "0xtx",
@@ -61,9 +163,22 @@ describe("Sync service", () => {
 			blockTimestamp: 1_700_000_000,
 		},
 	];
-	const loggerMocks = { child: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() };
+	const loggerMocks = { child: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
 	const logger = loggerMocks as unknown as Logger;
 
+	// Mimics the client's single log query per batch with a test client's separate fee and withdrawal mocks
+	async function queryBothLogs(
+		client: Pick<SyncClient, "queryFeesCollected"> & { queryWithdrawals: SyncClient["queryFeesCollected"] },
+		fromBlock: number,
+		toBlock: number,
+	) {
+		const [feesCollected, withdrawals] = await Promise.all([
+			client.queryFeesCollected(fromBlock, toBlock),
+			client.queryWithdrawals(fromBlock, toBlock),
+		]);
+		return { feesCollected, withdrawals };
+	}
+
 	// Mimics Mongoose's `.findOne().lean().exec()` chain
 	function queryResult<T>(value: T) {
 		return {
@@ -73,7 +188,12 @@ describe("Sync service", () => {
 		};
 	}
 
-	// Mimics Mongoose's `.updateOne().exec()` / `.deleteOne().exec()` chain
+	// Mimics Mongoose's `.find().sort().lean().exec()` chain
+	function sortedQueryResult<T>(value: T) {
+		return { sort: () => queryResult(value) };
+	}
+
+	// Mimics Mongoose's `.updateOne().exec()` / `.deleteMany().exec()` chain
 	function execResult<T>(value: T) {
 		return {
 			exec: async () => value,
@@ -84,9 +204,29 @@ describe("Sync service", () => {
 		vi.clearAllMocks();
 		loggerMocks.child.mockReturnValue(logger);
 		mocks.chainStateUpdateOne.mockReturnValue(execResult({ acknowledged: true }));
-		mocks.chainDeleteOne.mockReturnValue(execResult({ acknowledged: true }));
-		mocks.feeEventDeleteMany.mockReturnValue(execResult({ acknowledged: true }));
+		mocks.feeEventUpdateMany.mockReturnValue(execResult({ modifiedCount: 2 }));
+		mocks.feeEventCountDocuments.mockReturnValue(execResult(2));
+		mocks.feeEventDistinct.mockReturnValue(execResult(["0xbbb", "0xaaa"]));
+		mocks.feesWithdrawnUpdateMany.mockReturnValue(execResult({ modifiedCount: 1 }));
+		mocks.feesWithdrawnCountDocuments.mockReturnValue(execResult(1));
+		mocks.feesWithdrawnDistinct.mockReturnValue(execResult(["0xccc", "0xaaa"]));
+		mocks.lifiFeesWithdrawnUpdateMany.mockReturnValue(execResult({ modifiedCount: 0 }));
+		mocks.lifiFeesWithdrawnCountDocuments.mockReturnValue(execResult(0));
+		mocks.reorgFindOneAndUpdate.mockReturnValue(queryResult({ _id: "reorg-1" }));
 		mocks.feeEventBulkWrite.mockResolvedValue({ upsertedCount: 1, matchedCount: 0 });
+		mocks.parseWithdrawalEvents.mockReturnValue({ feesWithdrawn: [], lifiFeesWithdrawn: [] });
+		mocks.blockHashFind.mockReturnValue(sortedQueryResult([]));
+		mocks.blockHashDeleteMany.mockReturnValue(execResult({ acknowledged: true }));
+		mocks.blockHashBulkWrite.mockResolvedValue({ upsertedCount: 1 });
+		mocks.deadLetterBulkWrite.mockResolvedValue({ upsertedCount: 1 });
+		mocks.deadLetterDeleteMany.mockReturnValue(execResult({ deletedCount: 0 }));
+		mocks.provisionalFind.mockReturnValue(queryResult([]));
+		mocks.provisionalDeleteMany.mockReturnValue(execResult({ deletedCount: 0 }));
+		mocks.balanceKeysFromBlock.mockResolvedValue([]);
+		mocks.applyBalanceDeltas.mockResolvedValue(undefined);
+		mocks.reverseBalanceDeltas.mockResolvedValue(undefined);
+		mocks.refreshBalances.mockResolvedValue(undefined);
+		mocks.resolveTokens.mockResolvedValue(undefined);
 	});
 
 	// Happy path: first sync, no existing state, one event found.
@@ -98,6 +238,15 @@ describe("Sync service", () => {
 		const client = {
 			getBlockNumber: vi.fn().mockResolvedValue(106),
 			queryFeesCollected: vi.fn().mockResolvedValue([rawEvent]),
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn(),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
 			getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
 				number: blockNumber,
 				hash: `0xblock${blockNumber}`,
@@ -105,10 +254,11 @@ describe("Sync service", () => {
 			})),
 		};
 
-		await sync(client, config, logger);
+		const progress = await sync(client, config, logger);
 
+		expect(progress).toEqual({ safeBlock: 101, lastProcessedBlock: 101 });
 		expect(client.queryFeesCollected).toHaveBeenCalledWith(100, 101);
-		expect(mocks.parseFeeCollectedEvents).toHaveBeenCalledWith([rawEvent], 137, expect.any(Map));
+		expect(mocks.parseFeeCollectedEvents).toHaveBeenCalledWith([rawEvent], 137, expect.any(Map), []);
 		const timestampMap = mocks.parseFeeCollectedEvents.mock.calls[0]?.[2] as Map<number, number>;
 		expect(timestampMap.get(100)).toBe(1_700_000_000);
 
@@ -117,8 +267,8 @@ describe("Sync service", () => {
 			[
 				{
 					updateOne: {
-						filter: { chainId: 137, txHash: "0xtx", logIndex: 1 },
-						update: { $setOnInsert: parsedEvents[0] },
+						filter: { chainId: 137, txHash: "0xtx", logIndex: 1, reorgId: null },
+						update: { $setOnInsert: { ...parsedEvents[0], priceStatus: "pending" } },
 						upsert: true,
 					},
 				},
@@ -128,20 +278,286 @@ describe("Sync service", () => {
 		// Update sync state to last processed block in batch (101), not latest (106)
 		expect(mocks.chainStateUpdateOne).toHaveBeenCalledWith(
 			{ chainId: 137 },
-			{ $set: { chainId: 137, lastProcessedBlock: 101, lastProcessedBlockHash: "0xblock101" } },
+			{ $set: { chainId: 137, lastProcessedBlock: 101, lastProcessedBlockHash: "0xblock101", batchSize: 10 } },
 			{ upsert: true },
 		);
-		expect(mocks.feeEventDeleteMany).not.toHaveBeenCalled(); // no reorg, no deletions
+		// The batch's events are added to the balances rather than recomputed over every event
+		expect(mocks.applyBalanceDeltas).toHaveBeenCalledWith(
+			[
+				{
+					chainId: 137,
+					integrator: "0x2222222222222222222222222222222222222222",
+					token: "0x1111111111111111111111111111111111111111",
+				},
+			],
+			101,
+			logger,
+		);
+		expect(mocks.refreshBalances).not.toHaveBeenCalled();
+		expect(mocks.resolveTokens).toHaveBeenCalledWith(
+			client,
+			137,
+			["0x1111111111111111111111111111111111111111"],
+			logger,
+		);
+		expect(mocks.feeEventUpdateMany).not.toHaveBeenCalled(); // no reorg, nothing orphaned
 	});
 
-	// Reorg: we synced to block 150 with hash "0xold", but on-chain block 150 now
-	// has a different hash (0xblock150) → rollback 10 blocks to 140, delete stale events, re-sync 141–145
-	it("should handle reorg by rolling back and continuing from rollback point", async () => {
+	it("should record blocks scanned, events persisted and lag in the chain's metrics", async () => {
+		mocks.chainStateFindOne.mockReturnValue(queryResult(null));
+		mocks.parseFeeCollectedEvents.mockReturnValue(parsedEvents);
+		const client = {
+			getBlockNumber: vi.fn().mockResolvedValue(106),
+			queryFeesCollected: vi.fn().mockResolvedValue([rawEvent]),
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn(),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
+			getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
+				number: blockNumber,
+				hash: `0xblock${blockNumber}`,
+				timestamp: 1_700_000_000,
+			})),
+		};
+		const onCheckpoint = vi.fn();
+		const metrics = new ChainMetrics("polygon", onCheckpoint);
+		const lag = vi.spyOn(metrics, "lag");
+		const blocksScanned = vi.spyOn(metrics, "blocksScanned");
+		const eventsPersisted = vi.spyOn(metrics, "eventsPersisted");
+
+		await runWithChainMetrics(metrics, () => sync(client, config, logger));
+
+		// Batch [100,101] with a head of 106: 7 blocks behind before it, 5 (the confirmations) after
+		expect(lag.mock.calls).toEqual([[7], [5]]);
+		expect(blocksScanned).toHaveBeenCalledWith(2);
+		expect(eventsPersisted).toHaveBeenCalledWith(1);
+		expect(onCheckpoint.mock.calls).toEqual([[{ safeBlock: 101, lastProcessedBlock: 101 }]]);
+	});
+
+	it("should dead-letter a log that fails to parse and still index the rest of the batch", async () => {
+		mocks.chainStateFindOne.mockReturnValue(queryResult(null));
+		const badEvent = { ...rawEvent, logIndex: 2, topics: ["0xunknown"] };
+		mocks.parseFeeCollectedEvents.mockImplementation((_events, _chainId, _timestamps, failures) => {
+			failures.push({ event: badEvent, error: new Error("no matching event") });
+			return parsedEvents;
+		});
+		const client = {
+			getBlockNumber: vi.fn().mockResolvedValue(106),
+			queryFeesCollected: vi.fn().mockResolvedValue([rawEvent, badEvent]),
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn(),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
+			getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
+				number: blockNumber,
+				hash: `0xblock${blockNumber}`,
+				timestamp: 1_700_000_000,
+			})),
+		};
+
+		await sync(client, config, logger);
+
+		expect(mocks.deadLetterBulkWrite).toHaveBeenCalledWith(
+			[
+				{
+					updateOne: {
+						filter: { chainId: 137, txHash: "0xtx", logIndex: 2, blockHash: "0xblock100" },
+						update: {
+							$setOnInsert: {
+								chainId: 137,
+								kind: "FeesCollected",
+								address: rawEvent.address,
+								blockNumber: 100,
+								blockHash: "0xblock100",
+								txHash: "0xtx",
+								logIndex: 2,
+								topics: ["0xunknown"],
+								data: "0x",
+							},
+							$set: { error: "no matching event", resolvedAt: null },
+						},
+						upsert: true,
+					},
+				},
+			],
+			{ ordered: false },
+		);
+		// The parsed event is persisted and the checkpoint moves past the dead letter
+		expect(mocks.feeEventBulkWrite).toHaveBeenCalledTimes(1);
+		expect(mocks.chainStateUpdateOne).toHaveBeenCalledWith(
+			{ chainId: 137 },
+			{ $set: { chainId: 137, lastProcessedBlock: 101, lastProcessedBlockHash: "0xblock101", batchSize: 10 } },
+			{ upsert: true },
+		);
+	});
+
+	it("should raise an alarm when the contract emits logs no known ABI version decodes", async () => {
+		mocks.chainStateFindOne.mockReturnValue(queryResult(null));
+		const unknownEvent = { ...rawEvent, logIndex: 2, topics: ["0xnewtopic"] };
+		mocks.parseFeeCollectedEvents.mockImplementation((_events, _chainId, _timestamps, failures) => {
+			failures.push({ event: unknownEvent, error: new UnknownAbiVersionError(137, "0xnewtopic", 100) });
+			return parsedEvents;
+		});
+		const client = {
+			getBlockNumber: vi.fn().mockResolvedValue(106),
+			queryFeesCollected: vi.fn().mockResolvedValue([rawEvent, unknownEvent]),
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn(),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
+			getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
+				number: blockNumber,
+				hash: `0xblock${blockNumber}`,
+				timestamp: 1_700_000_000,
+			})),
+		};
+
+		await sync(client, config, logger);
+
+		expect(loggerMocks.error).toHaveBeenCalledWith(
+			{
+				alert: "unknown-abi-version",
+				count: 1,
+				topics: ["0xnewtopic"],
+				contracts: ["0x3333333333333333333333333333333333333333"],
+				firstBlock: 100,
+			},
+			expect.stringContaining("match no known FeesCollected ABI version"),
+		);
+		// Dead-lettered like any log that fails to parse, so it can be re-processed once the version is added
+		expect(mocks.deadLetterBulkWrite).toHaveBeenCalledTimes(1);
+	});
+
+	it("should store the context of each fee event's transaction when enrichment is on", async () => {
+		mocks.chainStateFindOne.mockReturnValue(queryResult(null));
+		mocks.parseFeeCollectedEvents.mockReturnValue(parsedEvents);
+		const client = {
+			getBlockNumber: vi.fn().mockResolvedValue(106),
+			queryFeesCollected: vi.fn().mockResolvedValue([rawEvent]),
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn().mockResolvedValue([
+				{
+					transaction: { from: "0xAAAA", to: "0xDIAMOND", data: "0x4630A0D8000000", gasPrice: BigInt(7) },
+					receipt: { gasUsed: BigInt(210_000), effectiveGasPrice: BigInt(30_000_000_000) },
+				},
+			]),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
+			getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
+				number: blockNumber,
+				hash: `0xblock${blockNumber}`,
+				timestamp: 1_700_000_000,
+			})),
+		};
+
+		await sync(client, { ...config, enrichTransactions: true }, logger);
+
+		expect(client.getTransactions).toHaveBeenCalledWith(["0xtx"]);
+		expect(mocks.feeEventBulkWrite).toHaveBeenCalledWith(
+			[
+				{
+					updateOne: {
+						filter: { chainId: 137, txHash: "0xtx", logIndex: 1, reorgId: null },
+						update: {
+							$setOnInsert: { ...parsedEvents[0], priceStatus: "pending" },
+							// Set on existing events too, so a re-scan enriches them
+							$set: {
+								txFrom: "0xaaaa",
+								txTo: "0xdiamond",
+								txGasUsed: "210000",
+								txEffectiveGasPrice: "30000000000",
+								txMethodSelector: "0x4630a0d8",
+							},
+						},
+						upsert: true,
+					},
+				},
+			],
+			{ ordered: false },
+		);
+	});
+
+	// The log came from a mined transaction, so a missing one means a lagging endpoint: retried, never skipped
+	it("should retry and fail the batch when the endpoint doesn't know a fee event's transaction", async () => {
+		vi.useFakeTimers();
+		mocks.chainStateFindOne.mockReturnValue(queryResult(null));
+		mocks.parseFeeCollectedEvents.mockReturnValue(parsedEvents);
+		const client = {
+			getBlockNumber: vi.fn().mockResolvedValue(106),
+			queryFeesCollected: vi.fn().mockResolvedValue([rawEvent]),
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn().mockResolvedValue([null]),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
+			getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
+				number: blockNumber,
+				hash: `0xblock${blockNumber}`,
+				timestamp: 1_700_000_000,
+			})),
+		};
+
+		const syncPromise = sync(client, { ...config, enrichTransactions: true }, logger).catch((err) => err);
+		await vi.advanceTimersByTimeAsync(60_000);
+		const error = await syncPromise;
+
+		expect((error as Error).message).toBe("Transaction 0xtx not found on chain — possible RPC misconfiguration");
+		expect(client.getTransactions).toHaveBeenCalledTimes(3);
+		expect(mocks.feeEventBulkWrite).not.toHaveBeenCalled();
+
+		vi.useRealTimers();
+	});
+
+	// Reorg: we synced to block 150 with hash "0xold", but on-chain block 150 now has a different hash.
+	// The ledger still matches the chain at 146 → roll back only to 146, orphan stale events, re-sync 147–148
+	it("should roll back to the common ancestor found in the block-hash ledger", async () => {
 		mocks.chainStateFindOne.mockReturnValue(queryResult({ lastProcessedBlock: 150, lastProcessedBlockHash: "0xold" }));
+		mocks.blockHashFind.mockReturnValue(
+			sortedQueryResult([
+				{ blockNumber: 148, blockHash: "0xold148" },
+				{ blockNumber: 146, blockHash: "0xblock146" },
+				{ blockNumber: 140, blockHash: "0xblock140" },
+			]),
+		);
 		mocks.parseFeeCollectedEvents.mockReturnValue([]);
+		const balanceKeys = [{ chainId: 137, integrator: "0xaaa", token: "0xt" }];
+		mocks.balanceKeysFromBlock.mockResolvedValue(balanceKeys);
 		const client = {
-			getBlockNumber: vi.fn().mockResolvedValue(150), // safeBlock = 150-5 = 145
+			getBlockNumber: vi.fn().mockResolvedValue(153), // safeBlock = 153-5 = 148
 			queryFeesCollected: vi.fn().mockResolvedValue([]),
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn(),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
 			getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
 				number: blockNumber,
 				hash: `0xblock${blockNumber}`, // block 150 returns "0xblock150", not "0xold" -> mismatch
@@ -151,25 +567,199 @@ describe("Sync service", () => {
 
 		await sync(client, config, logger);
 
-		// Rollback: delete events after block 140 and reset sync state
-		expect(mocks.feeEventDeleteMany).toHaveBeenCalledWith({
+		// Walks the ledger below the mismatched block, newest first, and stops at the first match. Reorg
+		// detection reads fresh headers: a cached one would hide the reorg
+		expect(mocks.blockHashFind).toHaveBeenCalledWith({ chainId: 137, blockNumber: { $lt: 150 } });
+		expect(client.getBlock).toHaveBeenCalledWith(150, { fresh: true });
+		expect(client.getBlock).toHaveBeenCalledWith(148, { fresh: true });
+		expect(client.getBlock).toHaveBeenCalledWith(146, { fresh: true });
+		expect(client.getBlock).not.toHaveBeenCalledWith(140, expect.anything());
+
+		// Rollback: record the reorg, orphan events and delete ledger entries after the ancestor, checkpoint the ancestor
+		const rolledBack = { chainId: 137, blockNumber: { $gt: 146 }, reorgId: null };
+		expect(mocks.feeEventDistinct).toHaveBeenCalledWith("integrator", rolledBack);
+		expect(mocks.feesWithdrawnDistinct).toHaveBeenCalledWith("to", rolledBack);
+		expect(mocks.reorgFindOneAndUpdate).toHaveBeenCalledWith(
+			{ chainId: 137, blockNumber: 150, oldBlockHash: "0xold" },
+			{
+				$setOnInsert: {
+					chainId: 137,
+					blockNumber: 150,
+					oldBlockHash: "0xold",
+					newBlockHash: "0xblock150",
+					commonAncestorBlock: 146,
+					depth: 4,
+					orphanedEvents: 2,
+					orphanedWithdrawals: 1,
+					affectedIntegrators: ["0xaaa", "0xbbb", "0xccc"],
+				},
+			},
+			{ upsert: true, new: true },
+		);
+		const orphan = { $set: { orphanedAt: expect.any(Date), reorgId: "reorg-1" } };
+		expect(mocks.feeEventUpdateMany).toHaveBeenCalledWith(rolledBack, orphan);
+		expect(mocks.feesWithdrawnUpdateMany).toHaveBeenCalledWith(rolledBack, orphan);
+		expect(mocks.lifiFeesWithdrawnUpdateMany).toHaveBeenCalledWith(rolledBack, orphan);
+		// Balances counting the rolled-back events lose them before the events are orphaned
+		expect(mocks.balanceKeysFromBlock).toHaveBeenCalledWith(137, 147);
+		expect(mocks.reverseBalanceDeltas).toHaveBeenCalledWith(balanceKeys, 146, logger);
+		expect(mocks.reverseBalanceDeltas.mock.invocationCallOrder[0]).toBeLessThan(
+			mocks.feeEventUpdateMany.mock.invocationCallOrder[0],
+		);
+		expect(mocks.blockHashDeleteMany).toHaveBeenCalledWith({ chainId: 137, blockNumber: { $gt: 146 } });
+		expect(mocks.deadLetterDeleteMany).toHaveBeenCalledWith({
 			chainId: 137,
-			blockNumber: { $gt: 140 },
+			blockNumber: { $gt: 146 },
+			resolvedAt: null,
 		});
 		expect(mocks.chainStateUpdateOne).toHaveBeenNthCalledWith(
 			1,
 			{ chainId: 137 },
-			{ $set: { lastProcessedBlock: 140, lastProcessedBlockHash: "" } },
+			{ $set: { lastProcessedBlock: 146, lastProcessedBlockHash: "0xblock146" } },
 		);
-		// Re-sync from rollback point
-		expect(client.queryFeesCollected).toHaveBeenCalledWith(141, 145);
+		// Re-sync from the ancestor
+		expect(client.queryFeesCollected).toHaveBeenCalledWith(147, 148);
 		expect(mocks.chainStateUpdateOne).toHaveBeenNthCalledWith(
 			2,
 			{ chainId: 137 },
-			{ $set: { chainId: 137, lastProcessedBlock: 145, lastProcessedBlockHash: "0xblock145" } },
+			{ $set: { chainId: 137, lastProcessedBlock: 148, lastProcessedBlockHash: "0xblock148", batchSize: 10 } },
 			{ upsert: true },
 		);
-		expect(mocks.chainDeleteOne).not.toHaveBeenCalled();
+	});
+
+	it("should fail with ReorgTooDeepError when no ledger entry matches the chain", async () => {
+		mocks.chainStateFindOne.mockReturnValue(queryResult({ lastProcessedBlock: 150, lastProcessedBlockHash: "0xold" }));
+		mocks.blockHashFind.mockReturnValue(
+			sortedQueryResult([
+				{ blockNumber: 148, blockHash: "0xold148" },
+				{ blockNumber: 140, blockHash: "0xold140" },
+			]),
+		);
+		const client = {
+			getBlockNumber: vi.fn().mockResolvedValue(160),
+			queryFeesCollected: vi.fn(),
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn(),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
+			getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
+				number: blockNumber,
+				hash: `0xblock${blockNumber}`,
+				timestamp: 1_700_000_000,
+			})),
+		};
+
+		const error = await sync(client, config, logger).catch((err) => err);
+
+		expect(error).toBeInstanceOf(ReorgTooDeepError);
+		expect((error as Error).message).toContain(
+			"Reorg on chain 137 at block 150 goes deeper than the block-hash ledger (oldest stored block: 140)",
+		);
+		// Nothing is orphaned or recorded when the ancestor is unknown
+		expect(mocks.reorgFindOneAndUpdate).not.toHaveBeenCalled();
+		expect(mocks.feeEventUpdateMany).not.toHaveBeenCalled();
+		expect(mocks.chainStateUpdateOne).not.toHaveBeenCalled();
+		expect(client.queryFeesCollected).not.toHaveBeenCalled();
+	});
+
+	it("should record the hashes of event blocks and checkpoints, and prune the ledger to the window", async () => {
+		mocks.chainStateFindOne.mockReturnValue(queryResult(null));
+		mocks.parseFeeCollectedEvents.mockReturnValue(parsedEvents);
+		const client = {
+			getBlockNumber: vi.fn().mockResolvedValue(106), // safeBlock = 101
+			queryFeesCollected: vi.fn().mockResolvedValue([rawEvent]),
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn(),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
+			getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
+				number: blockNumber,
+				hash: `0xblock${blockNumber}`,
+				timestamp: 1_700_000_000,
+			})),
+		};
+
+		await sync(client, config, logger);
+
+		expect(mocks.blockHashBulkWrite).toHaveBeenCalledWith(
+			[100, 101].map((blockNumber) => ({
+				updateOne: {
+					filter: { chainId: 137, blockNumber },
+					update: { $set: { chainId: 137, blockNumber, blockHash: `0xblock${blockNumber}` } },
+					upsert: true,
+				},
+			})),
+			{ ordered: false },
+		);
+		// reorgBacktrack=10 → keep the ledger from block 91 up
+		expect(mocks.blockHashDeleteMany).toHaveBeenCalledWith({ chainId: 137, blockNumber: { $lt: 91 } });
+	});
+
+	it("should keep an ancestor for a shallow reorg after a catch-up batch wider than the ledger window", async () => {
+		// A batch of 50 blocks against a window of 10: the hash of the batch end alone would leave no ancestor
+		const wideConfig = { ...config, batchSize: 50, maxBatchSize: 50 };
+		const ledger = new Map<number, string>();
+		mocks.blockHashBulkWrite.mockImplementation(
+			async (ops: { updateOne: { update: { $set: { blockNumber: number; blockHash: string } } } }[]) => {
+				for (const { updateOne } of ops) ledger.set(updateOne.update.$set.blockNumber, updateOne.update.$set.blockHash);
+			},
+		);
+		mocks.blockHashFind.mockImplementation((filter: { blockNumber: { $lt: number } }) =>
+			sortedQueryResult(
+				[...ledger]
+					.filter(([blockNumber]) => blockNumber < filter.blockNumber.$lt)
+					.sort(([a], [b]) => b - a)
+					.map(([blockNumber, blockHash]) => ({ blockNumber, blockHash })),
+			),
+		);
+		mocks.chainStateFindOne.mockReturnValueOnce(queryResult(null));
+		mocks.parseFeeCollectedEvents.mockReturnValue([]);
+		let reorged = false;
+		const client = {
+			getBlockNumber: vi.fn().mockResolvedValue(154), // safeBlock = 149
+			queryFeesCollected: vi.fn().mockResolvedValue([]),
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn(),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
+			getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
+				number: blockNumber,
+				hash: reorged && blockNumber >= 148 ? `0xfork${blockNumber}` : `0xblock${blockNumber}`,
+				timestamp: 1_700_000_000,
+			})),
+		};
+
+		expect(await sync(client, wideConfig, logger)).toEqual({ safeBlock: 149, lastProcessedBlock: 149 });
+		expect([...ledger.keys()].sort((a, b) => a - b)).toEqual([139, 140, 141, 142, 143, 144, 145, 146, 147, 148, 149]);
+
+		// The last two blocks are replaced: the next cycle rolls back to 147 instead of giving up
+		reorged = true;
+		mocks.chainStateFindOne.mockReturnValueOnce(
+			queryResult({ lastProcessedBlock: 149, lastProcessedBlockHash: "0xblock149", batchSize: 50 }),
+		);
+
+		await sync(client, wideConfig, logger);
+
+		expect(mocks.reorgFindOneAndUpdate).toHaveBeenCalledWith(
+			expect.anything(),
+			{ $setOnInsert: expect.objectContaining({ commonAncestorBlock: 147, depth: 2 }) },
+			expect.anything(),
+		);
 	});
 
 	// No events in the batch — parsing and persistence are skipped,
@@ -180,6 +770,15 @@ describe("Sync service", () => {
 		const client = {
 			getBlockNumber: vi.fn().mockResolvedValue(106), // safeBlock = 105 - 5 = 101
 			queryFeesCollected: vi.fn().mockResolvedValue([]), // no events
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn(),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
 			getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
 				number: blockNumber,
 				hash: `0xhash${blockNumber}`,
@@ -192,13 +791,110 @@ describe("Sync service", () => {
 		expect(client.queryFeesCollected).toHaveBeenCalledWith(100, 101);
 		expect(mocks.parseFeeCollectedEvents).not.toHaveBeenCalled();
 		expect(mocks.feeEventBulkWrite).not.toHaveBeenCalled();
+		expect(mocks.applyBalanceDeltas).not.toHaveBeenCalled();
 		expect(mocks.chainStateUpdateOne).toHaveBeenCalledWith(
 			{ chainId: 137 },
-			{ $set: { chainId: 137, lastProcessedBlock: 101, lastProcessedBlockHash: "0xhash101" } },
+			{ $set: { chainId: 137, lastProcessedBlock: 101, lastProcessedBlockHash: "0xhash101", batchSize: 10 } },
 			{ upsert: true },
 		);
 	});
 
+	it("should persist withdrawals into their own collections and record their block hashes", async () => {
+		mocks.chainStateFindOne.mockReturnValue(queryResult(null));
+		mocks.parseFeeCollectedEvents.mockReturnValue([]);
+		const integratorWithdrawal = { chainId: 137, txHash: "0xw1", logIndex: 0, to: "0xaaa", amount: "5" };
+		const lifiWithdrawal = { chainId: 137, txHash: "0xw2", logIndex: 3, to: "0xbbb", amount: "7" };
+		mocks.parseWithdrawalEvents.mockReturnValue({
+			feesWithdrawn: [integratorWithdrawal],
+			lifiFeesWithdrawn: [lifiWithdrawal],
+		});
+		mocks.feesWithdrawnBulkWrite.mockResolvedValue({ upsertedCount: 1, matchedCount: 0 });
+		mocks.lifiFeesWithdrawnBulkWrite.mockResolvedValue({ upsertedCount: 0, matchedCount: 1 });
+		const rawWithdrawal = { ...rawEvent, blockNumber: 101, blockHash: "0xblock101", transactionHash: "0xw1" };
+		const client = {
+			getBlockNumber: vi.fn().mockResolvedValue(106), // safeBlock = 101
+			queryFeesCollected: vi.fn().mockResolvedValue([]),
+			queryWithdrawals: vi.fn().mockResolvedValue([rawWithdrawal]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn(),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
+			getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
+				number: blockNumber,
+				hash: `0xblock${blockNumber}`,
+				timestamp: 1_700_000_000,
+			})),
+		};
+
+		await sync(client, config, logger);
+
+		expect(client.queryWithdrawals).toHaveBeenCalledWith(100, 101);
+		expect(mocks.parseWithdrawalEvents).toHaveBeenCalledWith([rawWithdrawal], 137, expect.any(Map), []);
+		expect(mocks.feesWithdrawnBulkWrite).toHaveBeenCalledWith(
+			[
+				{
+					updateOne: {
+						filter: { chainId: 137, txHash: "0xw1", logIndex: 0, reorgId: null },
+						update: { $setOnInsert: integratorWithdrawal },
+						upsert: true,
+					},
+				},
+			],
+			{ ordered: false },
+		);
+		expect(mocks.lifiFeesWithdrawnBulkWrite).toHaveBeenCalledWith(
+			[expect.objectContaining({ updateOne: expect.objectContaining({ update: { $setOnInsert: lifiWithdrawal } }) })],
+			{ ordered: false },
+		);
+		expect(mocks.feeEventBulkWrite).not.toHaveBeenCalled();
+		// The withdrawal's block, then the rest of the batch inside the ledger window
+		expect(mocks.blockHashBulkWrite).toHaveBeenCalledWith(
+			[101, 100].map((blockNumber) =>
+				expect.objectContaining({ updateOne: expect.objectContaining({ filter: { chainId: 137, blockNumber } }) }),
+			),
+			{ ordered: false },
+		);
+	});
+
+	it("should clear the provisional events of each confirmed batch, telling confirmed from dropped ones", async () => {
+		mocks.chainStateFindOne.mockReturnValue(queryResult(null));
+		mocks.parseFeeCollectedEvents.mockReturnValue(parsedEvents);
+		mocks.provisionalFind.mockReturnValue(
+			queryResult([
+				{ txHash: "0xtx", logIndex: 1, blockHash: "0xblock100" }, // indexed by this batch
+				{ txHash: "0xtx", logIndex: 2, blockHash: "0xforked" }, // reorged away before it was confirmed
+			]),
+		);
+		const client = {
+			getBlockNumber: vi.fn().mockResolvedValue(106),
+			queryFeesCollected: vi.fn().mockResolvedValue([rawEvent]),
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn(),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
+			getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
+				number: blockNumber,
+				hash: `0xblock${blockNumber}`,
+				timestamp: 1_700_000_000,
+			})),
+		};
+
+		await sync(client, config, logger);
+
+		expect(mocks.provisionalFind).toHaveBeenCalledWith({ chainId: 137, blockNumber: { $lte: 101 } });
+		expect(mocks.provisionalDeleteMany).toHaveBeenCalledWith({ chainId: 137, blockNumber: { $lte: 101 } });
+		expect(logger.info).toHaveBeenCalledWith({ confirmed: 1, dropped: 1 }, "reconciled provisional events");
+	});
+
 	// batchSize=5, safeBlock=110, startBlock=100 → 3 batches: [100,104], [105,109], [110,110]
 	it("should process batches correctly when range exceeds batch size", async () => {
 		mocks.chainStateFindOne.mockReturnValue(queryResult(null));
@@ -207,6 +903,15 @@ describe("Sync service", () => {
 		const client = {
 			getBlockNumber: vi.fn().mockResolvedValue(115),
 			queryFeesCollected: vi.fn().mockResolvedValue([]),
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn(),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
 			getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
 				number: blockNumber,
 				hash: `0xhash${blockNumber}`,
@@ -214,7 +919,7 @@ describe("Sync service", () => {
 			})),
 		};
 
-		await sync(client, { ...config, batchSize: 5 }, logger);
+		await sync(client, { ...config, batchSize: 5, maxBatchSize: 5 }, logger);
 
 		// Range: 100..110 (safeBlock = 115-5=110), batches: [100,104], [105,109], [110,110]
 		expect(client.queryFeesCollected).toHaveBeenCalledTimes(3);
@@ -235,6 +940,15 @@ describe("Sync service", () => {
 		const client = {
 			getBlockNumber: vi.fn().mockRejectedValueOnce(new Error("RPC timeout")).mockResolvedValue(106),
 			queryFeesCollected: vi.fn().mockResolvedValue([]),
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn(),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
 			getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
 				number: blockNumber,
 				hash: `0xhash${blockNumber}`,
@@ -265,6 +979,15 @@ describe("Sync service", () => {
 		const client = {
 			getBlockNumber: vi.fn().mockRejectedValue(new Error("RPC permanently down")),
 			queryFeesCollected: vi.fn(),
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn(),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
 			getBlock: vi.fn(),
 		};
 
@@ -280,12 +1003,99 @@ describe("Sync service", () => {
 		vi.useRealTimers();
 	});
 
+	describe("retry policy", () => {
+		function createClient(getBlockNumber: ReturnType<typeof vi.fn>) {
+			return {
+				getBlockNumber,
+				queryFeesCollected: vi.fn().mockResolvedValue([]),
+				queryWithdrawals: vi.fn().mockResolvedValue([]),
+				queryLogs(fromBlock: number, toBlock: number) {
+					return queryBothLogs(this, fromBlock, toBlock);
+				},
+				getTokenMetadata: vi.fn(),
+				getTransactions: vi.fn(),
+				getBlocks(blockNumbers: number[]) {
+					return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+				},
+				getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
+					number: blockNumber,
+					hash: `0xhash${blockNumber}`,
+					timestamp: 1_700_000_000,
+				})),
+			};
+		}
+
+		beforeEach(() => {
+			mocks.chainStateFindOne.mockReturnValue(queryResult(null));
+			mocks.parseFeeCollectedEvents.mockReturnValue([]);
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("should fail fast without retrying a fatal error", async () => {
+			const invalidArgument = Object.assign(new Error("invalid address"), { code: "INVALID_ARGUMENT" });
+			const client = createClient(vi.fn().mockRejectedValue(invalidArgument));
+
+			await expect(sync(client, config, logger)).rejects.toBe(invalidArgument);
+
+			expect(client.getBlockNumber).toHaveBeenCalledTimes(1);
+			expect(logger.warn).not.toHaveBeenCalledWith(expect.anything(), "getBlockNumber failed, retrying");
+		});
+
+		it("should wait as long as a rate-limited provider asks before retrying", async () => {
+			vi.useFakeTimers();
+			const rateLimited = Object.assign(new Error("Too many requests, retry in 30s"), { code: -32005 });
+			const client = createClient(vi.fn().mockRejectedValueOnce(rateLimited).mockResolvedValue(106));
+
+			const syncPromise = sync(client, config, logger);
+			await vi.advanceTimersByTimeAsync(29_000);
+			expect(client.getBlockNumber).toHaveBeenCalledTimes(1);
+
+			await vi.advanceTimersByTimeAsync(31_000);
+			await syncPromise;
+
+			expect(client.getBlockNumber).toHaveBeenCalledTimes(2);
+			expect(logger.warn).toHaveBeenCalledWith(
+				expect.objectContaining({ attempt: 1, errorClass: "rate-limited", delay: expect.any(Number) }),
+				"getBlockNumber failed, retrying",
+			);
+		});
+
+		it("should retry with the chain's policy and its per-operation overrides", async () => {
+			vi.useFakeTimers();
+			const client = createClient(vi.fn().mockRejectedValue(new Error("RPC permanently down")));
+			const policies = { maxAttempts: 1, initialDelayMs: 100, maxDelayMs: 1000, jitter: 0, operations: {} };
+
+			await expect(runWithRetryPolicies(policies, () => sync(client, config, logger))).rejects.toThrow();
+			expect(client.getBlockNumber).toHaveBeenCalledTimes(1);
+
+			const withOverride = { ...policies, operations: { getBlockNumber: { maxAttempts: 4 } } };
+			const syncPromise = runWithRetryPolicies(withOverride, () => sync(client, config, logger)).catch((err) => err);
+			await vi.advanceTimersByTimeAsync(1000);
+			await syncPromise;
+
+			// 100ms, 200ms and 400ms apart
+			expect(client.getBlockNumber).toHaveBeenCalledTimes(5);
+		});
+	});
+
 	it("should throw with a clear message when getBlock returns null (e.g. RPC misconfiguration)", async () => {
 		mocks.chainStateFindOne.mockReturnValue(queryResult({ lastProcessedBlock: 150, lastProcessedBlockHash: "0xold" }));
 
 		const client = {
 			getBlockNumber: vi.fn().mockResolvedValue(200),
 			queryFeesCollected: vi.fn(),
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn(),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
 			getBlock: vi.fn().mockResolvedValue(null), // block doesn't exist on this chain
 		};
 
@@ -298,15 +1108,212 @@ describe("Sync service", () => {
 		const client = {
 			getBlockNumber: vi.fn().mockResolvedValue(106),
 			queryFeesCollected: vi.fn().mockResolvedValue([]),
+			queryWithdrawals: vi.fn().mockResolvedValue([]),
+			queryLogs(fromBlock: number, toBlock: number) {
+				return queryBothLogs(this, fromBlock, toBlock);
+			},
+			getTokenMetadata: vi.fn(),
+			getTransactions: vi.fn(),
+			getBlocks(blockNumbers: number[]) {
+				return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+			},
 			getBlock: vi.fn().mockResolvedValue({ number: 100, hash: "0xblock100", timestamp: 1_700_000_000 }),
 		};
 		const abortedController = new AbortController();
 		abortedController.abort(); // Abort before starting the sync loop
 
-		await sync(client, config, logger, abortedController.signal);
+		const progress = await sync(client, config, logger, abortedController.signal);
 
+		// The checkpoint stays where it was, right before the start block
+		expect(progress).toEqual({ safeBlock: 101, lastProcessedBlock: 99 });
 		expect(client.queryFeesCollected).not.toHaveBeenCalled();
 		expect(mocks.feeEventBulkWrite).not.toHaveBeenCalled();
 		expect(mocks.chainStateUpdateOne).not.toHaveBeenCalled();
 	});
+
+	describe("adaptive batch size", () => {
+		function createClient(latest: number) {
+			return {
+				getBlockNumber: vi.fn().mockResolvedValue(latest),
+				queryFeesCollected: vi.fn().mockResolvedValue([]),
+				queryWithdrawals: vi.fn().mockResolvedValue([]),
+				queryLogs(fromBlock: number, toBlock: number) {
+					return queryBothLogs(this, fromBlock, toBlock);
+				},
+				getTokenMetadata: vi.fn(),
+				getTransactions: vi.fn(),
+				getBlocks(blockNumbers: number[]) {
+					return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+				},
+				getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
+					number: blockNumber,
+					hash: `0xhash${blockNumber}`,
+					timestamp: 1_700_000_000,
+				})),
+			};
+		}
+		const rangeTooLarge = Object.assign(new Error("processing response error"), {
+			body: '{"error":{"code":-32600,"message":"query exceeds max block range 1000"}}',
+		});
+
+		beforeEach(() => {
+			mocks.chainStateFindOne.mockReturnValue(queryResult(null));
+		});
+
+		// safeBlock=134, start=100: [100,104] → [105,114] → [115,134] (each full batch had no logs, so size doubles)
+		it("should double the range after full batches that return few logs, and persist it", async () => {
+			const client = createClient(139);
+
+			await sync(client, { ...config, batchSize: 5, maxBatchSize: 100 }, logger);
+
+			expect(client.queryFeesCollected.mock.calls).toEqual([
+				[100, 104],
+				[105, 114],
+				[115, 134],
+			]);
+			expect(mocks.chainStateUpdateOne).toHaveBeenLastCalledWith(
+				{ chainId: 137 },
+				{ $set: { chainId: 137, lastProcessedBlock: 134, lastProcessedBlockHash: "0xhash134", batchSize: 40 } },
+				{ upsert: true },
+			);
+		});
+
+		it("should not grow while batches return at least the target number of logs", async () => {
+			const client = createClient(115); // safeBlock=110
+			client.queryFeesCollected.mockResolvedValue([rawEvent, rawEvent]);
+			mocks.parseFeeCollectedEvents.mockReturnValue([]);
+
+			await sync(client, { ...config, batchSize: 5, maxBatchSize: 100, targetLogsPerBatch: 2 }, logger);
+
+			expect(client.queryFeesCollected.mock.calls).toEqual([
+				[100, 104],
+				[105, 109],
+				[110, 110],
+			]);
+		});
+
+		// safeBlock=110: [100,107] rejected → [100,103], then growth is capped at 7 for the rest of the cycle
+		it("should halve the range and retry immediately when the RPC rejects it as too large", async () => {
+			const client = createClient(115);
+			client.queryFeesCollected.mockRejectedValueOnce(rangeTooLarge).mockResolvedValue([]);
+
+			await sync(client, { ...config, batchSize: 8, maxBatchSize: 100 }, logger);
+
+			expect(client.queryFeesCollected.mock.calls).toEqual([
+				[100, 107],
+				[100, 103],
+				[104, 110],
+			]);
+			expect(mocks.chainStateUpdateOne).toHaveBeenCalledWith(
+				{ chainId: 137 },
+				{ $set: { chainId: 137, lastProcessedBlock: 103, lastProcessedBlockHash: "0xhash103", batchSize: 7 } },
+				{ upsert: true },
+			);
+		});
+
+		it("should give up once the range can't shrink any further", async () => {
+			const client = createClient(115);
+			client.queryFeesCollected.mockRejectedValue(rangeTooLarge);
+
+			await expect(sync(client, { ...config, batchSize: 2, minBatchSize: 1 }, logger)).rejects.toBe(rangeTooLarge);
+
+			expect(client.queryFeesCollected.mock.calls).toEqual([
+				[100, 101],
+				[100, 100],
+			]);
+			expect(mocks.chainStateUpdateOne).not.toHaveBeenCalled();
+		});
+
+		it("should resume from the learned batch size, clamped to the configured limits", async () => {
+			mocks.chainStateFindOne.mockReturnValue(
+				queryResult({ lastProcessedBlock: 99, lastProcessedBlockHash: "0xhash99", batchSize: 500 }),
+			);
+			const client = createClient(1000);
+
+			await sync(client, { ...config, batchSize: 5, maxBatchSize: 200 }, logger);
+
+			expect(client.queryFeesCollected).toHaveBeenNthCalledWith(1, 100, 299);
+		});
+	});
+
+	describe("with a lease", () => {
+		const lease = { ownerId: "worker-a", ttlMs: 60_000, renewIntervalMs: 15_000 };
+		const heartbeat = { assertHeld: vi.fn(), stop: vi.fn() };
+
+		function createClient() {
+			return {
+				getBlockNumber: vi.fn().mockResolvedValue(115), // safeBlock = 110
+				queryFeesCollected: vi.fn().mockResolvedValue([]),
+				queryWithdrawals: vi.fn().mockResolvedValue([]),
+				queryLogs(fromBlock: number, toBlock: number) {
+					return queryBothLogs(this, fromBlock, toBlock);
+				},
+				getTokenMetadata: vi.fn(),
+				getTransactions: vi.fn(),
+				getBlocks(blockNumbers: number[]) {
+					return Promise.all(blockNumbers.map((blockNumber) => this.getBlock(blockNumber)));
+				},
+				getBlock: vi.fn().mockImplementation(async (blockNumber: number) => ({
+					number: blockNumber,
+					hash: `0xhash${blockNumber}`,
+					timestamp: 1_700_000_000,
+				})),
+			};
+		}
+
+		beforeEach(() => {
+			heartbeat.assertHeld.mockReset();
+			mocks.startLeaseHeartbeat.mockReturnValue(heartbeat);
+			mocks.chainStateFindOne.mockReturnValue(queryResult(null));
+		});
+
+		it("should renew the lease for the duration of the cycle and stop afterwards", async () => {
+			await sync(createClient(), config, logger, undefined, lease);
+
+			expect(mocks.startLeaseHeartbeat).toHaveBeenCalledWith(137, lease, logger);
+			expect(heartbeat.assertHeld).toHaveBeenCalled();
+			expect(heartbeat.stop).toHaveBeenCalledTimes(1);
+		});
+
+		// batchSize=5, safeBlock=110 → first batch [100,104] is checkpointed, then the lease is lost
+		it("should abort the cycle without further writes once the lease is lost", async () => {
+			let checks = 0;
+			heartbeat.assertHeld.mockImplementation(() => {
+				// 1st: before batch 1, 2nd: before checkpoint 1, 3rd: before batch 2
+				if (++checks >= 3) throw new Error("Lease for chain 137 lost by worker-a");
+			});
+			const client = createClient();
+
+			await expect(sync(client, { ...config, batchSize: 5 }, logger, undefined, lease)).rejects.toThrow(
+				"Lease for chain 137 lost",
+			);
+
+			expect(client.queryFeesCollected).toHaveBeenCalledTimes(1);
+			expect(mocks.chainStateUpdateOne).toHaveBeenCalledTimes(1);
+			expect(heartbeat.stop).toHaveBeenCalledTimes(1);
+		});
+
+		it("should not start a heartbeat when no lease is given", async () => {
+			await sync(createClient(), config, logger);
+
+			expect(mocks.startLeaseHeartbeat).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("readSyncProgress", () => {
+		it("should compare the saved checkpoint with the safe block as of now", async () => {
+			mocks.chainStateFindOne.mockReturnValue(queryResult({ lastProcessedBlock: 900 }));
+			const client = { getBlockNumber: vi.fn().mockResolvedValue(1_005) };
+
+			await expect(readSyncProgress(client, config)).resolves.toEqual({ safeBlock: 1_000, lastProcessedBlock: 900 });
+			expect(mocks.chainStateFindOne).toHaveBeenCalledWith({ chainId: 137 }, { lastProcessedBlock: 1 });
+		});
+
+		it("should return null before the chain's first batch", async () => {
+			mocks.chainStateFindOne.mockReturnValue(queryResult(null));
+			const client = { getBlockNumber: vi.fn().mockResolvedValue(1_005) };
+
+			await expect(readSyncProgress(client, config)).resolves.toBeNull();
+		});
+	});
 });
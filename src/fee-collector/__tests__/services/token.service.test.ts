@@ -0,0 +1,141 @@
+import type { Logger } from "pino";
+
+const mocks = vi.hoisted(() => ({
+	tokenFind: vi.fn(),
+	tokenUpdateOne: vi.fn(),
+}));
+
+vi.mock("@/fee-collector/models/token", () => ({
+	TokenModel: {
+		find: mocks.tokenFind,
+		updateOne: mocks.tokenUpdateOne,
+	},
+}));
+
+import type { ParsedFeeCollectedEvent, ParsedWithdrawalEvent } from "@/fee-collector/services/parsing.service";
+import { resolveTokens, TOKEN_RETRY_DELAY_MS, tokensOf } from "@/fee-collector/services/token.service";
+
+describe("Token service", () => {
+	const usdc = "0x1111111111111111111111111111111111111111";
+	const weth = "0x3333333333333333333333333333333333333333";
+	const logger = { info: vi.fn(), warn: vi.fn() } as unknown as Logger;
+
+	// Mimics Mongoose's `.find().lean().exec()` chain
+	function queryResult<T>(value: T) {
+		return { lean: () => ({ exec: async () => value }) };
+	}
+
+	// Mimics Mongoose's `.updateOne().exec()` chain
+	function execResult<T>(value: T) {
+		return { exec: async () => value };
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mocks.tokenFind.mockReturnValue(queryResult([]));
+		mocks.tokenUpdateOne.mockReturnValue(execResult({ acknowledged: true }));
+	});
+
+	describe("resolveTokens", () => {
+		it("should resolve and store only the tokens not seen before", async () => {
+			mocks.tokenFind.mockReturnValue(queryResult([{ address: usdc }]));
+			const metadata = { symbol: "WETH", name: "Wrapped Ether", decimals: 18, native: false };
+			const client = { getTokenMetadata: vi.fn().mockResolvedValue(metadata) };
+
+			await resolveTokens(client, 137, [usdc, weth], logger);
+
+			expect(mocks.tokenFind).toHaveBeenCalledWith(
+				{ chainId: 137, address: { $in: [usdc, weth] } },
+				{ address: 1, retryAfter: 1 },
+			);
+			expect(client.getTokenMetadata).toHaveBeenCalledTimes(1);
+			expect(client.getTokenMetadata).toHaveBeenCalledWith(weth);
+			expect(mocks.tokenUpdateOne).toHaveBeenCalledWith(
+				{ chainId: 137, address: weth },
+				{ $set: metadata, $unset: { retryAfter: "" } },
+				{ upsert: true },
+			);
+		});
+
+		it("should store metadata with a null field with a retryAfter instead of for good", async () => {
+			vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+			try {
+				const metadata = { symbol: "USDC", name: "USD Coin", decimals: null, native: false };
+				const client = { getTokenMetadata: vi.fn().mockResolvedValue(metadata) };
+
+				await resolveTokens(client, 137, [usdc], logger);
+
+				expect(mocks.tokenUpdateOne).toHaveBeenCalledWith(
+					{ chainId: 137, address: usdc },
+					{ $set: { ...metadata, retryAfter: new Date(Date.now() + TOKEN_RETRY_DELAY_MS) } },
+					{ upsert: true },
+				);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		it("should read a token again once its retryAfter has passed", async () => {
+			mocks.tokenFind.mockReturnValue(
+				queryResult([
+					{ address: usdc, retryAfter: new Date(Date.now() - 1000) },
+					{ address: weth, retryAfter: new Date(Date.now() + TOKEN_RETRY_DELAY_MS) },
+				]),
+			);
+			const metadata = { symbol: "USDC", name: "USD Coin", decimals: 6, native: false };
+			const client = { getTokenMetadata: vi.fn().mockResolvedValue(metadata) };
+
+			await resolveTokens(client, 137, [usdc, weth], logger);
+
+			expect(client.getTokenMetadata).toHaveBeenCalledTimes(1);
+			expect(client.getTokenMetadata).toHaveBeenCalledWith(usdc);
+			expect(mocks.tokenUpdateOne).toHaveBeenCalledWith(
+				{ chainId: 137, address: usdc },
+				{ $set: metadata, $unset: { retryAfter: "" } },
+				{ upsert: true },
+			);
+		});
+
+		it("should skip a token whose metadata can't be read and carry on with the others", async () => {
+			const client = {
+				getTokenMetadata: vi
+					.fn()
+					.mockRejectedValueOnce(new Error("all endpoints failed"))
+					.mockResolvedValue({ symbol: "WETH", name: "Wrapped Ether", decimals: 18, native: false }),
+			};
+
+			await resolveTokens(client, 137, [usdc, weth], logger);
+
+			expect(logger.warn).toHaveBeenCalledWith(
+				{ err: expect.any(Error), address: usdc },
+				"could not resolve token metadata, will retry when the token is seen again",
+			);
+			expect(mocks.tokenUpdateOne).toHaveBeenCalledTimes(1);
+			expect(mocks.tokenUpdateOne).toHaveBeenCalledWith({ chainId: 137, address: weth }, expect.anything(), {
+				upsert: true,
+			});
+		});
+
+		it("should do nothing without tokens", async () => {
+			const client = { getTokenMetadata: vi.fn() };
+
+			await resolveTokens(client, 137, [], logger);
+
+			expect(mocks.tokenFind).not.toHaveBeenCalled();
+			expect(client.getTokenMetadata).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("tokensOf", () => {
+		it("should collect the distinct tokens of events and both kinds of withdrawals", () => {
+			const native = "0x0000000000000000000000000000000000000000";
+
+			const tokens = tokensOf([{ token: usdc }, { token: usdc }] as ParsedFeeCollectedEvent[], {
+				feesWithdrawn: [{ token: weth }] as ParsedWithdrawalEvent[],
+				lifiFeesWithdrawn: [{ token: native }] as ParsedWithdrawalEvent[],
+			});
+
+			expect(tokens).toEqual([usdc, weth, native]);
+		});
+	});
+});
@@ -0,0 +1,315 @@
+import { Types } from "mongoose";
+import type { Logger } from "pino";
+
+const mocks = vi.hoisted(() => ({
+	run: {} as Record<string, unknown>,
+	stored: [] as Record<string, unknown>[],
+	chainStateFindOne: vi.fn(),
+	feeEventUpdateMany: vi.fn(),
+	feeEventBulkWrite: vi.fn(),
+	discrepancyInsertMany: vi.fn(),
+	discrepancyUpdateMany: vi.fn(),
+	parseFeeCollectedEvents: vi.fn(),
+	indexBatchLogs: vi.fn(),
+	refreshBalances: vi.fn(),
+	resolveTokens: vi.fn(),
+}));
+
+vi.mock("@/fee-collector/models/chain-sync-state", () => ({
+	ChainSyncStateModel: { findOne: mocks.chainStateFindOne },
+}));
+
+// Answers the range-or-key query the verification runs per batch
+vi.mock("@/fee-collector/models/fee-collected-event", () => ({
+	FeeCollectedEventModel: {
+		find: (filter: { $or: [{ blockNumber: { $gte: number; $lte: number } }, { txHash: { $in: string[] } }?] }) => ({
+			lean: () => ({
+				exec: async () => {
+					const [{ blockNumber }, byKey] = filter.$or;
+					return mocks.stored.filter(
+						(event) =>
+							((event.blockNumber as number) >= blockNumber.$gte &&
+								(event.blockNumber as number) <= blockNumber.$lte) ||
+							byKey?.txHash.$in.includes(event.txHash as string),
+					);
+				},
+			}),
+		}),
+		updateMany: (filter: unknown, update: unknown) => ({ exec: async () => mocks.feeEventUpdateMany(filter, update) }),
+		bulkWrite: mocks.feeEventBulkWrite,
+	},
+}));
+
+// A single `verification_runs` document, enough for one run per test
+vi.mock("@/fee-collector/models/verification-run", () => ({
+	VerificationRunModel: {
+		create: async (doc: Record<string, unknown>) => {
+			Object.assign(mocks.run, {
+				_id: new Types.ObjectId(),
+				...doc,
+				onChainEvents: 0,
+				storedEvents: 0,
+				missing: 0,
+				extra: 0,
+				mismatched: 0,
+				unparsed: 0,
+				repaired: 0,
+			});
+			return mocks.run;
+		},
+		updateOne: (_filter: unknown, update: { $set: object; $inc: Record<string, number> }) => ({
+			exec: async () => {
+				Object.assign(mocks.run, update.$set);
+				for (const [field, count] of Object.entries(update.$inc)) {
+					mocks.run[field] = (mocks.run[field] as number) + count;
+				}
+			},
+		}),
+		findOneAndUpdate: (_filter: unknown, update: { $set: object }) => ({
+			lean: () => ({ exec: async () => Object.assign(mocks.run, update.$set) }),
+		}),
+	},
+}));
+
+vi.mock("@/fee-collector/models/verification-discrepancy", () => ({
+	VerificationDiscrepancyModel: {
+		insertMany: async (docs: object[]) => {
+			mocks.discrepancyInsertMany(docs);
+			return docs.map((doc) => ({ ...doc, _id: new Types.ObjectId() }));
+		},
+		updateMany: (filter: unknown, update: unknown) => ({
+			exec: async () => mocks.discrepancyUpdateMany(filter, update),
+		}),
+	},
+}));
+
+vi.mock("@/fee-collector/services/parsing.service", () => ({
+	parseFeeCollectedEvents: mocks.parseFeeCollectedEvents,
+}));
+
+vi.mock("@/fee-collector/services/sync.service", () => ({
+	fetchBlockTimestamps: async () => new Map(),
+	indexBatchLogs: mocks.indexBatchLogs,
+	withRetry: <T>(fn: () => Promise<T>) => fn(),
+}));
+
+vi.mock("@/fee-collector/services/balance.service", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@/fee-collector/services/balance.service")>()),
+	refreshBalances: mocks.refreshBalances,
+}));
+
+vi.mock("@/fee-collector/services/token.service", () => ({
+	resolveTokens: mocks.resolveTokens,
+}));
+
+import type { ParsedFeeCollectedEvent } from "@/fee-collector/services/parsing.service";
+import type { SyncClient } from "@/fee-collector/services/sync.service";
+import { type VerifyConfig, verifyRange } from "@/fee-collector/services/verification.service";
+
+describe("verifyRange", () => {
+	const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: () => logger } as unknown as Logger;
+	const config: VerifyConfig = {
+		chainId: 137,
+		fromBlock: 100,
+		toBlock: 299,
+		confirmations: 10,
+		batchSize: 100,
+		minBatchSize: 10,
+		maxBatchSize: 100,
+		targetLogsPerBatch: 1000,
+		batchDelayMs: 0,
+		repair: false,
+		enrichTransactions: false,
+	};
+	let onChain: ParsedFeeCollectedEvent[];
+	let unparsed: { blockNumber: number; transactionHash: string; logIndex: number }[];
+	let client: SyncClient & {
+		queryFeesCollected: ReturnType<typeof vi.fn>;
+		getBlockNumber: ReturnType<typeof vi.fn>;
+	};
+
+	function feeEvent(txHash: string, blockNumber: number, overrides: Partial<ParsedFeeCollectedEvent> = {}) {
+		return {
+			chainId: 137,
+			contractAddress: "0xcontract",
+			blockNumber,
+			blockHash: `0xblock${blockNumber}`,
+			txHash,
+			logIndex: 0,
+			token: "0xtoken",
+			integrator: "0xintegrator",
+			integratorFee: "100",
+			lifiFee: "10",
+			blockTimestamp: 1_700_000_000 + blockNumber,
+			...overrides,
+		};
+	}
+
+	function storedCopy(event: ParsedFeeCollectedEvent, overrides: Record<string, unknown> = {}) {
+		return { _id: new Types.ObjectId(), ...event, priceStatus: "priced", reorgId: null, ...overrides };
+	}
+
+	// One event missing, one extra and one stored with the wrong fee, spread over both batches
+	function seedDrift() {
+		const missing = feeEvent("0xmissing", 120);
+		const mismatched = feeEvent("0xmismatched", 250);
+		const extra = feeEvent("0xextra", 130);
+		onChain = [missing, mismatched];
+		mocks.stored = [storedCopy(mismatched, { integratorFee: "999" }), storedCopy(extra)];
+		return { missing, mismatched, extra };
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		for (const key of Object.keys(mocks.run)) delete mocks.run[key];
+		onChain = [];
+		unparsed = [];
+		mocks.stored = [];
+		client = {
+			queryFeesCollected: vi.fn(async (from: number, to: number) => [
+				...onChain
+					.filter((e) => e.blockNumber >= from && e.blockNumber <= to)
+					.map((e) => ({ blockNumber: e.blockNumber, transactionHash: e.txHash, logIndex: e.logIndex, parsed: e })),
+				...unparsed.filter((log) => log.blockNumber >= from && log.blockNumber <= to),
+			]),
+			getBlockNumber: vi.fn().mockResolvedValue(1000),
+		} as unknown as typeof client;
+		mocks.parseFeeCollectedEvents.mockImplementation(
+			(logs: { parsed?: ParsedFeeCollectedEvent }[], _chainId: number, _timestamps: unknown, failures: object[]) =>
+				logs.flatMap((log) => {
+					if (log.parsed) return [log.parsed];
+					failures.push({ event: log, error: new Error("no matching event") });
+					return [];
+				}),
+		);
+	});
+
+	it("should report a range whose stored events match the chain as clean", async () => {
+		const event = feeEvent("0xa", 150);
+		onChain = [event];
+		mocks.stored = [storedCopy(event)];
+
+		const report = await verifyRange(client, config, logger);
+
+		expect(client.queryFeesCollected.mock.calls).toEqual([
+			[100, 199],
+			[200, 299],
+		]);
+		expect(report).toMatchObject({
+			chainId: 137,
+			fromBlock: 100,
+			toBlock: 299,
+			status: "done",
+			lastVerifiedBlock: 299,
+			onChainEvents: 1,
+			storedEvents: 1,
+			missing: 0,
+			extra: 0,
+			mismatched: 0,
+			repaired: 0,
+		});
+		expect(mocks.discrepancyInsertMany).not.toHaveBeenCalled();
+	});
+
+	it("should record missing, extra and mismatched events without touching them", async () => {
+		const { missing, mismatched, extra } = seedDrift();
+
+		const report = await verifyRange(client, config, logger);
+
+		expect(report).toMatchObject({ status: "done", missing: 1, extra: 1, mismatched: 1, repaired: 0 });
+		const recorded = mocks.discrepancyInsertMany.mock.calls.flatMap(([docs]) => docs);
+		expect(recorded).toEqual([
+			expect.objectContaining({ kind: "missing", txHash: missing.txHash, onChain: missing, stored: undefined }),
+			expect.objectContaining({ kind: "extra", txHash: extra.txHash, onChain: undefined, stored: mocks.stored[1] }),
+			expect.objectContaining({ kind: "mismatched", txHash: mismatched.txHash, fields: ["integratorFee"] }),
+		]);
+		expect(recorded.every((doc) => doc.runId === mocks.run._id)).toBe(true);
+		expect(mocks.feeEventUpdateMany).not.toHaveBeenCalled();
+		expect(mocks.feeEventBulkWrite).not.toHaveBeenCalled();
+		expect(mocks.indexBatchLogs).not.toHaveBeenCalled();
+	});
+
+	it("should repair the drift with --repair and mark the discrepancies repaired", async () => {
+		const { missing, mismatched, extra } = seedDrift();
+		const [storedMismatch, storedExtra] = mocks.stored;
+
+		const report = await verifyRange(client, { ...config, repair: true }, logger);
+
+		expect(report).toMatchObject({ status: "done", missing: 1, extra: 1, mismatched: 1, repaired: 3 });
+		// The extra event is orphaned under the run, not deleted
+		expect(mocks.feeEventUpdateMany).toHaveBeenCalledWith(
+			{ _id: { $in: [storedExtra._id] }, reorgId: null },
+			{ $set: { orphanedAt: expect.any(Date), reorgId: mocks.run._id } },
+		);
+		// The fee changed, so the event's USD values are stale and it is priced again
+		expect(mocks.feeEventBulkWrite).toHaveBeenCalledWith(
+			[
+				{
+					updateOne: {
+						filter: { _id: storedMismatch._id },
+						update: {
+							$set: { integratorFee: "100", priceStatus: "pending" },
+							$unset: { unpricedReason: 1, tokenPriceUsd: 1, integratorFeeUsd: 1, lifiFeeUsd: 1, pricedAt: 1 },
+						},
+					},
+				},
+			],
+			{ ordered: false },
+		);
+		expect(mocks.indexBatchLogs).toHaveBeenCalledWith(
+			client,
+			137,
+			{ feesCollected: [expect.objectContaining({ transactionHash: missing.txHash })], withdrawals: [] },
+			logger,
+			{ enrichTransactions: false },
+		);
+		expect(mocks.refreshBalances).toHaveBeenCalledWith(
+			[{ chainId: 137, integrator: extra.integrator, token: extra.token }],
+			logger,
+		);
+		expect(mocks.resolveTokens).toHaveBeenCalledWith(client, 137, [mismatched.token], logger);
+		expect(mocks.discrepancyUpdateMany).toHaveBeenCalledTimes(2);
+	});
+
+	it("should match an event stored under the wrong block, and not call unparsed logs' events extra", async () => {
+		const moved = feeEvent("0xmoved", 110);
+		const undecodable = storedCopy(feeEvent("0xundecodable", 140));
+		onChain = [moved];
+		unparsed = [{ blockNumber: 140, transactionHash: "0xundecodable", logIndex: 0 }];
+		mocks.stored = [storedCopy(moved, { blockNumber: 400, blockHash: "0xblock400" }), undecodable];
+
+		const report = await verifyRange(client, config, logger);
+
+		expect(report).toMatchObject({ missing: 0, extra: 0, mismatched: 1, unparsed: 1 });
+		expect(mocks.discrepancyInsertMany).toHaveBeenCalledWith([
+			expect.objectContaining({ kind: "mismatched", fields: ["blockNumber", "blockHash"] }),
+		]);
+	});
+
+	it("should verify up to the sync checkpoint by default, capped at the safe block", async () => {
+		mocks.chainStateFindOne.mockReturnValue({ lean: () => ({ exec: async () => ({ lastProcessedBlock: 995 }) }) });
+
+		const report = await verifyRange(client, { ...config, fromBlock: 950, toBlock: undefined }, logger);
+
+		expect(report.toBlock).toBe(990);
+		expect(logger.warn).toHaveBeenCalledWith(
+			{ requested: 995, safeBlock: 990 },
+			"toBlock is past the safe block, capping it",
+		);
+
+		mocks.chainStateFindOne.mockReturnValue({ lean: () => ({ exec: async () => null }) });
+		await expect(verifyRange(client, { ...config, toBlock: undefined }, logger)).rejects.toThrow(
+			"Chain 137 has no sync checkpoint yet",
+		);
+	});
+
+	it("should record a failed run with its error and the progress it made", async () => {
+		client.queryFeesCollected.mockResolvedValueOnce([]).mockRejectedValueOnce(new Error("socket hang up"));
+
+		const report = await verifyRange(client, config, logger);
+
+		expect(report).toMatchObject({ status: "failed", lastVerifiedBlock: 199 });
+		expect(mocks.run.lastError).toBe("socket hang up");
+		expect(mocks.run.completedAt).toBeInstanceOf(Date);
+	});
+});
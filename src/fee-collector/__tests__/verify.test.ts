@@ -0,0 +1,137 @@
+const mocks = vi.hoisted(() => ({
+	connectMongo: vi.fn(),
+	disconnectMongo: vi.fn(),
+	verifyRange: vi.fn(),
+	createWorkerConfigs: vi.fn(),
+}));
+
+vi.mock("@/common/db/mongo", () => ({
+	connectMongo: mocks.connectMongo,
+	disconnectMongo: mocks.disconnectMongo,
+}));
+
+vi.mock("@/fee-collector/services/verification.service", () => ({
+	verifyRange: mocks.verifyRange,
+}));
+
+vi.mock("@/fee-collector/worker.helpers", () => ({
+	createWorkerConfigs: mocks.createWorkerConfigs,
+}));
+
+vi.mock("@/fee-collector/config/chains.config", () => ({
+	CHAIN_REGISTRY: [
+		{ chainId: 137, name: "polygon", enabled: true, deployments: [{ address: "0xcontract", startBlock: 100 }] },
+		{ chainId: 1, name: "ethereum", enabled: false, deployments: [{ address: "0xcontract", startBlock: 500 }] },
+	],
+	getChainStartBlock: (deployments: { startBlock: number }[]) => Math.min(...deployments.map((d) => d.startBlock)),
+}));
+
+vi.mock("@/fee-collector/config/env.config", () => ({
+	env: { MONGO_URI: "mongodb://localhost:27017", MONGO_DB: "test-db" },
+}));
+
+import type { Logger } from "pino";
+import { CHAIN_REGISTRY } from "@/fee-collector/config/chains.config";
+import { parseVerifyArgs, run } from "@/fee-collector/verify";
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Logger;
+
+describe("parseVerifyArgs", () => {
+	it("should default the range start and leave repairs off", () => {
+		expect(parseVerifyArgs(["node", "verify.js", "--chain", "polygon"], CHAIN_REGISTRY)).toEqual({
+			chain: CHAIN_REGISTRY[0],
+			fromBlock: 100,
+			toBlock: undefined,
+			repair: false,
+		});
+	});
+
+	it("should parse the range and --repair", () => {
+		const argv = ["node", "verify.js", "--chain", "ethereum", "--from", "600", "--to", "900", "--repair"];
+
+		expect(parseVerifyArgs(argv, CHAIN_REGISTRY)).toEqual({
+			chain: CHAIN_REGISTRY[1],
+			fromBlock: 600,
+			toBlock: 900,
+			repair: true,
+		});
+	});
+
+	it("should require exactly one known chain and a valid range", () => {
+		expect(() => parseVerifyArgs(["node", "verify.js"], CHAIN_REGISTRY)).toThrow(
+			"Verification needs exactly one chain",
+		);
+		expect(() =>
+			parseVerifyArgs(["node", "verify.js", "--chain", "polygon", "--from", "200", "--to", "150"], CHAIN_REGISTRY),
+		).toThrow("--to (150) must not be below --from (200)");
+	});
+});
+
+describe("Verify run()", () => {
+	const client = { mock: "client" };
+	const syncConfig = {
+		chainId: 137,
+		confirmations: 20,
+		batchSize: 10,
+		minBatchSize: 1,
+		maxBatchSize: 2000,
+		targetLogsPerBatch: 1000,
+		batchDelayMs: 200,
+		enrichTransactions: true,
+	};
+	const report = { runId: "run-1", status: "done", missing: 0, extra: 0, mismatched: 0, repaired: 0 };
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		process.exitCode = undefined;
+		mocks.createWorkerConfigs.mockReturnValue([{ client, syncConfig }]);
+		mocks.verifyRange.mockResolvedValue(report);
+	});
+
+	it("should verify the chain with its sync settings and log the report", async () => {
+		const signal = new AbortController().signal;
+
+		await run(["node", "verify.js", "--chain", "polygon", "--to", "200", "--repair"], signal, logger);
+
+		expect(mocks.verifyRange).toHaveBeenCalledWith(
+			client,
+			{
+				chainId: 137,
+				fromBlock: 100,
+				toBlock: 200,
+				confirmations: 20,
+				batchSize: 10,
+				minBatchSize: 1,
+				maxBatchSize: 2000,
+				targetLogsPerBatch: 1000,
+				batchDelayMs: 200,
+				repair: true,
+				enrichTransactions: true,
+			},
+			logger,
+			signal,
+		);
+		expect(logger.info).toHaveBeenCalledWith({ chain: "polygon", report }, "verification complete");
+		expect(process.exitCode).toBeUndefined();
+		expect(mocks.disconnectMongo).toHaveBeenCalledTimes(1);
+	});
+
+	it("should exit non-zero on drift it didn't repair and on incomplete runs", async () => {
+		const drift = { ...report, missing: 2, extra: 1 };
+		mocks.verifyRange.mockResolvedValueOnce(drift);
+
+		await run(["node", "verify.js", "--chain", "polygon"], new AbortController().signal, logger);
+
+		expect(logger.warn).toHaveBeenCalledWith(
+			{ chain: "polygon", report: drift },
+			"stored events differ from the chain, re-run with --repair to fix them",
+		);
+		expect(process.exitCode).toBe(1);
+
+		process.exitCode = undefined;
+		mocks.verifyRange.mockResolvedValueOnce({ ...report, status: "failed" });
+		await run(["node", "verify.js", "--chain", "polygon"], new AbortController().signal, logger);
+
+		expect(process.exitCode).toBe(1);
+	});
+});
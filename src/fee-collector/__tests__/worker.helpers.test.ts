@@ -6,41 +6,66 @@ vi.mock("@/fee-collector/client", () => ({
 	createFeeCollectorClient: mocks.createFeeCollectorClient,
 }));
 
-import { Chain } from "@/fee-collector/config/chains.config";
-import { createWorkerConfigs, parseChainFlag, sleep } from "@/fee-collector/worker.helpers";
+import type { ChainDefinition } from "@/fee-collector/config/chains.config";
+import { createWorkerConfigs, createWorkerId, parseChainFlag, sleep } from "@/fee-collector/worker.helpers";
+
+function chainDefinition(overrides: Partial<ChainDefinition>): ChainDefinition {
+	return {
+		chainId: 137,
+		name: "polygon",
+		enabled: true,
+		rpcEndpoints: [{ url: "https://polygon-rpc.com", priority: 0 }],
+		deployments: [{ address: "0xcontract", startBlock: 100 }],
+		nativeCurrency: { symbol: "POL", name: "Polygon Ecosystem Token", decimals: 18 },
+		confirmations: 64,
+		batchSize: 2000,
+		pollIntervalMs: 30_000,
+		reorgBacktrack: 200,
+		rpcBatchSize: 50,
+		maxLagBlocks: 500,
+		retry: { maxAttempts: 3, initialDelayMs: 5000, maxDelayMs: 60_000, jitter: 0.2, operations: {} },
+		enrichTransactions: false,
+		...overrides,
+	};
+}
 
 describe("parseChainFlag", () => {
-	it("should default to polygon when no --chain flag", () => {
-		expect(parseChainFlag(["node", "worker.js"])).toEqual([Chain.Polygon]);
+	const registry = [
+		chainDefinition({ chainId: 137, name: "polygon" }),
+		chainDefinition({ chainId: 1, name: "ethereum", enabled: false }),
+	];
+
+	it("should default to the enabled chains when no --chain flag", () => {
+		expect(parseChainFlag(["node", "worker.js"], registry)).toEqual(["polygon"]);
 	});
 
-	it("should default to polygon when --chain is last arg with no value", () => {
-		expect(parseChainFlag(["node", "worker.js", "--chain"])).toEqual([Chain.Polygon]);
+	it("should default to the enabled chains when --chain is last arg with no value", () => {
+		expect(parseChainFlag(["node", "worker.js", "--chain"], registry)).toEqual(["polygon"]);
 	});
 
 	it("should parse a single chain", () => {
-		expect(parseChainFlag(["node", "worker.js", "--chain", "polygon"])).toEqual([Chain.Polygon]);
+		expect(parseChainFlag(["node", "worker.js", "--chain", "polygon"], registry)).toEqual(["polygon"]);
 	});
 
-	it("should parse comma-separated chains", () => {
-		expect(parseChainFlag(["node", "worker.js", "--chain", "polygon,ethereum"])).toEqual([
-			Chain.Polygon,
-			Chain.Ethereum,
+	it("should parse comma-separated chains, including disabled ones", () => {
+		expect(parseChainFlag(["node", "worker.js", "--chain", "polygon,ethereum"], registry)).toEqual([
+			"polygon",
+			"ethereum",
 		]);
 	});
 
 	it("should deduplicate repeated chains", () => {
-		expect(parseChainFlag(["node", "worker.js", "--chain", "polygon,polygon"])).toEqual([Chain.Polygon]);
+		expect(parseChainFlag(["node", "worker.js", "--chain", "polygon,polygon"], registry)).toEqual(["polygon"]);
 	});
 
-	it("should throw on unknown chain", () => {
-		expect(() => parseChainFlag(["node", "worker.js", "--chain", "solana"])).toThrow(
+	it("should throw on a chain missing from the registry", () => {
+		expect(() => parseChainFlag(["node", "worker.js", "--chain", "solana"], registry)).toThrow(
 			'Unknown chain "solana". Valid chains: polygon, ethereum',
 		);
 	});
 
 	it("should throw when chains are space-separated", () => {
-		expect(() => parseChainFlag(["node", "worker.js", "--chain", "polygon,", "solana"])).toThrow(
+		expect(() => parseChainFlag(["node", "worker.js", "--chain", "polygon,", "solana"], registry)).toThrow(
 			"Chains must be comma-separated without spaces",
 		);
 	});
@@ -49,14 +74,17 @@ describe("parseChainFlag", () => {
 describe("createWorkerConfigs", () => {
 	it("should map chain definitions to worker configs", () => {
 		const definitions = [
-			{
-				chainId: 137,
-				name: Chain.Polygon,
-				rpcUrl: "https://polygon-rpc.com",
-				contractAddress: "0xcontract",
-				startBlock: 100,
-				reorgBacktrack: 200,
-			},
+			chainDefinition({
+				deployments: [
+					{ address: "0xold", startBlock: 50, endBlock: 99 },
+					{ address: "0xcontract", startBlock: 100 },
+				],
+				confirmations: 32,
+				batchSize: 500,
+				pollIntervalMs: 5_000,
+				rpcBatchSize: 20,
+				enrichTransactions: true,
+			}),
 		];
 
 		const configs = createWorkerConfigs(definitions);
@@ -64,9 +92,37 @@ describe("createWorkerConfigs", () => {
 		expect(configs).toHaveLength(1);
 		expect(configs[0].chain).toBe(definitions[0]);
 		expect(configs[0].syncConfig.chainId).toBe(137);
-		expect(configs[0].syncConfig.startBlock).toBe(100);
+		// A fresh sync starts at the earliest deployment
+		expect(configs[0].syncConfig.startBlock).toBe(50);
 		expect(configs[0].syncConfig.reorgBacktrack).toBe(200);
-		expect(mocks.createFeeCollectorClient).toHaveBeenCalledWith("https://polygon-rpc.com", "0xcontract");
+		// Per-chain overrides from the registry
+		expect(configs[0].syncConfig.confirmations).toBe(32);
+		expect(configs[0].syncConfig.batchSize).toBe(500);
+		expect(configs[0].syncConfig.enrichTransactions).toBe(true);
+		expect(configs[0].pollIntervalMs).toBe(5_000);
+		expect(mocks.createFeeCollectorClient).toHaveBeenCalledWith(
+			[{ url: "https://polygon-rpc.com", priority: 0 }],
+			definitions[0].deployments,
+			{
+				quorum: false,
+				maxConsecutiveFailures: 3,
+				cooldownMs: 60_000,
+				nativeCurrency: { symbol: "POL", name: "Polygon Ecosystem Token", decimals: 18 },
+				rpcBatchSize: 20,
+				blockCacheSize: 1000,
+				rateLimit: { requestsPerSecond: 25, maxConcurrency: 10 },
+			},
+		);
+	});
+});
+
+describe("createWorkerId", () => {
+	it("should include the process id and be unique per call", () => {
+		const first = createWorkerId();
+		const second = createWorkerId();
+
+		expect(first).toContain(`:${process.pid}:`);
+		expect(first).not.toBe(second);
 	});
 });
 
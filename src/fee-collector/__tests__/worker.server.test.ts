@@ -0,0 +1,100 @@
+import type { Logger } from "pino";
+import request from "supertest";
+import { WorkerHealth } from "@/fee-collector/health/worker-health";
+import { MetricsRegistry } from "@/fee-collector/metrics/registry";
+import { startWorkerServer, type WorkerServer } from "@/fee-collector/worker.server";
+
+describe("startWorkerServer", () => {
+	const logger = { info: vi.fn() } as unknown as Logger;
+	let now: number;
+	let health: WorkerHealth;
+	let server: WorkerServer;
+
+	beforeEach(async () => {
+		now = 1_700_000_000_000;
+		const registry = new MetricsRegistry();
+		registry.counter("reorgs_total", "Reorgs.").inc({ chain: "polygon" });
+		health = new WorkerHealth({ livenessWindowMs: 60_000, now: () => now });
+		health.track([{ name: "polygon", maxLagBlocks: 100 }]);
+		// Port 0 picks a free port
+		server = await startWorkerServer(0, { registry, health }, logger);
+	});
+
+	afterEach(async () => {
+		await server.close();
+	});
+
+	it("should serve the registry on /metrics in the Prometheus text format", async () => {
+		const response = await request(`http://127.0.0.1:${server.port}`).get("/metrics");
+
+		expect(response.status).toBe(200);
+		expect(response.headers["content-type"]).toBe("text/plain; version=0.0.4; charset=utf-8");
+		expect(response.text).toContain('reorgs_total{chain="polygon"} 1');
+	});
+
+	it("should answer both probes with 200 and the state of each chain while the worker keeps up", async () => {
+		health.chainSynced("polygon", { safeBlock: 1000, lastProcessedBlock: 990 });
+		health.cycleFinished();
+
+		for (const path of ["/health/live", "/health/ready"]) {
+			const response = await request(`http://127.0.0.1:${server.port}`).get(path);
+
+			expect(response.status).toBe(200);
+			expect(response.headers["content-type"]).toBe("application/json");
+			expect(response.body).toEqual({
+				status: "ok",
+				lastCycleFinishedAt: "2023-11-14T22:13:20.000Z",
+				lastCheckpointAt: null,
+				chains: [
+					{
+						chain: "polygon",
+						role: "syncing",
+						ready: true,
+						lastProcessedBlock: 990,
+						safeBlock: 1000,
+						lagBlocks: 10,
+						maxLagBlocks: 100,
+						lastSyncedAt: "2023-11-14T22:13:20.000Z",
+						lastCheckpointAt: null,
+						lastError: null,
+					},
+				],
+			});
+		}
+	});
+
+	it("should fail readiness with 503 but stay live while a chain lags", async () => {
+		health.chainSynced("polygon", { safeBlock: 1000, lastProcessedBlock: 800 });
+		health.cycleFinished();
+
+		const ready = await request(`http://127.0.0.1:${server.port}`).get("/health/ready");
+		const live = await request(`http://127.0.0.1:${server.port}`).get("/health/live");
+
+		expect(ready.status).toBe(503);
+		expect(ready.body).toMatchObject({
+			status: "failing",
+			reason: "chains not ready: polygon",
+			chains: [{ chain: "polygon", ready: false, reason: "200 blocks behind the safe block (max 100)" }],
+		});
+		expect(live.status).toBe(200);
+	});
+
+	it("should fail liveness with 503 once no cycle finished within the window", async () => {
+		health.cycleFinished();
+		now += 61_000;
+
+		const response = await request(`http://127.0.0.1:${server.port}`).get("/health/live");
+
+		expect(response.status).toBe(503);
+		expect(response.body).toMatchObject({
+			status: "failing",
+			reason: "no worker cycle finished and no checkpoint saved in 61s (window: 60s)",
+		});
+	});
+
+	it("should answer other paths with 404", async () => {
+		const response = await request(`http://127.0.0.1:${server.port}`).get("/");
+
+		expect(response.status).toBe(404);
+	});
+});
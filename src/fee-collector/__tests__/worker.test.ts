@@ -2,9 +2,21 @@ const mocks = vi.hoisted(() => ({
 	connectMongo: vi.fn(),
 	disconnectMongo: vi.fn(),
 	sync: vi.fn(),
+	readSyncProgress: vi.fn(),
 	parseChainFlag: vi.fn(),
 	createWorkerConfigs: vi.fn(),
 	sleep: vi.fn(),
+	acquireLease: vi.fn(),
+	releaseLease: vi.fn(),
+	getLeaseHolder: vi.fn(),
+	registerInstance: vi.fn(),
+	deregisterInstance: vi.fn(),
+	startInstanceHeartbeat: vi.fn(),
+	claimAssignedChains: vi.fn(),
+	startLogSubscription: vi.fn(),
+	priceFees: vi.fn(),
+	loadFilePriceProvider: vi.fn(),
+	preflightChain: vi.fn(),
 }));
 
 vi.mock("@/common/db/mongo", () => ({
@@ -14,18 +26,51 @@ vi.mock("@/common/db/mongo", () => ({
 
 vi.mock("@/fee-collector/services/sync.service", () => ({
 	sync: mocks.sync,
+	readSyncProgress: mocks.readSyncProgress,
+	ReorgTooDeepError: class ReorgTooDeepError extends Error {},
+}));
+
+vi.mock("@/fee-collector/services/subscription.service", () => ({
+	startLogSubscription: mocks.startLogSubscription,
+}));
+
+vi.mock("@/fee-collector/services/preflight.service", () => ({
+	preflightChain: mocks.preflightChain,
+}));
+
+vi.mock("@/fee-collector/services/pricing.service", () => ({
+	priceFees: mocks.priceFees,
+}));
+
+vi.mock("@/fee-collector/prices/file-price-provider", () => ({
+	loadFilePriceProvider: mocks.loadFilePriceProvider,
+}));
+
+vi.mock("@/fee-collector/services/lease.service", () => ({
+	acquireLease: mocks.acquireLease,
+	releaseLease: mocks.releaseLease,
+	getLeaseHolder: mocks.getLeaseHolder,
+}));
+
+vi.mock("@/fee-collector/services/pool.service", () => ({
+	registerInstance: mocks.registerInstance,
+	deregisterInstance: mocks.deregisterInstance,
+	startInstanceHeartbeat: mocks.startInstanceHeartbeat,
+	claimAssignedChains: mocks.claimAssignedChains,
 }));
 
 vi.mock("@/fee-collector/worker.helpers", () => ({
 	parseChainFlag: mocks.parseChainFlag,
 	createWorkerConfigs: mocks.createWorkerConfigs,
+	createWorkerId: () => "worker-a",
 	sleep: mocks.sleep,
 }));
 
 vi.mock("@/fee-collector/config/chains.config", () => ({
-	SUPPORTED_CHAINS: {
-		polygon: { chainId: 137, name: "polygon" },
-	},
+	CHAIN_REGISTRY: [
+		{ chainId: 137, name: "polygon", enabled: true, pollIntervalMs: 1000 },
+		{ chainId: 1, name: "ethereum", enabled: false, pollIntervalMs: 1000 },
+	],
 }));
 
 vi.mock("@/fee-collector/config/env.config", () => ({
@@ -33,19 +78,33 @@ vi.mock("@/fee-collector/config/env.config", () => ({
 		MONGO_URI: "mongodb://localhost:27017",
 		MONGO_DB: "test-db",
 		FEE_COLLECTOR_POLL_INTERVAL_MS: 1000,
+		FEE_COLLECTOR_LEASE_TTL_MS: 60_000,
+		FEE_COLLECTOR_LEASE_RENEW_INTERVAL_MS: 15_000,
+		FEE_COLLECTOR_POOL_INSTANCE_TTL_MS: 60_000,
+		FEE_COLLECTOR_POOL_HEARTBEAT_INTERVAL_MS: 15_000,
+		FEE_COLLECTOR_PRICES_FILE: "prices.json",
+		FEE_COLLECTOR_PRICE_MAX_AGE_SECONDS: 86_400,
 	},
 }));
 
 import type { Logger } from "pino";
+import { CHAIN_REGISTRY } from "@/fee-collector/config/chains.config";
+import { WorkerHealth } from "@/fee-collector/health/worker-health";
+import { currentChainMetrics, metricsRegistry } from "@/fee-collector/metrics/worker-metrics";
+import { currentRetryPolicies } from "@/fee-collector/retry/retry-policy";
+import { ReorgTooDeepError } from "@/fee-collector/services/sync.service";
 import { run } from "@/fee-collector/worker";
 
-const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Logger;
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), fatal: vi.fn() } as unknown as Logger;
+const lease = { ownerId: "worker-a", ttlMs: 60_000, renewIntervalMs: 15_000 };
+const priceProvider = { getUsdPrice: vi.fn() };
 
 function createWorkerConfig(chainName: string) {
 	return {
-		chain: { name: chainName },
-		client: { mock: `${chainName}-client` },
+		chain: { name: chainName, maxLagBlocks: 100 },
+		client: { mock: `${chainName}-client`, getEndpointHealth: () => [] },
 		syncConfig: { chainId: chainName === "polygon" ? 137 : 1 },
+		pollIntervalMs: 1000,
 	};
 }
 
@@ -54,14 +113,36 @@ describe("Worker run()", () => {
 
 	beforeEach(() => {
 		vi.clearAllMocks();
+		vi.useFakeTimers({ toFake: ["Date"] });
 		process.exitCode = undefined;
 
 		mocks.connectMongo.mockResolvedValue(undefined);
 		mocks.disconnectMongo.mockResolvedValue(undefined);
-		mocks.sleep.mockResolvedValue(undefined);
+		// Sleeping moves the clock forward, so chains become due again on the next cycle
+		mocks.sleep.mockImplementation(async (ms: number) => {
+			vi.setSystemTime(Date.now() + ms);
+		});
 		mocks.parseChainFlag.mockReturnValue(["polygon"]);
 		mocks.createWorkerConfigs.mockReturnValue([polygonConfig]);
-		mocks.sync.mockResolvedValue(undefined);
+		mocks.sync.mockResolvedValue({ safeBlock: 1000, lastProcessedBlock: 1000 });
+		mocks.readSyncProgress.mockResolvedValue({ safeBlock: 1000, lastProcessedBlock: 1000 });
+		mocks.acquireLease.mockResolvedValue(true);
+		mocks.releaseLease.mockResolvedValue(undefined);
+		mocks.registerInstance.mockResolvedValue(undefined);
+		mocks.deregisterInstance.mockResolvedValue(undefined);
+		mocks.startInstanceHeartbeat.mockReturnValue({ stop: vi.fn() });
+		mocks.startLogSubscription.mockReturnValue(null);
+		mocks.priceFees.mockResolvedValue({ priced: 0, unpriced: 0, waiting: 0 });
+		mocks.loadFilePriceProvider.mockReturnValue(priceProvider);
+		mocks.preflightChain.mockImplementation(async (_client: unknown, chain: { name: string }) => ({
+			chain: chain.name,
+			passed: true,
+			checks: [],
+		}));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
 	});
 
 	describe("--once mode", () => {
@@ -76,6 +157,51 @@ describe("Worker run()", () => {
 			expect(process.exitCode).toBeUndefined();
 		});
 
+		it("should log the RPC endpoint health of each chain after the cycle", async () => {
+			const health = [{ endpoint: "https://polygon-rpc.com", healthy: true, successes: 3 }];
+			mocks.createWorkerConfigs.mockReturnValue([
+				{ ...polygonConfig, client: { ...polygonConfig.client, getEndpointHealth: () => health } },
+			]);
+			const ac = new AbortController();
+
+			await run(["node", "worker.ts", "--once"], ac.signal, logger);
+
+			expect(logger.info).toHaveBeenCalledWith({ chain: "polygon", endpoints: health }, "rpc endpoint health");
+		});
+
+		it("should sync in the chain's metrics scope and export the cycle and RPC errors by chain", async () => {
+			const health = [{ endpoint: "https://polygon-rpc.com", healthy: true, successes: 3, failures: 2 }];
+			mocks.createWorkerConfigs.mockReturnValue([
+				{ ...polygonConfig, client: { ...polygonConfig.client, getEndpointHealth: () => health } },
+			]);
+			let syncedChain: string | undefined;
+			mocks.sync.mockImplementation(async () => {
+				syncedChain = currentChainMetrics()?.chain;
+			});
+
+			await run(["node", "worker.ts", "--once"], new AbortController().signal, logger);
+
+			expect(syncedChain).toBe("polygon");
+			const exported = metricsRegistry.render();
+			expect(exported).toContain(
+				'fee_collector_rpc_errors_total{chain="polygon",endpoint="https://polygon-rpc.com"} 2',
+			);
+			expect(exported).toMatch(/^fee_collector_sync_cycle_duration_seconds_count\{chain="polygon"\} [1-9]/m);
+		});
+
+		it("should sync with the chain's retry policies", async () => {
+			const retry = { maxAttempts: 5, initialDelayMs: 1000, maxDelayMs: 30_000, jitter: 0.2, operations: {} };
+			mocks.createWorkerConfigs.mockReturnValue([{ ...polygonConfig, chain: { ...polygonConfig.chain, retry } }]);
+			let syncPolicies: unknown;
+			mocks.sync.mockImplementation(async () => {
+				syncPolicies = currentRetryPolicies();
+			});
+
+			await run(["node", "worker.ts", "--once"], new AbortController().signal, logger);
+
+			expect(syncPolicies).toBe(retry);
+		});
+
 		it("should set process.exitCode = 1 when sync rejects and log the error", async () => {
 			mocks.sync.mockRejectedValue(new Error("RPC down"));
 			const ac = new AbortController();
@@ -92,7 +218,7 @@ describe("Worker run()", () => {
 			mocks.parseChainFlag.mockReturnValue(["polygon", "ethereum"]);
 			mocks.createWorkerConfigs.mockReturnValue([polygonConfig, ethereumConfig]);
 			mocks.sync
-				.mockResolvedValueOnce(undefined) // polygon succeeds
+				.mockResolvedValueOnce({ safeBlock: 1000, lastProcessedBlock: 1000 }) // polygon succeeds
 				.mockRejectedValueOnce(new Error("ethereum RPC down")); // ethereum fails
 			const ac = new AbortController();
 
@@ -126,6 +252,23 @@ describe("Worker run()", () => {
 			expect(mocks.sleep).toHaveBeenCalledWith(1000, abortController.signal);
 		});
 
+		it("should sync each chain on its own poll interval", async () => {
+			const abortController = new AbortController();
+			const ethereumConfig = { ...createWorkerConfig("ethereum"), pollIntervalMs: 3000 };
+			mocks.createWorkerConfigs.mockReturnValue([polygonConfig, ethereumConfig]);
+			const synced: number[] = [];
+			mocks.sync.mockImplementation(async (_client, syncConfig: { chainId: number }) => {
+				synced.push(syncConfig.chainId);
+				if (synced.length >= 4) abortController.abort();
+			});
+
+			await run(["node", "worker.ts"], abortController.signal, logger);
+
+			// ethereum sits out the cycles in between while polygon keeps its 1s interval
+			expect(synced).toEqual([137, 1, 137, 137]);
+			expect(mocks.sleep).toHaveBeenCalledWith(1000, abortController.signal);
+		});
+
 		it("should disconnect mongo cleanly on graceful shutdown", async () => {
 			const abortController = new AbortController();
 			mocks.sync.mockImplementation(async () => {
@@ -137,6 +280,22 @@ describe("Worker run()", () => {
 			expect(mocks.disconnectMongo).toHaveBeenCalledTimes(1);
 		});
 
+		it("should stop the worker and rethrow after cleaning up when a reorg can't be resolved", async () => {
+			const reorgError = new (ReorgTooDeepError as unknown as new (message: string) => Error)("too deep");
+			mocks.sync.mockRejectedValue(reorgError);
+
+			await expect(run(["node", "worker.ts"], new AbortController().signal, logger)).rejects.toBe(reorgError);
+
+			expect(mocks.sync).toHaveBeenCalledTimes(1);
+			expect(mocks.sleep).not.toHaveBeenCalled();
+			expect(logger.fatal).toHaveBeenCalledWith(
+				{ chain: "polygon", err: reorgError },
+				"unrecoverable reorg, stopping worker",
+			);
+			expect(mocks.releaseLease).toHaveBeenCalledWith(137, "worker-a");
+			expect(mocks.disconnectMongo).toHaveBeenCalledTimes(1);
+		});
+
 		it("should log error with retry message when sync fails in continuous mode", async () => {
 			const abortController = new AbortController();
 			let syncCallCount = 0;
@@ -165,7 +324,234 @@ describe("Worker run()", () => {
 
 			await run(["node", "worker.ts", "--once"], ac.signal, logger);
 
-			expect(mocks.sync).toHaveBeenCalledWith(polygonConfig.client, polygonConfig.syncConfig, logger, ac.signal);
+			expect(mocks.sync).toHaveBeenCalledWith(polygonConfig.client, polygonConfig.syncConfig, logger, ac.signal, lease);
+		});
+	});
+
+	describe("Chain lease", () => {
+		it("should acquire the chain lease before syncing and release it on exit", async () => {
+			await run(["node", "worker.ts", "--once"], new AbortController().signal, logger);
+
+			expect(mocks.acquireLease).toHaveBeenCalledWith(137, "worker-a", 60_000);
+			expect(mocks.sync).toHaveBeenCalledTimes(1);
+			expect(mocks.releaseLease).toHaveBeenCalledWith(137, "worker-a");
+		});
+
+		it("should stand by without syncing while another worker holds the lease", async () => {
+			const holder = { ownerId: "worker-b", expiresAt: new Date() };
+			mocks.acquireLease.mockResolvedValue(false);
+			mocks.getLeaseHolder.mockResolvedValue(holder);
+
+			await run(["node", "worker.ts", "--once"], new AbortController().signal, logger);
+
+			expect(mocks.sync).not.toHaveBeenCalled();
+			expect(mocks.priceFees).not.toHaveBeenCalled();
+			expect(process.exitCode).toBeUndefined();
+			expect(logger.info).toHaveBeenCalledWith(
+				{ chain: "polygon", holder },
+				"chain lease held by another worker, standing by",
+			);
+		});
+
+		it("should take over once the other worker's lease expires", async () => {
+			const abortController = new AbortController();
+			mocks.acquireLease.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+			mocks.getLeaseHolder.mockResolvedValue(null);
+			mocks.sync.mockImplementation(async () => {
+				abortController.abort();
+			});
+
+			await run(["node", "worker.ts"], abortController.signal, logger);
+
+			expect(mocks.acquireLease).toHaveBeenCalledTimes(2);
+			expect(mocks.sleep).toHaveBeenCalledTimes(1);
+			expect(mocks.sync).toHaveBeenCalledTimes(1);
+		});
+
+		it("should exit non-zero under --once when the lease is lost mid-cycle", async () => {
+			mocks.sync.mockRejectedValue(new Error("Lease for chain 137 lost by worker-a"));
+
+			await run(["node", "worker.ts", "--once"], new AbortController().signal, logger);
+
+			expect(process.exitCode).toBe(1);
+			expect(logger.error).toHaveBeenCalledWith({ chain: "polygon", err: expect.any(Error) }, "sync failed");
+		});
+	});
+
+	describe("USD pricing", () => {
+		it("should price the chain's new events with the price file after syncing it", async () => {
+			await run(["node", "worker.ts", "--once"], new AbortController().signal, logger);
+
+			expect(mocks.loadFilePriceProvider).toHaveBeenCalledWith("prices.json", 86_400);
+			expect(mocks.priceFees).toHaveBeenCalledWith(priceProvider, 137, logger);
+			expect(mocks.sync.mock.invocationCallOrder[0]).toBeLessThan(mocks.priceFees.mock.invocationCallOrder[0]);
+		});
+
+		it("should only warn when pricing fails, leaving the sync successful", async () => {
+			mocks.priceFees.mockRejectedValue(new Error("mongo down"));
+
+			await run(["node", "worker.ts", "--once"], new AbortController().signal, logger);
+
+			expect(process.exitCode).toBeUndefined();
+			expect(logger.warn).toHaveBeenCalledWith(
+				{ chain: "polygon", err: expect.any(Error) },
+				"pricing failed, will retry next cycle",
+			);
+		});
+	});
+
+	describe("Log subscription", () => {
+		function createSubscription(active = true) {
+			return { active, stop: vi.fn().mockResolvedValue(undefined) };
+		}
+
+		// Aborts during the sleep after the given cycle
+		function abortAfterCycles(abortController: AbortController, cycles: number) {
+			let sleepCount = 0;
+			mocks.sleep.mockImplementation(async (ms: number) => {
+				vi.setSystemTime(Date.now() + ms);
+				if (++sleepCount >= cycles) abortController.abort();
+			});
+		}
+
+		it("should subscribe once for a chain whose lease it holds and unsubscribe on shutdown", async () => {
+			const abortController = new AbortController();
+			const subscription = createSubscription();
+			mocks.startLogSubscription.mockReturnValue(subscription);
+			abortAfterCycles(abortController, 2);
+
+			await run(["node", "worker.ts"], abortController.signal, logger);
+
+			expect(mocks.startLogSubscription).toHaveBeenCalledTimes(1);
+			expect(mocks.startLogSubscription).toHaveBeenCalledWith(polygonConfig.client, 137, logger);
+			expect(subscription.stop).toHaveBeenCalledTimes(1);
+		});
+
+		it("should restart a subscription whose socket closed", async () => {
+			const abortController = new AbortController();
+			mocks.startLogSubscription.mockReturnValueOnce(createSubscription(false)).mockReturnValue(createSubscription());
+			abortAfterCycles(abortController, 2);
+
+			await run(["node", "worker.ts"], abortController.signal, logger);
+
+			expect(mocks.startLogSubscription).toHaveBeenCalledTimes(2);
+		});
+
+		it("should unsubscribe once another worker holds the lease", async () => {
+			const abortController = new AbortController();
+			const subscription = createSubscription();
+			mocks.startLogSubscription.mockReturnValue(subscription);
+			mocks.acquireLease.mockResolvedValueOnce(true).mockResolvedValue(false);
+			mocks.getLeaseHolder.mockResolvedValue({ ownerId: "worker-b" });
+			abortAfterCycles(abortController, 2);
+
+			await run(["node", "worker.ts"], abortController.signal, logger);
+
+			expect(subscription.stop).toHaveBeenCalledTimes(1);
+			expect(mocks.startLogSubscription).toHaveBeenCalledTimes(1);
+		});
+
+		it("should not subscribe under --once", async () => {
+			await run(["node", "worker.ts", "--once"], new AbortController().signal, logger);
+
+			expect(mocks.startLogSubscription).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("Health", () => {
+		it("should report each chain's progress and failures and the finished cycle", async () => {
+			const health = new WorkerHealth({ livenessWindowMs: 60_000 });
+			const ethereumConfig = createWorkerConfig("ethereum");
+			mocks.parseChainFlag.mockReturnValue(["polygon", "ethereum"]);
+			mocks.createWorkerConfigs.mockReturnValue([polygonConfig, ethereumConfig]);
+			mocks.sync
+				.mockResolvedValueOnce({ safeBlock: 1000, lastProcessedBlock: 1000 })
+				.mockRejectedValueOnce(new Error("ethereum RPC down"));
+			mocks.readSyncProgress
+				.mockResolvedValueOnce({ safeBlock: 1050, lastProcessedBlock: 1000 })
+				.mockResolvedValueOnce({ safeBlock: 2000, lastProcessedBlock: 1500 });
+
+			await run(["node", "worker.ts", "--once"], new AbortController().signal, logger, health);
+
+			expect(mocks.readSyncProgress).toHaveBeenCalledWith(polygonConfig.client, polygonConfig.syncConfig);
+			expect(mocks.readSyncProgress).toHaveBeenCalledWith(ethereumConfig.client, ethereumConfig.syncConfig);
+			const readiness = health.readiness();
+			expect(readiness.lastCycleFinishedAt).not.toBeNull();
+			expect(readiness.chains).toEqual([
+				expect.objectContaining({ chain: "polygon", role: "syncing", ready: true, lagBlocks: 50, maxLagBlocks: 100 }),
+				expect.objectContaining({
+					chain: "ethereum",
+					ready: false,
+					lagBlocks: 500,
+					reason: "not synced yet",
+					lastError: "ethereum RPC down",
+				}),
+			]);
+			expect(health.liveness().status).toBe("ok");
+		});
+
+		it("should report each checkpoint the sync saves before the cycle finishes", async () => {
+			const health = new WorkerHealth({ livenessWindowMs: 60_000 });
+			let readinessMidCycle: ReturnType<WorkerHealth["readiness"]> | undefined;
+			mocks.sync.mockImplementation(async () => {
+				currentChainMetrics()?.checkpointSaved({ safeBlock: 1000, lastProcessedBlock: 400 });
+				readinessMidCycle = health.readiness();
+				return { safeBlock: 1000, lastProcessedBlock: 1000 };
+			});
+
+			await run(["node", "worker.ts", "--once"], new AbortController().signal, logger, health);
+
+			expect(readinessMidCycle?.lastCheckpointAt).not.toBeNull();
+			expect(readinessMidCycle?.chains).toEqual([
+				expect.objectContaining({ chain: "polygon", lastProcessedBlock: 400, lagBlocks: 600 }),
+			]);
+		});
+
+		// A cycle ends at the safe block it started from, which is the whole chain's lag until the head is read again
+		it("should fail readiness for a chain the head ran away from during its cycle", async () => {
+			const health = new WorkerHealth({ livenessWindowMs: 60_000 });
+			mocks.readSyncProgress.mockResolvedValue({ safeBlock: 5000, lastProcessedBlock: 1000 });
+
+			await run(["node", "worker.ts", "--once"], new AbortController().signal, logger, health);
+
+			expect(health.readiness()).toMatchObject({
+				status: "failing",
+				chains: [{ chain: "polygon", ready: false, lastProcessedBlock: 1000, safeBlock: 5000, lagBlocks: 4000 }],
+			});
+		});
+
+		it("should fall back to the cycle's own progress when the chain can't be read after it", async () => {
+			const health = new WorkerHealth({ livenessWindowMs: 60_000 });
+			mocks.readSyncProgress.mockRejectedValue(new Error("all RPC endpoints failed"));
+
+			await run(["node", "worker.ts", "--once"], new AbortController().signal, logger, health);
+
+			expect(health.readiness().chains).toEqual([
+				expect.objectContaining({ chain: "polygon", ready: true, safeBlock: 1000, lagBlocks: 0 }),
+			]);
+		});
+
+		it("should report a chain whose lease another worker holds as standby", async () => {
+			const health = new WorkerHealth({ livenessWindowMs: 60_000 });
+			mocks.acquireLease.mockResolvedValue(false);
+			mocks.getLeaseHolder.mockResolvedValue({ ownerId: "worker-b" });
+
+			await run(["node", "worker.ts", "--once"], new AbortController().signal, logger, health);
+
+			expect(health.readiness()).toMatchObject({
+				status: "ok",
+				chains: [{ chain: "polygon", role: "standby", ready: true }],
+			});
+		});
+
+		it("should only report the chains assigned to a pool instance", async () => {
+			const health = new WorkerHealth({ livenessWindowMs: 60_000 });
+			mocks.createWorkerConfigs.mockReturnValue([polygonConfig, createWorkerConfig("ethereum")]);
+			mocks.claimAssignedChains.mockResolvedValue([1]);
+
+			await run(["node", "worker.ts", "--pool", "--once"], new AbortController().signal, logger, health);
+
+			expect(health.readiness().chains.map((chain) => chain.chain)).toEqual(["ethereum"]);
 		});
 	});
 
@@ -193,31 +579,283 @@ describe("Worker run()", () => {
 		});
 	});
 
-	describe("Unsupported chains", () => {
-		it("should warn and skip chains not in SUPPORTED_CHAINS config", async () => {
+	describe("Disabled chains", () => {
+		it("should pass the chain registry to --chain parsing", async () => {
+			await run(["node", "worker.ts", "--chain", "polygon", "--once"], new AbortController().signal, logger);
+
+			expect(mocks.parseChainFlag).toHaveBeenCalledWith(
+				["node", "worker.ts", "--chain", "polygon", "--once"],
+				[
+					{ chainId: 137, name: "polygon", enabled: true, pollIntervalMs: 1000 },
+					{ chainId: 1, name: "ethereum", enabled: false, pollIntervalMs: 1000 },
+				],
+			);
+		});
+
+		it("should warn and skip chains disabled in the chain registry", async () => {
 			mocks.parseChainFlag.mockReturnValue(["ethereum"]);
 
 			await run(["node", "worker.ts", "--once"], new AbortController().signal, logger);
 
 			expect(logger.warn).toHaveBeenCalledWith(
 				{ chain: "ethereum" },
-				"chain recognized (extensibility POC only) but not yet supported, skipping...",
+				"chain is disabled in the chain registry, skipping...",
 			);
-			expect(logger.warn).toHaveBeenCalledWith("no supported chains to sync");
+			expect(logger.warn).toHaveBeenCalledWith("no enabled chains to sync");
 			expect(mocks.connectMongo).not.toHaveBeenCalled();
 			expect(mocks.sync).not.toHaveBeenCalled();
 		});
 
-		it("should sync supported chains and skip unsupported ones", async () => {
+		it("should sync enabled chains and skip disabled ones", async () => {
 			mocks.parseChainFlag.mockReturnValue(["polygon", "ethereum"]);
 
 			await run(["node", "worker.ts", "--once"], new AbortController().signal, logger);
 
 			expect(logger.warn).toHaveBeenCalledWith(
 				{ chain: "ethereum" },
-				"chain recognized (extensibility POC only) but not yet supported, skipping...",
+				"chain is disabled in the chain registry, skipping...",
 			);
+			expect(mocks.createWorkerConfigs).toHaveBeenCalledWith([
+				{ chainId: 137, name: "polygon", enabled: true, pollIntervalMs: 1000 },
+			]);
 			expect(mocks.sync).toHaveBeenCalledTimes(1);
 		});
 	});
+
+	describe("Preflight", () => {
+		const ethereumConfig = createWorkerConfig("ethereum");
+
+		beforeEach(() => {
+			mocks.parseChainFlag.mockReturnValue(["polygon", "ethereum"]);
+			mocks.createWorkerConfigs.mockReturnValue([polygonConfig, ethereumConfig]);
+		});
+
+		it("should check every chain against its client before syncing", async () => {
+			await run(["node", "worker.ts", "--once"], new AbortController().signal, logger);
+
+			expect(mocks.preflightChain).toHaveBeenCalledWith(polygonConfig.client, polygonConfig.chain, logger);
+			expect(mocks.preflightChain).toHaveBeenCalledWith(ethereumConfig.client, ethereumConfig.chain, logger);
+			expect(mocks.preflightChain.mock.invocationCallOrder[0]).toBeLessThan(mocks.sync.mock.invocationCallOrder[0]);
+		});
+
+		it("should refuse a chain that fails its checks with the diagnostics and sync the others", async () => {
+			mocks.preflightChain.mockImplementation(async (_client: unknown, chain: { name: string }) => ({
+				chain: chain.name,
+				passed: chain.name === "polygon",
+				checks: [
+					{ check: "chainId", status: chain.name === "polygon" ? "passed" : "failed", detail: "serves chain 10" },
+					{ check: "startBlock", status: "skipped", detail: "no historical state" },
+				],
+			}));
+
+			await run(["node", "worker.ts", "--once"], new AbortController().signal, logger);
+
+			expect(logger.error).toHaveBeenCalledWith(
+				{ chain: "ethereum", failed: ["chainId: serves chain 10"] },
+				"chain failed its preflight checks, refusing to sync it",
+			);
+			expect(mocks.sync).toHaveBeenCalledTimes(1);
+			expect(mocks.sync).toHaveBeenCalledWith(
+				polygonConfig.client,
+				polygonConfig.syncConfig,
+				logger,
+				expect.anything(),
+				expect.anything(),
+			);
+		});
+
+		it("should throw after disconnecting when every chain is refused", async () => {
+			mocks.preflightChain.mockImplementation(async (_client: unknown, chain: { name: string }) => ({
+				chain: chain.name,
+				passed: false,
+				checks: [{ check: "bytecode", status: "failed", detail: "no contract code at 0xcontract" }],
+			}));
+
+			await expect(run(["node", "worker.ts", "--once"], new AbortController().signal, logger)).rejects.toThrow(
+				"Every chain failed its preflight checks",
+			);
+			expect(mocks.disconnectMongo).toHaveBeenCalledTimes(1);
+			expect(mocks.sync).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("Chain lease", () => {
+		it("should refuse to start when a chain's poll interval would let its lease expire between cycles", async () => {
+			const [polygon] = CHAIN_REGISTRY;
+			polygon.pollIntervalMs = 45_000;
+
+			try {
+				await expect(run(["node", "worker.ts", "--once"], new AbortController().signal, logger)).rejects.toThrow(
+					"The chain lease would expire between cycles of polygon (60000ms)",
+				);
+				expect(mocks.connectMongo).not.toHaveBeenCalled();
+			} finally {
+				polygon.pollIntervalMs = 1000;
+			}
+		});
+	});
+
+	describe("Pool mode", () => {
+		const ethereumConfig = createWorkerConfig("ethereum");
+
+		beforeEach(() => {
+			mocks.createWorkerConfigs.mockReturnValue([polygonConfig, ethereumConfig]);
+		});
+
+		it("should reject combining --pool with --chain", async () => {
+			await expect(
+				run(["node", "worker.ts", "--pool", "--chain", "polygon"], new AbortController().signal, logger),
+			).rejects.toThrow("--pool and --chain cannot be combined");
+			expect(mocks.connectMongo).not.toHaveBeenCalled();
+		});
+
+		it("should register in the pool and only sync the chains assigned to this instance", async () => {
+			mocks.claimAssignedChains.mockResolvedValue([1]);
+
+			await run(["node", "worker.ts", "--pool", "--once"], new AbortController().signal, logger);
+
+			expect(mocks.parseChainFlag).not.toHaveBeenCalled();
+			expect(mocks.registerInstance).toHaveBeenCalledWith("worker-a", 60_000);
+			expect(mocks.startInstanceHeartbeat).toHaveBeenCalledWith("worker-a", 60_000, 15_000, logger);
+			expect(mocks.claimAssignedChains).toHaveBeenCalledWith(
+				"worker-a",
+				[
+					{ chainId: 137, name: "polygon" },
+					{ chainId: 1, name: "ethereum" },
+				],
+				logger,
+			);
+			expect(mocks.sync).toHaveBeenCalledTimes(1);
+			expect(mocks.sync).toHaveBeenCalledWith(
+				ethereumConfig.client,
+				ethereumConfig.syncConfig,
+				logger,
+				expect.any(AbortSignal),
+				lease,
+			);
+			expect(mocks.deregisterInstance).toHaveBeenCalledWith("worker-a");
+		});
+
+		// Every instance has to split the same list, whatever its own preflight found
+		it("should assign the chains its preflight refused too, and only skip them when syncing", async () => {
+			mocks.preflightChain.mockImplementation(async (_client: unknown, chain: { name: string }) => ({
+				chain: chain.name,
+				passed: chain.name === "ethereum",
+				checks: [{ check: "chainId", status: chain.name === "ethereum" ? "passed" : "failed", detail: "serves 10" }],
+			}));
+			mocks.claimAssignedChains.mockResolvedValue([137, 1]);
+
+			await run(["node", "worker.ts", "--pool", "--once"], new AbortController().signal, logger);
+
+			expect(mocks.claimAssignedChains).toHaveBeenCalledWith(
+				"worker-a",
+				[
+					{ chainId: 137, name: "polygon" },
+					{ chainId: 1, name: "ethereum" },
+				],
+				logger,
+			);
+			expect(mocks.sync).toHaveBeenCalledTimes(1);
+			expect(mocks.sync).toHaveBeenCalledWith(
+				ethereumConfig.client,
+				ethereumConfig.syncConfig,
+				logger,
+				expect.any(AbortSignal),
+				lease,
+			);
+		});
+
+		it("should fail readiness while an assigned chain is refused", async () => {
+			const health = new WorkerHealth({ livenessWindowMs: 60_000 });
+			mocks.preflightChain.mockImplementation(async (_client: unknown, chain: { name: string }) => ({
+				chain: chain.name,
+				passed: chain.name === "ethereum",
+				checks: [{ check: "chainId", status: chain.name === "ethereum" ? "passed" : "failed", detail: "serves 10" }],
+			}));
+			mocks.claimAssignedChains.mockResolvedValue([137, 1]);
+
+			await run(["node", "worker.ts", "--pool", "--once"], new AbortController().signal, logger, health);
+
+			expect(health.readiness()).toMatchObject({
+				status: "failing",
+				reason: "chains not ready: polygon",
+				chains: [
+					{
+						chain: "polygon",
+						role: "refused",
+						ready: false,
+						reason: "refused by its preflight checks",
+						lastError: "chainId: serves 10",
+					},
+					{ chain: "ethereum", role: "syncing", ready: true },
+				],
+			});
+		});
+
+		it("should check a refused chain again once it is due and sync it when it passes", async () => {
+			const abortController = new AbortController();
+			let polygonChecks = 0;
+			mocks.preflightChain.mockImplementation(async (_client: unknown, chain: { name: string }) => {
+				const passed = chain.name === "ethereum" || ++polygonChecks > 2;
+				return { chain: chain.name, passed, checks: [{ check: "chainId", status: passed ? "passed" : "failed" }] };
+			});
+			mocks.claimAssignedChains.mockResolvedValue([137, 1]);
+			let polygonSyncs = 0;
+			mocks.sync.mockImplementation(async (client: unknown) => {
+				if (client === polygonConfig.client && ++polygonSyncs === 1) abortController.abort();
+				return { safeBlock: 1000, lastProcessedBlock: 1000 };
+			});
+
+			await run(["node", "worker.ts", "--pool"], abortController.signal, logger);
+
+			// Refused at startup and on the first re-check, passed on the second
+			expect(mocks.preflightChain).toHaveBeenCalledWith(polygonConfig.client, polygonConfig.chain, logger);
+			expect(polygonChecks).toBe(3);
+			expect(logger.info).toHaveBeenCalledWith({ chain: "polygon" }, "chain passed its preflight checks, syncing it");
+			expect(polygonSyncs).toBe(1);
+		});
+
+		it("should release the lease of chains that moved to another instance", async () => {
+			const abortController = new AbortController();
+			mocks.claimAssignedChains.mockResolvedValueOnce([137, 1]).mockResolvedValueOnce([137]);
+			let syncCallCount = 0;
+			mocks.sync.mockImplementation(async () => {
+				// 2 chains in the first cycle, 1 in the second
+				if (++syncCallCount >= 3) abortController.abort();
+			});
+
+			await run(["node", "worker.ts", "--pool"], abortController.signal, logger);
+
+			expect(mocks.sync).toHaveBeenCalledTimes(3);
+			expect(logger.info).toHaveBeenCalledWith(
+				{ assigned: ["polygon"], added: [], dropped: ["ethereum"] },
+				"pool assignments changed",
+			);
+			expect(mocks.releaseLease).toHaveBeenCalledWith(1, "worker-a");
+		});
+
+		it("should keep the previous assignments when the pool can't be read", async () => {
+			const abortController = new AbortController();
+			mocks.claimAssignedChains.mockResolvedValueOnce([137]).mockRejectedValueOnce(new Error("mongo down"));
+			let syncCallCount = 0;
+			mocks.sync.mockImplementation(async () => {
+				if (++syncCallCount >= 2) abortController.abort();
+			});
+
+			await run(["node", "worker.ts", "--pool"], abortController.signal, logger);
+
+			expect(logger.error).toHaveBeenCalledWith(
+				{ err: expect.any(Error) },
+				"failed to refresh pool assignments, keeping previous assignments",
+			);
+			expect(mocks.sync).toHaveBeenNthCalledWith(
+				2,
+				polygonConfig.client,
+				polygonConfig.syncConfig,
+				logger,
+				abortController.signal,
+				lease,
+			);
+		});
+	});
 });
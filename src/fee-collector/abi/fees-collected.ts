@@ -0,0 +1,109 @@
+import { type BigNumber, ethers } from "ethers";
+
+/** The arguments every version of the `FeesCollected` event carries, in the form the parser needs. */
+export interface FeesCollectedArgs {
+	token: string;
+	integrator: string;
+	integratorFee: BigNumber;
+	lifiFee: BigNumber;
+}
+
+export interface AbiBlockRange {
+	fromBlock: number;
+	/** Last block (inclusive); open-ended when omitted. */
+	toBlock?: number;
+}
+
+export interface FeesCollectedAbiVersion {
+	version: string;
+	/** topic0 of the event, the keccak256 of its signature. */
+	topic: string;
+	/**
+	 * Blocks in which logs with `topic` are decoded with this version, keyed by chain id. A chain without an entry
+	 * uses the version at every block. Only versions sharing a topic need ranges: moving `indexed` between
+	 * parameters changes the layout of the log but not its topic.
+	 */
+	activeBlocks?: Record<number, AbiBlockRange>;
+	decode(log: ethers.providers.Log): FeesCollectedArgs;
+}
+
+/** A log whose topic and block match no version of the registry. */
+export class UnknownAbiVersionError extends Error {
+	constructor(
+		public readonly chainId: number,
+		public readonly topic: string | undefined,
+		public readonly blockNumber: number,
+	) {
+		super(`Log with topic ${topic ?? "(none)"} at block ${blockNumber} matches no known FeesCollected ABI version`);
+		this.name = "UnknownAbiVersionError";
+	}
+}
+
+/** The versions of `FeesCollected` the service can decode. Add a version here before the contract starts emitting it. */
+export const FEES_COLLECTED_VERSIONS: FeesCollectedAbiVersion[] = [
+	fromSignature(
+		"v1",
+		"event FeesCollected(address indexed _token, address indexed _integrator, uint256 _integratorFee, uint256 _lifiFee)",
+		(args) => ({
+			token: args._token,
+			integrator: args._integrator,
+			integratorFee: args._integratorFee,
+			lifiFee: args._lifiFee,
+		}),
+	),
+];
+
+/** topic0 of every known version, for log queries and subscriptions. */
+export const FEES_COLLECTED_TOPICS = [...new Set(FEES_COLLECTED_VERSIONS.map((version) => version.topic))];
+
+// ------------------
+// Public API
+// ------------------
+
+/** The version that decodes `log` on `chainId`: the one with the log's topic that is active at its block. */
+export function findFeesCollectedVersion(
+	chainId: number,
+	log: ethers.providers.Log,
+	versions: FeesCollectedAbiVersion[] = FEES_COLLECTED_VERSIONS,
+): FeesCollectedAbiVersion | undefined {
+	return versions.find((version) => {
+		if (version.topic !== log.topics[0]) return false;
+
+		const range = version.activeBlocks?.[chainId];
+		return !range || (log.blockNumber >= range.fromBlock && log.blockNumber <= (range.toBlock ?? Infinity));
+	});
+}
+
+/** Decodes a `FeesCollected` log of any known version. Throws `UnknownAbiVersionError` when none matches. */
+export function decodeFeesCollected(
+	chainId: number,
+	log: ethers.providers.Log,
+	versions: FeesCollectedAbiVersion[] = FEES_COLLECTED_VERSIONS,
+): FeesCollectedArgs {
+	const version = findFeesCollectedVersion(chainId, log, versions);
+	if (!version) {
+		throw new UnknownAbiVersionError(chainId, log.topics[0], log.blockNumber);
+	}
+	return version.decode(log);
+}
+
+// -------------------
+// Internal helpers
+// -------------------
+/** A version declared by its event signature; `toArgs` maps the decoded arguments onto the common shape. */
+function fromSignature(
+	version: string,
+	signature: string,
+	toArgs: (args: ethers.utils.Result) => FeesCollectedArgs,
+	activeBlocks?: Record<number, AbiBlockRange>,
+): FeesCollectedAbiVersion {
+	const eventInterface = new ethers.utils.Interface([signature]);
+	const [fragment] = Object.values(eventInterface.events);
+
+	return {
+		version,
+		topic: eventInterface.getEventTopic(fragment),
+		activeBlocks,
+		decode: (log) => toArgs(eventInterface.decodeEventLog(fragment, log.data, log.topics)),
+	};
+}
@@ -0,0 +1,217 @@
+import { hostname, userInfo } from "node:os";
+import { createInterface } from "node:readline/promises";
+import type { Logger } from "pino";
+import { connectMongo, disconnectMongo } from "@/common/db/mongo";
+import { readFlag, readIntegerFlag, readSingleChainFlag } from "@/fee-collector/command-args";
+import { CHAIN_REGISTRY, type ChainDefinition } from "@/fee-collector/config/chains.config";
+import { env } from "@/fee-collector/config/env.config";
+import type { AdminCommand } from "@/fee-collector/models/admin-action";
+import { runWithRetryPolicies } from "@/fee-collector/retry/retry-policy";
+import {
+	type AdminActionContext,
+	type AdminClient,
+	applyPurge,
+	applyReset,
+	getChainStatus,
+	planPurge,
+	planRescan,
+	planReset,
+	rescanRange,
+	withAuditRecord,
+} from "@/fee-collector/services/admin.service";
+import type { SyncConfig } from "@/fee-collector/services/sync.service";
+import { createWorkerConfigs, parseChainFlag } from "@/fee-collector/worker.helpers";
+
+const COMMANDS = ["status", "reset", "purge-events", "rescan"] as const;
+
+/** Flags every command that changes stored state takes. */
+interface MutationFlags {
+	chain: ChainDefinition;
+	/** Log the plan and stop. */
+	dryRun: boolean;
+	/** Skip the confirmation prompt of destructive commands. */
+	yes: boolean;
+}
+
+export type AdminArgs =
+	| { command: "status"; chains: ChainDefinition[] }
+	| ({ command: "reset"; toBlock: number } & MutationFlags)
+	| ({ command: "purge-events"; fromBlock: number } & MutationFlags)
+	| ({ command: "rescan"; fromBlock: number; toBlock: number } & MutationFlags);
+
+type MutationArgs = Exclude<AdminArgs, { command: "status" }>;
+
+/** Asks the operator a question and resolves with their answer. */
+export type Prompt = (question: string) => Promise<string>;
+
+/**
+ * Inspects and repairs a chain's sync state by hand:
+ * - `admin status [--chain polygon,ethereum]` logs each chain's checkpoint, hash, last update and lag.
+ * - `admin reset --chain polygon --to-block <block>` moves the checkpoint, so the sync resumes after the block.
+ * - `admin purge-events --chain polygon --from <block>` deletes the stored events from the block on and moves
+ *   the checkpoint below it, so the sync indexes them again.
+ * - `admin rescan --chain polygon --range <from>:<to>` indexes the range again, leaving the checkpoint alone.
+ *
+ * `--dry-run` logs what a command would change and stops. `reset` and `purge-events` ask the operator to type
+ * the chain's name first (`--yes` skips that), and refuse a chain a live worker holds the lease of. Every command
+ * that changes state is recorded in `admin_actions`.
+ */
+export async function run(
+	argv: string[],
+	signal: AbortSignal,
+	logger: Logger,
+	prompt: Prompt = promptOperator,
+): Promise<void> {
+	const args = parseAdminArgs(argv, CHAIN_REGISTRY);
+
+	await connectMongo(env.MONGO_URI, env.MONGO_DB);
+
+	try {
+		if (args.command === "status") {
+			for (const { chain, client, syncConfig } of createWorkerConfigs(args.chains)) {
+				const status = await getChainStatus(client, {
+					chainId: chain.chainId,
+					name: chain.name,
+					confirmations: syncConfig.confirmations,
+				});
+				logger.info({ status }, "chain status");
+			}
+			return;
+		}
+
+		const [{ client, syncConfig }] = createWorkerConfigs([args.chain]);
+		const context: AdminActionContext = {
+			command: args.command,
+			chainId: args.chain.chainId,
+			operator: `${userInfo().username}@${hostname()}`,
+			argv: argv.slice(2),
+		};
+		await runWithRetryPolicies(args.chain.retry, () =>
+			runMutation(args, context, client, syncConfig, logger.child({ chain: args.chain.name }), signal, prompt),
+		);
+	} finally {
+		await disconnectMongo();
+	}
+}
+
+/** Parses the command and its flags; the chain of a mutating command may be disabled in the registry. */
+export function parseAdminArgs(argv: string[], registry: ChainDefinition[]): AdminArgs {
+	const command = parseCommand(argv);
+	if (command === "status") {
+		const chainNames = parseChainFlag(argv, registry);
+		return { command, chains: registry.filter((chain) => chainNames.includes(chain.name)) };
+	}
+
+	const flags: MutationFlags = {
+		chain: readSingleChainFlag(argv, registry, command),
+		dryRun: argv.includes("--dry-run"),
+		yes: argv.includes("--yes"),
+	};
+
+	if (command === "reset") {
+		const toBlock = readIntegerFlag(argv, "--to-block", 0);
+		if (toBlock === undefined) throw new Error("reset needs --to-block <block>");
+		return { command, toBlock, ...flags };
+	}
+
+	if (command === "purge-events") {
+		const fromBlock = readIntegerFlag(argv, "--from", 1);
+		if (fromBlock === undefined) throw new Error("purge-events needs --from <block>");
+		return { command, fromBlock, ...flags };
+	}
+
+	return { command, ...parseRange(readFlag(argv, "--range")), ...flags };
+}
+
+// -------------------
+// Internal helpers
+// -------------------
+
+/** The first argument after the script; a leading `--` (as `pnpm run admin -- status` may pass) is skipped. */
+function parseCommand(argv: string[]): AdminArgs["command"] {
+	const command = argv.slice(2).find((arg) => arg !== "--");
+	if (!COMMANDS.includes(command as AdminArgs["command"])) {
+		throw new Error(`Unknown command "${command ?? ""}". Valid commands: ${COMMANDS.join(", ")}`);
+	}
+	return command as AdminArgs["command"];
+}
+
+/** `--range <from>:<to>`, both ends inclusive. */
+function parseRange(range: string | undefined): { fromBlock: number; toBlock: number } {
+	const match = range?.match(/^(\d+):(\d+)$/);
+	if (!match) throw new Error(`rescan needs --range <from>:<to>, got "${range ?? ""}"`);
+
+	const fromBlock = Number(match[1]);
+	const toBlock = Number(match[2]);
+	if (!Number.isSafeInteger(fromBlock) || !Number.isSafeInteger(toBlock) || toBlock < fromBlock) {
+		throw new Error(`--range must be <from>:<to> with from <= to, got "${range}"`);
+	}
+	return { fromBlock, toBlock };
+}
+
+async function runMutation(
+	args: MutationArgs,
+	context: AdminActionContext,
+	client: AdminClient,
+	syncConfig: SyncConfig,
+	log: Logger,
+	signal: AbortSignal,
+	prompt: Prompt,
+): Promise<void> {
+	if (args.command === "rescan") {
+		const plan = await planRescan(client, syncConfig, args, log);
+		if (args.dryRun) return logDryRun(log, args.command, plan);
+
+		const result = await withAuditRecord(context, plan, () => rescanRange(client, plan, syncConfig, log, signal));
+		if (result.lastProcessedBlock < plan.toBlock) {
+			log.warn({ plan, result }, "rescan stopped before the end of the range");
+			process.exitCode = 1;
+		}
+		return;
+	}
+
+	if (args.command === "reset") {
+		const plan = await planReset(client, args.chain.chainId, args.toBlock, log);
+		if (args.dryRun) return logDryRun(log, args.command, plan);
+		if (!(await confirm(args, plan, log, prompt))) return;
+
+		await withAuditRecord(context, plan, () => applyReset(plan, log));
+		return;
+	}
+
+	const plan = await planPurge(client, args.chain.chainId, args.fromBlock, log);
+	if (args.dryRun) return logDryRun(log, args.command, plan);
+	if (!(await confirm(args, plan, log, prompt))) return;
+
+	await withAuditRecord(context, plan, () => applyPurge(plan, log));
+}
+
+function logDryRun(log: Logger, command: AdminCommand, plan: object): void {
+	log.info({ plan }, `dry run, ${command} not applied`);
+}
+
+/** Shows the plan and has the operator type the chain's name; declining leaves everything as it was. */
+async function confirm(args: MutationArgs, plan: object, log: Logger, prompt: Prompt): Promise<boolean> {
+	if (args.yes) return true;
+
+	log.info({ plan }, `${args.command} plan`);
+	const answer = await prompt(`Type "${args.chain.name}" to ${args.command} as planned above: `);
+	if (answer.trim() === args.chain.name) return true;
+
+	log.warn(`${args.command} not confirmed, nothing changed`);
+	process.exitCode = 1;
+	return false;
+}
+
+async function promptOperator(question: string): Promise<string> {
+	if (!process.stdin.isTTY) {
+		throw new Error("No terminal to confirm on, pass --yes to run without the prompt");
+	}
+
+	const readline = createInterface({ input: process.stdin, output: process.stdout });
+	try {
+		return await readline.question(question);
+	} finally {
+		readline.close();
+	}
+}
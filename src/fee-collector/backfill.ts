@@ -0,0 +1,83 @@
+import type { Logger } from "pino";
+import { connectMongo, disconnectMongo } from "@/common/db/mongo";
+import { readIntegerFlag, readSingleChainFlag } from "@/fee-collector/command-args";
+import { CHAIN_REGISTRY, type ChainDefinition, getChainStartBlock } from "@/fee-collector/config/chains.config";
+import { env } from "@/fee-collector/config/env.config";
+import { runWithRetryPolicies } from "@/fee-collector/retry/retry-policy";
+import { backfill } from "@/fee-collector/services/backfill.service";
+import { createWorkerConfigs } from "@/fee-collector/worker.helpers";
+
+export interface BackfillArgs {
+	chain: ChainDefinition;
+	/** Defaults to the chain's earliest deployment. */
+	fromBlock: number;
+	/** Defaults to the current safe block. */
+	toBlock?: number;
+	segmentSize: number;
+	concurrency: number;
+}
+
+/**
+ * Backfills one chain's history next to the live worker:
+ * `backfill --chain polygon [--from <block>] [--to <block>] [--segment-size <blocks>] [--concurrency <n>]`.
+ *
+ * Exits non-zero when the range isn't fully covered afterwards (failed segments or shutdown), so a
+ * re-run with the same arguments can pick up where it left off.
+ */
+export async function run(argv: string[], signal: AbortSignal, logger: Logger): Promise<void> {
+	const args = parseBackfillArgs(argv, CHAIN_REGISTRY);
+	const [{ client, syncConfig }] = createWorkerConfigs([args.chain]);
+
+	await connectMongo(env.MONGO_URI, env.MONGO_DB);
+
+	try {
+		const report = await runWithRetryPolicies(args.chain.retry, () =>
+			backfill(
+				client,
+				{
+					chainId: syncConfig.chainId,
+					fromBlock: args.fromBlock,
+					toBlock: args.toBlock,
+					confirmations: syncConfig.confirmations,
+					segmentSize: args.segmentSize,
+					concurrency: args.concurrency,
+					batchSize: syncConfig.batchSize,
+					minBatchSize: syncConfig.minBatchSize,
+					maxBatchSize: syncConfig.maxBatchSize,
+					targetLogsPerBatch: syncConfig.targetLogsPerBatch,
+					batchDelayMs: syncConfig.batchDelayMs,
+					enrichTransactions: syncConfig.enrichTransactions,
+				},
+				logger,
+				signal,
+			),
+		);
+
+		if (report.complete) {
+			logger.info({ chain: args.chain.name, report }, "backfill complete");
+		} else {
+			logger.warn({ chain: args.chain.name, report }, "backfill incomplete, re-run the same range to resume");
+			process.exitCode = 1;
+		}
+	} finally {
+		await disconnectMongo();
+	}
+}
+
+/** Parses the backfill flags; `--chain` must name exactly one chain of the registry (disabled chains are allowed). */
+export function parseBackfillArgs(argv: string[], registry: ChainDefinition[]): BackfillArgs {
+	const chain = readSingleChainFlag(argv, registry, "Backfill");
+	const fromBlock = readIntegerFlag(argv, "--from", 0) ?? getChainStartBlock(chain.deployments);
+	const toBlock = readIntegerFlag(argv, "--to", 0);
+	if (toBlock !== undefined && toBlock < fromBlock) {
+		throw new Error(`--to (${toBlock}) must not be below --from (${fromBlock})`);
+	}
+
+	return {
+		chain,
+		fromBlock,
+		toBlock,
+		segmentSize: readIntegerFlag(argv, "--segment-size", 1) ?? env.FEE_COLLECTOR_BACKFILL_SEGMENT_SIZE,
+		concurrency: readIntegerFlag(argv, "--concurrency", 1) ?? env.FEE_COLLECTOR_BACKFILL_CONCURRENCY,
+	};
+}
@@ -1,39 +1,529 @@
 import { ethers } from "ethers";
 import type { FeeCollector } from "lifi-contract-types";
 import { FeeCollector__factory } from "lifi-contract-types";
+import { type Logger, pino } from "pino";
+
+import { FEES_COLLECTED_TOPICS } from "@/fee-collector/abi/fees-collected";
+import type { ContractDeployment, NativeCurrency } from "@/fee-collector/config/chains.config";
+import { BlockHeaderCache } from "@/fee-collector/rpc/block-header-cache";
+import {
+	type EndpointHealth,
+	type EndpointPoolOptions,
+	type EndpointResult,
+	type RpcEndpoint,
+	RpcEndpointPool,
+	RpcQuorumError,
+	redactRpcUrl,
+} from "@/fee-collector/rpc/endpoint-pool";
+import { getBlocksBatch, getTransactionsBatch, type TransactionWithReceipt } from "@/fee-collector/rpc/json-rpc-batch";
+import {
+	type RateLimit,
+	type RequestSchedulerRegistry,
+	rpcSchedulers,
+	ScheduledJsonRpcProvider,
+} from "@/fee-collector/rpc/request-scheduler";
 
 export interface FeeCollectorClient {
-	/** Query all FeesCollected events in the given block range (inclusive). */
+	/**
+	 * Query all FeesCollected events in the given block range (inclusive), across every deployment
+	 * active in that range. Events are ordered by (blockNumber, logIndex).
+	 *
+	 * Covers every known ABI version of the event, and also returns the deployments' logs that match no event
+	 * the service knows, so a changed event signature surfaces as undecodable logs instead of going unnoticed.
+	 */
 	queryFeesCollected(fromBlock: number, toBlock: number): Promise<ethers.Event[]>;
-	/** Get block metadata (number, hash, timestamp). Returns null if block doesn't exist. */
-	getBlock(blockNumber: number): Promise<ethers.providers.Block | null>;
+	/**
+	 * Query the logs `queryFeesCollected` returns together with the FeesWithdrawn and LiFiFeesWithdrawn events of
+	 * the given block range (inclusive). All of them come from a single log query per deployment.
+	 */
+	queryLogs(fromBlock: number, toBlock: number): Promise<ContractLogs>;
+	/**
+	 * Get block metadata (number, hash, timestamp). Returns null if block doesn't exist.
+	 * Served from the client's header cache when possible.
+	 */
+	getBlock(blockNumber: number, options?: BlockReadOptions): Promise<ethers.providers.Block | null>;
+	/**
+	 * Get the headers of several blocks, in the order given (null for blocks that don't exist). Headers missing
+	 * from the cache are fetched with JSON-RPC batch requests of at most `rpcBatchSize` blocks, one at a time.
+	 */
+	getBlocks(blockNumbers: number[], options?: BlockReadOptions): Promise<(ethers.providers.Block | null)[]>;
+	/**
+	 * Get mined transactions with their receipts, in the order given (null for transactions the endpoint doesn't
+	 * know). Fetched from a single endpoint with JSON-RPC batch requests of at most `rpcBatchSize` requests.
+	 */
+	getTransactions(txHashes: string[]): Promise<(TransactionWithReceipt | null)[]>;
 	/** Get the latest block number from the chain. */
 	getBlockNumber(): Promise<number>;
+	/**
+	 * Ask every endpoint, in rotation or not, which chain it serves (`eth_chainId`). An endpoint pointing at the
+	 * wrong chain answers everything else without complaint; failing over would hide it.
+	 */
+	getEndpointChainIds(): Promise<EndpointResult<number>[]>;
+	/** Get the bytecode at `address` as of `blockTag` (latest by default); "0x" where there is no contract. */
+	getCode(address: string, blockTag?: number): Promise<string>;
+	/**
+	 * Read an ERC-20 token's symbol, name and decimals. The zero address is the chain's native token.
+	 * Fields the contract doesn't implement are null.
+	 */
+	getTokenMetadata(address: string): Promise<TokenMetadata>;
+	/** Per-endpoint call statistics and rotation status. */
+	getEndpointHealth(): EndpointHealth[];
+	/**
+	 * Subscribe (`eth_subscribe` logs) to FeesCollected events of the current deployments as they are mined,
+	 * over the chain's WebSocket endpoint. Pushed events are unconfirmed; a log the node un-mines in a reorg
+	 * is pushed again with `removed: true`. Returns null when the client has no WebSocket endpoint.
+	 */
+	subscribeFeesCollected(listener: FeesCollectedListener): LogSubscription | null;
+}
+
+export interface BlockReadOptions {
+	/**
+	 * Skip the header cache and read the chain, refreshing the cache with the answer. Reorg detection reads
+	 * fresh headers: the whole point is to see whether the chain still has the stored ones.
+	 */
+	fresh?: boolean;
+}
+
+export interface ContractLogs {
+	/** FeesCollected events of every known version, and the logs no known event matches. */
+	feesCollected: ethers.Event[];
+	/** FeesWithdrawn and LiFiFeesWithdrawn events. */
+	withdrawals: ethers.Event[];
+}
+
+export interface TokenMetadata {
+	symbol: string | null;
+	name: string | null;
+	decimals: number | null;
+	/** The chain's native token rather than an ERC-20 contract. */
+	native: boolean;
+}
+
+export interface FeesCollectedListener {
+	onEvent(event: ethers.Event): void;
+	/** The socket closed or failed. The subscription is dead by then and has to be started again. */
+	onClose(err?: Error): void;
+}
+
+export interface LogSubscription {
+	/** Unsubscribes and closes the socket. */
+	close(): Promise<void>;
+}
+
+export interface FeeCollectorClientOptions extends EndpointPoolOptions {
+	/**
+	 * Ask every endpoint in rotation for block data and only trust an answer a majority agrees on.
+	 * Event queries still go to a single endpoint, since the sync cross-checks them against block hashes.
+	 */
+	quorum: boolean;
+	/** WebSocket endpoint used by `subscribeFeesCollected`. */
+	wsUrl?: string;
+	/** Returned by `getTokenMetadata` for the zero address. */
+	nativeCurrency: NativeCurrency;
+	/** Most requests per JSON-RPC batch; 1 sends every block and transaction lookup as its own request. */
+	rpcBatchSize: number;
+	/** Most block headers kept in the client's LRU header cache. */
+	blockCacheSize: number;
+	/** Rate limit of each endpoint's requests, unless the endpoint overrides it. */
+	rateLimit: RateLimit;
+	/** Where endpoints get their schedulers; the process-wide registry, so chains on one provider share a budget. */
+	schedulers?: RequestSchedulerRegistry;
+	logger?: Logger;
+}
+
+const ERC20_ABI = [
+	"function symbol() view returns (string)",
+	"function name() view returns (string)",
+	"function decimals() view returns (uint8)",
+];
+// Early tokens (e.g. MKR) return their symbol and name as bytes32
+const BYTES32_ERC20_ABI = ["function symbol() view returns (bytes32)", "function name() view returns (bytes32)"];
+
+interface EndpointHandle {
+	provider: ethers.providers.StaticJsonRpcProvider;
+	/** One contract instance per deployment, keyed by address. */
+	contracts: Map<string, FeeCollector>;
 }
 
 /**
- * Creates a typed FeeCollector client bound to a specific RPC and contract address.
+ * Creates a typed FeeCollector client bound to a set of RPC endpoints and the chain's FeeCollector deployments.
  * Uses the TypeChain-generated factory from lifi-contract-types for type-safe event queries.
  *
- * @param rpcUrl - JSON-RPC endpoint for the target chain (e.g. `https://polygon-rpc.com`).
- * @param contractAddress - Deployed address of the LI.FI FeeCollector contract on that chain.
+ * @param rpcEndpoints - JSON-RPC endpoints for the target chain, tried in priority order (see rpc/endpoint-pool.ts).
+ * @param deployments - LI.FI FeeCollector deployments on that chain, with the block ranges they were in use.
+ * @param options - Failover, quorum and rate-limit settings.
  */
-export function createFeeCollectorClient(rpcUrl: string, contractAddress: string): FeeCollectorClient {
-	const provider = new ethers.providers.StaticJsonRpcProvider(rpcUrl);
-	const contract: FeeCollector = FeeCollector__factory.connect(contractAddress, provider);
+export function createFeeCollectorClient(
+	rpcEndpoints: RpcEndpoint[],
+	deployments: ContractDeployment[],
+	options: FeeCollectorClientOptions,
+): FeeCollectorClient {
+	const log = options.logger ?? pino({ name: "fee-collector-rpc" });
+	const schedulers = options.schedulers ?? rpcSchedulers;
+	const pool = new RpcEndpointPool<EndpointHandle>(
+		rpcEndpoints,
+		(endpoint) => {
+			// Every request to the endpoint, batches included, waits for its group's rate limit
+			const scheduler = schedulers.forKey(endpoint.rateLimitGroup ?? redactRpcUrl(endpoint.url), {
+				...options.rateLimit,
+				...endpoint.rateLimit,
+			});
+			const provider = new ScheduledJsonRpcProvider(endpoint.url, scheduler);
+			const contracts = new Map(
+				deployments.map((deployment) => [
+					deployment.address,
+					FeeCollector__factory.connect(deployment.address, provider),
+				]),
+			);
+			return { provider, contracts };
+		},
+		options,
+		log,
+	);
+	const useQuorum = options.quorum && pool.size > 1;
+	const blockCache = new BlockHeaderCache(options.blockCacheSize);
+
+	/** Reads one chunk of blocks from a single endpoint, or a majority of them in quorum mode. */
+	async function readBlocks(blockNumbers: number[]): Promise<(ethers.providers.Block | null)[]> {
+		if (!useQuorum) {
+			return pool.execute("getBlocks", ({ provider }) => fetchBlocks(provider, blockNumbers));
+		}
+
+		const { queried, results } = await pool.executeAll(({ provider }) => fetchBlocks(provider, blockNumbers));
+		return blockNumbers.map((blockNumber, i) =>
+			agreedBlock(
+				blockNumber,
+				queried,
+				results.map((blocks) => blocks[i]),
+			),
+		);
+	}
+
+	async function queryDeployments(
+		label: string,
+		fromBlock: number,
+		toBlock: number,
+		filterFor: (contract: FeeCollector) => ethers.EventFilter,
+	): Promise<ethers.Event[]> {
+		const ranges = getActiveDeployments(deployments, fromBlock, toBlock);
+		if (ranges.length === 0) return [];
+
+		// All deployments are queried through the same endpoint, so the merged result is one consistent view
+		const results = await pool.execute(label, ({ contracts }) =>
+			Promise.all(
+				ranges.map((range) => {
+					const contract = contracts.get(range.deployment.address) as FeeCollector;
+					return contract.queryFilter(filterFor(contract), range.fromBlock, range.toBlock);
+				}),
+			),
+		);
+
+		const events: ethers.Event[] = results.flat();
+		return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+	}
+
+	async function queryContractLogs(label: string, fromBlock: number, toBlock: number): Promise<ContractLogs> {
+		// All of the deployments' logs: filtering on the known topics would hide a new version of the event
+		const logs = await queryDeployments(label, fromBlock, toBlock, (contract) => ({ address: contract.address }));
+		return {
+			feesCollected: logs.filter((log) => isFeesCollectedOrUnknown(log.topics[0])),
+			withdrawals: logs.filter((log) => WITHDRAWAL_TOPICS.has(log.topics[0])),
+		};
+	}
+
+	async function getBlocks(
+		blockNumbers: number[],
+		readOptions: BlockReadOptions = {},
+	): Promise<(ethers.providers.Block | null)[]> {
+		const found = new Map<number, ethers.providers.Block | null>();
+		const missing: number[] = [];
+
+		for (const blockNumber of new Set(blockNumbers)) {
+			const cached = readOptions.fresh ? undefined : blockCache.get(blockNumber);
+			if (cached) {
+				found.set(blockNumber, cached);
+			} else {
+				missing.push(blockNumber);
+			}
+		}
+
+		// Chunks go out one after another, so a large range never floods a rate-limited endpoint
+		for (let i = 0; i < missing.length; i += options.rpcBatchSize) {
+			const chunk = missing.slice(i, i + options.rpcBatchSize);
+			const blocks = await readBlocks(chunk);
+			for (const [j, block] of blocks.entries()) {
+				found.set(chunk[j], block);
+				// Blocks the chain doesn't have yet aren't cached: they will exist soon
+				if (block) blockCache.set(block);
+			}
+		}
+
+		return blockNumbers.map((blockNumber) => found.get(blockNumber) ?? null);
+	}
 
 	return {
 		async queryFeesCollected(fromBlock: number, toBlock: number): Promise<ethers.Event[]> {
-			const filter = contract.filters.FeesCollected();
-			return contract.queryFilter(filter, fromBlock, toBlock);
+			const { feesCollected } = await queryContractLogs("queryFeesCollected", fromBlock, toBlock);
+			return feesCollected;
+		},
+
+		queryLogs(fromBlock: number, toBlock: number): Promise<ContractLogs> {
+			return queryContractLogs("queryLogs", fromBlock, toBlock);
 		},
 
-		async getBlock(blockNumber: number): Promise<ethers.providers.Block> {
-			return provider.getBlock(blockNumber);
+		async getBlock(blockNumber: number, readOptions?: BlockReadOptions): Promise<ethers.providers.Block | null> {
+			const [block] = await getBlocks([blockNumber], readOptions);
+			return block;
+		},
+
+		getBlocks,
+
+		async getTransactions(txHashes: string[]): Promise<(TransactionWithReceipt | null)[]> {
+			// Each transaction takes two requests: the transaction itself and its receipt
+			const chunkSize = Math.max(1, Math.floor(options.rpcBatchSize / 2));
+			const batched = options.rpcBatchSize > 1;
+			const found: (TransactionWithReceipt | null)[] = [];
+
+			for (let i = 0; i < txHashes.length; i += chunkSize) {
+				const chunk = txHashes.slice(i, i + chunkSize);
+				found.push(
+					...(await pool.execute("getTransactions", ({ provider }) => fetchTransactions(provider, chunk, batched))),
+				);
+			}
+			return found;
 		},
 
 		async getBlockNumber(): Promise<number> {
-			return provider.getBlockNumber();
+			if (!useQuorum) {
+				return pool.execute("getBlockNumber", ({ provider }) => provider.getBlockNumber());
+			}
+
+			const { queried, results } = await pool.executeAll(({ provider }) => provider.getBlockNumber());
+			return agreedBlockNumber(queried, results);
+		},
+
+		getEndpointChainIds(): Promise<EndpointResult<number>[]> {
+			return pool.executeEach(async ({ provider }) => Number(await provider.send("eth_chainId", [])));
+		},
+
+		getCode(address: string, blockTag?: number): Promise<string> {
+			return pool.execute("getCode", ({ provider }) => provider.getCode(address, blockTag));
+		},
+
+		async getTokenMetadata(address: string): Promise<TokenMetadata> {
+			if (address === ethers.constants.AddressZero) {
+				return { ...options.nativeCurrency, native: true };
+			}
+
+			return pool.execute("getTokenMetadata", async ({ provider }) => {
+				const token = new ethers.Contract(address, ERC20_ABI, provider);
+				const legacyToken = new ethers.Contract(address, BYTES32_ERC20_ABI, provider);
+				const [symbol, name, decimals] = await Promise.all([
+					readTokenString(token, legacyToken, "symbol"),
+					readTokenString(token, legacyToken, "name"),
+					readTokenField<number>(() => token.decimals()),
+				]);
+				return { symbol, name, decimals, native: false };
+			});
+		},
+
+		getEndpointHealth(): EndpointHealth[] {
+			return pool.getHealth();
+		},
+
+		subscribeFeesCollected(listener: FeesCollectedListener): LogSubscription | null {
+			if (!options.wsUrl) return null;
+			return subscribeToDeployments(options.wsUrl, deployments, listener);
 		},
 	};
 }
+
+/** A single block goes out as a plain request; endpoints that reject batches can still serve it. */
+async function fetchBlocks(
+	provider: ethers.providers.StaticJsonRpcProvider,
+	blockNumbers: number[],
+): Promise<(ethers.providers.Block | null)[]> {
+	if (blockNumbers.length === 1) return [await provider.getBlock(blockNumbers[0])];
+	return getBlocksBatch(provider, blockNumbers);
+}
+
+/** Without batching, the transaction and its receipt go out as two plain requests. */
+async function fetchTransactions(
+	provider: ethers.providers.StaticJsonRpcProvider,
+	txHashes: string[],
+	batched: boolean,
+): Promise<(TransactionWithReceipt | null)[]> {
+	if (batched) return getTransactionsBatch(provider, txHashes);
+
+	return Promise.all(
+		txHashes.map(async (txHash) => {
+			const [transaction, receipt] = await Promise.all([
+				provider.getTransaction(txHash),
+				provider.getTransactionReceipt(txHash),
+			]);
+			return transaction && receipt ? { transaction, receipt } : null;
+		}),
+	);
+}
+
+const feeCollectorInterface = FeeCollector__factory.createInterface();
+
+/** Events of the pinned FeeCollector ABI besides `FeesCollected`, e.g. withdrawals and ownership transfers. */
+const OTHER_EVENT_TOPICS = new Set(
+	Object.values<ethers.utils.EventFragment>(feeCollectorInterface.events)
+		.filter((fragment) => fragment.name !== "FeesCollected")
+		.map((fragment) => feeCollectorInterface.getEventTopic(fragment)),
+);
+
+/** `FeesWithdrawn` and `LiFiFeesWithdrawn`. */
+const WITHDRAWAL_TOPICS = new Set(
+	Object.values<ethers.utils.EventFragment>(feeCollectorInterface.events)
+		.filter((fragment) => fragment.name === "FeesWithdrawn" || fragment.name === "LiFiFeesWithdrawn")
+		.map((fragment) => feeCollectorInterface.getEventTopic(fragment)),
+);
+
+function isFeesCollectedOrUnknown(topic: string | undefined): boolean {
+	return topic === undefined || FEES_COLLECTED_TOPICS.includes(topic) || !OTHER_EVENT_TOPICS.has(topic);
+}
+
+/** Subscribes to every deployment still in use (no `endBlock`) over one socket. */
+function subscribeToDeployments(
+	wsUrl: string,
+	deployments: ContractDeployment[],
+	listener: FeesCollectedListener,
+): LogSubscription {
+	const provider = new ethers.providers.WebSocketProvider(wsUrl);
+	let closing = false;
+
+	const socket = provider.websocket as ethers.providers.WebSocketProvider["websocket"] & {
+		onclose: ((event: { code: number; reason: string }) => void) | null;
+	};
+	const closed = (err: Error) => {
+		if (closing) return;
+		closing = true;
+		listener.onClose(err);
+	};
+
+	// ethers leaves these unset; without an error handler a failing socket would crash the process
+	socket.onerror = (event: { error?: Error; message?: string }) =>
+		closed(event.error ?? new Error(event.message ?? "WebSocket error"));
+	socket.onclose = (event) => closed(new Error(`WebSocket closed with code ${event.code}`));
+
+	const contracts = deployments
+		.filter((deployment) => deployment.endBlock === undefined)
+		.map((deployment) => FeeCollector__factory.connect(deployment.address, provider));
+	for (const contract of contracts) {
+		// Contract listeners get the decoded args first and the event itself last
+		contract.on({ address: contract.address, topics: [FEES_COLLECTED_TOPICS] }, (...args: unknown[]) => {
+			listener.onEvent(args[args.length - 1] as ethers.Event);
+		});
+	}
+
+	return {
+		async close(): Promise<void> {
+			if (closing) return;
+			closing = true;
+			for (const contract of contracts) contract.removeAllListeners();
+			await provider.destroy();
+		},
+	};
+}
+
+// Errors from the token contract itself (reverted, or returned something that doesn't decode), as opposed
+// to the RPC endpoint failing
+const TOKEN_CALL_ERROR_CODES = new Set(["CALL_EXCEPTION", "BUFFER_OVERRUN", "NUMERIC_FAULT", "INVALID_ARGUMENT"]);
+
+/**
+ * Calls a token getter, returning null if the token doesn't implement it. Endpoint errors are rethrown so the
+ * pool fails over; a contract that simply lacks the getter must not count against the endpoint.
+ */
+async function readTokenField<R>(read: () => Promise<R>): Promise<R | null> {
+	try {
+		return await read();
+	} catch (err) {
+		if (TOKEN_CALL_ERROR_CODES.has((err as { code?: string }).code ?? "")) return null;
+		throw err;
+	}
+}
+
+/** Reads `symbol` or `name` as a string, falling back to the bytes32 variant of early tokens. */
+async function readTokenString(
+	token: ethers.Contract,
+	legacyToken: ethers.Contract,
+	field: "symbol" | "name",
+): Promise<string | null> {
+	const value = await readTokenField<string>(() => token[field]());
+	if (value !== null) return value;
+
+	const raw = await readTokenField<string>(() => legacyToken[field]());
+	if (raw === null) return null;
+	try {
+		return ethers.utils.parseBytes32String(raw);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Clips `[fromBlock, toBlock]` to each deployment that was active somewhere in it.
+ * Deployments that don't overlap the range are left out.
+ */
+function getActiveDeployments(
+	deployments: ContractDeployment[],
+	fromBlock: number,
+	toBlock: number,
+): { deployment: ContractDeployment; fromBlock: number; toBlock: number }[] {
+	return deployments
+		.map((deployment) => ({
+			deployment,
+			fromBlock: Math.max(fromBlock, deployment.startBlock),
+			toBlock: Math.min(toBlock, deployment.endBlock ?? toBlock),
+		}))
+		.filter((range) => range.fromBlock <= range.toBlock);
+}
+
+/**
+ * Returns the block whose hash a majority of the queried endpoints reported (or null if a majority
+ * doesn't know the block yet). Endpoints that errored count against the majority.
+ */
+function agreedBlock(
+	blockNumber: number,
+	queried: number,
+	blocks: (ethers.providers.Block | null)[],
+): ethers.providers.Block | null {
+	const majority = Math.floor(queried / 2) + 1;
+	const votes = new Map<string, { block: ethers.providers.Block | null; count: number }>();
+
+	for (const block of blocks) {
+		const key = block?.hash ?? "null";
+		const vote = votes.get(key) ?? { block, count: 0 };
+		vote.count++;
+		votes.set(key, vote);
+	}
+
+	for (const vote of votes.values()) {
+		if (vote.count >= majority) return vote.block;
+	}
+
+	const tally = [...votes.entries()].map(([hash, vote]) => `${hash}=${vote.count}`).join(", ");
+	throw new RpcQuorumError(
+		`block ${blockNumber}`,
+		`${majority} of ${queried} endpoints must agree on the hash, got ${tally || "no answers"}`,
+	);
+}
+
+/**
+ * Returns the highest block number that a majority of the queried endpoints have reached,
+ * so a single endpoint running ahead (or on a fork) can't move the safe block.
+ */
+function agreedBlockNumber(queried: number, blockNumbers: number[]): number {
+	const majority = Math.floor(queried / 2) + 1;
+	if (blockNumbers.length < majority) {
+		throw new RpcQuorumError(
+			"latest block number",
+			`${majority} of ${queried} endpoints must answer, got ${blockNumbers.length}`,
+		);
+	}
+
+	return [...blockNumbers].sort((a, b) => b - a)[majority - 1];
+}
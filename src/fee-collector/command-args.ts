@@ -0,0 +1,41 @@
+import type { ChainDefinition } from "@/fee-collector/config/chains.config";
+
+/** The value after `flag`; undefined when the flag isn't given. */
+export function readFlag(argv: string[], flag: string): string | undefined {
+	const flagIndex = argv.indexOf(flag);
+	if (flagIndex === -1) return undefined;
+
+	const value = argv[flagIndex + 1];
+	if (value === undefined || value.startsWith("--")) {
+		throw new Error(`${flag} needs a value`);
+	}
+	return value;
+}
+
+/** `flag`'s value as an integer of at least `min`. */
+export function readIntegerFlag(argv: string[], flag: string, min: number): number | undefined {
+	const value = readFlag(argv, flag);
+	if (value === undefined) return undefined;
+
+	const parsed = Number(value);
+	if (!Number.isSafeInteger(parsed) || parsed < min) {
+		throw new Error(`${flag} must be an integer of at least ${min}, got "${value}"`);
+	}
+	return parsed;
+}
+
+/** The one registry chain `--chain` names, disabled chains included. `command` names the caller in the error. */
+export function readSingleChainFlag(argv: string[], registry: ChainDefinition[], command: string): ChainDefinition {
+	const chainName = readFlag(argv, "--chain");
+	if (!chainName || chainName.includes(",")) {
+		throw new Error(`${command} needs exactly one chain (e.g. --chain polygon)`);
+	}
+
+	const chain = registry.find((definition) => definition.name === chainName.toLowerCase());
+	if (!chain) {
+		throw new Error(
+			`Unknown chain "${chainName}". Valid chains: ${registry.map((definition) => definition.name).join(", ")}`,
+		);
+	}
+	return chain;
+}
@@ -1,48 +1,299 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { z } from "zod";
+
 import { env } from "@/fee-collector/config/env.config";
+import type { RetryPolicies } from "@/fee-collector/retry/retry-policy";
+import type { RpcEndpoint } from "@/fee-collector/rpc/endpoint-pool";
 
-export enum Chain {
-	Polygon = "polygon",
-	Ethereum = "ethereum",
+/** One FeeCollector contract on a chain, and the block range in which it emitted events. */
+export interface ContractDeployment {
+	address: string;
+	startBlock: number;
+	/** Last block the deployment was in use (inclusive). Unset for the current deployment. */
+	endBlock?: number;
+	/**
+	 * The deployment is older than `startBlock` and its earlier events are left out on purpose, so the preflight
+	 * doesn't refuse the chain for it.
+	 */
+	lateStart?: boolean;
+}
+
+/** Metadata of the chain's native token, which FeeCollector events report as the zero address. */
+export interface NativeCurrency {
+	symbol: string;
+	name: string;
+	decimals: number;
 }
 
 export interface ChainDefinition {
 	chainId: number;
-	name: Chain;
-	rpcUrl: string;
-	contractAddress: string;
-	startBlock: number;
+	name: string;
+	/** Disabled chains are recognized (e.g. by --chain) but not synced. */
+	enabled: boolean;
+	/** Tried in priority order; the client fails over between them. */
+	rpcEndpoints: RpcEndpoint[];
+	/** WebSocket endpoint for pushed (provisional) events; unset when the chain is only polled. */
+	wsUrl?: string;
+	/** Every FeeCollector deployment to index, current and retired. */
+	deployments: ContractDeployment[];
+	nativeCurrency: NativeCurrency;
+	confirmations: number;
+	/** Initial block range per eth_getLogs call. */
+	batchSize: number;
+	pollIntervalMs: number;
+	/** Depth of the block-hash ledger: the deepest reorg the sync can resolve. */
 	reorgBacktrack: number;
+	/** Most block headers per JSON-RPC batch request to the chain's endpoints. */
+	rpcBatchSize: number;
+	/** Store the sender, target, gas and method selector of each fee event's transaction. Off unless set. */
+	enrichTransactions: boolean;
+	/** Blocks the checkpoint may trail the safe block before the worker reports itself not ready. */
+	maxLagBlocks: number;
+	/** How `withRetry` retries the chain's RPC and database calls, with overrides per operation. */
+	retry: RetryPolicies;
 }
 
+// `${NAME}` or `${NAME:-fallback}` inside RPC and WebSocket URLs
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/** Shared settings a registry entry falls back to when it doesn't override them. */
+export type ChainDefaults = Pick<
+	ChainDefinition,
+	"confirmations" | "batchSize" | "pollIntervalMs" | "reorgBacktrack" | "rpcBatchSize" | "maxLagBlocks" | "retry"
+>;
+
+/** Native token of chains that don't set `nativeCurrency`: Ethereum and most L2s. */
+export const DEFAULT_NATIVE_CURRENCY: NativeCurrency = { symbol: "ETH", name: "Ether", decimals: 18 };
+
+// ------------------
+// Public API
+// ------------------
+
 /**
- * Static registry of all supported EVM chains.
+ * Validates a parsed chain registry file and resolves it into chain definitions.
  *
- * To add a new chain:
- * 1. Add a value to the Chain enum
- * 2. Add its env vars to fee-collector/env.config.ts
- * 3. Add an entry here keyed by the enum value
+ * RPC and WebSocket URLs may reference environment variables as `${NAME}` or `${NAME:-fallback}`, so
+ * API keys stay out of the file. Entries without `enabled` are enabled. A `wsUrl` that resolves to an
+ * empty string (e.g. `${POLYGON_WS_URL:-}` with the variable unset) leaves log subscriptions off.
  *
- * Operational note: run at most one worker per chain. Multiple workers for the
- * same chain will mess up the chain_sync_state (each worker overwrites `lastProcessedBlock`),
- * causing redundant block re-scanning and wasted RPC calls. Upserts prevent
- * duplicate events, but the overhead is significant.
+ * @param raw - Parsed JSON content of the registry file.
+ * @param defaults - Values for settings an entry doesn't override.
+ * @param source - Environment used to fill in `${NAME}` references.
  */
-export const SUPPORTED_CHAINS: Partial<Record<Chain, ChainDefinition>> = {
-	[Chain.Polygon]: {
-		chainId: 137,
-		name: Chain.Polygon,
-		rpcUrl: env.FEE_COLLECTOR_POLYGON_RPC,
-		contractAddress: env.FEE_COLLECTOR_POLYGON_ADDRESS,
-		startBlock: env.FEE_COLLECTOR_POLYGON_START_BLOCK,
-		reorgBacktrack: env.FEE_COLLECTOR_POLYGON_REORG_BACKTRACK,
+export function parseChainRegistry(
+	raw: unknown,
+	defaults: ChainDefaults,
+	source: NodeJS.ProcessEnv = process.env,
+): ChainDefinition[] {
+	const parsed = createRegistrySchema(source).safeParse(raw);
+
+	if (!parsed.success) {
+		const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+		throw new Error(`Invalid chain registry: ${issues.join("; ")}`);
+	}
+
+	return parsed.data.chains.map(({ retry: { operations, ...retryPolicy } = {}, ...entry }) => ({
+		chainId: entry.chainId,
+		name: entry.name,
+		enabled: entry.enabled,
+		rpcEndpoints: toRpcEndpoints(entry.rpcUrls),
+		...(entry.wsUrl && { wsUrl: entry.wsUrl }),
+		deployments: entry.deployments,
+		nativeCurrency: entry.nativeCurrency ?? DEFAULT_NATIVE_CURRENCY,
+		confirmations: entry.confirmations ?? defaults.confirmations,
+		batchSize: entry.batchSize ?? defaults.batchSize,
+		pollIntervalMs: entry.pollIntervalMs ?? defaults.pollIntervalMs,
+		reorgBacktrack: entry.reorgBacktrack ?? defaults.reorgBacktrack,
+		rpcBatchSize: entry.rpcBatchSize ?? defaults.rpcBatchSize,
+		enrichTransactions: entry.enrichTransactions,
+		maxLagBlocks: entry.maxLagBlocks ?? defaults.maxLagBlocks,
+		retry: {
+			...defaults.retry,
+			...retryPolicy,
+			operations: { ...defaults.retry.operations, ...operations },
+		},
+	}));
+}
+
+/** Reads and validates the chain registry file at `filePath` (relative paths resolve from the working directory). */
+export function loadChainRegistry(
+	filePath: string,
+	defaults: ChainDefaults,
+	source: NodeJS.ProcessEnv = process.env,
+): ChainDefinition[] {
+	const absolutePath = resolve(filePath);
+	let raw: unknown;
+
+	try {
+		raw = JSON.parse(readFileSync(absolutePath, "utf-8"));
+	} catch (err) {
+		throw new Error(`Could not read chain registry ${absolutePath}: ${(err as Error).message}`);
+	}
+
+	try {
+		return parseChainRegistry(raw, defaults, source);
+	} catch (err) {
+		throw new Error(`${(err as Error).message} (in ${absolutePath})`);
+	}
+}
+
+/** Turns an ordered list of RPC URLs into endpoints, earlier URLs getting higher priority. */
+export function toRpcEndpoints(urls: Omit<RpcEndpoint, "priority">[]): RpcEndpoint[] {
+	return urls.map((endpoint, priority) => ({ ...endpoint, priority }));
+}
+
+/** First block any of the chain's deployments can have emitted events in; where a fresh sync starts. */
+export function getChainStartBlock(deployments: ContractDeployment[]): number {
+	return Math.min(...deployments.map((deployment) => deployment.startBlock));
+}
+
+/**
+ * All chains known to the worker, loaded from the registry file (`FEE_COLLECTOR_CHAINS_FILE`,
+ * `chains.json` by default). Adding a chain or a redeployed contract is a config change, not a release.
+ *
+ * Operational note: several workers may be started for the same chain (e.g. during rolling deploys).
+ * Only the holder of the chain's lease (see services/lease.service.ts) syncs it; the others stay on
+ * standby and take over once the lease is released or expires.
+ */
+export const CHAIN_REGISTRY: ChainDefinition[] = loadChainRegistry(env.FEE_COLLECTOR_CHAINS_FILE, {
+	confirmations: env.FEE_COLLECTOR_CONFIRMATIONS,
+	batchSize: env.FEE_COLLECTOR_BATCH_SIZE,
+	pollIntervalMs: env.FEE_COLLECTOR_POLL_INTERVAL_MS,
+	reorgBacktrack: env.FEE_COLLECTOR_REORG_BACKTRACK,
+	rpcBatchSize: env.FEE_COLLECTOR_RPC_BATCH_SIZE,
+	maxLagBlocks: env.FEE_COLLECTOR_MAX_LAG_BLOCKS,
+	retry: {
+		maxAttempts: env.FEE_COLLECTOR_RETRY_MAX_ATTEMPTS,
+		initialDelayMs: env.FEE_COLLECTOR_RETRY_INITIAL_DELAY_MS,
+		maxDelayMs: env.FEE_COLLECTOR_RETRY_MAX_DELAY_MS,
+		jitter: env.FEE_COLLECTOR_RETRY_JITTER,
+		operations: {},
 	},
-	// Extensibility POC only:
-	// [Chain.Ethereum]: {
-	// 	chainId: 1,
-	// 	name: Chain.Ethereum,
-	// 	rpcUrl: env.FEE_COLLECTOR_ETHEREUM_RPC,
-	// 	contractAddress: env.FEE_COLLECTOR_ETHEREUM_ADDRESS,
-	// 	startBlock: env.FEE_COLLECTOR_ETHEREUM_START_BLOCK,
-	// 	reorgBacktrack: env.FEE_COLLECTOR_ETHEREUM_REORG_BACKTRACK,
-	// },
-};
+});
+
+// -------------------
+// Internal helpers
+// -------------------
+
+function createRegistrySchema(source: NodeJS.ProcessEnv) {
+	// Interpolation errors name the missing variable but never echo the URL, which may hold other secrets
+	const interpolatedUrl = z.string().transform((value, ctx) => {
+		const missing: string[] = [];
+		const url = value.replace(ENV_REFERENCE, (_reference, name: string, fallback?: string) => {
+			const resolved = source[name];
+			if (resolved) return resolved;
+			if (fallback !== undefined) return fallback;
+			missing.push(name);
+			return "";
+		});
+
+		if (missing.length > 0) {
+			ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Environment variable ${missing.join(", ")} is not set` });
+			return z.NEVER;
+		}
+		return url;
+	});
+	const rpcUrl = interpolatedUrl.pipe(z.string().url());
+	// A plain URL, or the URL with its own rate limit and the group of endpoints it shares the limit with
+	const rpcEndpoint = z
+		.union([
+			rpcUrl,
+			z
+				.object({
+					url: rpcUrl,
+					rateLimitGroup: z.string().min(1).optional(),
+					rateLimit: z
+						.object({
+							requestsPerSecond: z.number().nonnegative().optional(),
+							maxConcurrency: z.number().int().positive().optional(),
+						})
+						.strict()
+						.optional(),
+				})
+				.strict(),
+		])
+		// Normalized after the union: a transform inside it would hide the URL's interpolation errors
+		.transform((entry) => (typeof entry === "string" ? { url: entry } : entry));
+	const wsUrl = interpolatedUrl.pipe(
+		z.union([
+			z.literal(""),
+			z
+				.string()
+				.url()
+				.regex(/^wss?:\/\//, "Must be a ws:// or wss:// URL"),
+		]),
+	);
+
+	const deployment = z
+		.object({
+			address: z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Must be a valid EVM address"),
+			startBlock: z.number().int().nonnegative(),
+			endBlock: z.number().int().nonnegative().optional(),
+			lateStart: z.boolean().optional(),
+		})
+		.strict()
+		.refine(
+			(value) => value.endBlock === undefined || value.startBlock <= value.endBlock,
+			"startBlock must not exceed endBlock",
+		);
+
+	const nativeCurrency = z
+		.object({
+			symbol: z.string().min(1),
+			name: z.string().min(1),
+			decimals: z.number().int().nonnegative(),
+		})
+		.strict();
+
+	const retryPolicy = z
+		.object({
+			maxAttempts: z.number().int().positive().optional(),
+			initialDelayMs: z.number().int().nonnegative().optional(),
+			maxDelayMs: z.number().int().nonnegative().optional(),
+			jitter: z.number().min(0).max(1).optional(),
+		})
+		.strict();
+
+	const chain = z
+		.object({
+			name: z.string().regex(/^[a-z0-9-]+$/, "Must be lowercase letters, digits or dashes"),
+			chainId: z.number().int().positive(),
+			enabled: z.boolean().default(true),
+			rpcUrls: z.array(rpcEndpoint).min(1),
+			wsUrl: wsUrl.optional(),
+			deployments: z.array(deployment).min(1),
+			nativeCurrency: nativeCurrency.optional(),
+			confirmations: z.number().int().nonnegative().optional(),
+			batchSize: z.number().int().positive().optional(),
+			pollIntervalMs: z.number().int().positive().optional(),
+			reorgBacktrack: z.number().int().positive().optional(),
+			rpcBatchSize: z.number().int().positive().optional(),
+			enrichTransactions: z.boolean().default(false),
+			maxLagBlocks: z.number().int().positive().optional(),
+			retry: retryPolicy
+				.extend({ operations: z.record(z.string(), retryPolicy).optional() })
+				.strict()
+				.optional(),
+		})
+		.strict();
+
+	return z
+		.object({ chains: z.array(chain).min(1) })
+		.strict()
+		.superRefine((registry, ctx) => {
+			for (const key of ["name", "chainId"] as const) {
+				const seen = new Set<string | number>();
+				for (const [i, entry] of registry.chains.entries()) {
+					if (seen.has(entry[key])) {
+						ctx.addIssue({
+							code: z.ZodIssueCode.custom,
+							path: ["chains", i, key],
+							message: `Duplicate ${key} ${entry[key]}`,
+						});
+					}
+					seen.add(entry[key]);
+				}
+			}
+		});
+}
@@ -10,23 +10,68 @@ const envSchema = z.object({
 	MONGO_URI: z.string().min(1).default("mongodb://localhost:27017"),
 	MONGO_DB: z.string().min(1).default("fee-consolidation"),
 
-	// Polygon
-	FEE_COLLECTOR_POLYGON_RPC: z.string().url().default("https://polygon-rpc.com"),
-	FEE_COLLECTOR_POLYGON_ADDRESS: z.string().min(1).default("0xbD6C7B0d2f68c2b7805d88388319cfB6EcB50eA9"),
-	FEE_COLLECTOR_POLYGON_START_BLOCK: z.coerce.number().int().nonnegative().default(78600000),
-	FEE_COLLECTOR_POLYGON_REORG_BACKTRACK: z.coerce.number().int().positive().default(200),
-
-	// Ethereum (POC, not tested)
-	FEE_COLLECTOR_ETHEREUM_RPC: z.string().url().default("https://ethereum-rpc.publicnode.com"),
-	FEE_COLLECTOR_ETHEREUM_ADDRESS: z.string().min(1).default("0xbD6C7B0d2f68c2b7805d88388319cfB6EcB50eA9"),
-	FEE_COLLECTOR_ETHEREUM_START_BLOCK: z.coerce.number().int().nonnegative().default(18500000),
-	FEE_COLLECTOR_ETHEREUM_REORG_BACKTRACK: z.coerce.number().int().positive().default(64),
-
-	// Sync settings (shared across all chains)
+	// Chain registry (see chains.json): which chains exist, their RPCs, deployments and per-chain overrides
+	FEE_COLLECTOR_CHAINS_FILE: z.string().min(1).default("chains.json"),
+
+	// Historical USD prices (see prices.json), and how long a price point stays valid without a newer one
+	FEE_COLLECTOR_PRICES_FILE: z.string().min(1).default("prices.json"),
+	FEE_COLLECTOR_PRICE_MAX_AGE_SECONDS: z.coerce.number().int().positive().default(86400),
+
+	// Sync settings (defaults for every chain; the chain registry can override confirmations, batch size,
+	// poll interval and reorg backtrack per chain)
 	FEE_COLLECTOR_CONFIRMATIONS: z.coerce.number().int().nonnegative().default(20),
 	FEE_COLLECTOR_BATCH_SIZE: z.coerce.number().int().positive().default(10),
+	FEE_COLLECTOR_MIN_BATCH_SIZE: z.coerce.number().int().positive().default(1),
+	FEE_COLLECTOR_MAX_BATCH_SIZE: z.coerce.number().int().positive().default(2000),
+	FEE_COLLECTOR_BATCH_TARGET_LOGS: z.coerce.number().int().positive().default(1000),
 	FEE_COLLECTOR_POLL_INTERVAL_MS: z.coerce.number().int().positive().default(15000),
 	FEE_COLLECTOR_BATCH_DELAY_MS: z.coerce.number().int().nonnegative().default(200),
+	// Blocks of hashes kept below the checkpoint for reorg resolution: the deepest reorg the sync can handle
+	FEE_COLLECTOR_REORG_BACKTRACK: z.coerce.number().int().positive().default(200),
+
+	// RPC failover: endpoints failing this many times in a row sit out for the cooldown
+	FEE_COLLECTOR_RPC_MAX_FAILURES: z.coerce.number().int().positive().default(3),
+	FEE_COLLECTOR_RPC_COOLDOWN_MS: z.coerce.number().int().positive().default(60000),
+	// Block headers per JSON-RPC batch request (1 disables batching; the chain registry can override it per
+	// chain), and how many headers each chain's client keeps cached
+	FEE_COLLECTOR_RPC_BATCH_SIZE: z.coerce.number().int().positive().default(50),
+	FEE_COLLECTOR_BLOCK_CACHE_SIZE: z.coerce.number().int().positive().default(1000),
+	// Only trust block hashes / head numbers that a majority of a chain's endpoints agree on
+	FEE_COLLECTOR_RPC_QUORUM: z
+		.enum(["true", "false"])
+		.default("false")
+		.transform((value) => value === "true"),
+	// Requests per second and in flight per RPC endpoint (0 requests per second = no rate limit). Endpoints on
+	// the same origin share the limit across chains; chains.json can override both per endpoint and group endpoints
+	FEE_COLLECTOR_RPC_REQUESTS_PER_SECOND: z.coerce.number().nonnegative().default(25),
+	FEE_COLLECTOR_RPC_MAX_CONCURRENCY: z.coerce.number().int().positive().default(10),
+
+	// Default retry policy of withRetry (chains.json can override it per chain and per operation): attempts in
+	// total, first backoff delay (doubling per attempt), the longest delay or rate-limit wait worth waiting out,
+	// and the share of each delay that is randomized
+	FEE_COLLECTOR_RETRY_MAX_ATTEMPTS: z.coerce.number().int().positive().default(3),
+	FEE_COLLECTOR_RETRY_INITIAL_DELAY_MS: z.coerce.number().int().nonnegative().default(5000),
+	FEE_COLLECTOR_RETRY_MAX_DELAY_MS: z.coerce.number().int().nonnegative().default(60000),
+	FEE_COLLECTOR_RETRY_JITTER: z.coerce.number().min(0).max(1).default(0.2),
+
+	// Backfill command: blocks per checkpointed segment, and how many segments are scanned at once
+	FEE_COLLECTOR_BACKFILL_SEGMENT_SIZE: z.coerce.number().int().positive().default(50000),
+	FEE_COLLECTOR_BACKFILL_CONCURRENCY: z.coerce.number().int().positive().default(4),
+
+	// Per-chain lease (lets several workers run against the same chains safely)
+	FEE_COLLECTOR_LEASE_TTL_MS: z.coerce.number().int().positive().default(60000),
+	FEE_COLLECTOR_LEASE_RENEW_INTERVAL_MS: z.coerce.number().int().positive().default(15000),
+
+	// Port of the worker's HTTP server (GET /metrics, /health/live, /health/ready); 0 turns it off
+	FEE_COLLECTOR_WORKER_PORT: z.coerce.number().int().min(0).max(65535).default(9464),
+	// Liveness fails when no worker cycle finished and no checkpoint was saved for this long; readiness fails when a
+	// chain's checkpoint trails its safe block by more blocks than this (the chain registry can override it per chain)
+	FEE_COLLECTOR_LIVENESS_WINDOW_MS: z.coerce.number().int().positive().default(900000),
+	FEE_COLLECTOR_MAX_LAG_BLOCKS: z.coerce.number().int().positive().default(500),
+
+	// Worker pool (--pool): instances that miss heartbeats for longer than the TTL lose their chains
+	FEE_COLLECTOR_POOL_INSTANCE_TTL_MS: z.coerce.number().int().positive().default(60000),
+	FEE_COLLECTOR_POOL_HEARTBEAT_INTERVAL_MS: z.coerce.number().int().positive().default(15000),
 });
 
 const parsedEnv = envSchema.safeParse(process.env);
@@ -0,0 +1,13 @@
+import { pino } from "pino";
+import { prettyTransport } from "@/common/utils/logger";
+import { run } from "@/fee-collector/dead-letters";
+
+const logger = pino({
+	name: "fee-collector-dead-letters",
+	transport: prettyTransport(),
+});
+
+run(process.argv, logger).catch((err) => {
+	logger.error({ err }, "dead-letter command failed");
+	process.exit(1);
+});
@@ -0,0 +1,55 @@
+import type { Logger } from "pino";
+import { connectMongo, disconnectMongo } from "@/common/db/mongo";
+import { CHAIN_REGISTRY } from "@/fee-collector/config/chains.config";
+import { env } from "@/fee-collector/config/env.config";
+import { runWithRetryPolicies } from "@/fee-collector/retry/retry-policy";
+import { listDeadLetters, reprocessDeadLetters } from "@/fee-collector/services/dead-letter.service";
+import { createWorkerConfigs, parseChainFlag } from "@/fee-collector/worker.helpers";
+
+const COMMANDS = ["list", "reprocess"] as const;
+type DeadLetterCommand = (typeof COMMANDS)[number];
+
+/**
+ * Inspects and re-processes the logs the sync couldn't parse:
+ * `dead-letters list [--chain polygon,ethereum] [--all]` or `dead-letters reprocess [--chain polygon,ethereum]`.
+ *
+ * `list` logs each chain's open dead letters (`--all` includes resolved ones). `reprocess` runs them through
+ * the indexer again, e.g. after a parser fix. Without `--chain`, every enabled chain is selected.
+ */
+export async function run(argv: string[], logger: Logger): Promise<void> {
+	const command = parseCommand(argv);
+	const chainNames = parseChainFlag(argv, CHAIN_REGISTRY);
+	const chains = CHAIN_REGISTRY.filter((chain) => chainNames.includes(chain.name));
+
+	await connectMongo(env.MONGO_URI, env.MONGO_DB);
+
+	try {
+		if (command === "list") {
+			for (const chain of chains) {
+				const deadLetters = await listDeadLetters(chain.chainId, { includeResolved: argv.includes("--all") });
+				logger.info({ chain: chain.name, count: deadLetters.length, deadLetters }, "dead letters");
+			}
+			return;
+		}
+
+		for (const { chain, client, syncConfig } of createWorkerConfigs(chains)) {
+			const report = await runWithRetryPolicies(chain.retry, () =>
+				reprocessDeadLetters(client, chain.chainId, logger.child({ chain: chain.name }), {
+					enrichTransactions: syncConfig.enrichTransactions,
+				}),
+			);
+			logger.info({ chain: chain.name, report }, "re-processing complete");
+		}
+	} finally {
+		await disconnectMongo();
+	}
+}
+
+/** The first argument after the script; a leading `--` (as `pnpm run dead-letters -- list` may pass) is skipped. */
+function parseCommand(argv: string[]): DeadLetterCommand {
+	const command = argv.slice(2).find((arg) => arg !== "--");
+	if (!COMMANDS.includes(command as DeadLetterCommand)) {
+		throw new Error(`Unknown command "${command ?? ""}". Valid commands: ${COMMANDS.join(", ")}`);
+	}
+	return command as DeadLetterCommand;
+}
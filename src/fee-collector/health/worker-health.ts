@@ -0,0 +1,229 @@
+import type { SyncProgress } from "../services/sync.service";
+
+/**
+ * What the worker did with a chain in its last cycle: `syncing` while it holds the lease, `standby` while
+ * another worker does, `refused` while the chain fails its preflight checks, `pending` until the chain's first
+ * cycle has run.
+ */
+export type ChainRole = "pending" | "syncing" | "standby" | "refused";
+
+export interface TrackedChain {
+	name: string;
+	/** Blocks the checkpoint may trail the safe block before the chain counts as not ready. */
+	maxLagBlocks: number;
+}
+
+export interface ChainHealth {
+	chain: string;
+	role: ChainRole;
+	ready: boolean;
+	/** Why the chain isn't ready; absent when it is. */
+	reason?: string;
+	lastProcessedBlock: number | null;
+	safeBlock: number | null;
+	lagBlocks: number | null;
+	maxLagBlocks: number;
+	/** When the chain last finished a sync cycle without an error. */
+	lastSyncedAt: string | null;
+	/** When the sync last saved the chain's checkpoint, including batches of a cycle still running. */
+	lastCheckpointAt: string | null;
+	/** Message of the error that failed the chain's last cycle; cleared by the next successful one. */
+	lastError: string | null;
+}
+
+export interface HealthReport {
+	status: "ok" | "failing";
+	/** Why the probe fails; absent when it passes. */
+	reason?: string;
+	lastCycleFinishedAt: string | null;
+	/** When the sync last saved a checkpoint of any chain. */
+	lastCheckpointAt: string | null;
+	chains: ChainHealth[];
+}
+
+export interface WorkerHealthOptions {
+	/**
+	 * How long the worker may go without finishing a cycle or saving a checkpoint, or a chain without syncing or
+	 * saving its checkpoint, before it fails the probes.
+	 */
+	livenessWindowMs: number;
+	now?: () => number;
+}
+
+interface ChainState extends TrackedChain {
+	role: ChainRole;
+	progress: SyncProgress | null;
+	lastSyncedAt: number | null;
+	lastCheckpointAt: number | null;
+	lastError: string | null;
+}
+
+/**
+ * Tracks the worker loop and the outcome of each chain's cycles for the liveness and readiness probes.
+ *
+ * Liveness fails when within the window (counted from startup before the first cycle) no cycle of the worker
+ * loop has finished and no checkpoint was saved, e.g. while a chain is stuck in retry backoff. A catch-up that
+ * runs for hours as one cycle stays live as long as its batches keep committing. Readiness fails when a chain the
+ * worker syncs trails its safe block by more than its `maxLagBlocks`, hasn't synced yet, or has neither synced
+ * nor saved its checkpoint within the window, e.g. because its RPC endpoints are down, or fails its preflight
+ * checks. Chains on standby are
+ * always ready.
+ */
+export class WorkerHealth {
+	private readonly chains = new Map<string, ChainState>();
+	private readonly livenessWindowMs: number;
+	private readonly now: () => number;
+	private readonly startedAt: number;
+	private lastCycleFinishedAt: number | null = null;
+	private lastCheckpointAt: number | null = null;
+
+	constructor(options: WorkerHealthOptions) {
+		this.livenessWindowMs = options.livenessWindowMs;
+		this.now = options.now ?? Date.now;
+		this.startedAt = this.now();
+	}
+
+	/** Sets the chains the probes report on. Chains tracked before keep their state; the others are dropped. */
+	track(chains: TrackedChain[]): void {
+		const names = new Set(chains.map((chain) => chain.name));
+		for (const name of this.chains.keys()) {
+			if (!names.has(name)) this.chains.delete(name);
+		}
+		for (const chain of chains) {
+			const state = this.chains.get(chain.name);
+			if (state) {
+				state.maxLagBlocks = chain.maxLagBlocks;
+			} else {
+				this.chains.set(chain.name, {
+					...chain,
+					role: "pending",
+					progress: null,
+					lastSyncedAt: null,
+					lastCheckpointAt: null,
+					lastError: null,
+				});
+			}
+		}
+	}
+
+	chainSynced(chain: string, progress: SyncProgress): void {
+		const state = this.chains.get(chain);
+		if (!state) return;
+		Object.assign(state, { role: "syncing", progress, lastSyncedAt: this.now(), lastError: null });
+	}
+
+	/** Called for every batch the sync commits, before the chain's cycle finishes. */
+	checkpointSaved(chain: string, progress: SyncProgress): void {
+		this.lastCheckpointAt = this.now();
+		const state = this.chains.get(chain);
+		if (!state) return;
+		Object.assign(state, { progress, lastCheckpointAt: this.lastCheckpointAt });
+	}
+
+	chainStandby(chain: string): void {
+		const state = this.chains.get(chain);
+		if (!state) return;
+		Object.assign(state, { role: "standby", lastError: null });
+	}
+
+	/** `failed` are the diagnostics of the preflight checks the chain failed; they are reported as its last error. */
+	chainRefused(chain: string, failed: string[]): void {
+		const state = this.chains.get(chain);
+		if (!state) return;
+		Object.assign(state, { role: "refused", lastError: failed.join("; ") });
+	}
+
+	/**
+	 * `progress` is the saved checkpoint against the safe block as of the failure, so the lag keeps growing while
+	 * cycles fail. Without it (the chain couldn't be read either) the last progress is kept.
+	 */
+	chainFailed(chain: string, err: unknown, progress?: SyncProgress | null): void {
+		const state = this.chains.get(chain);
+		if (!state) return;
+		Object.assign(state, {
+			role: "syncing",
+			...(progress && { progress }),
+			lastError: err instanceof Error ? err.message : String(err),
+		});
+	}
+
+	cycleFinished(): void {
+		this.lastCycleFinishedAt = this.now();
+	}
+
+	liveness(): HealthReport {
+		const since = Math.max(this.lastCycleFinishedAt ?? this.startedAt, this.lastCheckpointAt ?? 0);
+		const idleMs = this.now() - since;
+		const reason =
+			idleMs > this.livenessWindowMs
+				? `no worker cycle finished and no checkpoint saved in ${Math.round(idleMs / 1000)}s (window: ${this.livenessWindowMs / 1000}s)`
+				: undefined;
+		return this.report(reason, this.chainReports());
+	}
+
+	readiness(): HealthReport {
+		const chains = this.chainReports();
+		const notReady = chains.filter((chain) => !chain.ready).map((chain) => chain.chain);
+
+		let reason: string | undefined;
+		if (this.lastCycleFinishedAt === null) {
+			reason = "no worker cycle finished yet";
+		} else if (notReady.length > 0) {
+			reason = `chains not ready: ${notReady.join(", ")}`;
+		}
+		return this.report(reason, chains);
+	}
+
+	private report(reason: string | undefined, chains: ChainHealth[]): HealthReport {
+		return {
+			status: reason ? "failing" : "ok",
+			...(reason && { reason }),
+			lastCycleFinishedAt: toIso(this.lastCycleFinishedAt),
+			lastCheckpointAt: toIso(this.lastCheckpointAt),
+			chains,
+		};
+	}
+
+	private chainReports(): ChainHealth[] {
+		return [...this.chains.values()].map((state) => {
+			const lagBlocks = state.progress
+				? Math.max(0, state.progress.safeBlock - state.progress.lastProcessedBlock)
+				: null;
+			const reason = this.notReadyReason(state, lagBlocks);
+			return {
+				chain: state.name,
+				role: state.role,
+				ready: !reason,
+				...(reason && { reason }),
+				lastProcessedBlock: state.progress?.lastProcessedBlock ?? null,
+				safeBlock: state.progress?.safeBlock ?? null,
+				lagBlocks,
+				maxLagBlocks: state.maxLagBlocks,
+				lastSyncedAt: toIso(state.lastSyncedAt),
+				lastCheckpointAt: toIso(state.lastCheckpointAt),
+				lastError: state.lastError,
+			};
+		});
+	}
+
+	private notReadyReason(state: ChainState, lagBlocks: number | null): string | undefined {
+		if (state.role === "standby") return undefined;
+		if (state.role === "refused") return "refused by its preflight checks";
+		// A checkpoint saved mid-cycle counts: a long catch-up shows up as lag, not as a chain that stopped syncing
+		const lastProgressAt = Math.max(state.lastSyncedAt ?? 0, state.lastCheckpointAt ?? 0);
+		if (lastProgressAt === 0 || lagBlocks === null) return "not synced yet";
+
+		const sinceProgressMs = this.now() - lastProgressAt;
+		if (sinceProgressMs > this.livenessWindowMs) {
+			return `no successful sync or saved checkpoint in ${Math.round(sinceProgressMs / 1000)}s`;
+		}
+		if (lagBlocks > state.maxLagBlocks) {
+			return `${lagBlocks} blocks behind the safe block (max ${state.maxLagBlocks})`;
+		}
+		return undefined;
+	}
+}
+
+function toIso(timestamp: number | null): string | null {
+	return timestamp === null ? null : new Date(timestamp).toISOString();
+}
@@ -0,0 +1,164 @@
+type Labels = Record<string, string>;
+
+interface Metric {
+	/** The metric's lines in the Prometheus text format, HELP and TYPE included. */
+	render(): string[];
+}
+
+/**
+ * Series of one metric, keyed by their label set. Labels are serialized once, sorted by name, so the same set
+ * always lands on the same series whatever order the caller passes them in.
+ */
+class SeriesMap<T> {
+	private readonly series = new Map<string, { labels: string; value: T }>();
+
+	get(labels: Labels, init: () => T): T {
+		const key = serializeLabels(labels);
+		let entry = this.series.get(key);
+		if (!entry) {
+			entry = { labels: key, value: init() };
+			this.series.set(key, entry);
+		}
+		return entry.value;
+	}
+
+	entries(): { labels: string; value: T }[] {
+		return [...this.series.values()];
+	}
+}
+
+export class Counter implements Metric {
+	private readonly values = new SeriesMap<{ total: number }>();
+
+	constructor(
+		private readonly name: string,
+		private readonly help: string,
+	) {}
+
+	inc(labels: Labels, value = 1): void {
+		this.values.get(labels, () => ({ total: 0 })).total += value;
+	}
+
+	/** Sets a total that is counted elsewhere, e.g. the failure count an endpoint pool keeps itself. */
+	setTotal(labels: Labels, total: number): void {
+		this.values.get(labels, () => ({ total: 0 })).total = total;
+	}
+
+	render(): string[] {
+		return [
+			...header(this.name, this.help, "counter"),
+			...this.values.entries().map(({ labels, value }) => `${this.name}${labels} ${value.total}`),
+		];
+	}
+}
+
+export class Gauge implements Metric {
+	private readonly values = new SeriesMap<{ value: number }>();
+
+	constructor(
+		private readonly name: string,
+		private readonly help: string,
+	) {}
+
+	set(labels: Labels, value: number): void {
+		this.values.get(labels, () => ({ value: 0 })).value = value;
+	}
+
+	render(): string[] {
+		return [
+			...header(this.name, this.help, "gauge"),
+			...this.values.entries().map(({ labels, value }) => `${this.name}${labels} ${value.value}`),
+		];
+	}
+}
+
+export class Histogram implements Metric {
+	private readonly values = new SeriesMap<{ labels: Labels; counts: number[]; sum: number; count: number }>();
+
+	/** @param buckets - Upper bounds, ascending; the `+Inf` bucket is implied. */
+	constructor(
+		private readonly name: string,
+		private readonly help: string,
+		private readonly buckets: number[],
+	) {}
+
+	observe(labels: Labels, value: number): void {
+		const series = this.values.get(labels, () => ({
+			labels,
+			counts: this.buckets.map(() => 0),
+			sum: 0,
+			count: 0,
+		}));
+		for (const [i, bound] of this.buckets.entries()) {
+			if (value <= bound) series.counts[i]++;
+		}
+		series.sum += value;
+		series.count++;
+	}
+
+	render(): string[] {
+		const lines = header(this.name, this.help, "histogram");
+		for (const { labels: serialized, value: series } of this.values.entries()) {
+			for (const [i, bound] of this.buckets.entries()) {
+				lines.push(
+					`${this.name}_bucket${serializeLabels({ ...series.labels, le: String(bound) })} ${series.counts[i]}`,
+				);
+			}
+			lines.push(`${this.name}_bucket${serializeLabels({ ...series.labels, le: "+Inf" })} ${series.count}`);
+			lines.push(`${this.name}_sum${serialized} ${series.sum}`);
+			lines.push(`${this.name}_count${serialized} ${series.count}`);
+		}
+		return lines;
+	}
+}
+
+/** The metrics of a process, rendered in the Prometheus text exposition format (version 0.0.4). */
+export class MetricsRegistry {
+	private readonly metrics: Metric[] = [];
+	private readonly collectors: (() => void)[] = [];
+
+	counter(name: string, help: string): Counter {
+		return this.register(new Counter(name, help));
+	}
+
+	gauge(name: string, help: string): Gauge {
+		return this.register(new Gauge(name, help));
+	}
+
+	histogram(name: string, help: string, buckets: number[]): Histogram {
+		return this.register(new Histogram(name, help, buckets));
+	}
+
+	/**
+	 * Registers `collect` to run before each render, for values that are read off another component when scraped
+	 * (e.g. a queue's depth) rather than recorded as they change.
+	 */
+	addCollector(collect: () => void): void {
+		this.collectors.push(collect);
+	}
+
+	render(): string {
+		for (const collect of this.collectors) collect();
+		return `${this.metrics.flatMap((metric) => metric.render()).join("\n")}\n`;
+	}
+
+	private register<M extends Metric>(metric: M): M {
+		this.metrics.push(metric);
+		return metric;
+	}
+}
+
+function header(name: string, help: string, type: string): string[] {
+	return [`# HELP ${name} ${help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`, `# TYPE ${name} ${type}`];
+}
+
+function serializeLabels(labels: Labels): string {
+	const pairs = Object.keys(labels)
+		.sort()
+		.map((name) => `${name}="${escapeLabelValue(labels[name])}"`);
+	return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function escapeLabelValue(value: string): string {
+	return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
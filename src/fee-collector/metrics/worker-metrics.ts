@@ -0,0 +1,110 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+import type { EndpointHealth } from "../rpc/endpoint-pool";
+import { rpcSchedulers } from "../rpc/request-scheduler";
+import type { SyncProgress } from "../services/sync.service";
+import { MetricsRegistry } from "./registry";
+
+/** The worker's metrics, served on `/metrics` by worker.server.ts. */
+export const metricsRegistry = new MetricsRegistry();
+
+const blocksScanned = metricsRegistry.counter(
+	"fee_collector_blocks_scanned_total",
+	"Blocks whose logs were queried and checkpointed by the sync.",
+);
+const eventsPersisted = metricsRegistry.counter(
+	"fee_collector_events_persisted_total",
+	"New fee and withdrawal events written by the sync.",
+);
+const lagBlocks = metricsRegistry.gauge(
+	"fee_collector_lag_blocks",
+	"Blocks between the chain head and the last processed block, confirmations included.",
+);
+const rpcErrors = metricsRegistry.counter(
+	"fee_collector_rpc_errors_total",
+	"Failed RPC calls per endpoint since the worker started.",
+);
+const syncCycleDuration = metricsRegistry.histogram(
+	"fee_collector_sync_cycle_duration_seconds",
+	"Duration of sync cycles, failed ones included.",
+	[0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600],
+);
+const reorgs = metricsRegistry.counter("fee_collector_reorgs_total", "Reorgs rolled back by the sync.");
+const retries = metricsRegistry.counter("fee_collector_retries_total", "Retried attempts of withRetry, by operation.");
+const rpcQueueDepth = metricsRegistry.gauge(
+	"fee_collector_rpc_queue_depth",
+	"RPC requests waiting for their endpoint's rate limit, per rate-limit group.",
+);
+const rpcInFlight = metricsRegistry.gauge(
+	"fee_collector_rpc_in_flight",
+	"RPC requests sent and not answered yet, per rate-limit group.",
+);
+
+// Rate-limit groups are shared between chains, so their series carry the group instead of a chain
+metricsRegistry.addCollector(() => {
+	for (const { key, queued, inFlight } of rpcSchedulers.stats()) {
+		rpcQueueDepth.set({ group: key }, queued);
+		rpcInFlight.set({ group: key }, inFlight);
+	}
+});
+
+/**
+ * Records the metrics of one chain; every series it writes carries the chain's name as the `chain` label.
+ * `onCheckpoint` hears of every checkpoint the sync saves, which the worker's health probes count as progress.
+ */
+export class ChainMetrics {
+	constructor(
+		public readonly chain: string,
+		private readonly onCheckpoint?: (progress: SyncProgress) => void,
+	) {}
+
+	checkpointSaved(progress: SyncProgress): void {
+		this.onCheckpoint?.(progress);
+	}
+
+	blocksScanned(count: number): void {
+		blocksScanned.inc({ chain: this.chain }, count);
+	}
+
+	eventsPersisted(count: number): void {
+		eventsPersisted.inc({ chain: this.chain }, count);
+	}
+
+	lag(blocks: number): void {
+		lagBlocks.set({ chain: this.chain }, Math.max(0, blocks));
+	}
+
+	reorg(): void {
+		reorgs.inc({ chain: this.chain });
+	}
+
+	retry(operation: string): void {
+		retries.inc({ chain: this.chain, operation });
+	}
+
+	syncCycle(durationMs: number): void {
+		syncCycleDuration.observe({ chain: this.chain }, durationMs / 1000);
+	}
+
+	/** The pool counts failures per endpoint itself, so its totals are exported as they are. */
+	rpcHealth(endpoints: EndpointHealth[]): void {
+		for (const { endpoint, failures } of endpoints) {
+			rpcErrors.setTotal({ chain: this.chain, endpoint }, failures);
+		}
+	}
+}
+
+const scope = new AsyncLocalStorage<ChainMetrics>();
+
+/**
+ * Runs `fn` with `metrics` as the current chain's metrics. Code deep in a sync cycle (e.g. `withRetry`) records
+ * through `currentChainMetrics()` instead of having the chain passed down to it.
+ */
+export function runWithChainMetrics<T>(metrics: ChainMetrics, fn: () => Promise<T>): Promise<T> {
+	return scope.run(metrics, fn);
+}
+
+/** Metrics of the chain being synced, or undefined outside the worker (e.g. in a backfill), which records none. */
+export function currentChainMetrics(): ChainMetrics | undefined {
+	return scope.getStore();
+}
@@ -0,0 +1,27 @@
+import { pino } from "pino";
+import { connectMongo, disconnectMongo } from "@/common/db/mongo";
+import { prettyTransport } from "@/common/utils/logger";
+import { env } from "@/fee-collector/config/env.config";
+import { MIGRATIONS } from "@/fee-collector/migrations/index";
+import { runMigrations } from "@/fee-collector/migrations/runner";
+
+const logger = pino({
+	name: "fee-collector-migrate",
+	transport: prettyTransport(),
+});
+
+async function main(): Promise<void> {
+	await connectMongo(env.MONGO_URI, env.MONGO_DB);
+
+	try {
+		const applied = await runMigrations(MIGRATIONS, logger);
+		logger.info({ applied }, "migrations complete");
+	} finally {
+		await disconnectMongo();
+	}
+}
+
+main().catch((err) => {
+	logger.error({ err }, "migration failed");
+	process.exit(1);
+});
@@ -0,0 +1,54 @@
+import type { ContractDeployment } from "@/fee-collector/config/chains.config";
+import { CHAIN_REGISTRY } from "@/fee-collector/config/chains.config";
+import type { Migration } from "@/fee-collector/migrations/runner";
+import { FeeCollectedEventModel } from "@/fee-collector/models/fee-collected-event";
+
+/**
+ * Events indexed before multi-deployment support have no `contractAddress`. Each one is attributed to
+ * the deployment of its chain whose block range contains it. Blocks covered by more than one
+ * deployment are ambiguous and left alone, as are chains missing from the chain registry; the
+ * migration then fails so it can be re-run once the deployment config is fixed.
+ */
+export const backfillContractAddress: Migration = {
+	id: "001-backfill-contract-address",
+	description: "Set contractAddress on fee events indexed before multi-deployment support",
+
+	async up(log) {
+		// Disabled chains are included: their events may still have been indexed while they were enabled
+		for (const chain of CHAIN_REGISTRY) {
+			for (const deployment of chain.deployments) {
+				const otherDeployments = chain.deployments.filter((other) => other !== deployment);
+
+				const result = await FeeCollectedEventModel.updateMany(
+					{
+						chainId: chain.chainId,
+						contractAddress: { $exists: false },
+						blockNumber: blockRangeFilter(deployment),
+						...(otherDeployments.length > 0 && {
+							$nor: otherDeployments.map((other) => ({ blockNumber: blockRangeFilter(other) })),
+						}),
+					},
+					{ $set: { contractAddress: deployment.address.toLowerCase() } },
+				).exec();
+
+				log.info(
+					{ chain: chain.name, contractAddress: deployment.address, updated: result.modifiedCount },
+					"attributed events to deployment",
+				);
+			}
+		}
+
+		const remaining = await FeeCollectedEventModel.countDocuments({ contractAddress: { $exists: false } }).exec();
+		if (remaining > 0) {
+			throw new Error(
+				`${remaining} fee events could not be attributed to a single deployment (unconfigured chain or overlapping deployment ranges)`,
+			);
+		}
+	},
+};
+
+function blockRangeFilter(deployment: ContractDeployment): { $gte: number; $lte?: number } {
+	return deployment.endBlock === undefined
+		? { $gte: deployment.startBlock }
+		: { $gte: deployment.startBlock, $lte: deployment.endBlock };
+}
@@ -0,0 +1,28 @@
+import type { Migration } from "@/fee-collector/migrations/runner";
+import { FeeCollectedEventModel } from "@/fee-collector/models/fee-collected-event";
+
+const LEGACY_UNIQUE_INDEX = "chainId_1_txHash_1_logIndex_1";
+const INDEX_NOT_FOUND = 27;
+
+/**
+ * Reorged events are now orphaned instead of deleted, and the unique event index includes `reorgId` so a
+ * re-mined event can sit next to its orphaned copy. The new index is built before the legacy one is
+ * dropped, so uniqueness is enforced throughout.
+ */
+export const orphanAwareEventIndex: Migration = {
+	id: "002-orphan-aware-event-index",
+	description: "Replace the unique fee event index with one that allows orphaned copies",
+
+	async up(log) {
+		await FeeCollectedEventModel.createIndexes();
+
+		try {
+			await FeeCollectedEventModel.collection.dropIndex(LEGACY_UNIQUE_INDEX);
+			log.info({ index: LEGACY_UNIQUE_INDEX }, "dropped legacy unique index");
+		} catch (err) {
+			// Already dropped by an earlier, interrupted run
+			if ((err as { code?: number }).code !== INDEX_NOT_FOUND) throw err;
+			log.info({ index: LEGACY_UNIQUE_INDEX }, "legacy unique index already dropped");
+		}
+	},
+};
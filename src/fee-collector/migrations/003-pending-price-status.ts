@@ -0,0 +1,20 @@
+import type { Migration } from "@/fee-collector/migrations/runner";
+import { FeeCollectedEventModel } from "@/fee-collector/models/fee-collected-event";
+
+/**
+ * Events indexed before USD pricing have no `priceStatus`, so the pricing pass would never pick them up.
+ * Marking them `pending` has the worker (or `pnpm run reprice`) value them like freshly indexed ones.
+ */
+export const pendingPriceStatus: Migration = {
+	id: "003-pending-price-status",
+	description: "Queue fee events indexed before USD pricing for the pricing pass",
+
+	async up(log) {
+		const result = await FeeCollectedEventModel.updateMany(
+			{ priceStatus: { $exists: false } },
+			{ $set: { priceStatus: "pending" } },
+		).exec();
+
+		log.info({ updated: result.modifiedCount }, "queued events for pricing");
+	},
+};
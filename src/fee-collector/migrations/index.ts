@@ -0,0 +1,7 @@
+import { backfillContractAddress } from "@/fee-collector/migrations/001-backfill-contract-address";
+import { orphanAwareEventIndex } from "@/fee-collector/migrations/002-orphan-aware-event-index";
+import { pendingPriceStatus } from "@/fee-collector/migrations/003-pending-price-status";
+import type { Migration } from "@/fee-collector/migrations/runner";
+
+/** Every migration, oldest first. Append new ones; never reorder, rename or remove applied ones. */
+export const MIGRATIONS: Migration[] = [backfillContractAddress, orphanAwareEventIndex, pendingPriceStatus];
@@ -0,0 +1,42 @@
+import type { Logger } from "pino";
+
+import { AppliedMigrationModel } from "@/fee-collector/models/applied-migration";
+
+export interface Migration {
+	/** Sortable and never reused, e.g. "001-backfill-contract-address". */
+	id: string;
+	description: string;
+	/** Must be safe to re-run: a migration that fails half-way is retried from the start on the next run. */
+	up(log: Logger): Promise<void>;
+}
+
+/**
+ * Applies every migration not yet recorded in the `migrations` collection, in list order.
+ * A migration is recorded only after it completes, and the run stops at the first failure.
+ *
+ * @returns ids of the migrations applied by this run.
+ */
+export async function runMigrations(migrations: Migration[], log: Logger): Promise<string[]> {
+	const applied = await AppliedMigrationModel.find().lean().exec();
+	const appliedIds = new Set(applied.map((migration) => migration.migrationId));
+	const pending = migrations.filter((migration) => !appliedIds.has(migration.id));
+
+	if (pending.length === 0) {
+		log.info("no pending migrations");
+		return [];
+	}
+
+	for (const migration of pending) {
+		log.info({ migration: migration.id, description: migration.description }, "applying migration");
+		await migration.up(log.child({ migration: migration.id }));
+
+		await AppliedMigrationModel.updateOne(
+			{ migrationId: migration.id },
+			{ $setOnInsert: { migrationId: migration.id, description: migration.description, appliedAt: new Date() } },
+			{ upsert: true },
+		).exec();
+		log.info({ migration: migration.id }, "migration applied");
+	}
+
+	return pending.map((migration) => migration.id);
+}
@@ -0,0 +1,55 @@
+import { getModelForClass, index, modelOptions, prop, Severity } from "@typegoose/typegoose";
+
+/** The admin commands that change stored state; `status` only reads, so it isn't recorded. */
+export const ADMIN_COMMANDS = ["reset", "purge-events", "rescan"] as const;
+export type AdminCommand = (typeof ADMIN_COMMANDS)[number];
+
+export const ADMIN_ACTION_STATUSES = ["started", "done", "failed"] as const;
+export type AdminActionStatus = (typeof ADMIN_ACTION_STATUSES)[number];
+
+// Audit trail of the admin CLI: one document per command that changed a chain's stored state, written before
+// the change and completed after it, so an action interrupted half-way still shows up as `started`
+@index({ chainId: 1, _id: -1 })
+@modelOptions({
+	schemaOptions: {
+		timestamps: { createdAt: true, updatedAt: true },
+		collection: "admin_actions",
+	},
+	// Each command's plan and result have their own shape
+	options: { allowMixed: Severity.ALLOW },
+})
+export class AdminAction {
+	@prop({ required: true, type: String, enum: ADMIN_COMMANDS })
+	public command!: AdminCommand;
+
+	@prop({ required: true, type: Number })
+	public chainId!: number;
+
+	/** Who ran the command: the OS user and host. */
+	@prop({ required: true, type: String })
+	public operator!: string;
+
+	/** The command line, for reproducing the action. */
+	@prop({ required: true, type: () => [String] })
+	public argv!: string[];
+
+	/** What the command previewed and the operator confirmed. */
+	@prop({ required: true, type: Object })
+	public plan!: Record<string, unknown>;
+
+	@prop({ required: true, type: String, enum: ADMIN_ACTION_STATUSES })
+	public status!: AdminActionStatus;
+
+	/** The command's outcome, once `done`. */
+	@prop({ type: Object })
+	public result?: Record<string, unknown>;
+
+	/** Message of the error that failed the command. */
+	@prop({ type: String })
+	public error?: string;
+
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+export const AdminActionModel = getModelForClass(AdminAction);
@@ -0,0 +1,23 @@
+import { getModelForClass, index, modelOptions, prop } from "@typegoose/typegoose";
+
+// A migration is recorded once, so concurrent runners can't record it twice
+@index({ migrationId: 1 }, { unique: true })
+@modelOptions({
+	schemaOptions: {
+		timestamps: false,
+		collection: "migrations",
+	},
+})
+export class AppliedMigration {
+	/** Id of the migration (see migrations/index.ts). */
+	@prop({ required: true, type: String })
+	public migrationId!: string;
+
+	@prop({ required: true, type: String })
+	public description!: string;
+
+	@prop({ required: true, type: Date })
+	public appliedAt!: Date;
+}
+
+export const AppliedMigrationModel = getModelForClass(AppliedMigration);
@@ -0,0 +1,43 @@
+import { getModelForClass, index, modelOptions, prop } from "@typegoose/typegoose";
+
+export type BackfillSegmentStatus = "pending" | "done" | "failed";
+
+// One checkpoint per segment of a backfill range; re-running the same range resumes from these
+@index({ chainId: 1, fromBlock: 1, toBlock: 1 }, { unique: true })
+@modelOptions({
+	schemaOptions: {
+		timestamps: { createdAt: true, updatedAt: true },
+		collection: "backfill_segments",
+	},
+})
+export class BackfillSegment {
+	@prop({ required: true, type: Number })
+	public chainId!: number;
+
+	@prop({ required: true, type: Number })
+	public fromBlock!: number;
+
+	/** Last block of the segment (inclusive). */
+	@prop({ required: true, type: Number })
+	public toBlock!: number;
+
+	/** Checkpoint within the segment; `fromBlock - 1` until the first batch completes. */
+	@prop({ required: true, type: Number })
+	public lastProcessedBlock!: number;
+
+	@prop({ required: true, type: String, enum: ["pending", "done", "failed"] })
+	public status!: BackfillSegmentStatus;
+
+	/** Events this segment added to `fee_collected_events` (events already indexed by the live sync aren't counted). */
+	@prop({ required: true, type: Number, default: 0 })
+	public eventsAdded!: number;
+
+	/** Message of the error that failed the segment's last attempt. */
+	@prop({ type: String })
+	public lastError?: string;
+
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+export const BackfillSegmentModel = getModelForClass(BackfillSegment);
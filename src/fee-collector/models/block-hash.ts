@@ -0,0 +1,25 @@
+import { getModelForClass, index, modelOptions, prop } from "@typegoose/typegoose";
+
+// Rolling ledger of processed block hashes, used to find the common ancestor after a reorg.
+// One hash per block; a reorg replaces the entries above the ancestor.
+@index({ chainId: 1, blockNumber: 1 }, { unique: true })
+@modelOptions({
+	schemaOptions: {
+		timestamps: { createdAt: true, updatedAt: false },
+		collection: "block_hashes",
+	},
+})
+export class BlockHash {
+	@prop({ required: true, type: Number })
+	public chainId!: number;
+
+	@prop({ required: true, type: Number })
+	public blockNumber!: number;
+
+	@prop({ required: true, type: String })
+	public blockHash!: string;
+
+	public createdAt!: Date;
+}
+
+export const BlockHashModel = getModelForClass(BlockHash);
@@ -0,0 +1,27 @@
+import { getModelForClass, index, modelOptions, prop } from "@typegoose/typegoose";
+
+// One assignment per chain, overwritten by whichever pool instance currently owns it
+@index({ chainId: 1 }, { unique: true })
+@index({ instanceId: 1 })
+@modelOptions({
+	schemaOptions: {
+		timestamps: { createdAt: false, updatedAt: true },
+		collection: "chain_assignments",
+	},
+})
+export class ChainAssignment {
+	@prop({ required: true, type: Number })
+	public chainId!: number;
+
+	/** Chain name as used on the CLI (e.g. "polygon"), for readability when querying the collection. */
+	@prop({ required: true, type: String })
+	public chain!: string;
+
+	/** Pool instance the chain is assigned to. */
+	@prop({ required: true, type: String })
+	public instanceId!: string;
+
+	public updatedAt!: Date;
+}
+
+export const ChainAssignmentModel = getModelForClass(ChainAssignment);
@@ -0,0 +1,27 @@
+import { getModelForClass, index, modelOptions, prop } from "@typegoose/typegoose";
+
+// One lease document per chain; the unique index is what makes acquisition atomic
+@index({ chainId: 1 }, { unique: true })
+@modelOptions({
+	schemaOptions: {
+		timestamps: { createdAt: false, updatedAt: true },
+		collection: "chain_leases",
+	},
+})
+export class ChainLease {
+	@prop({ required: true, type: Number })
+	public chainId!: number;
+
+	/** Identifier of the worker instance currently holding the lease. */
+	@prop({ required: true, type: String })
+	public ownerId!: string;
+
+	/** The lease is considered free once this point in time has passed. */
+	@prop({ required: true, type: Date })
+	public expiresAt!: Date;
+
+	/** Time of the last successful acquire or heartbeat renewal. */
+	public updatedAt!: Date;
+}
+
+export const ChainLeaseModel = getModelForClass(ChainLease);
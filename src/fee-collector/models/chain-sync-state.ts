@@ -18,6 +18,10 @@ export class ChainSyncState {
 	@prop({ required: true, type: String })
 	public lastProcessedBlockHash!: string;
 
+	/** Block range per eth_getLogs call learned from the RPC's responses (see batch-size.service.ts). */
+	@prop({ type: Number })
+	public batchSize?: number;
+
 	public updatedAt!: Date;
 }
 
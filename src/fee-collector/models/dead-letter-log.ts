@@ -0,0 +1,66 @@
+import { getModelForClass, index, modelOptions, prop } from "@typegoose/typegoose";
+
+/** Which query returned the log, and so which parser it went through. */
+export const DEAD_LETTER_KINDS = ["FeesCollected", "Withdrawal"] as const;
+export type DeadLetterKind = (typeof DEAD_LETTER_KINDS)[number];
+
+// Logs the sync couldn't parse, stored raw so the batch can move on and the log can be re-processed once
+// the parser is fixed. Keyed like the events; the block hash keeps a re-mined copy of the log apart.
+@index({ chainId: 1, txHash: 1, logIndex: 1, blockHash: 1 }, { unique: true })
+// Lists and re-processes a chain's open dead letters in block order
+@index({ chainId: 1, resolvedAt: 1, blockNumber: 1 })
+@modelOptions({
+	schemaOptions: {
+		timestamps: true,
+		collection: "dead_letter_logs",
+	},
+})
+export class DeadLetterLog {
+	@prop({ required: true, type: Number })
+	public chainId!: number;
+
+	@prop({ required: true, type: String, enum: DEAD_LETTER_KINDS })
+	public kind!: DeadLetterKind;
+
+	/** Contract that emitted the log, as returned by the RPC. */
+	@prop({ required: true, type: String })
+	public address!: string;
+
+	@prop({ required: true, type: Number })
+	public blockNumber!: number;
+
+	@prop({ required: true, type: String })
+	public blockHash!: string;
+
+	@prop({ required: true, type: String })
+	public txHash!: string;
+
+	@prop({ required: true, type: Number })
+	public logIndex!: number;
+
+	@prop({ required: true, type: () => [String] })
+	public topics!: string[];
+
+	@prop({ required: true, type: String })
+	public data!: string;
+
+	/** Message of the latest parse failure. */
+	@prop({ required: true, type: String })
+	public error!: string;
+
+	/** How many times the log was re-processed; 0 until the first re-processing. */
+	@prop({ required: true, type: Number, default: 0 })
+	public retryCount!: number;
+
+	@prop({ type: Date })
+	public lastRetriedAt?: Date;
+
+	/** When a re-processing indexed the log; null while the dead letter is open. */
+	@prop({ type: Date, default: null })
+	public resolvedAt?: Date | null;
+
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+export const DeadLetterLogModel = getModelForClass(DeadLetterLog);
@@ -1,10 +1,28 @@
-import { getModelForClass, index, modelOptions, prop } from "@typegoose/typegoose";
+import { getModelForClass, index, modelOptions, prop, type Ref } from "@typegoose/typegoose";
+
+import { Reorg } from "./reorg";
+
+/**
+ * Where an event stands in USD pricing: `pending` until the pricing pass looked at it, then `priced`, or
+ * `unpriced` when its token had no price or decimals at the time (a re-pricing run retries those).
+ */
+export const PRICE_STATUSES = ["pending", "priced", "unpriced"] as const;
+export type PriceStatus = (typeof PRICE_STATUSES)[number];
+
+/** Why an event couldn't be priced. */
+export const UNPRICED_REASONS = ["unknown-price", "unknown-decimals"] as const;
+export type UnpricedReason = (typeof UNPRICED_REASONS)[number];
 
 // Unique index ensures the same event can never be inserted
-// twice even if a block range is re-scanned.
-@index({ chainId: 1, txHash: 1, logIndex: 1 }, { unique: true })
+// twice even if a block range is re-scanned. Canonical events all have `reorgId: null`, while
+// orphaned copies carry their reorg's id, so an event re-mined after a reorg can be indexed again.
+@index({ chainId: 1, txHash: 1, logIndex: 1, reorgId: 1 }, { unique: true })
 // Query index for the REST API to efficiently fetch all events for a given integrator and chain
 @index({ integrator: 1, chainId: 1, blockNumber: 1 })
+// Serves `GET /fees?sender=`: an integrator's fees paid from one address
+@index({ integrator: 1, txFrom: 1, blockNumber: 1 })
+// Lets the pricing pass find the events still waiting for (or missing) a USD price
+@index({ chainId: 1, priceStatus: 1 })
 @modelOptions({
 	schemaOptions: {
 		timestamps: { createdAt: true, updatedAt: false },
@@ -15,6 +33,10 @@ export class FeeCollectedEvent {
 	@prop({ required: true, type: Number })
 	public chainId!: number;
 
+	/** FeeCollector deployment that emitted the event (lowercase). Tells deployments on the same chain apart. */
+	@prop({ required: true, type: String })
+	public contractAddress!: string;
+
 	@prop({ required: true, type: Number })
 	public blockNumber!: number;
 
@@ -47,6 +69,67 @@ export class FeeCollectedEvent {
 	@prop({ required: true, type: Number })
 	public blockTimestamp!: number;
 
+	/**
+	 * Sender of the transaction that paid the fee (lowercase). This and the other `tx*` fields are only set
+	 * on chains with transaction enrichment switched on.
+	 */
+	@prop({ type: String })
+	public txFrom?: string;
+
+	/** Contract the transaction called (lowercase), e.g. the LI.FI diamond; null for contract creations. */
+	@prop({ type: String })
+	public txTo?: string | null;
+
+	/** Gas used by the whole transaction, as a decimal string. */
+	@prop({ type: String })
+	public txGasUsed?: string;
+
+	/** Price paid per unit of gas (wei), as a decimal string. */
+	@prop({ type: String })
+	public txEffectiveGasPrice?: string;
+
+	/** 4-byte selector of the method the transaction called (e.g. `0x4630a0d8`); null for plain transfers. */
+	@prop({ type: String })
+	public txMethodSelector?: string | null;
+
+	/** Missing on events indexed before USD pricing until migration 003 marks them `pending`. */
+	@prop({ type: String, enum: PRICE_STATUSES })
+	public priceStatus?: PriceStatus;
+
+	/** Set while the event is `unpriced`. */
+	@prop({ type: String, enum: UNPRICED_REASONS })
+	public unpricedReason?: UnpricedReason;
+
+	/** USD price of one whole token at `blockTimestamp`; set once the event is `priced`. */
+	@prop({ type: Number })
+	public tokenPriceUsd?: number;
+
+	/** `integratorFee` in USD at `blockTimestamp`; set once the event is `priced`. */
+	@prop({ type: Number })
+	public integratorFeeUsd?: number;
+
+	/** `lifiFee` in USD at `blockTimestamp`; set once the event is `priced`. */
+	@prop({ type: Number })
+	public lifiFeeUsd?: number;
+
+	/** When the pricing pass last looked at the event. */
+	@prop({ type: Date })
+	public pricedAt?: Date;
+
+	/**
+	 * Set when a reorg rolled the event's block back, or a verification repair found the chain doesn't have it;
+	 * orphaned events are kept for the history.
+	 */
+	@prop({ type: Date })
+	public orphanedAt?: Date;
+
+	/**
+	 * The reorg that orphaned the event (or the `verification_runs` id of the repair); null or missing while the
+	 * event is canonical.
+	 */
+	@prop({ ref: () => Reorg, default: null })
+	public reorgId?: Ref<Reorg> | null;
+
 	public createdAt!: Date;
 }
 
@@ -0,0 +1,64 @@
+import { getModelForClass, index, modelOptions, prop, type Ref } from "@typegoose/typegoose";
+
+import { Reorg } from "./reorg";
+
+// Integrator fee withdrawals (`FeesWithdrawn`). Same uniqueness rules as `fee_collected_events`: re-scanned
+// ranges never duplicate a withdrawal, and one re-mined after a reorg is indexed again next to its orphaned copy.
+@index({ chainId: 1, txHash: 1, logIndex: 1, reorgId: 1 }, { unique: true })
+// Query indexes for the REST API: withdrawals in chain order, optionally for a single integrator
+@index({ blockNumber: 1, logIndex: 1 })
+@index({ to: 1, blockNumber: 1, logIndex: 1 })
+@modelOptions({
+	schemaOptions: {
+		timestamps: { createdAt: true, updatedAt: false },
+		collection: "fees_withdrawn_events",
+	},
+})
+export class FeesWithdrawnEvent {
+	@prop({ required: true, type: Number })
+	public chainId!: number;
+
+	/** FeeCollector deployment that emitted the event (lowercase). */
+	@prop({ required: true, type: String })
+	public contractAddress!: string;
+
+	@prop({ required: true, type: Number })
+	public blockNumber!: number;
+
+	@prop({ required: true, type: String })
+	public blockHash!: string;
+
+	@prop({ required: true, type: String })
+	public txHash!: string;
+
+	@prop({ required: true, type: Number })
+	public logIndex!: number;
+
+	/** EVM address of the withdrawn token (lowercase). */
+	@prop({ required: true, type: String })
+	public token!: string;
+
+	/** The integrator withdrawing its accumulated fees (lowercase); the contract only pays out to the caller. */
+	@prop({ required: true, type: String })
+	public to!: string;
+
+	/** Withdrawn amount — stored as a string for BigNumber precision safety. */
+	@prop({ required: true, type: String })
+	public amount!: string;
+
+	/** Block timestamp as a unix epoch (seconds). */
+	@prop({ required: true, type: Number })
+	public blockTimestamp!: number;
+
+	/** Set when a reorg rolled the event's block back. */
+	@prop({ type: Date })
+	public orphanedAt?: Date;
+
+	/** The reorg that orphaned the event; null while the event is canonical. */
+	@prop({ ref: () => Reorg, default: null })
+	public reorgId?: Ref<Reorg> | null;
+
+	public createdAt!: Date;
+}
+
+export const FeesWithdrawnEventModel = getModelForClass(FeesWithdrawnEvent);
@@ -0,0 +1,63 @@
+import { getModelForClass, index, modelOptions, prop } from "@typegoose/typegoose";
+
+// One document per integrator, chain and token, derived from the canonical events of that key up to
+// `appliedThroughBlock`. Amounts are decimal strings: they are summed with BigInt, never as JS numbers.
+@index({ integrator: 1, chainId: 1, token: 1 }, { unique: true })
+@modelOptions({
+	schemaOptions: {
+		collection: "integrator_balances",
+	},
+})
+export class IntegratorBalance {
+	@prop({ required: true, type: Number })
+	public chainId!: number;
+
+	/** EVM address of the integrator (lowercase). */
+	@prop({ required: true, type: String })
+	public integrator!: string;
+
+	/** EVM address of the token (lowercase). */
+	@prop({ required: true, type: String })
+	public token!: string;
+
+	/** Sum of `integratorFee` over the integrator's canonical FeesCollected events. */
+	@prop({ required: true, type: String })
+	public collected!: string;
+
+	/** Sum of `amount` over the integrator's canonical FeesWithdrawn events. */
+	@prop({ required: true, type: String })
+	public withdrawn!: string;
+
+	/**
+	 * `collected - withdrawn`: what the integrator can still withdraw. Negative when the integrator withdrew
+	 * fees collected before the indexed range.
+	 */
+	@prop({ required: true, type: String })
+	public outstanding!: string;
+
+	/** Sum of `integratorFeeUsd` over the integrator's priced canonical FeesCollected events. */
+	@prop({ required: true, type: Number, default: 0 })
+	public integratorFeeUsd!: number;
+
+	/** Sum of `lifiFeeUsd` over the integrator's priced canonical FeesCollected events. */
+	@prop({ required: true, type: Number, default: 0 })
+	public lifiFeeUsd!: number;
+
+	/** Canonical FeesCollected events not (yet) priced, and so missing from the USD sums. */
+	@prop({ required: true, type: Number, default: 0 })
+	public unpricedEvents!: number;
+
+	/**
+	 * Last block whose canonical events the sums count. Sync batches add the events above it and move it up;
+	 * every write is conditioned on the value it read, so concurrent writers (e.g. the worker and a backfill)
+	 * never count an event twice. Missing on balances stored before it, which the next write recomputes.
+	 */
+	@prop({ type: Number })
+	public appliedThroughBlock?: number;
+
+	/** When the sums were last written. */
+	@prop({ required: true, type: Date })
+	public computedAt!: Date;
+}
+
+export const IntegratorBalanceModel = getModelForClass(IntegratorBalance);
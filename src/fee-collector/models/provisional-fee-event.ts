@@ -0,0 +1,51 @@
+import { getModelForClass, index, modelOptions, prop } from "@typegoose/typegoose";
+
+// FeesCollected events pushed by a log subscription that haven't reached the confirmation depth yet.
+// They live apart from `fee_collected_events` so nothing unconfirmed is ever served as final; the
+// polling sync removes them once it has indexed (or not found) their block.
+@index({ chainId: 1, txHash: 1, logIndex: 1 }, { unique: true })
+@index({ chainId: 1, blockNumber: 1 })
+@modelOptions({
+	schemaOptions: {
+		timestamps: { createdAt: true, updatedAt: false },
+		collection: "provisional_fee_events",
+	},
+})
+export class ProvisionalFeeEvent {
+	@prop({ required: true, type: Number })
+	public chainId!: number;
+
+	@prop({ required: true, type: String })
+	public contractAddress!: string;
+
+	@prop({ required: true, type: Number })
+	public blockNumber!: number;
+
+	@prop({ required: true, type: String })
+	public blockHash!: string;
+
+	@prop({ required: true, type: String })
+	public txHash!: string;
+
+	@prop({ required: true, type: Number })
+	public logIndex!: number;
+
+	@prop({ required: true, type: String })
+	public token!: string;
+
+	@prop({ required: true, type: String })
+	public integrator!: string;
+
+	@prop({ required: true, type: String })
+	public integratorFee!: string;
+
+	@prop({ required: true, type: String })
+	public lifiFee!: string;
+
+	@prop({ required: true, type: Number })
+	public blockTimestamp!: number;
+
+	public createdAt!: Date;
+}
+
+export const ProvisionalFeeEventModel = getModelForClass(ProvisionalFeeEvent);
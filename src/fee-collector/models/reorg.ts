@@ -0,0 +1,53 @@
+import { getModelForClass, index, modelOptions, prop } from "@typegoose/typegoose";
+
+// One document per reorg the sync rolled back. The unique key makes recording it idempotent: a rollback
+// interrupted half-way detects the same mismatch on the next cycle and resumes under the same reorg.
+@index({ chainId: 1, blockNumber: 1, oldBlockHash: 1 }, { unique: true })
+// Query index for the REST API's reorg history, newest first
+@index({ chainId: 1, _id: -1 })
+@modelOptions({
+	schemaOptions: {
+		timestamps: { createdAt: true, updatedAt: false },
+		collection: "reorgs",
+	},
+})
+export class Reorg {
+	@prop({ required: true, type: Number })
+	public chainId!: number;
+
+	/** The checkpoint block whose hash no longer matched the chain. */
+	@prop({ required: true, type: Number })
+	public blockNumber!: number;
+
+	/** Hash the sync had stored for `blockNumber`. */
+	@prop({ required: true, type: String })
+	public oldBlockHash!: string;
+
+	/** Hash the chain reported for `blockNumber` when the reorg was detected. */
+	@prop({ required: true, type: String })
+	public newBlockHash!: string;
+
+	/** Last block still on the canonical chain; everything above it was rolled back. */
+	@prop({ required: true, type: Number })
+	public commonAncestorBlock!: number;
+
+	/** Blocks rolled back: `blockNumber - commonAncestorBlock`. */
+	@prop({ required: true, type: Number })
+	public depth!: number;
+
+	/** How many indexed events were orphaned by the rollback. */
+	@prop({ required: true, type: Number })
+	public orphanedEvents!: number;
+
+	/** How many indexed FeesWithdrawn / LiFiFeesWithdrawn events were orphaned by the rollback. */
+	@prop({ type: Number, default: 0 })
+	public orphanedWithdrawals!: number;
+
+	/** Integrators (lowercase) that had at least one orphaned event or withdrawal. */
+	@prop({ type: () => [String], default: [] })
+	public affectedIntegrators!: string[];
+
+	public createdAt!: Date;
+}
+
+export const ReorgModel = getModelForClass(Reorg);
@@ -0,0 +1,45 @@
+import { getModelForClass, index, modelOptions, prop } from "@typegoose/typegoose";
+
+// Metadata of every token seen in an indexed event, resolved once per chain and address.
+@index({ chainId: 1, address: 1 }, { unique: true })
+@modelOptions({
+	schemaOptions: {
+		timestamps: { createdAt: true, updatedAt: false },
+		collection: "tokens",
+	},
+})
+export class Token {
+	@prop({ required: true, type: Number })
+	public chainId!: number;
+
+	/** EVM address of the token (lowercase); the zero address for the chain's native token. */
+	@prop({ required: true, type: String })
+	public address!: string;
+
+	/** Null when the token contract doesn't implement `symbol()`. */
+	@prop({ type: String, default: null })
+	public symbol!: string | null;
+
+	/** Null when the token contract doesn't implement `name()`. */
+	@prop({ type: String, default: null })
+	public name!: string | null;
+
+	/** Null when the token contract doesn't implement `decimals()`; its amounts can't be formatted then. */
+	@prop({ type: Number, default: null })
+	public decimals!: number | null;
+
+	/** The chain's native token rather than an ERC-20 contract. */
+	@prop({ required: true, type: Boolean })
+	public native!: boolean;
+
+	/**
+	 * Set while a getter came back null: a revert may be a half-deployed proxy or a flaky node rather than a
+	 * missing getter, so the token is read again the first time it's seen after this. Unset once complete.
+	 */
+	@prop({ type: Date })
+	public retryAfter?: Date;
+
+	public createdAt!: Date;
+}
+
+export const TokenModel = getModelForClass(Token);
@@ -0,0 +1,62 @@
+import { getModelForClass, index, modelOptions, prop, type Ref, Severity } from "@typegoose/typegoose";
+
+import { VerificationRun } from "./verification-run";
+
+/**
+ * How the stored events of a block range differ from the chain's: an on-chain event with no stored copy
+ * (`missing`), a stored event the chain doesn't have (`extra`), or one stored with other field values (`mismatched`).
+ */
+export const DISCREPANCY_KINDS = ["missing", "extra", "mismatched"] as const;
+export type DiscrepancyKind = (typeof DISCREPANCY_KINDS)[number];
+
+// One document per event a verification run found out of line with the chain
+@index({ runId: 1, blockNumber: 1, logIndex: 1 })
+// An event's findings across runs
+@index({ chainId: 1, txHash: 1, logIndex: 1 })
+@modelOptions({
+	schemaOptions: {
+		timestamps: { createdAt: true, updatedAt: false },
+		collection: "verification_discrepancies",
+	},
+	// The event snapshots are stored as they were, whatever their shape
+	options: { allowMixed: Severity.ALLOW },
+})
+export class VerificationDiscrepancy {
+	@prop({ required: true, ref: () => VerificationRun })
+	public runId!: Ref<VerificationRun>;
+
+	@prop({ required: true, type: Number })
+	public chainId!: number;
+
+	@prop({ required: true, type: String, enum: DISCREPANCY_KINDS })
+	public kind!: DiscrepancyKind;
+
+	@prop({ required: true, type: Number })
+	public blockNumber!: number;
+
+	@prop({ required: true, type: String })
+	public txHash!: string;
+
+	@prop({ required: true, type: Number })
+	public logIndex!: number;
+
+	/** Fields whose stored value differs from the chain's; set for `mismatched` events. */
+	@prop({ type: () => [String], default: [] })
+	public fields!: string[];
+
+	/** The event as parsed from the chain; missing for `extra` events. */
+	@prop({ type: Object })
+	public onChain?: Record<string, unknown>;
+
+	/** The stored document as it was before any repair; missing for `missing` events. */
+	@prop({ type: Object })
+	public stored?: Record<string, unknown>;
+
+	/** Whether the run fixed the discrepancy. */
+	@prop({ required: true, type: Boolean, default: false })
+	public repaired!: boolean;
+
+	public createdAt!: Date;
+}
+
+export const VerificationDiscrepancyModel = getModelForClass(VerificationDiscrepancy);
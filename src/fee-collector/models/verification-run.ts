@@ -0,0 +1,76 @@
+import { getModelForClass, index, modelOptions, prop } from "@typegoose/typegoose";
+
+export const VERIFICATION_STATUSES = ["running", "done", "failed", "aborted"] as const;
+export type VerificationStatus = (typeof VERIFICATION_STATUSES)[number];
+
+// One document per `verify` run, kept as its audit record: the range it re-scanned, what it found and what it
+// repaired. The discrepancies themselves are in `verification_discrepancies`. Lists a chain's runs, newest first
+@index({ chainId: 1, _id: -1 })
+@modelOptions({
+	schemaOptions: {
+		timestamps: { createdAt: true, updatedAt: true },
+		collection: "verification_runs",
+	},
+})
+export class VerificationRun {
+	@prop({ required: true, type: Number })
+	public chainId!: number;
+
+	@prop({ required: true, type: Number })
+	public fromBlock!: number;
+
+	/** Last block of the range (inclusive). */
+	@prop({ required: true, type: Number })
+	public toBlock!: number;
+
+	/** Whether the run was asked to fix what it found, not only to report it. */
+	@prop({ required: true, type: Boolean })
+	public repair!: boolean;
+
+	@prop({ required: true, type: String, enum: VERIFICATION_STATUSES })
+	public status!: VerificationStatus;
+
+	/** Progress through the range; `fromBlock - 1` until the first batch is compared. */
+	@prop({ required: true, type: Number })
+	public lastVerifiedBlock!: number;
+
+	/** FeesCollected events the chain returned for the verified blocks. */
+	@prop({ required: true, type: Number, default: 0 })
+	public onChainEvents!: number;
+
+	/** Canonical events stored for the verified blocks. */
+	@prop({ required: true, type: Number, default: 0 })
+	public storedEvents!: number;
+
+	/** On-chain events with no stored copy. */
+	@prop({ required: true, type: Number, default: 0 })
+	public missing!: number;
+
+	/** Stored events the chain doesn't have. */
+	@prop({ required: true, type: Number, default: 0 })
+	public extra!: number;
+
+	/** Events stored with field values other than the chain's. */
+	@prop({ required: true, type: Number, default: 0 })
+	public mismatched!: number;
+
+	/** On-chain logs that failed to parse, so they couldn't be compared; the sync dead-letters them. */
+	@prop({ required: true, type: Number, default: 0 })
+	public unparsed!: number;
+
+	/** Discrepancies the run fixed; only with `repair`. */
+	@prop({ required: true, type: Number, default: 0 })
+	public repaired!: number;
+
+	/** Message of the error that failed the run. */
+	@prop({ type: String })
+	public lastError?: string;
+
+	@prop({ type: Date })
+	public completedAt?: Date;
+
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+export const VerificationRunModel = getModelForClass(VerificationRun);
@@ -0,0 +1,26 @@
+import { getModelForClass, index, modelOptions, prop } from "@typegoose/typegoose";
+
+@index({ instanceId: 1 }, { unique: true })
+// Lets MongoDB clean up registrations of crashed workers. The TTL monitor only runs about once a
+// minute, so readers must still filter on `expiresAt` themselves.
+@index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+@modelOptions({
+	schemaOptions: {
+		timestamps: { createdAt: true, updatedAt: true },
+		collection: "worker_instances",
+	},
+})
+export class WorkerInstance {
+	/** Same identifier the worker uses as its lease owner. */
+	@prop({ required: true, type: String })
+	public instanceId!: string;
+
+	/** The instance counts as dead (and loses its chains) once this point in time has passed. */
+	@prop({ required: true, type: Date })
+	public expiresAt!: Date;
+
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+export const WorkerInstanceModel = getModelForClass(WorkerInstance);
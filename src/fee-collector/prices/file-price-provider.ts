@@ -0,0 +1,137 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { z } from "zod";
+
+import type { PriceProvider } from "./price-provider";
+
+interface PricePoint {
+	timestamp: number;
+	usd: number;
+}
+
+interface PriceSeries {
+	/** Points sorted by timestamp, oldest first. */
+	points: PricePoint[];
+	/** How long a point stays valid without a newer one; null when it never goes stale. */
+	maxAgeSeconds: number | null;
+}
+
+const priceFileSchema = z
+	.object({
+		prices: z.array(
+			z
+				.object({
+					chainId: z.number().int().positive(),
+					token: z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Must be a valid EVM address"),
+					// Only there for whoever edits the file
+					symbol: z.string().optional(),
+					maxAgeSeconds: z.number().int().positive().nullable().optional(),
+					points: z
+						.array(z.object({ timestamp: z.number().int().nonnegative(), usd: z.number().nonnegative() }).strict())
+						.min(1),
+				})
+				.strict(),
+		),
+	})
+	.strict()
+	.superRefine((file, ctx) => {
+		const seen = new Set<string>();
+		for (const [i, series] of file.prices.entries()) {
+			const key = seriesKey(series.chainId, series.token);
+			if (seen.has(key)) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: ["prices", i, "token"],
+					message: `Duplicate price series for token ${series.token} on chain ${series.chainId}`,
+				});
+			}
+			seen.add(key);
+		}
+	});
+
+// ------------------
+// Public API
+// ------------------
+
+/**
+ * Builds a price provider over the parsed content of a price file:
+ *
+ * `{ "prices": [{ "chainId": 137, "token": "0x…", "points": [{ "timestamp": 1735689600, "usd": 0.45 }] }] }`
+ *
+ * A token is priced at its latest point at or before the requested timestamp. That point only counts while it
+ * is at most `maxAgeSeconds` old (the series' own value, else `defaultMaxAgeSeconds`); a series with
+ * `"maxAgeSeconds": null` never goes stale, which suits pegged stablecoins.
+ */
+export function createFilePriceProvider(raw: unknown, defaultMaxAgeSeconds: number): PriceProvider {
+	const parsed = priceFileSchema.safeParse(raw);
+
+	if (!parsed.success) {
+		const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+		throw new Error(`Invalid price file: ${issues.join("; ")}`);
+	}
+
+	const series = new Map<string, PriceSeries>(
+		parsed.data.prices.map((entry) => [
+			seriesKey(entry.chainId, entry.token),
+			{
+				points: [...entry.points].sort((a, b) => a.timestamp - b.timestamp),
+				maxAgeSeconds: entry.maxAgeSeconds === undefined ? defaultMaxAgeSeconds : entry.maxAgeSeconds,
+			},
+		]),
+	);
+
+	return {
+		async getUsdPrice(chainId, token, timestamp) {
+			const entry = series.get(seriesKey(chainId, token));
+			if (!entry) return null;
+
+			const point = latestPointAt(entry.points, timestamp);
+			if (!point) return null;
+			if (entry.maxAgeSeconds !== null && timestamp - point.timestamp > entry.maxAgeSeconds) return null;
+			return point.usd;
+		},
+	};
+}
+
+/** Reads the price file at `filePath` (relative paths resolve from the working directory) into a price provider. */
+export function loadFilePriceProvider(filePath: string, defaultMaxAgeSeconds: number): PriceProvider {
+	const absolutePath = resolve(filePath);
+	let raw: unknown;
+
+	try {
+		raw = JSON.parse(readFileSync(absolutePath, "utf-8"));
+	} catch (err) {
+		throw new Error(`Could not read price file ${absolutePath}: ${(err as Error).message}`);
+	}
+
+	try {
+		return createFilePriceProvider(raw, defaultMaxAgeSeconds);
+	} catch (err) {
+		throw new Error(`${(err as Error).message} (in ${absolutePath})`);
+	}
+}
+
+// -------------------
+// Internal helpers
+// -------------------
+function seriesKey(chainId: number, token: string): string {
+	return `${chainId}:${token.toLowerCase()}`;
+}
+
+/** Binary search for the last point with `timestamp <= at`. */
+function latestPointAt(points: PricePoint[], at: number): PricePoint | undefined {
+	let low = 0;
+	let high = points.length - 1;
+	let found: PricePoint | undefined;
+
+	while (low <= high) {
+		const mid = (low + high) >> 1;
+		if (points[mid].timestamp <= at) {
+			found = points[mid];
+			low = mid + 1;
+		} else {
+			high = mid - 1;
+		}
+	}
+	return found;
+}
@@ -0,0 +1,12 @@
+/** Source of historical token prices, used to value collected fees in USD at the time they were collected. */
+export interface PriceProvider {
+	/**
+	 * USD price of one whole token (not one base unit) at `timestamp`.
+	 *
+	 * @param chainId - Chain the token lives on.
+	 * @param token - EVM address of the token (lowercase); the zero address for the chain's native token.
+	 * @param timestamp - Unix epoch (seconds) to price at, usually the block timestamp of the event.
+	 * @returns the price, or null when the source has none for that moment.
+	 */
+	getUsdPrice(chainId: number, token: string, timestamp: number): Promise<number | null>;
+}
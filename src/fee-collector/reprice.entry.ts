@@ -0,0 +1,13 @@
+import { pino } from "pino";
+import { prettyTransport } from "@/common/utils/logger";
+import { run } from "@/fee-collector/reprice";
+
+const logger = pino({
+	name: "fee-collector-reprice",
+	transport: prettyTransport(),
+});
+
+run(process.argv, logger).catch((err) => {
+	logger.error({ err }, "repricing failed");
+	process.exit(1);
+});
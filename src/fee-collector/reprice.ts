@@ -0,0 +1,31 @@
+import type { Logger } from "pino";
+import { connectMongo, disconnectMongo } from "@/common/db/mongo";
+import { CHAIN_REGISTRY } from "@/fee-collector/config/chains.config";
+import { env } from "@/fee-collector/config/env.config";
+import { loadFilePriceProvider } from "@/fee-collector/prices/file-price-provider";
+import { priceFees, repriceFees } from "@/fee-collector/services/pricing.service";
+import { parseChainFlag } from "@/fee-collector/worker.helpers";
+
+/**
+ * Values fee events in USD outside the worker: `reprice [--chain polygon,ethereum]`.
+ *
+ * Prices each chain's pending events (e.g. those of a backfilled chain no worker syncs), then retries the
+ * unpriced ones against the current price file. Without `--chain`, every enabled chain is repriced.
+ */
+export async function run(argv: string[], logger: Logger): Promise<void> {
+	const chainNames = parseChainFlag(argv, CHAIN_REGISTRY);
+	const chains = CHAIN_REGISTRY.filter((chain) => chainNames.includes(chain.name));
+	const priceProvider = loadFilePriceProvider(env.FEE_COLLECTOR_PRICES_FILE, env.FEE_COLLECTOR_PRICE_MAX_AGE_SECONDS);
+
+	await connectMongo(env.MONGO_URI, env.MONGO_DB);
+
+	try {
+		for (const chain of chains) {
+			const pending = await priceFees(priceProvider, chain.chainId, logger);
+			const retried = await repriceFees(priceProvider, chain.chainId, logger);
+			logger.info({ chain: chain.name, pending, retried }, "repricing complete");
+		}
+	} finally {
+		await disconnectMongo();
+	}
+}
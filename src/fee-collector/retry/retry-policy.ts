@@ -0,0 +1,244 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+import { isRangeTooLargeError } from "../services/batch-size.service";
+
+/**
+ * How a failed call should be retried:
+ * - `transient`: network blips, timeouts, 5xx responses, Mongo failovers; retried with backoff
+ * - `rate-limited`: the provider asked us to slow down; retried no earlier than its hint, if it gave one
+ * - `fatal`: the same call fails the same way again (bad arguments, unknown method, validation); not retried
+ */
+export type ErrorClass = "transient" | "rate-limited" | "fatal";
+
+export interface ErrorClassification {
+	kind: ErrorClass;
+	/** How long the provider asked us to wait, from a `Retry-After` header or a "retry in 10s" message. */
+	retryAfterMs?: number;
+}
+
+export interface RetryPolicy {
+	/** Attempts in total, the first one included. */
+	maxAttempts: number;
+	/** Delay before the second attempt; doubles with each attempt after that. */
+	initialDelayMs: number;
+	/** Cap on the backoff. A rate-limit hint above it isn't waited out: the error is rethrown right away. */
+	maxDelayMs: number;
+	/** Share of each backoff delay that is randomized (0 to 1), so workers that failed together don't retry together. */
+	jitter: number;
+}
+
+/** A chain's retry policy, with overrides for operations that need their own. */
+export interface RetryPolicies extends RetryPolicy {
+	/** Keyed by the label the operation passes to `withRetry`, e.g. `queryBatchLogs` or `refreshBalances`. */
+	operations: Record<string, Partial<RetryPolicy>>;
+}
+
+/** The policy outside a chain's scope (e.g. in tests) and the fallback of the env defaults. */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 3,
+	initialDelayMs: 5000,
+	maxDelayMs: 60_000,
+	jitter: 0.2,
+};
+
+// ethers v5 error codes of calls that were rejected for what they asked, not for how the request went
+const FATAL_ETHERS_CODES = new Set([
+	"INVALID_ARGUMENT",
+	"MISSING_ARGUMENT",
+	"UNEXPECTED_ARGUMENT",
+	"NUMERIC_FAULT",
+	"BUFFER_OVERRUN",
+	"CALL_EXCEPTION",
+	"NOT_IMPLEMENTED",
+	"UNSUPPORTED_OPERATION",
+]);
+
+// JSON-RPC: invalid request, method not found, invalid params
+const FATAL_RPC_CODES = new Set([-32600, -32601, -32602]);
+
+// JSON-RPC "limit exceeded", used by Infura and others for rate limiting
+const RATE_LIMITED_RPC_CODES = new Set([-32005]);
+
+// MongoDB: BadValue, FailedToParse, Unauthorized, TypeMismatch, AuthenticationFailed, DocumentValidationFailure
+const FATAL_MONGO_CODES = new Set([2, 9, 13, 14, 18, 121]);
+
+// Mongoose errors of documents and queries that no retry will make valid
+const FATAL_ERROR_NAMES = new Set(["ValidationError", "CastError", "StrictModeError", "MongoParseError"]);
+
+const RATE_LIMITED_PATTERNS = [
+	/rate.?limit/i,
+	/too many requests/i,
+	/\b429\b/,
+	/exceeded .*(capacity|quota|compute units)/i,
+	/request limit/i,
+];
+
+// "retry in 10s", "try again in 30 seconds", "retry after 500ms"
+const RETRY_HINT_PATTERN =
+	/(?:retry|try again)\s+(?:in|after)\s+(\d+(?:\.\d+)?)\s*(ms|milliseconds?|s|secs?|seconds?|m|mins?|minutes?)?\b/i;
+
+// How deep the wrapped errors of ethers (`error`, `serverError`) and of `cause` chains are searched
+const MAX_ERROR_DEPTH = 4;
+
+// ------------------
+// Public API
+// ------------------
+
+/**
+ * Sorts an error into transient, rate-limited or fatal. ethers v5 wraps the provider's answer in a
+ * `SERVER_ERROR` with the original in `error` and the raw response in `body`, so the whole chain of wrapped
+ * errors is checked. Anything not recognized is transient: retrying an unknown error is the safe default.
+ */
+export function classifyRetryError(err: unknown): ErrorClassification {
+	const chain = unwrapErrors(err);
+
+	// Before the rate limit: Infura and others answer a too-large eth_getLogs range with -32005 as well, and
+	// only a smaller range fixes that
+	if (chain.some(isRangeTooLargeError)) return { kind: "fatal" };
+	if (chain.some(isRateLimited)) {
+		const retryAfterMs = chain.map(retryHintMs).find((hint) => hint !== undefined);
+		return retryAfterMs === undefined ? { kind: "rate-limited" } : { kind: "rate-limited", retryAfterMs };
+	}
+	// The driver marks failover and network errors as safe to retry, whatever their code
+	if (chain.some(hasRetryableMongoLabel)) return { kind: "transient" };
+	if (chain.some(isFatal)) return { kind: "fatal" };
+
+	return { kind: "transient" };
+}
+
+/**
+ * The delay before retry number `attempt` (1 for the first retry), or null when the error shouldn't be
+ * retried in this call: it is fatal, or the provider asked for a longer wait than `maxDelayMs`. Backoff
+ * delays are randomized downwards by up to `jitter`; a rate-limit hint is a floor, randomized upwards.
+ */
+export function computeRetryDelay(
+	policy: RetryPolicy,
+	attempt: number,
+	classification: ErrorClassification,
+	random: () => number = Math.random,
+): number | null {
+	if (classification.kind === "fatal") return null;
+
+	const { retryAfterMs } = classification;
+	if (retryAfterMs !== undefined) {
+		if (retryAfterMs > policy.maxDelayMs) return null;
+		return Math.round(retryAfterMs * (1 + policy.jitter * random()));
+	}
+
+	const backoff = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (attempt - 1));
+	return Math.round(backoff * (1 - policy.jitter * random()));
+}
+
+/** The policy of the operation labeled `label`: its override on top of the chain's policy. */
+export function resolveRetryPolicy(policies: RetryPolicies | undefined, label: string): RetryPolicy {
+	if (!policies) return DEFAULT_RETRY_POLICY;
+
+	const { operations, ...policy } = policies;
+	return { ...policy, ...operations[label] };
+}
+
+const scope = new AsyncLocalStorage<RetryPolicies>();
+
+/**
+ * Runs `fn` with `policies` as the retry policies of every `withRetry` inside it, so the chain's settings
+ * reach the calls deep in a sync cycle without being passed down to each of them.
+ */
+export function runWithRetryPolicies<T>(policies: RetryPolicies, fn: () => Promise<T>): Promise<T> {
+	return scope.run(policies, fn);
+}
+
+/** The policies of the chain being worked on; undefined outside a scope, where the default policy applies. */
+export function currentRetryPolicies(): RetryPolicies | undefined {
+	return scope.getStore();
+}
+
+// -------------------
+// Internal helpers
+// -------------------
+type ErrorLike = {
+	name?: unknown;
+	code?: unknown;
+	status?: unknown;
+	message?: unknown;
+	reason?: unknown;
+	body?: unknown;
+	headers?: unknown;
+	errorLabels?: unknown;
+	error?: unknown;
+	serverError?: unknown;
+	cause?: unknown;
+};
+
+/** `err` followed by the errors it wraps, outermost first. */
+function unwrapErrors(err: unknown): ErrorLike[] {
+	const chain: ErrorLike[] = [];
+	let queue: unknown[] = [err];
+
+	for (let depth = 0; depth < MAX_ERROR_DEPTH && queue.length > 0; depth++) {
+		const next: unknown[] = [];
+		for (const candidate of queue) {
+			if (!candidate || typeof candidate !== "object" || chain.includes(candidate)) continue;
+			const error = candidate as ErrorLike;
+			chain.push(error);
+			next.push(error.error, error.serverError, error.cause);
+		}
+		queue = next;
+	}
+	return chain;
+}
+
+function textOf(error: ErrorLike): string {
+	return [error.message, error.reason, error.body].filter((part): part is string => typeof part === "string").join(" ");
+}
+
+function isRateLimited(error: ErrorLike): boolean {
+	if (error.status === 429 || error.code === 429) return true;
+	if (typeof error.code === "number" && RATE_LIMITED_RPC_CODES.has(error.code)) return true;
+	return RATE_LIMITED_PATTERNS.some((pattern) => pattern.test(textOf(error)));
+}
+
+function isFatal(error: ErrorLike): boolean {
+	if (typeof error.name === "string" && FATAL_ERROR_NAMES.has(error.name)) return true;
+	if (typeof error.code === "string") return FATAL_ETHERS_CODES.has(error.code);
+	if (typeof error.code !== "number") return false;
+
+	// Mongo's codes are positive and JSON-RPC's negative, but only Mongo errors are named after the driver
+	const isMongoError = typeof error.name === "string" && error.name.startsWith("Mongo");
+	return isMongoError ? FATAL_MONGO_CODES.has(error.code) : FATAL_RPC_CODES.has(error.code);
+}
+
+function hasRetryableMongoLabel(error: ErrorLike): boolean {
+	return (
+		Array.isArray(error.errorLabels) &&
+		error.errorLabels.some((label) => label === "RetryableWriteError" || label === "TransientTransactionError")
+	);
+}
+
+/** The wait the provider asked for, from the `Retry-After` header (seconds or a date) or the error message. */
+function retryHintMs(error: ErrorLike): number | undefined {
+	const header = readRetryAfterHeader(error.headers);
+	if (header !== undefined) {
+		const seconds = Number(header);
+		if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+		const date = Date.parse(header);
+		if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+	}
+
+	const match = RETRY_HINT_PATTERN.exec(textOf(error));
+	if (!match) return undefined;
+
+	const value = Number(match[1]);
+	const unit = (match[2] ?? "s").toLowerCase();
+	if (unit.startsWith("ms") || unit.startsWith("milli")) return value;
+	if (unit.startsWith("m")) return value * 60_000;
+	return value * 1000;
+}
+
+/** Reads `Retry-After` from ethers' plain header object (lower-cased names) or a fetch `Headers` instance. */
+function readRetryAfterHeader(headers: unknown): string | undefined {
+	if (!headers || typeof headers !== "object") return undefined;
+	if (headers instanceof Headers) return headers.get("retry-after") ?? undefined;
+
+	const value = (headers as Record<string, unknown>)["retry-after"];
+	return typeof value === "string" || typeof value === "number" ? String(value) : undefined;
+}
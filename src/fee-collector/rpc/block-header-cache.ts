@@ -0,0 +1,49 @@
+import type { ethers } from "ethers";
+
+/**
+ * Bounded LRU cache of block headers by number, so a header fetched for a timestamp isn't fetched again for the
+ * checkpoint or the next reorg check.
+ *
+ * Headers can only change through a reorg. Storing a header whose hash differs from the cached one therefore
+ * evicts every cached header above it too: those belonged to the abandoned fork.
+ */
+export class BlockHeaderCache {
+	// Map iteration follows insertion order, so re-inserting on access keeps the least recently used first
+	private readonly blocks = new Map<number, ethers.providers.Block>();
+
+	constructor(private readonly maxSize: number) {}
+
+	get size(): number {
+		return this.blocks.size;
+	}
+
+	get(blockNumber: number): ethers.providers.Block | undefined {
+		const block = this.blocks.get(blockNumber);
+		if (block) {
+			this.blocks.delete(blockNumber);
+			this.blocks.set(blockNumber, block);
+		}
+		return block;
+	}
+
+	set(block: ethers.providers.Block): void {
+		const cached = this.blocks.get(block.number);
+		if (cached && cached.hash !== block.hash) {
+			this.evictAbove(block.number);
+		}
+
+		this.blocks.delete(block.number);
+		this.blocks.set(block.number, block);
+
+		for (const blockNumber of this.blocks.keys()) {
+			if (this.blocks.size <= this.maxSize) break;
+			this.blocks.delete(blockNumber);
+		}
+	}
+
+	private evictAbove(blockNumber: number): void {
+		for (const cachedNumber of [...this.blocks.keys()]) {
+			if (cachedNumber > blockNumber) this.blocks.delete(cachedNumber);
+		}
+	}
+}
@@ -0,0 +1,220 @@
+import type { Logger } from "pino";
+
+import type { RateLimit } from "@/fee-collector/rpc/request-scheduler";
+import { isRangeTooLargeError } from "@/fee-collector/services/batch-size.service";
+
+export interface RpcEndpoint {
+	url: string;
+	/** Lower values are tried first. */
+	priority: number;
+	/** Endpoints with the same group share one rate limit; by default, endpoints on the same origin do. */
+	rateLimitGroup?: string;
+	/** Overrides of the client's default rate limit for this endpoint. */
+	rateLimit?: Partial<RateLimit>;
+}
+
+export interface EndpointPoolOptions {
+	/** Consecutive failures after which an endpoint is taken out of rotation. */
+	maxConsecutiveFailures: number;
+	/** How long an unhealthy endpoint stays out of rotation before it gets another chance. */
+	cooldownMs: number;
+}
+
+export interface EndpointHealth {
+	/** Endpoint URL reduced to its origin, so API keys in paths/queries never reach the logs. */
+	endpoint: string;
+	priority: number;
+	healthy: boolean;
+	successes: number;
+	failures: number;
+	consecutiveFailures: number;
+	avgLatencyMs: number | null;
+	cooldownUntil: Date | null;
+	lastError: string | null;
+}
+
+/** Outcome of a call to one endpoint, shaped like `Promise.allSettled`'s results. */
+export type EndpointResult<R> =
+	| { endpoint: string; status: "fulfilled"; value: R }
+	| { endpoint: string; status: "rejected"; reason: unknown };
+
+export class RpcQuorumError extends Error {
+	constructor(label: string, details: string) {
+		super(`No quorum for ${label}: ${details}`);
+		this.name = "RpcQuorumError";
+	}
+}
+
+interface EndpointState<T> {
+	endpoint: RpcEndpoint;
+	handle: T;
+	successes: number;
+	failures: number;
+	consecutiveFailures: number;
+	totalLatencyMs: number;
+	cooldownUntil: number;
+	lastError: string | null;
+}
+
+/**
+ * A set of interchangeable RPC endpoints for one chain.
+ *
+ * Calls go to the highest-priority healthy endpoint and fail over to the next one on error. An
+ * endpoint that fails `maxConsecutiveFailures` times in a row is taken out of rotation for
+ * `cooldownMs`; after that it is tried again, and a single further failure sends it straight back
+ * into cooldown. Errors caused by the request itself (block range too large) are passed straight
+ * to the caller without penalizing the endpoint.
+ *
+ * @typeParam T - Per-endpoint handle (e.g. a provider plus the contracts bound to it).
+ */
+export class RpcEndpointPool<T> {
+	private readonly states: EndpointState<T>[];
+
+	constructor(
+		endpoints: RpcEndpoint[],
+		createHandle: (endpoint: RpcEndpoint) => T,
+		private readonly options: EndpointPoolOptions,
+		private readonly log: Logger,
+	) {
+		if (endpoints.length === 0) {
+			throw new Error("At least one RPC endpoint is required");
+		}
+
+		this.states = [...endpoints]
+			.sort((a, b) => a.priority - b.priority)
+			.map((endpoint) => ({
+				endpoint,
+				handle: createHandle(endpoint),
+				successes: 0,
+				failures: 0,
+				consecutiveFailures: 0,
+				totalLatencyMs: 0,
+				cooldownUntil: 0,
+				lastError: null,
+			}));
+	}
+
+	get size(): number {
+		return this.states.length;
+	}
+
+	/** Runs `fn` against endpoints in priority order until one succeeds. */
+	async execute<R>(label: string, fn: (handle: T) => Promise<R>): Promise<R> {
+		let lastError: unknown;
+
+		for (const state of this.rotation()) {
+			try {
+				return await this.call(state, fn);
+			} catch (err) {
+				if (isRangeTooLargeError(err)) throw err;
+				lastError = err;
+				this.log.warn({ endpoint: redactRpcUrl(state.endpoint.url), label, err }, "rpc call failed, failing over");
+			}
+		}
+
+		throw lastError;
+	}
+
+	/**
+	 * Runs `fn` against every endpoint currently in rotation, in parallel.
+	 * Used for quorum reads; failed endpoints are simply left out of the results.
+	 */
+	async executeAll<R>(fn: (handle: T) => Promise<R>): Promise<{ queried: number; results: R[] }> {
+		const rotation = this.rotation();
+		const settled = await Promise.allSettled(rotation.map((state) => this.call(state, fn)));
+
+		return {
+			queried: rotation.length,
+			results: settled
+				.filter((result): result is PromiseFulfilledResult<Awaited<R>> => result.status === "fulfilled")
+				.map((result) => result.value),
+		};
+	}
+
+	/**
+	 * Runs `fn` against every endpoint, in rotation or not, in parallel. For checks about each endpoint itself
+	 * (e.g. which chain it serves), where failing over would hide the endpoint that is wrong.
+	 */
+	async executeEach<R>(fn: (handle: T) => Promise<R>): Promise<EndpointResult<R>[]> {
+		return Promise.all(
+			this.states.map(async (state): Promise<EndpointResult<R>> => {
+				const endpoint = redactRpcUrl(state.endpoint.url);
+				try {
+					return { endpoint, status: "fulfilled", value: await this.call(state, fn) };
+				} catch (reason) {
+					return { endpoint, status: "rejected", reason };
+				}
+			}),
+		);
+	}
+
+	getHealth(): EndpointHealth[] {
+		const now = Date.now();
+
+		return this.states.map((state) => ({
+			endpoint: redactRpcUrl(state.endpoint.url),
+			priority: state.endpoint.priority,
+			healthy: state.cooldownUntil <= now,
+			successes: state.successes,
+			failures: state.failures,
+			consecutiveFailures: state.consecutiveFailures,
+			avgLatencyMs: state.successes > 0 ? Math.round(state.totalLatencyMs / state.successes) : null,
+			cooldownUntil: state.cooldownUntil > now ? new Date(state.cooldownUntil) : null,
+			lastError: state.lastError,
+		}));
+	}
+
+	/**
+	 * Healthy endpoints by priority. If every endpoint is cooling down we'd rather try them anyway
+	 * (soonest-to-recover first) than stall the chain.
+	 */
+	private rotation(): EndpointState<T>[] {
+		const now = Date.now();
+		const healthy = this.states.filter((state) => state.cooldownUntil <= now);
+		if (healthy.length > 0) return healthy;
+
+		return [...this.states].sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+	}
+
+	private async call<R>(state: EndpointState<T>, fn: (handle: T) => Promise<R>): Promise<R> {
+		const startedAt = Date.now();
+
+		try {
+			const result = await fn(state.handle);
+			state.successes++;
+			state.consecutiveFailures = 0;
+			state.totalLatencyMs += Date.now() - startedAt;
+			return result;
+		} catch (err) {
+			if (!isRangeTooLargeError(err)) this.recordFailure(state, err);
+			throw err;
+		}
+	}
+
+	private recordFailure(state: EndpointState<T>, err: unknown): void {
+		state.failures++;
+		state.consecutiveFailures++;
+		state.lastError = err instanceof Error ? err.message : String(err);
+
+		if (state.consecutiveFailures >= this.options.maxConsecutiveFailures) {
+			state.cooldownUntil = Date.now() + this.options.cooldownMs;
+			this.log.warn(
+				{
+					endpoint: redactRpcUrl(state.endpoint.url),
+					consecutiveFailures: state.consecutiveFailures,
+					cooldownMs: this.options.cooldownMs,
+				},
+				"rpc endpoint taken out of rotation",
+			);
+		}
+	}
+}
+
+/** Reduces an RPC URL to its origin, dropping API keys that providers put in the path or query. */
+export function redactRpcUrl(url: string): string {
+	try {
+		return new URL(url).origin;
+	} catch {
+		return "<invalid url>";
+	}
+}
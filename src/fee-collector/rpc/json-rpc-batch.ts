@@ -0,0 +1,106 @@
+import { ethers } from "ethers";
+
+import { ScheduledJsonRpcProvider } from "@/fee-collector/rpc/request-scheduler";
+
+export interface JsonRpcRequest {
+	method: string;
+	params: unknown[];
+}
+
+interface JsonRpcResponse {
+	id?: number;
+	result?: unknown;
+	error?: { code?: number; message?: string };
+}
+
+/** A mined transaction and its receipt. */
+export interface TransactionWithReceipt {
+	transaction: ethers.providers.TransactionResponse;
+	receipt: ethers.providers.TransactionReceipt;
+}
+
+/** The endpoint rejected a batch, or answered part of it with an error. */
+export class JsonRpcBatchError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "JsonRpcBatchError";
+	}
+}
+
+// ------------------
+// Public API
+// ------------------
+
+/**
+ * Sends `requests` to the provider's endpoint as a single JSON-RPC batch (one HTTP request) and returns their
+ * results in request order. A failed request fails the whole batch, so the endpoint pool retries or fails over
+ * with the batch as a unit. On a scheduled provider the batch waits for a token per request in it.
+ */
+export async function sendJsonRpcBatch(
+	provider: ethers.providers.StaticJsonRpcProvider,
+	requests: JsonRpcRequest[],
+): Promise<unknown[]> {
+	if (requests.length === 0) return [];
+
+	const payload = requests.map(({ method, params }, id) => ({ jsonrpc: "2.0", id, method, params }));
+	const send = (): Promise<unknown> => ethers.utils.fetchJson(provider.connection, JSON.stringify(payload));
+	const response =
+		provider instanceof ScheduledJsonRpcProvider
+			? await provider.scheduler.schedule(send, requests.length)
+			: await send();
+
+	// Endpoints without batch support answer with a single error object instead of an array
+	if (!Array.isArray(response)) {
+		const message = (response as JsonRpcResponse | null)?.error?.message ?? "not an array";
+		throw new JsonRpcBatchError(`Batch of ${requests.length} requests rejected: ${message}`);
+	}
+
+	const responses = new Map((response as JsonRpcResponse[]).map((entry) => [entry.id, entry]));
+	return payload.map(({ id, method }) => {
+		const entry = responses.get(id);
+		if (!entry) {
+			throw new JsonRpcBatchError(`Batch response is missing ${method} (id ${id})`);
+		}
+		if (entry.error) {
+			throw new JsonRpcBatchError(`${method} (id ${id}) failed: ${entry.error.message} (code ${entry.error.code})`);
+		}
+		return entry.result;
+	});
+}
+
+/** Fetches the headers of `blockNumbers` with one `eth_getBlockByNumber` batch. Unknown blocks are null. */
+export async function getBlocksBatch(
+	provider: ethers.providers.StaticJsonRpcProvider,
+	blockNumbers: number[],
+): Promise<(ethers.providers.Block | null)[]> {
+	const results = await sendJsonRpcBatch(
+		provider,
+		blockNumbers.map((blockNumber) => ({
+			method: "eth_getBlockByNumber",
+			params: [`0x${blockNumber.toString(16)}`, false],
+		})),
+	);
+	return results.map((raw) => (raw ? provider.formatter.block(raw) : null));
+}
+
+/** Fetches each transaction and its receipt in one batch. Null for transactions the endpoint doesn't know (yet). */
+export async function getTransactionsBatch(
+	provider: ethers.providers.StaticJsonRpcProvider,
+	txHashes: string[],
+): Promise<(TransactionWithReceipt | null)[]> {
+	const results = await sendJsonRpcBatch(
+		provider,
+		txHashes.flatMap((txHash) => [
+			{ method: "eth_getTransactionByHash", params: [txHash] },
+			{ method: "eth_getTransactionReceipt", params: [txHash] },
+		]),
+	);
+	return txHashes.map((_txHash, i) => {
+		const [transaction, receipt] = [results[2 * i], results[2 * i + 1]];
+		if (!transaction || !receipt) return null;
+		return {
+			transaction: provider.formatter.transactionResponse(transaction),
+			receipt: provider.formatter.receipt(receipt),
+		};
+	});
+}
@@ -0,0 +1,178 @@
+import { ethers } from "ethers";
+
+export interface RateLimit {
+	/** Sustained request rate; the bucket holds one second's worth, so bursts are capped at the same number. 0 = no limit. */
+	requestsPerSecond: number;
+	/** Most requests in flight at once. */
+	maxConcurrency: number;
+}
+
+export interface SchedulerStats {
+	/** The rate-limit group: the endpoint's origin unless the chain registry names a shared group. */
+	key: string;
+	requestsPerSecond: number;
+	maxConcurrency: number;
+	/** Requests waiting for a token or a free slot. */
+	queued: number;
+	inFlight: number;
+}
+
+interface QueuedRequest {
+	cost: number;
+	start: () => void;
+}
+
+/**
+ * A token bucket in front of one RPC endpoint (or a group of endpoints on one provider account).
+ *
+ * Each request takes a token, a JSON-RPC batch one per call in it (capped at the bucket's size, so a large batch
+ * still gets through). Tokens refill at `requestsPerSecond`; requests that find the bucket empty, or
+ * `maxConcurrency` requests in flight, wait in a FIFO queue. The queue is strictly ordered: a batch waiting for
+ * enough tokens isn't overtaken by single requests, so it can't be starved.
+ */
+export class RequestScheduler {
+	private readonly queue: QueuedRequest[] = [];
+	private limits: RateLimit;
+	private tokens: number;
+	private refilledAt: number;
+	private inFlight = 0;
+	private timer: NodeJS.Timeout | null = null;
+
+	constructor(
+		readonly key: string,
+		limits: RateLimit,
+		private readonly now: () => number = Date.now,
+	) {
+		this.limits = { ...limits };
+		this.tokens = this.capacity;
+		this.refilledAt = this.now();
+	}
+
+	/** Runs `fn` once a slot and `cost` tokens are free. The result (or error) is `fn`'s own. */
+	schedule<R>(fn: () => Promise<R>, cost = 1): Promise<R> {
+		return new Promise<R>((resolve, reject) => {
+			this.queue.push({
+				cost,
+				start: () => {
+					this.inFlight++;
+					Promise.resolve()
+						.then(fn)
+						.then(resolve, reject)
+						.finally(() => {
+							this.inFlight--;
+							this.drain();
+						});
+				},
+			});
+			this.drain();
+		});
+	}
+
+	/**
+	 * Lowers the limits to `limits` where they are stricter. Endpoints that share the scheduler may be configured
+	 * differently; the provider's quota is what they have in common, so the strictest setting wins.
+	 */
+	restrict(limits: RateLimit): void {
+		this.refill();
+		const rate = (value: number) => (value === 0 ? Number.POSITIVE_INFINITY : value);
+		const requestsPerSecond = Math.min(rate(this.limits.requestsPerSecond), rate(limits.requestsPerSecond));
+		this.limits = {
+			requestsPerSecond: Number.isFinite(requestsPerSecond) ? requestsPerSecond : 0,
+			maxConcurrency: Math.min(this.limits.maxConcurrency, limits.maxConcurrency),
+		};
+		this.tokens = Math.min(this.tokens, this.capacity);
+	}
+
+	stats(): SchedulerStats {
+		return { key: this.key, ...this.limits, queued: this.queue.length, inFlight: this.inFlight };
+	}
+
+	private get capacity(): number {
+		return Math.max(1, this.limits.requestsPerSecond);
+	}
+
+	private drain(): void {
+		while (this.queue.length > 0 && this.inFlight < this.limits.maxConcurrency) {
+			const next = this.queue[0];
+			const waitMs = this.takeTokens(Math.min(next.cost, this.capacity));
+			if (waitMs > 0) {
+				this.wakeAfter(waitMs);
+				return;
+			}
+			this.queue.shift();
+			next.start();
+		}
+	}
+
+	/** Takes `cost` tokens and returns 0, or returns how long until there are enough of them. */
+	private takeTokens(cost: number): number {
+		if (this.limits.requestsPerSecond === 0) return 0;
+
+		this.refill();
+		if (this.tokens >= cost) {
+			this.tokens -= cost;
+			return 0;
+		}
+		return Math.ceil(((cost - this.tokens) / this.limits.requestsPerSecond) * 1000);
+	}
+
+	private refill(): void {
+		const now = this.now();
+		const refilled = ((now - this.refilledAt) / 1000) * this.limits.requestsPerSecond;
+		this.tokens = Math.min(this.capacity, this.tokens + refilled);
+		this.refilledAt = now;
+	}
+
+	private wakeAfter(ms: number): void {
+		if (this.timer) return;
+		this.timer = setTimeout(() => {
+			this.timer = null;
+			this.drain();
+		}, ms);
+	}
+}
+
+/**
+ * The process's schedulers, one per rate-limit group. Every chain's client takes its endpoints' schedulers from
+ * here, so chains whose endpoints share a group (the same origin, or a group named in the chain registry)
+ * share one budget.
+ */
+export class RequestSchedulerRegistry {
+	private readonly schedulers = new Map<string, RequestScheduler>();
+
+	/** The scheduler of `key`, created with `limits` or, if it exists, restricted to them. */
+	forKey(key: string, limits: RateLimit): RequestScheduler {
+		const existing = this.schedulers.get(key);
+		if (existing) {
+			existing.restrict(limits);
+			return existing;
+		}
+
+		const scheduler = new RequestScheduler(key, limits);
+		this.schedulers.set(key, scheduler);
+		return scheduler;
+	}
+
+	stats(): SchedulerStats[] {
+		return [...this.schedulers.values()].map((scheduler) => scheduler.stats());
+	}
+}
+
+export const rpcSchedulers = new RequestSchedulerRegistry();
+
+/**
+ * A `StaticJsonRpcProvider` whose requests wait for the endpoint's scheduler, the network detection and contract
+ * calls included. JSON-RPC batches bypass `send`; `sendJsonRpcBatch` schedules them through `schedule`.
+ */
+export class ScheduledJsonRpcProvider extends ethers.providers.StaticJsonRpcProvider {
+	constructor(
+		url: string,
+		readonly scheduler: RequestScheduler,
+	) {
+		super(url);
+	}
+
+	send(method: string, params: unknown[]): Promise<unknown> {
+		return this.scheduler.schedule(() => super.send(method, params));
+	}
+}
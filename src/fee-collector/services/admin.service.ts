@@ -0,0 +1,386 @@
+import type { Types } from "mongoose";
+import type { Logger } from "pino";
+
+import type { FeeCollectorClient } from "../client";
+import { AdminActionModel, type AdminCommand } from "../models/admin-action";
+import { BlockHashModel } from "../models/block-hash";
+import { ChainLeaseModel } from "../models/chain-lease";
+import { ChainSyncStateModel } from "../models/chain-sync-state";
+import { DeadLetterLogModel } from "../models/dead-letter-log";
+import { FeeCollectedEventModel } from "../models/fee-collected-event";
+import { FeesWithdrawnEventModel } from "../models/fees-withdrawn-event";
+import { LiFiFeesWithdrawnEventModel } from "../models/lifi-fees-withdrawn-event";
+import { balanceKeysFromBlock, reverseBalanceDeltas } from "./balance.service";
+import { type BatchSizeLimits, isRangeTooLargeError, shrinkBatchSize } from "./batch-size.service";
+import { type BatchLogs, indexBatchLogs, queryBatchLogs, type SyncClient, withRetry } from "./sync.service";
+
+/** The part of the client the admin commands use. */
+export type AdminClient = SyncClient & Pick<FeeCollectorClient, "getBlockNumber" | "getBlock">;
+
+/** A chain's sync state as `status` shows it. Head, safe block and lag are null when the RPC couldn't be read. */
+export interface ChainStatus {
+	chain: string;
+	chainId: number;
+	/** Null until the chain's first sync cycle. */
+	lastProcessedBlock: number | null;
+	lastProcessedBlockHash: string | null;
+	updatedAt: Date | null;
+	headBlock: number | null;
+	safeBlock: number | null;
+	/** Blocks between the checkpoint and the safe block. */
+	lag: number | null;
+	/** The worker holding the chain's lease, if it hasn't expired. */
+	syncedBy: string | null;
+	error?: string;
+}
+
+/** What `reset` would change. */
+export interface ResetPlan {
+	chainId: number;
+	/** The current checkpoint; null when the chain has none. */
+	fromBlock: number | null;
+	toBlock: number;
+	toBlockHash: string;
+	/** Block-hash ledger entries above `toBlock`, which the reset deletes. */
+	ledgerEntries: number;
+	syncedBy: string | null;
+}
+
+/** What `purge-events` would delete, and the reset that goes with it. */
+export interface PurgePlan {
+	chainId: number;
+	fromBlock: number;
+	feesCollected: number;
+	feesWithdrawn: number;
+	lifiFeesWithdrawn: number;
+	deadLetters: number;
+	/** Balances recomputed without the purged events. */
+	balances: number;
+	/** Moves the checkpoint below `fromBlock` so the sync indexes the range again; null if it already is. */
+	reset: ResetPlan | null;
+	syncedBy: string | null;
+}
+
+/** What `reset` changed. */
+export interface ResetResult {
+	fromBlock: number | null;
+	toBlock: number;
+	/** Block-hash ledger entries deleted. */
+	ledgerEntries: number;
+}
+
+/** What `purge-events` deleted. */
+export interface PurgeResult {
+	feesCollected: number;
+	feesWithdrawn: number;
+	lifiFeesWithdrawn: number;
+	deadLetters: number;
+	balances: number;
+	reset: ResetResult | null;
+}
+
+/** The range `rescan` would index again. */
+export interface RescanPlan {
+	chainId: number;
+	fromBlock: number;
+	/** The requested end, capped at the current safe block. */
+	toBlock: number;
+	/** Canonical fee events already stored for the range. */
+	storedEvents: number;
+}
+
+/** How `rescan` queries and indexes, the chain's sync settings. */
+export interface RescanOptions extends BatchSizeLimits {
+	/** Initial block range per eth_getLogs call. */
+	batchSize: number;
+	/** Record the context of each fee event's transaction, like the chain's sync does. */
+	enrichTransactions: boolean;
+}
+
+export interface RescanResult {
+	/** Last block indexed; below the plan's `toBlock` when the rescan was stopped. */
+	lastProcessedBlock: number;
+	/** Events and withdrawals the rescan added; ones already stored aren't counted. */
+	eventsAdded: number;
+}
+
+/** Who ran an admin command and how; stored with its audit record. */
+export interface AdminActionContext {
+	command: AdminCommand;
+	chainId: number;
+	operator: string;
+	argv: string[];
+}
+
+/** The chain's lease is held by a live worker, whose next checkpoint write would undo the change. */
+export class ChainInUseError extends Error {
+	constructor(
+		public readonly chainId: number,
+		public readonly ownerId: string,
+	) {
+		super(`Chain ${chainId} is being synced by ${ownerId}. Stop that worker (or wait for its lease to expire) first`);
+		this.name = "ChainInUseError";
+	}
+}
+
+// ------------------
+// Public API
+// ------------------
+
+/**
+ * Reads the chain's checkpoint, lease and safe block. The head is read once, without retries, so one
+ * unreachable chain doesn't hold up the others; its head fields stay null and `error` says why.
+ */
+export async function getChainStatus(
+	client: AdminClient,
+	chain: { chainId: number; name: string; confirmations: number },
+): Promise<ChainStatus> {
+	const [state, syncedBy] = await Promise.all([
+		ChainSyncStateModel.findOne({ chainId: chain.chainId }).lean().exec(),
+		findLeaseOwner(chain.chainId),
+	]);
+	const status: ChainStatus = {
+		chain: chain.name,
+		chainId: chain.chainId,
+		lastProcessedBlock: state?.lastProcessedBlock ?? null,
+		lastProcessedBlockHash: state?.lastProcessedBlockHash ?? null,
+		updatedAt: state?.updatedAt ?? null,
+		headBlock: null,
+		safeBlock: null,
+		lag: null,
+		syncedBy,
+	};
+
+	try {
+		const headBlock = await client.getBlockNumber();
+		const safeBlock = headBlock - chain.confirmations;
+		const lag = state ? Math.max(0, safeBlock - state.lastProcessedBlock) : null;
+		return { ...status, headBlock, safeBlock, lag };
+	} catch (err) {
+		return { ...status, error: (err as Error).message ?? String(err) };
+	}
+}
+
+/** Plans moving the chain's checkpoint to `toBlock`, with the block's hash as the chain has it now. */
+export async function planReset(
+	client: AdminClient,
+	chainId: number,
+	toBlock: number,
+	log: Logger,
+): Promise<ResetPlan> {
+	const block = await withRetry(() => client.getBlock(toBlock, { fresh: true }), "planReset.getBlock", log);
+	if (!block) throw new Error(`Block ${toBlock} not found on chain ${chainId}`);
+
+	const [state, ledgerEntries, syncedBy] = await Promise.all([
+		ChainSyncStateModel.findOne({ chainId }).lean().exec(),
+		BlockHashModel.countDocuments({ chainId, blockNumber: { $gt: toBlock } }).exec(),
+		findLeaseOwner(chainId),
+	]);
+
+	return {
+		chainId,
+		fromBlock: state?.lastProcessedBlock ?? null,
+		toBlock,
+		toBlockHash: block.hash,
+		ledgerEntries,
+		syncedBy,
+	};
+}
+
+/**
+ * Moves the checkpoint to the planned block and drops the block-hash ledger above it, so the next sync cycle
+ * resumes from there. Stored events aren't touched: re-indexing them is an idempotent upsert.
+ */
+export async function applyReset(plan: ResetPlan, log: Logger): Promise<ResetResult> {
+	await assertChainIdle(plan.chainId);
+
+	const ledger = await BlockHashModel.deleteMany({ chainId: plan.chainId, blockNumber: { $gt: plan.toBlock } }).exec();
+	await ChainSyncStateModel.updateOne(
+		{ chainId: plan.chainId },
+		{ $set: { lastProcessedBlock: plan.toBlock, lastProcessedBlockHash: plan.toBlockHash } },
+		{ upsert: true },
+	).exec();
+
+	const result = { fromBlock: plan.fromBlock, toBlock: plan.toBlock, ledgerEntries: ledger.deletedCount };
+	log.info({ chainId: plan.chainId, ...result }, "reset checkpoint");
+	return result;
+}
+
+/** Plans deleting the chain's canonical events from `fromBlock` on. */
+export async function planPurge(
+	client: AdminClient,
+	chainId: number,
+	fromBlock: number,
+	log: Logger,
+): Promise<PurgePlan> {
+	const purged = { chainId, blockNumber: { $gte: fromBlock }, reorgId: null };
+	const [state, feesCollected, feesWithdrawn, lifiFeesWithdrawn, deadLetters, balanceKeys, syncedBy] =
+		await Promise.all([
+			ChainSyncStateModel.findOne({ chainId }).lean().exec(),
+			FeeCollectedEventModel.countDocuments(purged).exec(),
+			FeesWithdrawnEventModel.countDocuments(purged).exec(),
+			LiFiFeesWithdrawnEventModel.countDocuments(purged).exec(),
+			DeadLetterLogModel.countDocuments({ chainId, blockNumber: { $gte: fromBlock }, resolvedAt: null }).exec(),
+			balanceKeysFromBlock(chainId, fromBlock),
+			findLeaseOwner(chainId),
+		]);
+
+	const reset =
+		state && state.lastProcessedBlock >= fromBlock ? await planReset(client, chainId, fromBlock - 1, log) : null;
+
+	return {
+		chainId,
+		fromBlock,
+		feesCollected,
+		feesWithdrawn,
+		lifiFeesWithdrawn,
+		deadLetters,
+		balances: balanceKeys.length,
+		reset,
+		syncedBy,
+	};
+}
+
+/**
+ * Deletes the chain's canonical events and withdrawals from the planned block on, with their open dead letters,
+ * takes them out of the balances they counted towards and moves the checkpoint below the block. Orphaned events are
+ * kept: they are the reorg history.
+ */
+export async function applyPurge(plan: PurgePlan, log: Logger): Promise<PurgeResult> {
+	await assertChainIdle(plan.chainId);
+
+	const { chainId, fromBlock } = plan;
+	const purged = { chainId, blockNumber: { $gte: fromBlock }, reorgId: null };
+	// Before the delete: afterwards there is nothing left to tell which balances the events counted towards
+	const balanceKeys = await balanceKeysFromBlock(chainId, fromBlock);
+	await withRetry(() => reverseBalanceDeltas(balanceKeys, fromBlock - 1, log), "reverseBalanceDeltas", log);
+
+	// The checkpoint moves first, so an interrupted purge is re-synced rather than left as a gap
+	const reset = plan.reset ? await applyReset(plan.reset, log) : null;
+
+	const [feesCollected, feesWithdrawn, lifiFeesWithdrawn, deadLetters] = await Promise.all([
+		FeeCollectedEventModel.deleteMany(purged).exec(),
+		FeesWithdrawnEventModel.deleteMany(purged).exec(),
+		LiFiFeesWithdrawnEventModel.deleteMany(purged).exec(),
+		DeadLetterLogModel.deleteMany({ chainId, blockNumber: { $gte: fromBlock }, resolvedAt: null }).exec(),
+	]);
+
+	const result = {
+		feesCollected: feesCollected.deletedCount,
+		feesWithdrawn: feesWithdrawn.deletedCount,
+		lifiFeesWithdrawn: lifiFeesWithdrawn.deletedCount,
+		deadLetters: deadLetters.deletedCount,
+		balances: balanceKeys.length,
+		reset,
+	};
+	log.info({ chainId, fromBlock, ...result }, "purged events");
+	return result;
+}
+
+/** Plans indexing `[fromBlock, toBlock]` again; unconfirmed blocks are left to the sync, like the backfill does. */
+export async function planRescan(
+	client: AdminClient,
+	chain: { chainId: number; confirmations: number },
+	range: { fromBlock: number; toBlock: number },
+	log: Logger,
+): Promise<RescanPlan> {
+	const latest = await withRetry(() => client.getBlockNumber(), "getBlockNumber", log);
+	const toBlock = Math.min(range.toBlock, latest - chain.confirmations);
+	if (toBlock < range.fromBlock) {
+		throw new Error(`Rescan range is empty: fromBlock ${range.fromBlock} is past the safe block ${toBlock}`);
+	}
+
+	const storedEvents = await FeeCollectedEventModel.countDocuments({
+		chainId: chain.chainId,
+		blockNumber: { $gte: range.fromBlock, $lte: toBlock },
+		reorgId: null,
+	}).exec();
+	return { chainId: chain.chainId, fromBlock: range.fromBlock, toBlock, storedEvents };
+}
+
+/**
+ * Indexes the planned range again without touching the checkpoint. Events are upserted the way the sync writes
+ * them, so a rescan only adds what's missing, refreshes the balances it touches and can run beside the worker.
+ */
+export async function rescanRange(
+	client: AdminClient,
+	plan: RescanPlan,
+	options: RescanOptions,
+	log: Logger,
+	signal?: AbortSignal,
+): Promise<RescanResult> {
+	let batchSize = options.batchSize;
+	let lastProcessedBlock = plan.fromBlock - 1;
+	let eventsAdded = 0;
+
+	while (lastProcessedBlock < plan.toBlock && !signal?.aborted) {
+		const from = lastProcessedBlock + 1;
+		const to = Math.min(from + batchSize - 1, plan.toBlock);
+
+		// A "range too large" response shrinks the batch and retries the smaller range right away
+		let logs: BatchLogs;
+		try {
+			logs = await queryBatchLogs(client, from, to, log);
+		} catch (err) {
+			if (!isRangeTooLargeError(err) || batchSize <= options.minBatchSize) throw err;
+
+			batchSize = shrinkBatchSize(batchSize, options);
+			log.warn({ err, from, to, batchSize }, "block range rejected, shrinking batch");
+			continue;
+		}
+
+		const { added } = await indexBatchLogs(client, plan.chainId, logs, log, {
+			enrichTransactions: options.enrichTransactions,
+		});
+		eventsAdded += added;
+		lastProcessedBlock = to;
+	}
+
+	log.info({ chainId: plan.chainId, lastProcessedBlock, eventsAdded }, "rescanned range");
+	return { lastProcessedBlock, eventsAdded };
+}
+
+/**
+ * Records an admin action as `started`, runs it and records its outcome. The record is written first, so an
+ * action that crashes half-way is still in `admin_actions`.
+ */
+export async function withAuditRecord<T extends object>(
+	context: AdminActionContext,
+	plan: object,
+	fn: () => Promise<T>,
+): Promise<T> {
+	const action = await AdminActionModel.create({ ...context, plan, status: "started" });
+
+	try {
+		const result = await fn();
+		await completeAction(action._id, { status: "done", result });
+		return result;
+	} catch (err) {
+		await completeAction(action._id, { status: "failed", error: (err as Error).message ?? String(err) });
+		throw err;
+	}
+}
+
+// -------------------
+// Internal helpers
+// -------------------
+
+async function findLeaseOwner(chainId: number): Promise<string | null> {
+	const lease = await ChainLeaseModel.findOne({ chainId, expiresAt: { $gt: new Date() } })
+		.lean()
+		.exec();
+	return lease?.ownerId ?? null;
+}
+
+/** Re-checked right before writing: the worker may have started since the plan was made. */
+async function assertChainIdle(chainId: number): Promise<void> {
+	const ownerId = await findLeaseOwner(chainId);
+	if (ownerId) throw new ChainInUseError(chainId, ownerId);
+}
+
+async function completeAction(
+	id: Types.ObjectId,
+	outcome: { status: "done"; result: object } | { status: "failed"; error: string },
+): Promise<void> {
+	await AdminActionModel.updateOne({ _id: id }, { $set: outcome }).exec();
+}
@@ -0,0 +1,283 @@
+import { type Logger, pino } from "pino";
+
+import { BackfillSegmentModel, type BackfillSegmentStatus } from "../models/backfill-segment";
+import { type BatchSizeLimits, growBatchSize, isRangeTooLargeError, shrinkBatchSize } from "./batch-size.service";
+import { type BatchLogs, indexBatchLogs, queryBatchLogs, type SyncClient, withRetry } from "./sync.service";
+
+export interface BackfillConfig extends BatchSizeLimits {
+	chainId: number;
+	fromBlock: number;
+	/** Last block to backfill (inclusive). Defaults to, and is capped at, the current safe block. */
+	toBlock?: number;
+	confirmations: number;
+	/** Blocks per segment; each segment is checkpointed on its own. */
+	segmentSize: number;
+	/** How many segments are scanned at the same time. */
+	concurrency: number;
+	/** Initial block range per eth_getLogs call within a segment. */
+	batchSize: number;
+	batchDelayMs: number;
+	/** Record the context of each fee event's transaction, like the chain's sync does. */
+	enrichTransactions: boolean;
+}
+
+export interface BlockRange {
+	fromBlock: number;
+	toBlock: number;
+}
+
+export interface BackfillReport {
+	chainId: number;
+	fromBlock: number;
+	toBlock: number;
+	segments: Record<BackfillSegmentStatus, number> & { total: number };
+	/** Events and withdrawals added by the backfill; ones the live sync had already indexed aren't counted. */
+	eventsAdded: number;
+	/** Blocks of the range that have been scanned, by this run or an earlier one. */
+	coveredBlocks: number;
+	/** Parts of the range no segment has scanned yet. Re-run the same range to fill them. */
+	gaps: BlockRange[];
+	complete: boolean;
+}
+
+interface SegmentCheckpoint extends BlockRange {
+	lastProcessedBlock: number;
+}
+
+// ------------------
+// Public API
+// ------------------
+
+/**
+ * Backfills the FeesCollected and withdrawal events of `[fromBlock, toBlock]` in parallel segments, independent of the
+ * live sync: progress is checkpointed per segment in `backfill_segments` and `ChainSyncState` is never
+ * touched, so the backfill can run next to the worker. Events are upserted the same way the sync
+ * writes them, so overlapping with the live sync (or an earlier backfill) is harmless.
+ *
+ * Re-running the same range resumes unfinished and failed segments from their checkpoints. A failing
+ * segment doesn't stop the others; it shows up in the report instead.
+ */
+export async function backfill(
+	client: SyncClient,
+	config: BackfillConfig,
+	logger?: Logger,
+	signal?: AbortSignal,
+): Promise<BackfillReport> {
+	const log = (logger ?? pino({ name: "fee-collector-backfill" })).child({ chainId: config.chainId });
+	const toBlock = await resolveToBlock(client, config, log);
+
+	if (config.fromBlock > toBlock) {
+		throw new Error(`Backfill range is empty: fromBlock ${config.fromBlock} is past toBlock ${toBlock}`);
+	}
+
+	const planned = splitIntoSegments(config.fromBlock, toBlock, config.segmentSize);
+	const segments = await loadSegments(config.chainId, planned, log);
+	const queue = segments.filter((segment) => segment.lastProcessedBlock < segment.toBlock);
+	log.info(
+		{ fromBlock: config.fromBlock, toBlock, segments: segments.length, remaining: queue.length },
+		"starting backfill",
+	);
+
+	// Bounded concurrency: each runner keeps taking the next unfinished segment off the queue
+	const runners = Array.from({ length: Math.min(config.concurrency, queue.length) }, async () => {
+		for (let segment = queue.shift(); segment && !signal?.aborted; segment = queue.shift()) {
+			await runSegment(client, config, segment, log, signal);
+		}
+	});
+	await Promise.all(runners);
+
+	if (signal?.aborted) {
+		log.info("shutdown requested, backfill stopped; re-run the same range to resume");
+	}
+
+	return buildReport(config.chainId, config.fromBlock, toBlock);
+}
+
+/** Splits `[fromBlock, toBlock]` into consecutive ranges of at most `segmentSize` blocks. */
+export function splitIntoSegments(fromBlock: number, toBlock: number, segmentSize: number): BlockRange[] {
+	const segments: BlockRange[] = [];
+	for (let from = fromBlock; from <= toBlock; from += segmentSize) {
+		segments.push({ fromBlock: from, toBlock: Math.min(from + segmentSize - 1, toBlock) });
+	}
+	return segments;
+}
+
+/** Ranges within `[fromBlock, toBlock]` not covered by any of the (possibly overlapping) `covered` ranges. */
+export function findGaps(fromBlock: number, toBlock: number, covered: BlockRange[]): BlockRange[] {
+	const gaps: BlockRange[] = [];
+	let next = fromBlock;
+
+	for (const range of [...covered].sort((a, b) => a.fromBlock - b.fromBlock)) {
+		if (range.toBlock < next) continue;
+		if (range.fromBlock > toBlock) break;
+		if (range.fromBlock > next) gaps.push({ fromBlock: next, toBlock: range.fromBlock - 1 });
+		next = range.toBlock + 1;
+	}
+
+	if (next <= toBlock) gaps.push({ fromBlock: next, toBlock });
+	return gaps;
+}
+
+// -------------------
+// Internal helpers
+// -------------------
+
+async function resolveToBlock(client: SyncClient, config: BackfillConfig, log: Logger): Promise<number> {
+	const latest = await withRetry(() => client.getBlockNumber(), "getBlockNumber", log);
+	const safeBlock = latest - config.confirmations;
+
+	// Unconfirmed blocks are the live sync's job: it is the one that detects and rolls back reorgs
+	if (config.toBlock !== undefined && config.toBlock > safeBlock) {
+		log.warn({ requested: config.toBlock, safeBlock }, "toBlock is past the safe block, capping it");
+	}
+	return Math.min(config.toBlock ?? safeBlock, safeBlock);
+}
+
+/** Creates checkpoints for segments seen for the first time and returns every planned segment's progress. */
+async function loadSegments(chainId: number, planned: BlockRange[], log: Logger): Promise<SegmentCheckpoint[]> {
+	await withRetry(
+		() =>
+			BackfillSegmentModel.bulkWrite(
+				planned.map((range) => ({
+					updateOne: {
+						filter: { chainId, fromBlock: range.fromBlock, toBlock: range.toBlock },
+						update: {
+							$setOnInsert: { ...range, chainId, lastProcessedBlock: range.fromBlock - 1, status: "pending" },
+						},
+						upsert: true,
+					},
+				})),
+				{ ordered: false },
+			),
+		"loadSegments.upsert",
+		log,
+	);
+
+	const stored = await withRetry(
+		() =>
+			BackfillSegmentModel.find({
+				chainId,
+				fromBlock: { $gte: planned[0].fromBlock },
+				toBlock: { $lte: planned[planned.length - 1].toBlock },
+			})
+				.lean()
+				.exec(),
+		"loadSegments.find",
+		log,
+	);
+	const progress = new Map(stored.map((segment) => [`${segment.fromBlock}-${segment.toBlock}`, segment]));
+
+	return planned.map((range) => ({
+		...range,
+		lastProcessedBlock: progress.get(`${range.fromBlock}-${range.toBlock}`)?.lastProcessedBlock ?? range.fromBlock - 1,
+	}));
+}
+
+/** Scans one segment batch by batch from its checkpoint. Errors mark the segment failed instead of propagating. */
+async function runSegment(
+	client: SyncClient,
+	config: BackfillConfig,
+	segment: SegmentCheckpoint,
+	parentLog: Logger,
+	signal?: AbortSignal,
+): Promise<void> {
+	const log = parentLog.child({ segment: `${segment.fromBlock}-${segment.toBlock}` });
+	const filter = { chainId: config.chainId, fromBlock: segment.fromBlock, toBlock: segment.toBlock };
+	let batchSize = config.batchSize;
+	let batchSizeCeiling = config.maxBatchSize;
+	let lastProcessedBlock = segment.lastProcessedBlock;
+
+	log.info({ resumeFrom: lastProcessedBlock + 1 }, "backfilling segment");
+
+	try {
+		while (lastProcessedBlock < segment.toBlock && !signal?.aborted) {
+			const from = lastProcessedBlock + 1;
+			const to = Math.min(from + batchSize - 1, segment.toBlock);
+
+			// A "range too large" response shrinks the batch and retries the smaller range right away
+			let logs: BatchLogs;
+			try {
+				logs = await queryBatchLogs(client, from, to, log);
+			} catch (err) {
+				if (!isRangeTooLargeError(err) || batchSize <= config.minBatchSize) throw err;
+
+				batchSizeCeiling = Math.max(config.minBatchSize, batchSize - 1);
+				batchSize = shrinkBatchSize(batchSize, config);
+				log.warn({ err, from, to, batchSize }, "block range rejected, shrinking batch");
+				continue;
+			}
+
+			const { added } = await indexBatchLogs(client, config.chainId, logs, log, {
+				enrichTransactions: config.enrichTransactions,
+			});
+
+			const logCount = logs.feesCollected.length + logs.withdrawals.length;
+			batchSize = growBatchSize(batchSize, to - from + 1, logCount, {
+				...config,
+				maxBatchSize: batchSizeCeiling,
+			});
+
+			await withRetry(
+				() =>
+					BackfillSegmentModel.updateOne(filter, {
+						$set: { lastProcessedBlock: to, status: to === segment.toBlock ? "done" : "pending" },
+						$unset: { lastError: 1 },
+						$inc: { eventsAdded: added },
+					}).exec(),
+				"updateSegment",
+				log,
+			);
+			lastProcessedBlock = to;
+
+			if (lastProcessedBlock < segment.toBlock) await sleep(config.batchDelayMs);
+		}
+	} catch (err) {
+		log.error({ err, lastProcessedBlock }, "segment failed, re-run the backfill to resume it");
+		await BackfillSegmentModel.updateOne(filter, {
+			$set: { status: "failed", lastError: (err as Error).message ?? String(err) },
+		})
+			.exec()
+			.catch((updateErr: unknown) => log.error({ err: updateErr }, "failed to record segment failure"));
+		return;
+	}
+
+	if (lastProcessedBlock === segment.toBlock) log.info("segment done");
+}
+
+/** Coverage counts every stored segment overlapping the range, including ones from runs with another segment size. */
+async function buildReport(chainId: number, fromBlock: number, toBlock: number): Promise<BackfillReport> {
+	const stored = await BackfillSegmentModel.find({
+		chainId,
+		fromBlock: { $lte: toBlock },
+		toBlock: { $gte: fromBlock },
+	})
+		.lean()
+		.exec();
+
+	const inRange = stored.filter((segment) => segment.fromBlock >= fromBlock && segment.toBlock <= toBlock);
+	const covered = stored
+		.filter((segment) => segment.lastProcessedBlock >= segment.fromBlock)
+		.map((segment) => ({ fromBlock: segment.fromBlock, toBlock: segment.lastProcessedBlock }));
+	const gaps = findGaps(fromBlock, toBlock, covered);
+	const missingBlocks = gaps.reduce((sum, gap) => sum + gap.toBlock - gap.fromBlock + 1, 0);
+
+	return {
+		chainId,
+		fromBlock,
+		toBlock,
+		segments: {
+			total: inRange.length,
+			pending: inRange.filter((segment) => segment.status === "pending").length,
+			done: inRange.filter((segment) => segment.status === "done").length,
+			failed: inRange.filter((segment) => segment.status === "failed").length,
+		},
+		eventsAdded: inRange.reduce((sum, segment) => sum + segment.eventsAdded, 0),
+		coveredBlocks: toBlock - fromBlock + 1 - missingBlocks,
+		gaps,
+		complete: gaps.length === 0,
+	};
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,323 @@
+import type { Logger } from "pino";
+
+import { ChainSyncStateModel } from "../models/chain-sync-state";
+import { FeeCollectedEventModel } from "../models/fee-collected-event";
+import { FeesWithdrawnEventModel } from "../models/fees-withdrawn-event";
+import { IntegratorBalanceModel } from "../models/integrator-balance";
+import type { ParsedFeeCollectedEvent, ParsedWithdrawals } from "./parsing.service";
+
+/** Identifies one balance: an integrator's fees in one token on one chain. */
+export interface BalanceKey {
+	chainId: number;
+	integrator: string;
+	token: string;
+}
+
+/** What a balance adds up over its events: the stored fields, with the amounts as BigInt. */
+interface BalanceSums {
+	collected: bigint;
+	withdrawn: bigint;
+	integratorFeeUsd: number;
+	lifiFeeUsd: number;
+	unpricedEvents: number;
+}
+
+/** A stored balance as its writers read it; `appliedThroughBlock` is missing on balances stored before it. */
+interface StoredBalance {
+	collected: string;
+	withdrawn: string;
+	integratorFeeUsd: number;
+	lifiFeeUsd: number;
+	unpricedEvents: number;
+	appliedThroughBlock?: number | null;
+}
+
+/** Block range of the events a sum covers. */
+interface BlockRange {
+	$gt?: number;
+	$lte: number;
+}
+
+const DUPLICATE_KEY_ERROR_CODE = 11000;
+
+// A balance write only lands on the watermark it read; another writer that moved it first makes it read again
+const MAX_BALANCE_WRITE_ATTEMPTS = 5;
+
+// Amounts are uint256 decimal strings, up to 78 digits: more than a Decimal128 holds exactly. The database sums
+// them in chunks of 18 digits instead, which stay exact up to 10^16 events, and the chunk sums are combined
+// with BigInt.
+const AMOUNT_CHUNK_DIGITS = 18;
+const AMOUNT_CHUNKS = 5;
+
+/** A `$group` result of `amountChunkSums`: chunk sums as Decimal128 (or 0 when every chunk was empty). */
+type AmountChunkSums = Record<`amountChunk${number}`, { toString(): string } | number>;
+
+// ------------------
+// Public API
+// ------------------
+
+/** The balances a batch of parsed events and withdrawals contributes to. LI.FI's own withdrawals have none. */
+export function balanceKeysOf(events: ParsedFeeCollectedEvent[], withdrawals: ParsedWithdrawals): BalanceKey[] {
+	return uniqueKeys([
+		...events.map((e) => ({ chainId: e.chainId, integrator: e.integrator, token: e.token })),
+		...withdrawals.feesWithdrawn.map((w) => ({ chainId: w.chainId, integrator: w.to, token: w.token })),
+	]);
+}
+
+/** The balances the chain's canonical events and withdrawals from `fromBlock` on contribute to. */
+export async function balanceKeysFromBlock(chainId: number, fromBlock: number): Promise<BalanceKey[]> {
+	return storedBalanceKeys(chainId, { chainId, blockNumber: { $gte: fromBlock }, reorgId: null });
+}
+
+/**
+ * Adds to each balance the canonical events and withdrawals of its key up to `toBlock` that it doesn't count
+ * yet, i.e. those above its `appliedThroughBlock`, and moves that watermark to `toBlock`. Only the new events
+ * are summed, so a sync batch costs the same however long the integrator's history is.
+ *
+ * A batch that is re-scanned after a crash finds the watermark already past it and adds nothing. A balance
+ * without a watermark (new, or stored before there was one) is recomputed through `toBlock` instead.
+ */
+export async function applyBalanceDeltas(keys: BalanceKey[], toBlock: number, log: Logger): Promise<void> {
+	for (const key of keys) {
+		await writeWithRetries(key, async (stored) => {
+			if (stored?.appliedThroughBlock == null) return { ...(await sumEvents(key, { $lte: toBlock })), toBlock };
+			if (stored.appliedThroughBlock >= toBlock) return null;
+
+			const delta = await sumEvents(key, { $gt: stored.appliedThroughBlock, $lte: toBlock });
+			return { ...addSums(parseSums(stored), delta, 1n), toBlock };
+		});
+	}
+	if (keys.length > 0) log.debug({ count: keys.length, toBlock }, "applied balance deltas");
+}
+
+/**
+ * Takes the chain's canonical events and withdrawals above `rollbackTo` out of the balances that count them and
+ * moves their watermark back to `rollbackTo`, so the re-synced blocks are added again. Runs before a reorg
+ * orphans (or a purge deletes) those events: afterwards they no longer tell which of them a balance counted.
+ * A rollback resumed after a crash finds the watermarks already moved back and subtracts nothing.
+ */
+export async function reverseBalanceDeltas(keys: BalanceKey[], rollbackTo: number, log: Logger): Promise<void> {
+	for (const key of keys) {
+		await writeWithRetries(key, async (stored) => {
+			if (stored?.appliedThroughBlock == null) {
+				return { ...(await sumEvents(key, { $lte: rollbackTo })), toBlock: rollbackTo };
+			}
+			if (stored.appliedThroughBlock <= rollbackTo) return null;
+
+			const delta = await sumEvents(key, { $gt: rollbackTo, $lte: stored.appliedThroughBlock });
+			return { ...addSums(parseSums(stored), delta, -1n), toBlock: rollbackTo };
+		});
+	}
+	if (keys.length > 0) log.debug({ count: keys.length, rollbackTo }, "reversed balance deltas");
+}
+
+/**
+ * Recomputes the given balances from all their canonical events up to the chain's checkpoint (or the balance's
+ * watermark, if a sync batch already moved it past), summed by the database so a key's events are never loaded
+ * into memory. The USD sums only cover priced events; `unpricedEvents` counts the rest, so a partial USD figure
+ * is recognizable.
+ *
+ * For the writers that change events below the checkpoint: pricing, backfills, rescans, dead-letter reprocessing
+ * and repairs. The sync's batches add deltas instead (`applyBalanceDeltas`). Recomputing is idempotent, and the
+ * watermark moves to where the sums end, so the sync's next delta starts there.
+ */
+export async function refreshBalances(keys: BalanceKey[], log: Logger): Promise<void> {
+	if (keys.length === 0) return;
+
+	for (const key of keys) {
+		await writeWithRetries(key, async (stored) => {
+			const toBlock = Math.max(stored?.appliedThroughBlock ?? -1, await readCheckpoint(key.chainId));
+			return { ...(await sumEvents(key, { $lte: toBlock })), toBlock };
+		});
+	}
+	log.debug({ count: keys.length }, "refreshed balances");
+}
+
+// -------------------
+// Internal helpers
+// -------------------
+async function storedBalanceKeys(chainId: number, filter: Record<string, unknown>): Promise<BalanceKey[]> {
+	const match = { $match: filter };
+	const [feeKeys, withdrawalKeys] = await Promise.all([
+		FeeCollectedEventModel.aggregate<{ _id: { integrator: string; token: string } }>([
+			match,
+			{ $group: { _id: { integrator: "$integrator", token: "$token" } } },
+		]).exec(),
+		FeesWithdrawnEventModel.aggregate<{ _id: { integrator: string; token: string } }>([
+			match,
+			{ $group: { _id: { integrator: "$to", token: "$token" } } },
+		]).exec(),
+	]);
+
+	return uniqueKeys([...feeKeys, ...withdrawalKeys].map(({ _id }) => ({ chainId, ..._id })));
+}
+
+/**
+ * Reads the balance, lets `next` work out its new sums and watermark (null leaves it as it is) and stores them
+ * if the watermark is still the one read. A writer that got there first has it read again.
+ */
+async function writeWithRetries(
+	key: BalanceKey,
+	next: (stored: StoredBalance | null) => Promise<(BalanceSums & { toBlock: number }) | null>,
+): Promise<void> {
+	for (let attempt = 1; attempt <= MAX_BALANCE_WRITE_ATTEMPTS; attempt++) {
+		const stored = await IntegratorBalanceModel.findOne(key).lean<StoredBalance>().exec();
+		const update = await next(stored);
+		if (!update) return;
+		if (await writeBalance(key, stored?.appliedThroughBlock ?? null, update, update.toBlock)) return;
+	}
+	throw new Error(`balance of ${key.integrator} in ${key.token} kept changing while it was written`);
+}
+
+/** Stores the balance unless another writer moved its watermark off `expectedWatermark` since it was read. */
+async function writeBalance(
+	key: BalanceKey,
+	expectedWatermark: number | null,
+	sums: BalanceSums,
+	appliedThroughBlock: number,
+): Promise<boolean> {
+	const { chainId, integrator, token } = key;
+	try {
+		const result = await IntegratorBalanceModel.updateOne(
+			// null also matches a balance stored before the watermark, or none at all
+			{ chainId, integrator, token, appliedThroughBlock: expectedWatermark },
+			{
+				$set: {
+					chainId,
+					integrator,
+					token,
+					collected: sums.collected.toString(),
+					withdrawn: sums.withdrawn.toString(),
+					outstanding: (sums.collected - sums.withdrawn).toString(),
+					integratorFeeUsd: sums.integratorFeeUsd,
+					lifiFeeUsd: sums.lifiFeeUsd,
+					unpricedEvents: sums.unpricedEvents,
+					appliedThroughBlock,
+					computedAt: new Date(),
+				},
+			},
+			{ upsert: true },
+		).exec();
+		return result.matchedCount + result.upsertedCount > 0;
+	} catch (err) {
+		// The balance exists with another watermark, so the upsert tried to insert a second document for the key
+		// and hit the unique index
+		if (isDuplicateKeyError(err)) return false;
+		throw err;
+	}
+}
+
+/** Sums the key's canonical events and withdrawals in `blocks`. */
+async function sumEvents(key: BalanceKey, blocks: BlockRange): Promise<BalanceSums> {
+	const { chainId, integrator, token } = key;
+
+	const priced = { $eq: ["$priceStatus", "priced"] };
+	const [[fees], [withdrawals]] = await Promise.all([
+		FeeCollectedEventModel.aggregate<
+			AmountChunkSums & { events: number; pricedEvents: number; integratorFeeUsd: number; lifiFeeUsd: number }
+		>([
+			{ $match: { chainId, integrator, token, reorgId: null, blockNumber: blocks } },
+			{
+				$group: {
+					_id: null,
+					...amountChunkSums("$integratorFee"),
+					events: { $sum: 1 },
+					pricedEvents: { $sum: { $cond: [priced, 1, 0] } },
+					integratorFeeUsd: { $sum: { $cond: [priced, { $ifNull: ["$integratorFeeUsd", 0] }, 0] } },
+					lifiFeeUsd: { $sum: { $cond: [priced, { $ifNull: ["$lifiFeeUsd", 0] }, 0] } },
+				},
+			},
+		]).exec(),
+		FeesWithdrawnEventModel.aggregate<AmountChunkSums>([
+			{ $match: { chainId, to: integrator, token, reorgId: null, blockNumber: blocks } },
+			{ $group: { _id: null, ...amountChunkSums("$amount") } },
+		]).exec(),
+	]);
+
+	// No matching events leave no group at all
+	return {
+		collected: fees ? combineChunkSums(fees) : 0n,
+		withdrawn: withdrawals ? combineChunkSums(withdrawals) : 0n,
+		integratorFeeUsd: fees?.integratorFeeUsd ?? 0,
+		lifiFeeUsd: fees?.lifiFeeUsd ?? 0,
+		unpricedEvents: fees ? fees.events - fees.pricedEvents : 0,
+	};
+}
+
+/** The chain's checkpoint, or -1 before its first batch: balances only count blocks the sync got through. */
+async function readCheckpoint(chainId: number): Promise<number> {
+	const state = await ChainSyncStateModel.findOne({ chainId }, { lastProcessedBlock: 1 }).lean().exec();
+	return state?.lastProcessedBlock ?? -1;
+}
+
+function parseSums(stored: StoredBalance): BalanceSums {
+	return {
+		collected: BigInt(stored.collected),
+		withdrawn: BigInt(stored.withdrawn),
+		integratorFeeUsd: stored.integratorFeeUsd,
+		lifiFeeUsd: stored.lifiFeeUsd,
+		unpricedEvents: stored.unpricedEvents,
+	};
+}
+
+function addSums(sums: BalanceSums, delta: BalanceSums, sign: 1n | -1n): BalanceSums {
+	const factor = Number(sign);
+	return {
+		collected: sums.collected + sign * delta.collected,
+		withdrawn: sums.withdrawn + sign * delta.withdrawn,
+		integratorFeeUsd: sums.integratorFeeUsd + factor * delta.integratorFeeUsd,
+		lifiFeeUsd: sums.lifiFeeUsd + factor * delta.lifiFeeUsd,
+		unpricedEvents: sums.unpricedEvents + factor * delta.unpricedEvents,
+	};
+}
+
+/**
+ * `$group` accumulators summing the digits of the amount string `field` in chunks, from the least significant:
+ * `amountChunk0` sums the last 18 digits of every amount, `amountChunk1` the 18 before those, and so on.
+ */
+function amountChunkSums(field: string): Record<string, unknown> {
+	const accumulators: Record<string, unknown> = {};
+	for (let chunk = 0; chunk < AMOUNT_CHUNKS; chunk++) {
+		accumulators[`amountChunk${chunk}`] = {
+			$sum: {
+				$let: {
+					vars: { end: { $subtract: [{ $strLenCP: field }, chunk * AMOUNT_CHUNK_DIGITS] } },
+					in: {
+						$cond: [
+							{ $gt: ["$$end", 0] },
+							{
+								$toDecimal: {
+									$substrCP: [
+										field,
+										{ $max: [{ $subtract: ["$$end", AMOUNT_CHUNK_DIGITS] }, 0] },
+										{ $min: ["$$end", AMOUNT_CHUNK_DIGITS] },
+									],
+								},
+							},
+							0,
+						],
+					},
+				},
+			},
+		};
+	}
+	return accumulators;
+}
+
+function combineChunkSums(sums: AmountChunkSums): bigint {
+	let total = 0n;
+	for (let chunk = 0; chunk < AMOUNT_CHUNKS; chunk++) {
+		const chunkSum = BigInt(String(sums[`amountChunk${chunk}`] ?? 0));
+		total += chunkSum * 10n ** BigInt(chunk * AMOUNT_CHUNK_DIGITS);
+	}
+	return total;
+}
+
+function uniqueKeys(keys: BalanceKey[]): BalanceKey[] {
+	const unique = new Map(keys.map((key) => [`${key.chainId}:${key.integrator}:${key.token}`, key]));
+	return [...unique.values()];
+}
+
+function isDuplicateKeyError(err: unknown): boolean {
+	return (err as { code?: number } | null)?.code === DUPLICATE_KEY_ERROR_CODE;
+}
@@ -0,0 +1,66 @@
+export interface BatchSizeLimits {
+	/** Smallest block range the sync will shrink to before giving up on range errors. */
+	minBatchSize: number;
+	/** Largest block range the sync will grow to. Set equal to the initial size to disable growth. */
+	maxBatchSize: number;
+	/** The range keeps growing while a full-size batch returns fewer logs than this. */
+	targetLogsPerBatch: number;
+}
+
+// Phrases used by common providers (geth, Erigon, Alchemy, Infura, QuickNode, Ankr, public nodes)
+// when an eth_getLogs request spans too many blocks or would return too many logs.
+const RANGE_TOO_LARGE_PATTERNS = [
+	/block range/i,
+	/range (is )?too (large|wide|big)/i,
+	/too many (results|logs|blocks)/i,
+	/query returned more than/i,
+	/more than \d+ (results|logs)/i,
+	/exceeds? (the )?max(imum)? (block )?range/i,
+	/response size (exceeded|should not)/i,
+	/log(s)? (response )?size exceeded/i,
+];
+
+// ------------------
+// Public API
+// ------------------
+
+/**
+ * Whether an RPC error means "ask for a smaller block range" rather than a transient failure.
+ * ethers v5 nests the provider's message in different places depending on the transport,
+ * so all of them are checked.
+ */
+export function isRangeTooLargeError(err: unknown): boolean {
+	if (!err || typeof err !== "object") return false;
+
+	const candidate = err as { message?: unknown; reason?: unknown; body?: unknown; error?: { message?: unknown } };
+	const text = [candidate.message, candidate.reason, candidate.body, candidate.error?.message]
+		.filter((part): part is string => typeof part === "string")
+		.join(" ");
+
+	return RANGE_TOO_LARGE_PATTERNS.some((pattern) => pattern.test(text));
+}
+
+/** Clamps a (possibly stale, e.g. persisted before a config change) batch size into the configured limits. */
+export function clampBatchSize(batchSize: number, limits: BatchSizeLimits): number {
+	return Math.min(Math.max(batchSize, limits.minBatchSize), limits.maxBatchSize);
+}
+
+/** Halves the batch size after the provider rejected a range, without going below the minimum. */
+export function shrinkBatchSize(batchSize: number, limits: BatchSizeLimits): number {
+	return clampBatchSize(Math.floor(batchSize / 2), limits);
+}
+
+/**
+ * Doubles the batch size after a successful full-size batch that returned few logs.
+ * Partial batches (the tail end of a catch-up) say nothing about the provider's limits,
+ * so they leave the size unchanged.
+ */
+export function growBatchSize(
+	batchSize: number,
+	blocksInBatch: number,
+	logCount: number,
+	limits: BatchSizeLimits,
+): number {
+	if (blocksInBatch < batchSize || logCount >= limits.targetLogsPerBatch) return batchSize;
+	return clampBatchSize(batchSize * 2, limits);
+}
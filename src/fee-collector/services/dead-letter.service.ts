@@ -0,0 +1,135 @@
+import type { ethers } from "ethers";
+import type { Types } from "mongoose";
+import type { Logger } from "pino";
+
+import { type DeadLetterLog, DeadLetterLogModel } from "../models/dead-letter-log";
+import { type BatchLogs, type IndexOptions, indexBatchLogs, type SyncClient, withRetry } from "./sync.service";
+
+/** Outcome of re-processing a chain's open dead letters. */
+export interface ReprocessReport {
+	/** Dead letters that were tried. */
+	retried: number;
+	/** Dead letters whose log is indexed now. */
+	resolved: number;
+	/** Dead letters that failed to parse again; they stay open with the new error. */
+	failed: number;
+}
+
+export interface ListDeadLettersOptions {
+	/** Also list dead letters a re-processing already indexed. */
+	includeResolved?: boolean;
+	limit?: number;
+}
+
+type StoredDeadLetter = DeadLetterLog & { _id: Types.ObjectId };
+
+const REPROCESS_BATCH_SIZE = 200;
+const DEFAULT_LIST_LIMIT = 100;
+
+// ------------------
+// Public API
+// ------------------
+
+/** The chain's dead letters in block order, open ones only unless `includeResolved` is set. */
+export async function listDeadLetters(
+	chainId: number,
+	options: ListDeadLettersOptions = {},
+): Promise<StoredDeadLetter[]> {
+	return DeadLetterLogModel.find({ chainId, ...(!options.includeResolved && { resolvedAt: null }) })
+		.sort({ blockNumber: 1, logIndex: 1 })
+		.limit(options.limit ?? DEFAULT_LIST_LIMIT)
+		.lean<StoredDeadLetter[]>()
+		.exec();
+}
+
+/**
+ * Runs the chain's open dead letters through `indexBatchLogs` again, e.g. after a parser fix. Logs that parse
+ * now are indexed like any other (balances and tokens included) and their dead letters resolved; the others
+ * stay open with the new error. Every attempt counts towards `retryCount`.
+ */
+export async function reprocessDeadLetters(
+	client: SyncClient,
+	chainId: number,
+	log: Logger,
+	options: IndexOptions = {},
+): Promise<ReprocessReport> {
+	const report: ReprocessReport = { retried: 0, resolved: 0, failed: 0 };
+	let afterId: Types.ObjectId | undefined;
+
+	// Walks the dead letters by _id, so the ones that fail again aren't retried twice in the same run
+	for (;;) {
+		const deadLetters = await DeadLetterLogModel.find({
+			chainId,
+			resolvedAt: null,
+			...(afterId && { _id: { $gt: afterId } }),
+		})
+			.sort({ _id: 1 })
+			.limit(REPROCESS_BATCH_SIZE)
+			.lean<StoredDeadLetter[]>()
+			.exec();
+		if (deadLetters.length === 0) break;
+		afterId = deadLetters[deadLetters.length - 1]._id;
+
+		const ids = deadLetters.map((deadLetter) => deadLetter._id);
+		await withRetry(
+			() =>
+				DeadLetterLogModel.updateMany(
+					{ _id: { $in: ids } },
+					{ $inc: { retryCount: 1 }, $set: { lastRetriedAt: new Date() } },
+				).exec(),
+			"countDeadLetterRetries",
+			log,
+		);
+
+		const { failures } = await indexBatchLogs(client, chainId, toBatchLogs(deadLetters), log, options);
+		const failed = new Set(failures.map(({ event }) => logKey(event.transactionHash, event.logIndex, event.blockHash)));
+		const resolved = deadLetters.filter(
+			(deadLetter) => !failed.has(logKey(deadLetter.txHash, deadLetter.logIndex, deadLetter.blockHash)),
+		);
+
+		if (resolved.length > 0) {
+			await withRetry(
+				() =>
+					DeadLetterLogModel.updateMany(
+						{ _id: { $in: resolved.map((deadLetter) => deadLetter._id) } },
+						{ $set: { resolvedAt: new Date() } },
+					).exec(),
+				"resolveDeadLetters",
+				log,
+			);
+		}
+
+		report.retried += deadLetters.length;
+		report.resolved += resolved.length;
+		report.failed += deadLetters.length - resolved.length;
+	}
+
+	log.info({ ...report }, "re-processed dead letters");
+	return report;
+}
+
+// -------------------
+// Internal helpers
+// -------------------
+/** Rebuilds the raw logs the parsers take, split by the query that returned them. */
+function toBatchLogs(deadLetters: StoredDeadLetter[]): BatchLogs {
+	const logs: BatchLogs = { feesCollected: [], withdrawals: [] };
+
+	for (const deadLetter of deadLetters) {
+		const event = {
+			address: deadLetter.address,
+			blockNumber: deadLetter.blockNumber,
+			blockHash: deadLetter.blockHash,
+			transactionHash: deadLetter.txHash,
+			logIndex: deadLetter.logIndex,
+			topics: deadLetter.topics,
+			data: deadLetter.data,
+		} as ethers.Event;
+		(deadLetter.kind === "FeesCollected" ? logs.feesCollected : logs.withdrawals).push(event);
+	}
+	return logs;
+}
+
+function logKey(txHash: string, logIndex: number, blockHash: string): string {
+	return `${txHash}:${logIndex}:${blockHash}`;
+}
@@ -0,0 +1,64 @@
+import type { Logger } from "pino";
+
+import type { FeeCollectorClient } from "../client";
+import type { TransactionWithReceipt } from "../rpc/json-rpc-batch";
+import type { ParsedFeeCollectedEvent } from "./parsing.service";
+
+/** The part of the client transaction enrichment uses. */
+export type EnrichmentClient = Pick<FeeCollectorClient, "getTransactions">;
+
+/** What a fee event records about the transaction that paid it. Matches the `tx*` fields of the model. */
+export interface TransactionContext {
+	txFrom: string;
+	txTo: string | null;
+	txGasUsed: string;
+	txEffectiveGasPrice: string;
+	txMethodSelector: string | null;
+}
+
+// ------------------
+// Public API
+// ------------------
+
+/**
+ * Fetches the transactions of `events` with their receipts, keyed by tx hash. Throws when the endpoint doesn't
+ * know one of them: the logs came from a mined transaction, so the endpoint is lagging or misconfigured, and
+ * the caller's retry gets another chance at it.
+ */
+export async function fetchTransactionContexts(
+	client: EnrichmentClient,
+	events: ParsedFeeCollectedEvent[],
+	log: Logger,
+): Promise<Map<string, TransactionContext>> {
+	const txHashes = [...new Set(events.map((e) => e.txHash))];
+	if (txHashes.length === 0) return new Map();
+
+	log.debug({ count: txHashes.length }, "fetching transactions");
+	const transactions = await client.getTransactions(txHashes);
+
+	const contexts = new Map<string, TransactionContext>();
+	for (const [i, txHash] of txHashes.entries()) {
+		const found = transactions[i];
+		if (!found) {
+			throw new Error(`Transaction ${txHash} not found on chain — possible RPC misconfiguration`);
+		}
+		contexts.set(txHash, toTransactionContext(found));
+	}
+	return contexts;
+}
+
+/**
+ * Sender, target, gas and method selector of a mined transaction. Receipts from before EIP-1559 have no
+ * effective gas price; the transaction's gas price is what was paid there.
+ */
+export function toTransactionContext({ transaction, receipt }: TransactionWithReceipt): TransactionContext {
+	const effectiveGasPrice = receipt.effectiveGasPrice ?? transaction.gasPrice;
+
+	return {
+		txFrom: transaction.from.toLowerCase(),
+		txTo: transaction.to?.toLowerCase() ?? null,
+		txGasUsed: receipt.gasUsed.toString(),
+		txEffectiveGasPrice: effectiveGasPrice?.toString() ?? "0",
+		txMethodSelector: transaction.data.length >= 10 ? transaction.data.slice(0, 10).toLowerCase() : null,
+	};
+}
@@ -0,0 +1,139 @@
+import type { Logger } from "pino";
+
+import { ChainLeaseModel } from "../models/chain-lease";
+
+export interface LeaseOptions {
+	/** Identifier of the worker instance that owns the lease. */
+	ownerId: string;
+	/** How long a lease stays valid without being renewed. */
+	ttlMs: number;
+	/** How often the heartbeat renews the lease. Must be well below `ttlMs`. */
+	renewIntervalMs: number;
+}
+
+export interface LeaseHeartbeat {
+	/** Throws a LeaseLostError if the lease was taken over or has lapsed since the last renewal. */
+	assertHeld(): void;
+	/** Stops renewing. Does not release the lease. */
+	stop(): void;
+}
+
+export class LeaseLostError extends Error {
+	constructor(
+		public readonly chainId: number,
+		public readonly ownerId: string,
+	) {
+		super(`Lease for chain ${chainId} lost by ${ownerId} — another worker may have taken over`);
+		this.name = "LeaseLostError";
+	}
+}
+
+const DUPLICATE_KEY_ERROR_CODE = 11000;
+
+// ------------------
+// Public API
+// ------------------
+
+/**
+ * Takes the lease for a chain, or extends it if `ownerId` already holds it.
+ * An expired lease is taken over regardless of its previous owner.
+ *
+ * @returns true if `ownerId` holds the lease afterwards, false if another live owner holds it.
+ */
+export async function acquireLease(chainId: number, ownerId: string, ttlMs: number): Promise<boolean> {
+	const now = new Date();
+
+	try {
+		await ChainLeaseModel.updateOne(
+			{ chainId, $or: [{ ownerId }, { expiresAt: { $lte: now } }] },
+			{ $set: { chainId, ownerId, expiresAt: new Date(now.getTime() + ttlMs) } },
+			{ upsert: true },
+		).exec();
+		return true;
+	} catch (err) {
+		// The filter didn't match (held by someone else and not expired), so the upsert
+		// tried to insert a second document for the chain and hit the unique index.
+		if (isDuplicateKeyError(err)) return false;
+		throw err;
+	}
+}
+
+/**
+ * Pushes the expiry of a lease we still hold.
+ *
+ * @returns false if the lease has expired or now belongs to another owner.
+ */
+export async function renewLease(chainId: number, ownerId: string, ttlMs: number): Promise<boolean> {
+	const now = new Date();
+	const result = await ChainLeaseModel.updateOne(
+		{ chainId, ownerId, expiresAt: { $gt: now } },
+		{ $set: { expiresAt: new Date(now.getTime() + ttlMs) } },
+	).exec();
+
+	return result.matchedCount === 1;
+}
+
+/** Releases the lease so a standby worker can take over immediately. No-op if we don't hold it. */
+export async function releaseLease(chainId: number, ownerId: string): Promise<void> {
+	await ChainLeaseModel.deleteOne({ chainId, ownerId }).exec();
+}
+
+/** Returns the current holder of a chain's lease, if any. Used for standby logging. */
+export async function getLeaseHolder(chainId: number): Promise<{ ownerId: string; expiresAt: Date } | null> {
+	const lease = await ChainLeaseModel.findOne({ chainId }).lean().exec();
+	return lease ? { ownerId: lease.ownerId, expiresAt: lease.expiresAt } : null;
+}
+
+/**
+ * Renews the lease every `renewIntervalMs` until stopped. Expects the lease to have just been acquired.
+ *
+ * A rejected renewal marks the lease as lost. A renewal that errors (e.g. Mongo blip) is retried on
+ * the next tick, but once the locally tracked expiry passes the lease is treated as lost too — by then
+ * another worker is free to take it over.
+ */
+export function startLeaseHeartbeat(chainId: number, lease: LeaseOptions, log: Logger): LeaseHeartbeat {
+	let expiresAt = Date.now() + lease.ttlMs;
+	let lost = false;
+	let renewing = false;
+
+	const timer = setInterval(async () => {
+		if (lost || renewing) return;
+		renewing = true;
+
+		// Measure from before the request so the local expiry never outlives the stored one
+		const requestedAt = Date.now();
+		try {
+			if (await renewLease(chainId, lease.ownerId, lease.ttlMs)) {
+				expiresAt = requestedAt + lease.ttlMs;
+				log.debug({ ownerId: lease.ownerId, expiresAt: new Date(expiresAt) }, "lease renewed");
+			} else {
+				lost = true;
+				log.error({ ownerId: lease.ownerId }, "lease lost — renewal rejected");
+			}
+		} catch (err) {
+			log.warn({ err, ownerId: lease.ownerId }, "lease renewal failed, will retry on next heartbeat");
+		} finally {
+			renewing = false;
+		}
+	}, lease.renewIntervalMs);
+	timer.unref();
+
+	return {
+		assertHeld() {
+			if (lost || Date.now() >= expiresAt) {
+				lost = true;
+				throw new LeaseLostError(chainId, lease.ownerId);
+			}
+		},
+		stop() {
+			clearInterval(timer);
+		},
+	};
+}
+
+// -------------------
+// Internal helpers
+// -------------------
+function isDuplicateKeyError(err: unknown): boolean {
+	return (err as { code?: number } | null)?.code === DUPLICATE_KEY_ERROR_CODE;
+}
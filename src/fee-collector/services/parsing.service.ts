@@ -1,9 +1,12 @@
 import { BigNumber, type ethers } from "ethers";
 import { FeeCollector__factory } from "lifi-contract-types";
 
+import { decodeFeesCollected } from "../abi/fees-collected";
+
 /** Shape that matches the FeeCollectedEvent Typegoose model (excluding createdAt). */
 export interface ParsedFeeCollectedEvent {
 	chainId: number;
+	contractAddress: string;
 	blockNumber: number;
 	blockHash: string;
 	txHash: string;
@@ -15,23 +18,56 @@ export interface ParsedFeeCollectedEvent {
 	blockTimestamp: number;
 }
 
+/** Shape that matches the FeesWithdrawnEvent and LiFiFeesWithdrawnEvent Typegoose models (excluding createdAt). */
+export interface ParsedWithdrawalEvent {
+	chainId: number;
+	contractAddress: string;
+	blockNumber: number;
+	blockHash: string;
+	txHash: string;
+	logIndex: number;
+	token: string;
+	to: string;
+	amount: string;
+	blockTimestamp: number;
+}
+
+/** Withdrawals split by event, one list per model. */
+export interface ParsedWithdrawals {
+	/** `FeesWithdrawn`: an integrator withdrew its fees. */
+	feesWithdrawn: ParsedWithdrawalEvent[];
+	/** `LiFiFeesWithdrawn`: LI.FI withdrew its own share. */
+	lifiFeesWithdrawn: ParsedWithdrawalEvent[];
+}
+
+/** A log that couldn't be parsed, e.g. one that doesn't decode with the FeeCollector ABI. */
+export interface ParseFailure {
+	event: ethers.Event;
+	error: Error;
+}
+
 const feeCollectorInterface = FeeCollector__factory.createInterface();
 
 /**
- * Parses raw ethers events into DTOs ready for MongoDB insertion.
+ * Parses raw ethers events into DTOs ready for MongoDB insertion. Each log is decoded with the `FeesCollected`
+ * ABI version matching its topic and block (see abi/fees-collected.ts); a log no version matches fails with
+ * `UnknownAbiVersionError`.
  *
  * @param events       Raw events from contract.queryFilter()
  * @param chainId      The chain these events came from (e.g. 137 for Polygon)
  * @param blockTimestamps  Map of blockNumber → unix timestamp (seconds).
  *                         The caller is responsible for fetching blocks and building this map.
+ * @param failures     When given, logs that fail to parse are collected here and left out of the result,
+ *                     instead of failing the whole call.
  */
 export function parseFeeCollectedEvents(
 	events: ethers.Event[],
 	chainId: number,
 	blockTimestamps: Map<number, number>,
+	failures?: ParseFailure[],
 ): ParsedFeeCollectedEvent[] {
-	return events.map((event) => {
-		const parsed = feeCollectorInterface.parseLog(event);
+	return parseEach(events, failures, (event) => {
+		const args = decodeFeesCollected(chainId, event);
 
 		const timestamp = blockTimestamps.get(event.blockNumber);
 
@@ -41,15 +77,92 @@ export function parseFeeCollectedEvents(
 
 		return {
 			chainId,
+			contractAddress: event.address.toLowerCase(),
 			blockNumber: event.blockNumber,
 			blockHash: event.blockHash,
 			txHash: event.transactionHash,
 			logIndex: event.logIndex,
-			token: (parsed.args[0] as string).toLowerCase(),
-			integrator: (parsed.args[1] as string).toLowerCase(),
-			integratorFee: BigNumber.from(parsed.args[2]).toString(),
-			lifiFee: BigNumber.from(parsed.args[3]).toString(),
+			token: args.token.toLowerCase(),
+			integrator: args.integrator.toLowerCase(),
+			integratorFee: args.integratorFee.toString(),
+			lifiFee: args.lifiFee.toString(),
 			blockTimestamp: timestamp,
 		};
 	});
 }
+
+/**
+ * Parses raw FeesWithdrawn / LiFiFeesWithdrawn events into DTOs, split by event name.
+ * Same parameters as `parseFeeCollectedEvents`; any other event is rejected.
+ */
+export function parseWithdrawalEvents(
+	events: ethers.Event[],
+	chainId: number,
+	blockTimestamps: Map<number, number>,
+	failures?: ParseFailure[],
+): ParsedWithdrawals {
+	const withdrawals: ParsedWithdrawals = { feesWithdrawn: [], lifiFeesWithdrawn: [] };
+	const byEventName: Record<string, ParsedWithdrawalEvent[] | undefined> = {
+		FeesWithdrawn: withdrawals.feesWithdrawn,
+		LiFiFeesWithdrawn: withdrawals.lifiFeesWithdrawn,
+	};
+
+	const parsedEvents = parseEach(events, failures, (event) => {
+		const parsed = feeCollectorInterface.parseLog(event);
+		const target = byEventName[parsed.name];
+
+		if (!target) {
+			throw new Error(`Unexpected ${parsed.name} event in tx ${event.transactionHash}, expected a withdrawal`);
+		}
+
+		const timestamp = blockTimestamps.get(event.blockNumber);
+
+		if (timestamp === undefined) {
+			throw new Error(`Missing block timestamp for block ${event.blockNumber}`);
+		}
+
+		return {
+			target,
+			withdrawal: {
+				chainId,
+				contractAddress: event.address.toLowerCase(),
+				blockNumber: event.blockNumber,
+				blockHash: event.blockHash,
+				txHash: event.transactionHash,
+				logIndex: event.logIndex,
+				token: (parsed.args[0] as string).toLowerCase(),
+				to: (parsed.args[1] as string).toLowerCase(),
+				amount: BigNumber.from(parsed.args[2]).toString(),
+				blockTimestamp: timestamp,
+			},
+		};
+	});
+
+	for (const { target, withdrawal } of parsedEvents) {
+		target.push(withdrawal);
+	}
+	return withdrawals;
+}
+
+/** Maps each event with `parse`. With `failures`, an event that throws is recorded there and skipped. */
+function parseEach<T>(
+	events: ethers.Event[],
+	failures: ParseFailure[] | undefined,
+	parse: (event: ethers.Event) => T,
+): T[] {
+	const parsed: T[] = [];
+
+	for (const event of events) {
+		if (!failures) {
+			parsed.push(parse(event));
+			continue;
+		}
+
+		try {
+			parsed.push(parse(event));
+		} catch (err) {
+			failures.push({ event, error: err instanceof Error ? err : new Error(String(err)) });
+		}
+	}
+	return parsed;
+}
@@ -0,0 +1,123 @@
+import type { Logger } from "pino";
+
+import { ChainAssignmentModel } from "../models/chain-assignment";
+import { WorkerInstanceModel } from "../models/worker-instance";
+
+export interface PoolChain {
+	chainId: number;
+	name: string;
+}
+
+export interface InstanceHeartbeat {
+	stop(): void;
+}
+
+// ------------------
+// Public API
+// ------------------
+
+/** Registers (or refreshes) a pool instance so the other instances include it in the chain split. */
+export async function registerInstance(instanceId: string, ttlMs: number): Promise<void> {
+	await WorkerInstanceModel.updateOne(
+		{ instanceId },
+		{ $set: { instanceId, expiresAt: new Date(Date.now() + ttlMs) } },
+		{ upsert: true },
+	).exec();
+}
+
+/** Removes a pool instance so its chains move to the remaining instances on their next cycle. */
+export async function deregisterInstance(instanceId: string): Promise<void> {
+	await WorkerInstanceModel.deleteOne({ instanceId }).exec();
+}
+
+/** Returns the ids of all instances whose registration has not expired, sorted. */
+export async function listLiveInstances(): Promise<string[]> {
+	const instances = await WorkerInstanceModel.find({ expiresAt: { $gt: new Date() } })
+		.sort({ instanceId: 1 })
+		.lean()
+		.exec();
+
+	return instances.map((instance) => instance.instanceId);
+}
+
+/**
+ * Keeps the instance registration alive independently of sync cycles, so a long catch-up cycle
+ * doesn't make the instance look dead to the rest of the pool.
+ */
+export function startInstanceHeartbeat(
+	instanceId: string,
+	ttlMs: number,
+	intervalMs: number,
+	log: Logger,
+): InstanceHeartbeat {
+	const timer = setInterval(() => {
+		registerInstance(instanceId, ttlMs).catch((err) => {
+			log.warn({ err, instanceId }, "pool registration heartbeat failed, will retry");
+		});
+	}, intervalMs);
+	timer.unref();
+
+	return {
+		stop() {
+			clearInterval(timer);
+		},
+	};
+}
+
+/**
+ * Splits chains evenly across instances: chains sorted by id are dealt round-robin to instances
+ * sorted by id. The result depends only on the two sets, so every instance computes the same split
+ * without having to coordinate.
+ */
+export function computeAssignments(chainIds: number[], instanceIds: string[]): Map<number, string> {
+	const assignments = new Map<number, string>();
+	if (instanceIds.length === 0) return assignments;
+
+	const sortedInstances = [...new Set(instanceIds)].sort();
+	const sortedChains = [...new Set(chainIds)].sort((a, b) => a - b);
+
+	for (const [i, chainId] of sortedChains.entries()) {
+		assignments.set(chainId, sortedInstances[i % sortedInstances.length]);
+	}
+	return assignments;
+}
+
+/**
+ * Works out which of `chains` belong to `instanceId` given the current live pool, and records
+ * those assignments in the `chain_assignments` collection.
+ *
+ * Moving a chain between instances is safe even if two instances briefly disagree on the split:
+ * the chain lease still guarantees that only one of them syncs it.
+ *
+ * @returns chain ids assigned to `instanceId`.
+ */
+export async function claimAssignedChains(instanceId: string, chains: PoolChain[], log: Logger): Promise<number[]> {
+	const liveInstances = await listLiveInstances();
+	// Our own registration may have just lapsed (e.g. Mongo hiccup); we are evidently alive
+	if (!liveInstances.includes(instanceId)) liveInstances.push(instanceId);
+
+	const assignments = computeAssignments(
+		chains.map((chain) => chain.chainId),
+		liveInstances,
+	);
+	const ownChains = chains.filter((chain) => assignments.get(chain.chainId) === instanceId);
+
+	if (ownChains.length > 0) {
+		await ChainAssignmentModel.bulkWrite(
+			ownChains.map((chain) => ({
+				updateOne: {
+					filter: { chainId: chain.chainId },
+					update: { $set: { chainId: chain.chainId, chain: chain.name, instanceId } },
+					upsert: true,
+				},
+			})),
+			{ ordered: false },
+		);
+	}
+
+	log.debug(
+		{ instanceId, poolSize: liveInstances.length, chains: ownChains.map((chain) => chain.name) },
+		"pool assignments computed",
+	);
+	return ownChains.map((chain) => chain.chainId);
+}
@@ -0,0 +1,168 @@
+import type { Logger } from "pino";
+
+import type { FeeCollectorClient } from "../client";
+import type { ChainDefinition, ContractDeployment } from "../config/chains.config";
+import { ChainSyncStateModel } from "../models/chain-sync-state";
+import type { EndpointResult } from "../rpc/endpoint-pool";
+
+/** The part of the client the preflight uses. */
+export type PreflightClient = Pick<FeeCollectorClient, "getEndpointChainIds" | "getCode" | "getBlockNumber">;
+
+/** The chain settings the preflight verifies. */
+export type PreflightChain = Pick<ChainDefinition, "chainId" | "name" | "deployments">;
+
+export interface PreflightCheck {
+	check: "chainId" | "bytecode" | "startBlock" | "syncState";
+	/**
+	 * `skipped` when the check couldn't be run (e.g. the endpoint failed), `warned` when it found something the
+	 * registry says is deliberate; neither refuses the chain.
+	 */
+	status: "passed" | "failed" | "skipped" | "warned";
+	detail: string;
+}
+
+export interface PreflightReport {
+	chain: string;
+	/** False when any check failed. Skipped and warned checks don't count against the chain. */
+	passed: boolean;
+	checks: PreflightCheck[];
+}
+
+const NO_CODE = "0x";
+
+// ------------------
+// Public API
+// ------------------
+
+/**
+ * Checks that a chain's configuration matches the chain its endpoints serve, before the worker syncs it:
+ * - every endpoint answers `eth_chainId` with the registry's `chainId` (`StaticJsonRpcProvider` never checks)
+ * - each current deployment (no `endBlock`) has contract code
+ * - each deployment's `startBlock` is at or before the block it was deployed in: there must be no code at
+ *   `startBlock - 1`, or the events in between would never be indexed. A deployment marked `lateStart` starts
+ *   after its deployment on purpose and only gets a warning
+ * - the stored checkpoint isn't ahead of the chain head, which would mean the database belongs to another
+ *   chain or network
+ *
+ * Reading code at `startBlock - 1` needs historical state; on an endpoint that doesn't keep it, that check is
+ * skipped with a warning rather than refusing the chain. RPC or database errors skip a check the same way.
+ */
+export async function preflightChain(
+	client: PreflightClient,
+	chain: PreflightChain,
+	log: Logger,
+): Promise<PreflightReport> {
+	const checks = (
+		await Promise.all([
+			checkChainId(client, chain),
+			...chain.deployments.map(async (deployment) => [
+				...(deployment.endBlock === undefined ? [await checkBytecode(client, deployment.address)] : []),
+				...(deployment.startBlock > 0 ? [await checkStartBlock(client, deployment)] : []),
+			]),
+			checkSyncState(client, chain.chainId),
+		])
+	).flat();
+
+	for (const { check, status, detail } of checks.filter(({ status }) => status === "skipped" || status === "warned")) {
+		log.warn({ chain: chain.name, check, detail }, `preflight check ${status}`);
+	}
+
+	return { chain: chain.name, passed: checks.every(({ status }) => status !== "failed"), checks };
+}
+
+// -------------------
+// Internal helpers
+// -------------------
+
+async function checkChainId(client: PreflightClient, chain: PreflightChain): Promise<PreflightCheck> {
+	const results = await client.getEndpointChainIds();
+	const answered = results.filter(
+		(result): result is Extract<EndpointResult<number>, { status: "fulfilled" }> => result.status === "fulfilled",
+	);
+	const wrong = answered.filter((result) => result.value !== chain.chainId);
+
+	if (wrong.length > 0) {
+		const endpoints = wrong.map(({ endpoint, value }) => `${endpoint} serves chain ${value}`);
+		return {
+			check: "chainId",
+			status: "failed",
+			detail: `expected chain ${chain.chainId}, but ${endpoints.join(", ")}`,
+		};
+	}
+	if (answered.length === 0) {
+		const errors = results.map((result) =>
+			result.status === "rejected" ? `${result.endpoint}: ${message(result.reason)}` : result.endpoint,
+		);
+		return { check: "chainId", status: "skipped", detail: `no endpoint answered eth_chainId (${errors.join("; ")})` };
+	}
+
+	return {
+		check: "chainId",
+		status: "passed",
+		detail: `${answered.length} of ${results.length} endpoints answered with chain ${chain.chainId}`,
+	};
+}
+
+async function checkBytecode(client: PreflightClient, address: string): Promise<PreflightCheck> {
+	try {
+		const code = await client.getCode(address);
+		return code === NO_CODE
+			? { check: "bytecode", status: "failed", detail: `no contract code at ${address}` }
+			: { check: "bytecode", status: "passed", detail: `${address} has contract code` };
+	} catch (err) {
+		return { check: "bytecode", status: "skipped", detail: `could not read the code at ${address}: ${message(err)}` };
+	}
+}
+
+async function checkStartBlock(client: PreflightClient, deployment: ContractDeployment): Promise<PreflightCheck> {
+	const { address, startBlock, lateStart } = deployment;
+	try {
+		const code = await client.getCode(address, startBlock - 1);
+		if (code === NO_CODE) {
+			return { check: "startBlock", status: "passed", detail: `${address} has no code before block ${startBlock}` };
+		}
+		return lateStart
+			? {
+					check: "startBlock",
+					status: "warned",
+					detail: `${address} already has code at block ${startBlock - 1}: its events before startBlock ${startBlock} are left out (lateStart)`,
+				}
+			: {
+					check: "startBlock",
+					status: "failed",
+					detail: `${address} already has code at block ${startBlock - 1}: its startBlock ${startBlock} is after the deployment, so earlier events would be missed (set lateStart if that is deliberate)`,
+				};
+	} catch (err) {
+		return {
+			check: "startBlock",
+			status: "skipped",
+			detail: `could not read the code of ${address} at block ${startBlock - 1}, the endpoint may not keep historical state: ${message(err)}`,
+		};
+	}
+}
+
+async function checkSyncState(client: PreflightClient, chainId: number): Promise<PreflightCheck> {
+	try {
+		const state = await ChainSyncStateModel.findOne({ chainId }).lean().exec();
+		if (!state) return { check: "syncState", status: "passed", detail: "no stored checkpoint yet" };
+
+		const head = await client.getBlockNumber();
+		return state.lastProcessedBlock > head
+			? {
+					check: "syncState",
+					status: "failed",
+					detail: `stored checkpoint ${state.lastProcessedBlock} is ahead of the chain head ${head}: the database belongs to another chain or network`,
+				}
+			: { check: "syncState", status: "passed", detail: `checkpoint ${state.lastProcessedBlock}, chain head ${head}` };
+	} catch (err) {
+		return {
+			check: "syncState",
+			status: "skipped",
+			detail: `could not compare the checkpoint with the head: ${message(err)}`,
+		};
+	}
+}
+
+function message(err: unknown): string {
+	return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,146 @@
+import { ethers } from "ethers";
+import type { Types } from "mongoose";
+import type { Logger } from "pino";
+
+import { FeeCollectedEventModel, type PriceStatus } from "../models/fee-collected-event";
+import { TokenModel } from "../models/token";
+import type { PriceProvider } from "../prices/price-provider";
+import { type BalanceKey, refreshBalances } from "./balance.service";
+
+/** Outcome of a pricing pass over one chain. */
+export interface PricingReport {
+	priced: number;
+	/** Events whose token had no price or decimals; `repriceFees` retries them. */
+	unpriced: number;
+	/** Events left as they were because their token's metadata isn't resolved yet. */
+	waiting: number;
+}
+
+interface PricingCandidate {
+	_id: Types.ObjectId;
+	token: string;
+	integrator: string;
+	integratorFee: string;
+	lifiFee: string;
+	blockTimestamp: number;
+}
+
+const PRICING_BATCH_SIZE = 500;
+
+// ------------------
+// Public API
+// ------------------
+
+/**
+ * Values the chain's `pending` canonical events in USD at their block timestamp, then refreshes the balances
+ * of the integrators whose events got a price.
+ *
+ * An event whose token has no price or no decimals becomes `unpriced` so later passes skip it. One whose
+ * token isn't in `tokens` yet stays `pending`: token resolution runs right after indexing and may still be
+ * catching up.
+ */
+export async function priceFees(provider: PriceProvider, chainId: number, log: Logger): Promise<PricingReport> {
+	return pricePass(provider, chainId, "pending", log);
+}
+
+/** Retries the chain's `unpriced` events, e.g. after the price file gained the missing tokens or dates. */
+export async function repriceFees(provider: PriceProvider, chainId: number, log: Logger): Promise<PricingReport> {
+	return pricePass(provider, chainId, "unpriced", log);
+}
+
+// -------------------
+// Internal helpers
+// -------------------
+async function pricePass(
+	provider: PriceProvider,
+	chainId: number,
+	status: PriceStatus,
+	log: Logger,
+): Promise<PricingReport> {
+	const report: PricingReport = { priced: 0, unpriced: 0, waiting: 0 };
+	const balanceKeys = new Map<string, BalanceKey>();
+	let afterId: Types.ObjectId | undefined;
+
+	// Walks the events by _id, so the ones left waiting aren't read again in the same pass
+	for (;;) {
+		const events = await FeeCollectedEventModel.find(
+			{ chainId, priceStatus: status, reorgId: null, ...(afterId && { _id: { $gt: afterId } }) },
+			{ token: 1, integrator: 1, integratorFee: 1, lifiFee: 1, blockTimestamp: 1 },
+		)
+			.sort({ _id: 1 })
+			.limit(PRICING_BATCH_SIZE)
+			.lean<PricingCandidate[]>()
+			.exec();
+		if (events.length === 0) break;
+		afterId = events[events.length - 1]._id;
+
+		const decimals = await tokenDecimals(chainId, [...new Set(events.map((e) => e.token))]);
+		const pricedAt = new Date();
+		const bulkOps = [];
+
+		for (const event of events) {
+			const tokenDecimals = decimals.get(event.token);
+			if (tokenDecimals === undefined) {
+				report.waiting++;
+				continue;
+			}
+
+			const update = await valuate(provider, chainId, event, tokenDecimals);
+			if (update.$set.priceStatus === "priced") {
+				report.priced++;
+				const key = { chainId, integrator: event.integrator, token: event.token };
+				balanceKeys.set(`${key.integrator}:${key.token}`, key);
+			} else {
+				report.unpriced++;
+			}
+			bulkOps.push({
+				updateOne: {
+					// Status guard: a concurrent pass that already valued the event wins
+					filter: { _id: event._id, priceStatus: status },
+					update: { ...update, $set: { ...update.$set, pricedAt } },
+				},
+			});
+		}
+
+		if (bulkOps.length > 0) await FeeCollectedEventModel.bulkWrite(bulkOps, { ordered: false });
+		if (events.length < PRICING_BATCH_SIZE) break;
+	}
+
+	await refreshBalances([...balanceKeys.values()], log);
+	log.info({ chainId, status, ...report }, "priced fee events");
+	return report;
+}
+
+/** Decimals of the resolved tokens among `addresses`; unresolved ones are missing from the map. */
+async function tokenDecimals(chainId: number, addresses: string[]): Promise<Map<string, number | null>> {
+	const tokens = await TokenModel.find({ chainId, address: { $in: addresses } }, { address: 1, decimals: 1 })
+		.lean()
+		.exec();
+	return new Map(tokens.map((token) => [token.address, token.decimals]));
+}
+
+async function valuate(provider: PriceProvider, chainId: number, event: PricingCandidate, decimals: number | null) {
+	if (decimals === null) {
+		return { $set: { priceStatus: "unpriced" as const, unpricedReason: "unknown-decimals" as const } };
+	}
+
+	const price = await provider.getUsdPrice(chainId, event.token, event.blockTimestamp);
+	if (price === null) {
+		return { $set: { priceStatus: "unpriced" as const, unpricedReason: "unknown-price" as const } };
+	}
+
+	return {
+		$set: {
+			priceStatus: "priced" as const,
+			tokenPriceUsd: price,
+			integratorFeeUsd: toUsd(event.integratorFee, decimals, price),
+			lifiFeeUsd: toUsd(event.lifiFee, decimals, price),
+		},
+		$unset: { unpricedReason: "" as const },
+	};
+}
+
+/** Converts a base-unit amount string to USD. Floating point is fine here: USD values are for reporting only. */
+function toUsd(amount: string, decimals: number, price: number): number {
+	return Number(ethers.utils.formatUnits(amount, decimals)) * price;
+}
@@ -0,0 +1,117 @@
+import type { ethers } from "ethers";
+import { type Logger, pino } from "pino";
+
+import type { FeeCollectorClient } from "../client";
+import { ProvisionalFeeEventModel } from "../models/provisional-fee-event";
+import { type ParsedFeeCollectedEvent, parseFeeCollectedEvents } from "./parsing.service";
+
+/** The part of the client the log subscription uses. */
+export type SubscriptionClient = Pick<FeeCollectorClient, "subscribeFeesCollected">;
+
+export interface ProvisionalSubscription {
+	/** False once the socket closed or failed; start a new subscription to resume. */
+	readonly active: boolean;
+	stop(): Promise<void>;
+}
+
+// ------------------
+// Public API
+// ------------------
+
+/**
+ * Records FeesCollected events pushed over the chain's WebSocket endpoint in `provisional_fee_events`
+ * as they are mined, ahead of the polling sync. A log the node un-mines in a reorg is removed again.
+ * Provisional events never reach `fee_collected_events`: the sync indexes the confirmed version itself
+ * and then clears them, see `reconcileProvisionalEvents`.
+ *
+ * Returns null when the client has no WebSocket endpoint. Failures to record an event are logged and
+ * skipped, since the polling sync indexes the event anyway.
+ */
+export function startLogSubscription(
+	client: SubscriptionClient,
+	chainId: number,
+	logger?: Logger,
+): ProvisionalSubscription | null {
+	const log = (logger ?? pino({ name: "fee-collector-subscription" })).child({ chainId });
+	let active = true;
+
+	const subscription = client.subscribeFeesCollected({
+		onEvent(event) {
+			recordPushedEvent(chainId, event, log).catch((err: unknown) => {
+				log.warn(
+					{ err, txHash: event.transactionHash, logIndex: event.logIndex },
+					"failed to record provisional event",
+				);
+			});
+		},
+		onClose(err) {
+			active = false;
+			log.warn({ err }, "log subscription closed, falling back to polling until it is restarted");
+		},
+	});
+
+	if (!subscription) return null;
+	log.info("log subscription started");
+
+	return {
+		get active() {
+			return active;
+		},
+		async stop() {
+			active = false;
+			await subscription.close();
+			log.info("log subscription stopped");
+		},
+	};
+}
+
+/**
+ * Clears the provisional events of every block up to `toBlock` once the sync has indexed those blocks.
+ * Provisional events matching one of `confirmed` (same tx, log index and block hash) made it into the
+ * canonical chain; the others were reorged away, or were pushed after the sync had already passed them.
+ */
+export async function reconcileProvisionalEvents(
+	chainId: number,
+	toBlock: number,
+	confirmed: ParsedFeeCollectedEvent[],
+	log: Logger,
+): Promise<void> {
+	const filter = { chainId, blockNumber: { $lte: toBlock } };
+	const provisional = await ProvisionalFeeEventModel.find(filter).lean().exec();
+	if (provisional.length === 0) return;
+
+	const confirmedKeys = new Set(confirmed.map(eventKey));
+	const confirmedCount = provisional.filter((event) => confirmedKeys.has(eventKey(event))).length;
+
+	await ProvisionalFeeEventModel.deleteMany(filter).exec();
+	log.info(
+		{ confirmed: confirmedCount, dropped: provisional.length - confirmedCount },
+		"reconciled provisional events",
+	);
+}
+
+// -------------------
+// Internal helpers
+// -------------------
+
+async function recordPushedEvent(chainId: number, event: ethers.Event, log: Logger): Promise<void> {
+	const key = { chainId, txHash: event.transactionHash, logIndex: event.logIndex };
+
+	if (event.removed) {
+		await ProvisionalFeeEventModel.deleteOne({ ...key, blockHash: event.blockHash }).exec();
+		log.info({ ...key, blockNumber: event.blockNumber }, "provisional event removed by reorg");
+		return;
+	}
+
+	// Fetched over the same socket by hash, so the timestamp belongs to the block the log was pushed for
+	const block = await event.getBlock();
+	const [parsed] = parseFeeCollectedEvents([event], chainId, new Map([[event.blockNumber, block.timestamp]]));
+
+	// A log re-mined in another block replaces the earlier provisional version
+	await ProvisionalFeeEventModel.updateOne(key, { $set: parsed }, { upsert: true }).exec();
+	log.debug({ ...key, blockNumber: event.blockNumber }, "recorded provisional event");
+}
+
+function eventKey(event: Pick<ParsedFeeCollectedEvent, "txHash" | "logIndex" | "blockHash">): string {
+	return `${event.txHash}:${event.logIndex}:${event.blockHash}`;
+}
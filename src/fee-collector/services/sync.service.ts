@@ -1,153 +1,603 @@
+import type { ethers } from "ethers";
 import { type Logger, pino } from "pino";
 
+import { UnknownAbiVersionError } from "../abi/fees-collected";
 import type { FeeCollectorClient } from "../client";
+import { currentChainMetrics } from "../metrics/worker-metrics";
+import { BlockHashModel } from "../models/block-hash";
 import { ChainSyncStateModel } from "../models/chain-sync-state";
+import { type DeadLetterKind, DeadLetterLogModel } from "../models/dead-letter-log";
 import { FeeCollectedEventModel } from "../models/fee-collected-event";
-import { parseFeeCollectedEvents } from "./parsing.service";
-
-export interface SyncConfig {
+import { FeesWithdrawnEventModel } from "../models/fees-withdrawn-event";
+import { LiFiFeesWithdrawnEventModel } from "../models/lifi-fees-withdrawn-event";
+import { ReorgModel } from "../models/reorg";
+import {
+	classifyRetryError,
+	computeRetryDelay,
+	currentRetryPolicies,
+	type RetryPolicy,
+	resolveRetryPolicy,
+} from "../retry/retry-policy";
+import {
+	applyBalanceDeltas,
+	balanceKeysFromBlock,
+	balanceKeysOf,
+	refreshBalances,
+	reverseBalanceDeltas,
+} from "./balance.service";
+import {
+	type BatchSizeLimits,
+	clampBatchSize,
+	growBatchSize,
+	isRangeTooLargeError,
+	shrinkBatchSize,
+} from "./batch-size.service";
+import { fetchTransactionContexts, type TransactionContext } from "./enrichment.service";
+import { type LeaseHeartbeat, type LeaseOptions, startLeaseHeartbeat } from "./lease.service";
+import {
+	type ParsedFeeCollectedEvent,
+	type ParsedWithdrawals,
+	type ParseFailure,
+	parseFeeCollectedEvents,
+	parseWithdrawalEvents,
+} from "./parsing.service";
+import { reconcileProvisionalEvents } from "./subscription.service";
+import { resolveTokens, tokensOf } from "./token.service";
+
+export interface SyncConfig extends BatchSizeLimits {
 	chainId: number;
 	startBlock: number;
 	confirmations: number;
+	/** Initial block range per eth_getLogs call, used until the chain has a learned size. */
 	batchSize: number;
+	/** Blocks of hashes kept in the block-hash ledger below the checkpoint: the deepest reorg the sync can resolve. */
 	reorgBacktrack: number;
 	batchDelayMs: number;
+	/** Record the sender, target, gas and method selector of each fee event's transaction. */
+	enrichTransactions: boolean;
+}
+
+/** The part of the client the sync engine uses; health reporting and the like stay with the worker. */
+export type SyncClient = Pick<
+	FeeCollectorClient,
+	| "queryFeesCollected"
+	| "queryLogs"
+	| "getBlock"
+	| "getBlocks"
+	| "getTransactions"
+	| "getBlockNumber"
+	| "getTokenMetadata"
+>;
+
+/** How `indexBatchLogs` indexes a batch beyond parsing and persisting it. */
+export interface IndexOptions {
+	/** Fetch each fee event's transaction and receipt and store their context with the event. */
+	enrichTransactions?: boolean;
+	/**
+	 * The batch ends at this block, at or above every stored balance's watermark (the sync's batches): the
+	 * balances get the batch's events added instead of being recomputed.
+	 */
+	balancesThroughBlock?: number;
+}
+
+/** Where a sync cycle left the chain: its checkpoint and the safe block the cycle synced towards. */
+export interface SyncProgress {
+	safeBlock: number;
+	lastProcessedBlock: number;
+}
+
+/** Raw logs of one block range. */
+export interface BatchLogs {
+	feesCollected: ethers.Event[];
+	/** FeesWithdrawn and LiFiFeesWithdrawn events. */
+	withdrawals: ethers.Event[];
+}
+
+interface SyncState {
+	lastProcessedBlock: number;
+	lastProcessedBlockHash: string | null;
+	batchSize: number;
+}
+
+interface LedgerEntry {
+	blockNumber: number;
+	blockHash: string;
+}
+
+/** The checkpoint block whose stored hash no longer matches the chain. */
+interface HashMismatch {
+	blockNumber: number;
+	oldBlockHash: string;
+	newBlockHash: string;
 }
 
+/**
+ * The chain reorganized below the oldest block in the block-hash ledger, so the sync can't tell which of
+ * its events are still canonical. Retrying won't help: the chain needs to be re-synced from an earlier block.
+ */
+export class ReorgTooDeepError extends Error {
+	constructor(
+		public readonly chainId: number,
+		public readonly blockNumber: number,
+		public readonly oldestLedgerBlock: number | null,
+	) {
+		super(
+			`Reorg on chain ${chainId} at block ${blockNumber} goes deeper than the block-hash ledger ` +
+				`(oldest stored block: ${oldestLedgerBlock ?? "none"}), no common ancestor found. ` +
+				"Roll the chain back manually to a block before the reorg and re-sync it",
+		);
+		this.name = "ReorgTooDeepError";
+	}
+}
+
+/** Settings of one call that take precedence over the retry policies of the chain's scope. */
+export type RetryOptions = Partial<RetryPolicy>;
+
 // ------------------
 // Public API
 // ------------------
 
+/**
+ * Runs one sync cycle for a chain: catches up from the last checkpoint to the current safe block.
+ *
+ * When `lease` is given, the caller must already hold it. The lease is renewed in the background for
+ * the duration of the cycle, and the cycle aborts with a LeaseLostError before its next write if the
+ * lease is lost. Returns the checkpoint the cycle reached, which trails the safe block when it was aborted.
+ */
 export async function sync(
-	client: FeeCollectorClient,
+	client: SyncClient,
 	config: SyncConfig,
 	logger?: Logger,
 	signal?: AbortSignal,
-): Promise<void> {
+	lease?: LeaseOptions,
+): Promise<SyncProgress> {
 	const log = (logger ?? pino({ name: "fee-collector-sync" })).child({ chainId: config.chainId });
+	const heartbeat = lease ? startLeaseHeartbeat(config.chainId, lease, log) : undefined;
+
+	try {
+		return await runSyncCycle(client, config, log, signal, heartbeat);
+	} finally {
+		heartbeat?.stop();
+	}
+}
+
+/**
+ * Calls `fn` until it succeeds or the retry policy gives up, rethrowing the last error. The policy is the
+ * `label` operation's in the chain's scope (see retry/retry-policy.ts), 3 attempts with a 5s, 10s backoff
+ * outside one. Fatal errors are rethrown right away and rate-limited calls wait as long as the provider asked.
+ * Shared with the backfill, which writes events the same way the sync does.
+ */
+export async function withRetry<T>(
+	fn: () => Promise<T>,
+	label: string,
+	log: Logger,
+	options: RetryOptions = {},
+): Promise<T> {
+	const policy = { ...resolveRetryPolicy(currentRetryPolicies(), label), ...options };
+
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await fn();
+		} catch (err) {
+			const classification = classifyRetryError(err);
+			const delay = attempt < policy.maxAttempts ? computeRetryDelay(policy, attempt, classification) : null;
+			if (delay === null) throw err;
+
+			log.warn(
+				{ err, attempt, maxAttempts: policy.maxAttempts, delay, errorClass: classification.kind },
+				`${label} failed, retrying`,
+			);
+			currentChainMetrics()?.retry(label);
+			await sleep(delay);
+		}
+	}
+}
+
+/**
+ * Queries the FeesCollected and withdrawal logs of `[fromBlock, toBlock]`. A "range too large" error is
+ * fatal to the retry policy, so it is thrown without retrying and the caller can shrink the batch instead.
+ */
+export async function queryBatchLogs(
+	client: SyncClient,
+	fromBlock: number,
+	toBlock: number,
+	log: Logger,
+): Promise<BatchLogs> {
+	return withRetry(() => client.queryLogs(fromBlock, toBlock), "queryBatchLogs", log);
+}
+
+/**
+ * Fetches the timestamps of the blocks in `logs`, then parses and persists its events and withdrawals,
+ * updates the integrator balances they touch (see `IndexOptions.balancesThroughBlock`) and resolves the
+ * metadata of tokens not seen before.
+ * With `enrichTransactions`, the fee events are stored with the context of their transactions.
+ *
+ * A log that fails to parse doesn't fail the batch: it is stored raw in `dead_letter_logs` and the rest of
+ * the batch is indexed. Returns the parsed FeesCollected events, how many events of either kind were new
+ * and the logs that were dead-lettered.
+ */
+export async function indexBatchLogs(
+	client: SyncClient,
+	chainId: number,
+	logs: BatchLogs,
+	log: Logger,
+	options: IndexOptions = {},
+): Promise<{ parsedEvents: ParsedFeeCollectedEvent[]; added: number; failures: ParseFailure[] }> {
+	if (logs.feesCollected.length === 0 && logs.withdrawals.length === 0) {
+		return { parsedEvents: [], added: 0, failures: [] };
+	}
+
+	const blockNumbers = [...logs.feesCollected, ...logs.withdrawals].map((e) => e.blockNumber);
+	const blockTimestamps = await fetchBlockTimestamps(client, blockNumbers, log);
+	const feeFailures: ParseFailure[] = [];
+	const withdrawalFailures: ParseFailure[] = [];
+	const parsedEvents = parseFeeCollectedEvents(logs.feesCollected, chainId, blockTimestamps, feeFailures);
+	const withdrawals = parseWithdrawalEvents(logs.withdrawals, chainId, blockTimestamps, withdrawalFailures);
+	reportUnknownAbiVersions(feeFailures, log);
+	await persistDeadLetters(chainId, "FeesCollected", feeFailures, log);
+	await persistDeadLetters(chainId, "Withdrawal", withdrawalFailures, log);
+	const transactions = options.enrichTransactions
+		? await withRetry(() => fetchTransactionContexts(client, parsedEvents, log), "fetchTransactionContexts", log)
+		: undefined;
+
+	const added = (await persistEvents(parsedEvents, log, transactions)) + (await persistWithdrawals(withdrawals, log));
+	// Every key in the batch, not only those with new events: a re-scan after a crash must repair them too
+	const balanceKeys = balanceKeysOf(parsedEvents, withdrawals);
+	const { balancesThroughBlock } = options;
+	if (balancesThroughBlock === undefined) {
+		await withRetry(() => refreshBalances(balanceKeys, log), "refreshBalances", log);
+	} else {
+		await withRetry(() => applyBalanceDeltas(balanceKeys, balancesThroughBlock, log), "applyBalanceDeltas", log);
+	}
+	const tokens = tokensOf(parsedEvents, withdrawals);
+	await withRetry(() => resolveTokens(client, chainId, tokens, log), "resolveTokens", log);
+	return { parsedEvents, added, failures: [...feeFailures, ...withdrawalFailures] };
+}
+
+/** Fetches the timestamp of every distinct block in `blockNumbers`, keyed by block number. */
+export async function fetchBlockTimestamps(
+	client: SyncClient,
+	blockNumbers: number[],
+	log: Logger,
+): Promise<Map<number, number>> {
+	const uniqueBlockNumbers = [...new Set(blockNumbers)];
+	log.debug({ count: uniqueBlockNumbers.length }, "fetching block timestamps");
+
+	// Batched and cached by the client; the checkpoint of the batch often reuses one of these headers
+	const uniqueBlocks = await withRetry(() => client.getBlocks(uniqueBlockNumbers), "getBlocks", log);
+
+	const map = new Map<number, number>();
+	for (const block of uniqueBlocks) {
+		if (!block) {
+			throw new Error("Block not found on chain — possible RPC misconfiguration");
+		}
+		map.set(block.number, block.timestamp);
+	}
+	return map;
+}
+
+/**
+ * The chain's saved checkpoint against its safe block as of now, or null before its first batch. The head is
+ * read once, without retries: this reports on the chain rather than syncing it.
+ */
+export async function readSyncProgress(
+	client: Pick<SyncClient, "getBlockNumber">,
+	config: Pick<SyncConfig, "chainId" | "confirmations">,
+): Promise<SyncProgress | null> {
+	const [latest, state] = await Promise.all([
+		client.getBlockNumber(),
+		ChainSyncStateModel.findOne({ chainId: config.chainId }, { lastProcessedBlock: 1 }).lean().exec(),
+	]);
+	return state ? { safeBlock: latest - config.confirmations, lastProcessedBlock: state.lastProcessedBlock } : null;
+}
+
+// -------------------
+// Internal helpers
+// -------------------
+/**
+ * Upserts parsed events keyed by `(chainId, txHash, logIndex)`, so re-scanned ranges never duplicate them.
+ * Orphaned copies are ignored: an event re-mined after a reorg is inserted again as a canonical event.
+ * Transaction contexts are set on existing events too, so re-scanning a range enriches what it indexed before.
+ * Returns how many events were new.
+ */
+async function persistEvents(
+	events: ReturnType<typeof parseFeeCollectedEvents>,
+	log: Logger,
+	transactions?: Map<string, TransactionContext>,
+): Promise<number> {
+	if (events.length === 0) return 0;
+
+	const bulkOps = events.map((e) => {
+		const transaction = transactions?.get(e.txHash);
+		return {
+			updateOne: {
+				filter: { chainId: e.chainId, txHash: e.txHash, logIndex: e.logIndex, reorgId: null },
+				update: {
+					// The pricing pass values new events in USD once their token's decimals are resolved
+					$setOnInsert: { ...e, priceStatus: "pending" as const },
+					...(transaction && { $set: transaction }),
+				},
+				upsert: true,
+			},
+		};
+	});
+
+	const result = await withRetry(
+		() => FeeCollectedEventModel.bulkWrite(bulkOps, { ordered: false }),
+		"persistEvents",
+		log,
+	);
+	log.info({ added: result.upsertedCount, skipped: result.matchedCount }, "persisted events");
+	return result.upsertedCount;
+}
+
+/** Upserts withdrawals into their own collections, keyed like `persistEvents`. Returns how many were new. */
+async function persistWithdrawals(withdrawals: ParsedWithdrawals, log: Logger): Promise<number> {
+	const collections = [
+		{ event: "FeesWithdrawn", model: FeesWithdrawnEventModel, events: withdrawals.feesWithdrawn },
+		{ event: "LiFiFeesWithdrawn", model: LiFiFeesWithdrawnEventModel, events: withdrawals.lifiFeesWithdrawn },
+	];
+	let added = 0;
+
+	for (const { event, model, events } of collections) {
+		if (events.length === 0) continue;
+
+		const bulkOps = events.map((e) => ({
+			updateOne: {
+				filter: { chainId: e.chainId, txHash: e.txHash, logIndex: e.logIndex, reorgId: null },
+				update: { $setOnInsert: e },
+				upsert: true,
+			},
+		}));
+
+		const result = await withRetry(
+			() => model.bulkWrite(bulkOps, { ordered: false }),
+			`persistWithdrawals(${event})`,
+			log,
+		);
+		log.info({ event, added: result.upsertedCount, skipped: result.matchedCount }, "persisted withdrawals");
+		added += result.upsertedCount;
+	}
+
+	return added;
+}
+
+/**
+ * Stores logs that failed to parse, raw, with the error. A log dead-lettered again (e.g. a re-scanned range, or
+ * a re-processing that still fails) keeps its retry count, gets the new error and is open again.
+ */
+async function persistDeadLetters(
+	chainId: number,
+	kind: DeadLetterKind,
+	failures: ParseFailure[],
+	log: Logger,
+): Promise<void> {
+	if (failures.length === 0) return;
+
+	const bulkOps = failures.map(({ event, error }) => ({
+		updateOne: {
+			filter: { chainId, txHash: event.transactionHash, logIndex: event.logIndex, blockHash: event.blockHash },
+			update: {
+				$setOnInsert: {
+					chainId,
+					kind,
+					address: event.address,
+					blockNumber: event.blockNumber,
+					blockHash: event.blockHash,
+					txHash: event.transactionHash,
+					logIndex: event.logIndex,
+					topics: event.topics,
+					data: event.data,
+				},
+				$set: { error: error.message, resolvedAt: null },
+			},
+			upsert: true,
+		},
+	}));
+
+	await withRetry(() => DeadLetterLogModel.bulkWrite(bulkOps, { ordered: false }), "persistDeadLetters", log);
+	log.warn(
+		{
+			kind,
+			count: failures.length,
+			logs: failures.map(({ event, error }) => ({
+				txHash: event.transactionHash,
+				logIndex: event.logIndex,
+				error: error.message,
+			})),
+		},
+		"dead-lettered logs that failed to parse",
+	);
+}
+
+/**
+ * Raises an alarm for logs of the contract that match no known `FeesCollected` version. They mean the contract
+ * emits an event the registry lacks, and its fees go unindexed (dead-lettered) until the version is added.
+ */
+function reportUnknownAbiVersions(failures: ParseFailure[], log: Logger): void {
+	const unknown = failures.filter(({ error }) => error instanceof UnknownAbiVersionError);
+	if (unknown.length === 0) return;
+
+	log.error(
+		{
+			// Stable key for log-based alerting
+			alert: "unknown-abi-version",
+			count: unknown.length,
+			topics: [...new Set(unknown.map(({ event }) => event.topics[0]))],
+			contracts: [...new Set(unknown.map(({ event }) => event.address.toLowerCase()))],
+			firstBlock: Math.min(...unknown.map(({ event }) => event.blockNumber)),
+		},
+		"contract logs match no known FeesCollected ABI version — add it to abi/fees-collected.ts",
+	);
+}
+
+async function runSyncCycle(
+	client: SyncClient,
+	config: SyncConfig,
+	log: Logger,
+	signal?: AbortSignal,
+	heartbeat?: LeaseHeartbeat,
+): Promise<SyncProgress> {
+	// Recorded only when the worker syncs the chain; see metrics/worker-metrics.ts
+	const metrics = currentChainMetrics();
 
 	// 1. Compute the safe block once for the entire cycle
 	const safeBlock = await getLatestSafeBlock(client, config, log);
+	const head = safeBlock + config.confirmations;
 
 	// 2. Load sync state
-	let state = await loadSyncState(config.chainId, config.startBlock, log);
-
-	// 3. Reorg detection
-	if (await detectReorg(client, state, log)) {
-		const rollbackTo = await handleReorg(config.chainId, state.lastProcessedBlock, config, log);
-		state = { lastProcessedBlock: rollbackTo, lastProcessedBlockHash: null };
+	let state = await loadSyncState(config, log);
+	metrics?.lag(head - state.lastProcessedBlock);
+
+	// 3. Reorg detection: walk the block-hash ledger back to the last block still on the canonical chain
+	const mismatch = await detectReorg(client, state, log);
+	if (mismatch) {
+		const ancestor = await findCommonAncestor(client, config.chainId, state.lastProcessedBlock, log);
+		heartbeat?.assertHeld();
+		await handleReorg(config.chainId, mismatch, ancestor, log);
+		metrics?.reorg();
+		state = { ...state, lastProcessedBlock: ancestor.blockNumber, lastProcessedBlockHash: ancestor.blockHash };
 	}
 
 	// 4. Batch loop
-	let range = computeBatchRange(state.lastProcessedBlock, safeBlock, config.batchSize);
+	// Growth is capped below any size the RPC rejected during this cycle, so the range doesn't
+	// oscillate in and out of the provider's limit. The cap resets next cycle to probe again.
+	let batchSizeCeiling = config.maxBatchSize;
+	let range = computeBatchRange(state.lastProcessedBlock, safeBlock, state.batchSize);
 	while (range) {
 		const batch = range;
 
 		if (signal?.aborted) {
 			log.info({ lastProcessedBlock: state.lastProcessedBlock }, "shutdown requested, stopping sync");
-			return;
+			return { safeBlock, lastProcessedBlock: state.lastProcessedBlock };
 		}
 
+		heartbeat?.assertHeld();
 		log.info({ from: batch.from, to: batch.to }, "processing batch");
 
-		// a. Query events
-		const rawEvents = await withRetry(() => client.queryFeesCollected(batch.from, batch.to), "queryFeesCollected", log);
-
-		// b. Parse and persist events if any
-		if (rawEvents.length > 0) {
-			const blockNumbers = rawEvents.map((e) => e.blockNumber);
-			const blockTimestamps = await fetchBlockTimestamps(client, blockNumbers, log);
-			const parsedEvents = parseFeeCollectedEvents(rawEvents, config.chainId, blockTimestamps);
-			await persistEvents(parsedEvents, log);
+		// a. Query events and withdrawals. A "range too large" response shrinks the batch and retries the smaller range right away
+		let logs: BatchLogs;
+		try {
+			logs = await queryBatchLogs(client, batch.from, batch.to, log);
+		} catch (err) {
+			if (!isRangeTooLargeError(err) || state.batchSize <= config.minBatchSize) throw err;
+
+			batchSizeCeiling = Math.max(config.minBatchSize, state.batchSize - 1);
+			state.batchSize = shrinkBatchSize(state.batchSize, config);
+			log.warn(
+				{ err, from: batch.from, to: batch.to, batchSize: state.batchSize },
+				"block range rejected, shrinking batch",
+			);
+			range = computeBatchRange(state.lastProcessedBlock, safeBlock, state.batchSize);
+			continue;
 		}
 
-		// c. Update sync state with the end block of this batch
-		const endBlock = await withRetry(() => client.getBlock(batch.to), "getBlock(endBlock)", log);
-		if (!endBlock) {
-			throw new Error(`Block ${batch.to} not found on chain — possible RPC misconfiguration`);
+		// b. Parse and persist events and withdrawals if any
+		const { parsedEvents, added } = await indexBatchLogs(client, config.chainId, logs, log, {
+			enrichTransactions: config.enrichTransactions,
+			balancesThroughBlock: batch.to,
+		});
+		const rawLogs = [...logs.feesCollected, ...logs.withdrawals];
+
+		// c. The batch is confirmed now, so events pushed for it by a log subscription are no longer provisional
+		await withRetry(
+			() => reconcileProvisionalEvents(config.chainId, batch.to, parsedEvents, log),
+			"reconcileProvisionalEvents",
+			log,
+		);
+
+		// d. Learn from the response: widen the range while the provider keeps up
+		const grownBatchSize = growBatchSize(state.batchSize, batch.to - batch.from + 1, rawLogs.length, {
+			...config,
+			maxBatchSize: batchSizeCeiling,
+		});
+		if (grownBatchSize !== state.batchSize) {
+			log.debug({ from: state.batchSize, to: grownBatchSize }, "growing batch size");
+			state.batchSize = grownBatchSize;
 		}
-		await updateSyncState(config.chainId, batch.to, endBlock.hash, log);
 
-		// d. Advance
+		// e. Update sync state with the end block of this batch (and the learned batch size)
+		const ledgerBlocks = await fetchLedgerBlocks(client, batch, safeBlock - config.reorgBacktrack, log);
+		const endBlock = ledgerBlocks[ledgerBlocks.length - 1];
+		heartbeat?.assertHeld();
+		// The ledger is written before the checkpoint, so every checkpoint has its hash in the ledger
+		await recordBlockHashes(
+			config.chainId,
+			[
+				...rawLogs.map((e) => ({ blockNumber: e.blockNumber, blockHash: e.blockHash })),
+				...ledgerBlocks.map((block) => ({ blockNumber: block.number, blockHash: block.hash })),
+			],
+			log,
+		);
+		await updateSyncState(config.chainId, batch.to, endBlock.hash, state.batchSize, log);
+
+		// f. Advance
 		state.lastProcessedBlock = batch.to;
-		range = computeBatchRange(state.lastProcessedBlock, safeBlock, config.batchSize);
+		metrics?.checkpointSaved({ safeBlock, lastProcessedBlock: batch.to });
+		metrics?.blocksScanned(batch.to - batch.from + 1);
+		metrics?.eventsPersisted(added);
+		metrics?.lag(head - state.lastProcessedBlock);
+		range = computeBatchRange(state.lastProcessedBlock, safeBlock, state.batchSize);
 
-		// e. Throttle before next batch to avoid rate limits
+		// g. Throttle before next batch to avoid rate limits
 		if (range) await sleep(config.batchDelayMs);
 	}
 
+	// 5. Keep only the ledger window below the checkpoint
+	await withRetry(
+		() =>
+			BlockHashModel.deleteMany({
+				chainId: config.chainId,
+				blockNumber: { $lt: state.lastProcessedBlock - config.reorgBacktrack },
+			}).exec(),
+		"pruneBlockHashes",
+		log,
+	);
+
 	log.info({ lastProcessedBlock: state.lastProcessedBlock, safeBlock }, "fully caught up");
+	return { safeBlock, lastProcessedBlock: state.lastProcessedBlock };
 }
 
-// -------------------
-// Internal helpers
-// -------------------
 function sleep(ms: number): Promise<void> {
 	return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-async function withRetry<T>(
-	fn: () => Promise<T>,
-	label: string,
-	log: Logger,
-	maxAttempts = 3,
-	initialDelayMs = 5000,
-): Promise<T> {
-	let lastError: unknown;
-
-	for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-		try {
-			return await fn();
-		} catch (err) {
-			lastError = err;
-
-			if (attempt < maxAttempts) {
-				const delay = initialDelayMs * 2 ** (attempt - 1);
-				log.warn({ err, attempt, maxAttempts, delay }, `${label} failed, retrying`);
-				await sleep(delay);
-			}
-		}
-	}
-
-	throw lastError;
-}
-
-async function getLatestSafeBlock(client: FeeCollectorClient, config: SyncConfig, log: Logger): Promise<number> {
+async function getLatestSafeBlock(client: SyncClient, config: SyncConfig, log: Logger): Promise<number> {
 	const latest = await withRetry(() => client.getBlockNumber(), "getBlockNumber", log);
 	const safeBlock = latest - config.confirmations;
 	log.info({ latest, confirmations: config.confirmations, safeBlock }, "computed safe block");
 	return safeBlock;
 }
 
-async function loadSyncState(
-	chainId: number,
-	startBlock: number,
-	log: Logger,
-): Promise<{ lastProcessedBlock: number; lastProcessedBlockHash: string | null }> {
+async function loadSyncState(config: SyncConfig, log: Logger): Promise<SyncState> {
+	const { chainId, startBlock } = config;
 	const state = await withRetry(() => ChainSyncStateModel.findOne({ chainId }).lean().exec(), "loadSyncState", log);
 
 	if (state) {
-		log.info({ lastProcessedBlock: state.lastProcessedBlock }, "loaded existing sync state");
+		// Resume from the learned batch size; clamp in case the limits changed since it was stored
+		const batchSize = clampBatchSize(state.batchSize ?? config.batchSize, config);
+		log.info({ lastProcessedBlock: state.lastProcessedBlock, batchSize }, "loaded existing sync state");
 
 		return {
 			lastProcessedBlock: state.lastProcessedBlock,
 			lastProcessedBlockHash: state.lastProcessedBlockHash,
+			batchSize,
 		};
 	}
 
 	log.info({ startBlock }, "no sync state found, initializing");
 
-	return { lastProcessedBlock: startBlock - 1, lastProcessedBlockHash: null };
+	return { lastProcessedBlock: startBlock - 1, lastProcessedBlockHash: null, batchSize: config.batchSize };
 }
 
-async function detectReorg(
-	client: FeeCollectorClient,
-	state: { lastProcessedBlock: number; lastProcessedBlockHash: string | null },
-	log: Logger,
-): Promise<boolean> {
-	if (!state.lastProcessedBlockHash) return false;
+async function detectReorg(client: SyncClient, state: SyncState, log: Logger): Promise<HashMismatch | null> {
+	if (!state.lastProcessedBlockHash) return null;
 
-	const block = await withRetry(() => client.getBlock(state.lastProcessedBlock), "detectReorg.getBlock", log);
+	const block = await withRetry(
+		() => client.getBlock(state.lastProcessedBlock, { fresh: true }),
+		"detectReorg.getBlock",
+		log,
+	);
 
 	if (!block) {
 		throw new Error(`Block ${state.lastProcessedBlock} not found on chain — possible RPC misconfiguration`);
@@ -162,104 +612,203 @@ async function detectReorg(
 			},
 			"reorg detected — block hash mismatch",
 		);
-		return true;
+		return {
+			blockNumber: state.lastProcessedBlock,
+			oldBlockHash: state.lastProcessedBlockHash,
+			newBlockHash: block.hash,
+		};
 	}
-	return false;
+	return null;
 }
 
-async function handleReorg(
+/**
+ * Walks the block-hash ledger down from `mismatchedBlock`, newest first, and returns the first entry whose
+ * hash the chain still has. Blocks are linked by their parent hashes, so every block below it is canonical too.
+ */
+async function findCommonAncestor(
+	client: SyncClient,
 	chainId: number,
-	lastProcessedBlock: number,
-	config: SyncConfig,
+	mismatchedBlock: number,
 	log: Logger,
-): Promise<number> {
-	const rollbackTo = Math.max(config.startBlock - 1, lastProcessedBlock - config.reorgBacktrack);
-	log.warn({ lastProcessedBlock, rollbackTo, reorgBacktrack: config.reorgBacktrack }, "handling reorg");
-
-	await withRetry(
+): Promise<LedgerEntry> {
+	const entries = await withRetry(
 		() =>
-			FeeCollectedEventModel.deleteMany({
-				chainId,
-				blockNumber: { $gt: rollbackTo },
-			}).exec(),
-		"handleReorg.deleteEvents",
+			BlockHashModel.find({ chainId, blockNumber: { $lt: mismatchedBlock } })
+				.sort({ blockNumber: -1 })
+				.lean()
+				.exec(),
+		"findCommonAncestor.loadLedger",
 		log,
 	);
 
-	if (rollbackTo < config.startBlock) {
-		// Nothing to reference — remove sync state entirely
-		await withRetry(() => ChainSyncStateModel.deleteOne({ chainId }).exec(), "handleReorg.deleteSyncState", log);
-	} else {
-		await withRetry(
-			() =>
-				ChainSyncStateModel.updateOne(
-					{ chainId },
-					{ $set: { lastProcessedBlock: rollbackTo, lastProcessedBlockHash: "" } },
-				).exec(),
-			"handleReorg.resetSyncState",
+	for (const entry of entries) {
+		const block = await withRetry(
+			() => client.getBlock(entry.blockNumber, { fresh: true }),
+			`getBlock(${entry.blockNumber})`,
 			log,
 		);
+		if (block?.hash === entry.blockHash) {
+			log.info({ ancestor: entry.blockNumber, depth: mismatchedBlock - entry.blockNumber }, "found common ancestor");
+			return { blockNumber: entry.blockNumber, blockHash: entry.blockHash };
+		}
 	}
 
-	log.info({ rollbackTo }, "reorg rollback complete");
-	return rollbackTo;
+	throw new ReorgTooDeepError(chainId, mismatchedBlock, entries.at(-1)?.blockNumber ?? null);
 }
 
-async function fetchBlockTimestamps(
-	client: FeeCollectorClient,
-	blockNumbers: number[],
-	log: Logger,
-): Promise<Map<number, number>> {
-	const uniqueBlockNumbers = [...new Set(blockNumbers)];
-	log.debug({ count: uniqueBlockNumbers.length }, "fetching block timestamps");
+/**
+ * Records the reorg in `reorgs`, takes the amounts indexed above the common ancestor out of the integrator
+ * balances, orphans those events and withdrawals and moves the checkpoint back to the ancestor.
+ * Orphaned documents are kept, marked with the reorg's id and the time.
+ */
+async function handleReorg(chainId: number, mismatch: HashMismatch, ancestor: LedgerEntry, log: Logger): Promise<void> {
+	const rollbackTo = ancestor.blockNumber;
+	const depth = mismatch.blockNumber - rollbackTo;
+	log.warn({ lastProcessedBlock: mismatch.blockNumber, rollbackTo, depth }, "handling reorg");
+
+	const rolledBack = { chainId, blockNumber: { $gt: rollbackTo }, reorgId: null };
+	const [orphanedEvents, orphanedFeesWithdrawn, orphanedLiFiFeesWithdrawn, feeIntegrators, withdrawingIntegrators] =
+		await withRetry(
+			() =>
+				Promise.all([
+					FeeCollectedEventModel.countDocuments(rolledBack).exec(),
+					FeesWithdrawnEventModel.countDocuments(rolledBack).exec(),
+					LiFiFeesWithdrawnEventModel.countDocuments(rolledBack).exec(),
+					FeeCollectedEventModel.distinct<string>("integrator", rolledBack).exec(),
+					FeesWithdrawnEventModel.distinct<string>("to", rolledBack).exec(),
+				]),
+			"handleReorg.collectAffected",
+			log,
+		);
+	const affectedIntegrators = new Set([...feeIntegrators, ...withdrawingIntegrators]);
 
-	const uniqueBlocks = await Promise.all(
-		uniqueBlockNumbers.map((blockNumber) =>
-			withRetry(() => client.getBlock(blockNumber), `getBlock(${blockNumber})`, log),
-		),
+	// Upserted on the mismatch, so a rollback interrupted before the checkpoint moved resumes under the same reorg
+	const reorg = await withRetry(
+		() =>
+			ReorgModel.findOneAndUpdate(
+				{ chainId, blockNumber: mismatch.blockNumber, oldBlockHash: mismatch.oldBlockHash },
+				{
+					$setOnInsert: {
+						chainId,
+						blockNumber: mismatch.blockNumber,
+						oldBlockHash: mismatch.oldBlockHash,
+						newBlockHash: mismatch.newBlockHash,
+						commonAncestorBlock: rollbackTo,
+						depth,
+						orphanedEvents,
+						orphanedWithdrawals: orphanedFeesWithdrawn + orphanedLiFiFeesWithdrawn,
+						affectedIntegrators: [...affectedIntegrators].sort(),
+					},
+				},
+				{ upsert: true, new: true },
+			)
+				.lean()
+				.exec(),
+		"handleReorg.recordReorg",
+		log,
 	);
 
-	const map = new Map<number, number>();
-	for (const block of uniqueBlocks) {
+	// Before the orphaning, which hides the events the balances counted; a resumed rollback finds them reversed
+	const balanceKeys = await withRetry(
+		() => balanceKeysFromBlock(chainId, rollbackTo + 1),
+		"handleReorg.collectBalances",
+		log,
+	);
+	await withRetry(() => reverseBalanceDeltas(balanceKeys, rollbackTo, log), "handleReorg.reverseBalances", log);
+
+	const orphan = { $set: { orphanedAt: new Date(), reorgId: reorg._id } };
+	await withRetry(
+		() =>
+			Promise.all([
+				FeeCollectedEventModel.updateMany(rolledBack, orphan).exec(),
+				FeesWithdrawnEventModel.updateMany(rolledBack, orphan).exec(),
+				LiFiFeesWithdrawnEventModel.updateMany(rolledBack, orphan).exec(),
+			]),
+		"handleReorg.orphanEvents",
+		log,
+	);
+	await withRetry(
+		() => BlockHashModel.deleteMany({ chainId, blockNumber: { $gt: rollbackTo } }).exec(),
+		"handleReorg.deleteBlockHashes",
+		log,
+	);
+	// Open dead letters of the abandoned fork must not be re-processed; the re-sync dead-letters them again if
+	// the canonical chain still has them
+	await withRetry(
+		() => DeadLetterLogModel.deleteMany({ chainId, blockNumber: { $gt: rollbackTo }, resolvedAt: null }).exec(),
+		"handleReorg.deleteDeadLetters",
+		log,
+	);
+	await withRetry(
+		() =>
+			ChainSyncStateModel.updateOne(
+				{ chainId },
+				{ $set: { lastProcessedBlock: rollbackTo, lastProcessedBlockHash: ancestor.blockHash } },
+			).exec(),
+		"handleReorg.resetSyncState",
+		log,
+	);
+
+	log.info(
+		{ rollbackTo, reorgId: reorg._id, orphanedEvents, orphanedWithdrawals: reorg.orphanedWithdrawals },
+		"reorg rollback complete",
+	);
+}
+
+/**
+ * The headers whose hashes a batch adds to the ledger, ending with the batch's last block. Every block of the
+ * batch inside the ledger window below the safe block is included: the window must hold an ancestor for any
+ * reorg shallower than it, even when a catch-up batch is wider than the window. Blocks below it only need the end.
+ */
+async function fetchLedgerBlocks(
+	client: SyncClient,
+	batch: { from: number; to: number },
+	windowStart: number,
+	log: Logger,
+): Promise<ethers.providers.Block[]> {
+	const from = Math.min(Math.max(batch.from, windowStart), batch.to);
+	const blockNumbers = Array.from({ length: batch.to - from + 1 }, (_, i) => from + i);
+	const blocks = await withRetry(() => client.getBlocks(blockNumbers), "getBlocks(ledger)", log);
+
+	return blocks.map((block, i) => {
 		if (!block) {
-			throw new Error("Block not found on chain — possible RPC misconfiguration");
+			throw new Error(`Block ${blockNumbers[i]} not found on chain — possible RPC misconfiguration`);
 		}
-		map.set(block.number, block.timestamp);
-	}
-	return map;
+		return block;
+	});
 }
 
-async function persistEvents(events: ReturnType<typeof parseFeeCollectedEvents>, log: Logger): Promise<void> {
-	if (events.length === 0) return;
-
-	const bulkOps = events.map((e) => ({
+async function recordBlockHashes(chainId: number, entries: LedgerEntry[], log: Logger): Promise<void> {
+	const unique = new Map(entries.map((entry) => [entry.blockNumber, entry.blockHash]));
+	const bulkOps = [...unique].map(([blockNumber, blockHash]) => ({
 		updateOne: {
-			filter: { chainId: e.chainId, txHash: e.txHash, logIndex: e.logIndex },
-			update: { $setOnInsert: e },
+			filter: { chainId, blockNumber },
+			update: { $set: { chainId, blockNumber, blockHash } },
 			upsert: true,
 		},
 	}));
 
-	const result = await withRetry(
-		() => FeeCollectedEventModel.bulkWrite(bulkOps, { ordered: false }),
-		"persistEvents",
-		log,
-	);
-	log.info({ added: result.upsertedCount, skipped: result.matchedCount }, "persisted events");
+	await withRetry(() => BlockHashModel.bulkWrite(bulkOps, { ordered: false }), "recordBlockHashes", log);
 }
 
-async function updateSyncState(chainId: number, blockNumber: number, blockHash: string, log: Logger): Promise<void> {
+async function updateSyncState(
+	chainId: number,
+	blockNumber: number,
+	blockHash: string,
+	batchSize: number,
+	log: Logger,
+): Promise<void> {
 	await withRetry(
 		() =>
 			ChainSyncStateModel.updateOne(
 				{ chainId },
-				{ $set: { chainId, lastProcessedBlock: blockNumber, lastProcessedBlockHash: blockHash } },
+				{ $set: { chainId, lastProcessedBlock: blockNumber, lastProcessedBlockHash: blockHash, batchSize } },
 				{ upsert: true },
 			).exec(),
 		"updateSyncState",
 		log,
 	);
-	log.debug({ blockNumber, blockHash }, "sync state updated");
+	log.debug({ blockNumber, blockHash, batchSize }, "sync state updated");
 }
 
 function computeBatchRange(
@@ -0,0 +1,68 @@
+import type { Logger } from "pino";
+
+import type { FeeCollectorClient } from "../client";
+import { TokenModel } from "../models/token";
+import type { ParsedFeeCollectedEvent, ParsedWithdrawals } from "./parsing.service";
+
+/** The part of the client token resolution uses. */
+export type TokenClient = Pick<FeeCollectorClient, "getTokenMetadata">;
+
+/** How long metadata with a null field is kept before the token is read again. */
+export const TOKEN_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// ------------------
+// Public API
+// ------------------
+
+/** Distinct token addresses of a batch of parsed events and withdrawals. */
+export function tokensOf(events: ParsedFeeCollectedEvent[], withdrawals: ParsedWithdrawals): string[] {
+	return [
+		...new Set([
+			...events.map((e) => e.token),
+			...withdrawals.feesWithdrawn.map((w) => w.token),
+			...withdrawals.lifiFeesWithdrawn.map((w) => w.token),
+		]),
+	];
+}
+
+/**
+ * Resolves symbol, name and decimals of the tokens in `addresses` that aren't in `tokens` yet, and stores them.
+ *
+ * A token whose metadata can't be read is logged and skipped rather than failing the batch: its events are
+ * indexed anyway, and the next batch that contains the token tries again. Metadata with a null field is stored
+ * with a `retryAfter`, and read again by the first batch containing the token after that.
+ */
+export async function resolveTokens(
+	client: TokenClient,
+	chainId: number,
+	addresses: string[],
+	log: Logger,
+): Promise<void> {
+	if (addresses.length === 0) return;
+
+	const now = Date.now();
+	const known = await TokenModel.find({ chainId, address: { $in: addresses } }, { address: 1, retryAfter: 1 })
+		.lean()
+		.exec();
+	const knownAddresses = new Set(
+		known.filter((token) => !token.retryAfter || token.retryAfter.getTime() > now).map((token) => token.address),
+	);
+	const unknownAddresses = addresses.filter((address) => !knownAddresses.has(address));
+
+	for (const address of unknownAddresses) {
+		try {
+			const metadata = await client.getTokenMetadata(address);
+			const complete = metadata.symbol !== null && metadata.name !== null && metadata.decimals !== null;
+			await TokenModel.updateOne(
+				{ chainId, address },
+				complete
+					? { $set: metadata, $unset: { retryAfter: "" } }
+					: { $set: { ...metadata, retryAfter: new Date(now + TOKEN_RETRY_DELAY_MS) } },
+				{ upsert: true },
+			).exec();
+			log.info({ address, symbol: metadata.symbol, decimals: metadata.decimals, complete }, "resolved token");
+		} catch (err) {
+			log.warn({ err, address }, "could not resolve token metadata, will retry when the token is seen again");
+		}
+	}
+}
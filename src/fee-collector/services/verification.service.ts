@@ -0,0 +1,452 @@
+import type { ethers } from "ethers";
+import type { Types } from "mongoose";
+import { type Logger, pino } from "pino";
+
+import { ChainSyncStateModel } from "../models/chain-sync-state";
+import { type FeeCollectedEvent, FeeCollectedEventModel } from "../models/fee-collected-event";
+import { VerificationDiscrepancyModel } from "../models/verification-discrepancy";
+import { type VerificationRun, VerificationRunModel, type VerificationStatus } from "../models/verification-run";
+import { balanceKeysOf, refreshBalances } from "./balance.service";
+import { type BatchSizeLimits, growBatchSize, isRangeTooLargeError, shrinkBatchSize } from "./batch-size.service";
+import {
+	type ParsedFeeCollectedEvent,
+	type ParsedWithdrawals,
+	type ParseFailure,
+	parseFeeCollectedEvents,
+} from "./parsing.service";
+import { fetchBlockTimestamps, indexBatchLogs, type SyncClient, withRetry } from "./sync.service";
+import { resolveTokens } from "./token.service";
+
+export interface VerifyConfig extends BatchSizeLimits {
+	chainId: number;
+	fromBlock: number;
+	/** Last block to verify (inclusive). Defaults to the chain's sync checkpoint; capped at the current safe block. */
+	toBlock?: number;
+	confirmations: number;
+	/** Initial block range per eth_getLogs call. */
+	batchSize: number;
+	batchDelayMs: number;
+	/** Fix the discrepancies found, not only record them. */
+	repair: boolean;
+	/** Record the context of the transactions of events the repair inserts, like the chain's sync does. */
+	enrichTransactions: boolean;
+}
+
+/** Outcome of a verification run, as stored in `verification_runs`. */
+export interface VerificationReport {
+	runId: string;
+	chainId: number;
+	fromBlock: number;
+	toBlock: number;
+	repair: boolean;
+	status: VerificationStatus;
+	lastVerifiedBlock: number;
+	onChainEvents: number;
+	storedEvents: number;
+	missing: number;
+	extra: number;
+	mismatched: number;
+	unparsed: number;
+	repaired: number;
+}
+
+/** The fields compared between an on-chain event and its stored copy. `chainId`, `txHash` and `logIndex` are the key. */
+const VERIFIED_FIELDS = [
+	"contractAddress",
+	"blockNumber",
+	"blockHash",
+	"token",
+	"integrator",
+	"integratorFee",
+	"lifiFee",
+	"blockTimestamp",
+] as const satisfies readonly (keyof ParsedFeeCollectedEvent)[];
+type VerifiedField = (typeof VERIFIED_FIELDS)[number];
+
+type StoredEvent = FeeCollectedEvent & { _id: Types.ObjectId };
+
+type Discrepancy =
+	| { kind: "missing"; onChain: ParsedFeeCollectedEvent }
+	| { kind: "extra"; stored: StoredEvent }
+	| { kind: "mismatched"; onChain: ParsedFeeCollectedEvent; stored: StoredEvent; fields: VerifiedField[] };
+
+interface BatchCounts {
+	onChainEvents: number;
+	storedEvents: number;
+	missing: number;
+	extra: number;
+	mismatched: number;
+	unparsed: number;
+	repaired: number;
+}
+
+/** A repaired event's USD values are stale when one of these changed; the pricing pass values it again. */
+const PRICE_INPUTS: VerifiedField[] = ["token", "integratorFee", "lifiFee", "blockTimestamp"];
+const NO_WITHDRAWALS: ParsedWithdrawals = { feesWithdrawn: [], lifiFeesWithdrawn: [] };
+
+// ------------------
+// Public API
+// ------------------
+
+/**
+ * Re-scans the FeesCollected logs of `[fromBlock, toBlock]` and compares them with the chain's canonical
+ * events in `fee_collected_events`, keyed by `(chainId, txHash, logIndex)`. Every discrepancy is stored in
+ * `verification_discrepancies` under a `verification_runs` document that records the range and the counts.
+ *
+ * With `repair`, missing events are indexed the way the sync indexes them, mismatched ones are overwritten
+ * with the chain's values (and priced again when their amounts, token or timestamp changed), and extra ones
+ * are orphaned with the run's id as their `reorgId`. The balances they touch are refreshed.
+ *
+ * A failing run is recorded as `failed` and returned rather than thrown; the discrepancies of the batches
+ * verified before the failure are kept.
+ */
+export async function verifyRange(
+	client: SyncClient,
+	config: VerifyConfig,
+	logger?: Logger,
+	signal?: AbortSignal,
+): Promise<VerificationReport> {
+	const log = (logger ?? pino({ name: "fee-collector-verify" })).child({ chainId: config.chainId });
+	const toBlock = await resolveToBlock(client, config, log);
+
+	if (config.fromBlock > toBlock) {
+		throw new Error(`Verification range is empty: fromBlock ${config.fromBlock} is past toBlock ${toBlock}`);
+	}
+
+	const run = await VerificationRunModel.create({
+		chainId: config.chainId,
+		fromBlock: config.fromBlock,
+		toBlock,
+		repair: config.repair,
+		status: "running",
+		lastVerifiedBlock: config.fromBlock - 1,
+	});
+	const runLog = log.child({ runId: run._id.toString() });
+	runLog.info({ fromBlock: config.fromBlock, toBlock, repair: config.repair }, "starting verification");
+
+	let batchSize = config.batchSize;
+	let batchSizeCeiling = config.maxBatchSize;
+	let lastVerifiedBlock = config.fromBlock - 1;
+	let status: VerificationStatus = "done";
+	let lastError: string | undefined;
+
+	try {
+		while (lastVerifiedBlock < toBlock && !signal?.aborted) {
+			const from = lastVerifiedBlock + 1;
+			const to = Math.min(from + batchSize - 1, toBlock);
+
+			// A "range too large" response shrinks the batch and retries the smaller range right away
+			let logs: ethers.Event[];
+			try {
+				logs = await withRetry(() => client.queryFeesCollected(from, to), "verify.queryFeesCollected", runLog);
+			} catch (err) {
+				if (!isRangeTooLargeError(err) || batchSize <= config.minBatchSize) throw err;
+
+				batchSizeCeiling = Math.max(config.minBatchSize, batchSize - 1);
+				batchSize = shrinkBatchSize(batchSize, config);
+				runLog.warn({ err, from, to, batchSize }, "block range rejected, shrinking batch");
+				continue;
+			}
+
+			const counts = await verifyBatch(client, config, run._id, from, to, logs, runLog);
+			await withRetry(
+				() =>
+					VerificationRunModel.updateOne(
+						{ _id: run._id },
+						{ $set: { lastVerifiedBlock: to }, $inc: { ...counts } },
+					).exec(),
+				"verify.updateRun",
+				runLog,
+			);
+			lastVerifiedBlock = to;
+
+			batchSize = growBatchSize(batchSize, to - from + 1, logs.length, {
+				...config,
+				maxBatchSize: batchSizeCeiling,
+			});
+			if (lastVerifiedBlock < toBlock) await sleep(config.batchDelayMs);
+		}
+		if (lastVerifiedBlock < toBlock) status = "aborted";
+	} catch (err) {
+		runLog.error({ err, lastVerifiedBlock }, "verification failed");
+		status = "failed";
+		lastError = (err as Error).message ?? String(err);
+	}
+
+	const stored = await withRetry(
+		() =>
+			VerificationRunModel.findOneAndUpdate(
+				{ _id: run._id },
+				{ $set: { status, completedAt: new Date(), ...(lastError && { lastError }) } },
+				{ new: true },
+			)
+				.lean()
+				.exec(),
+		"verify.completeRun",
+		runLog,
+	);
+	if (!stored) throw new Error(`Verification run ${run._id} disappeared before it completed`);
+
+	if (status === "aborted") runLog.info("shutdown requested, verification stopped");
+	return toReport(stored);
+}
+
+// -------------------
+// Internal helpers
+// -------------------
+
+/** Like the backfill, but the default end is the checkpoint: blocks the sync hasn't reached would all be missing. */
+async function resolveToBlock(client: SyncClient, config: VerifyConfig, log: Logger): Promise<number> {
+	const latest = await withRetry(() => client.getBlockNumber(), "getBlockNumber", log);
+	const safeBlock = latest - config.confirmations;
+
+	let toBlock = config.toBlock;
+	if (toBlock === undefined) {
+		const state = await withRetry(
+			() => ChainSyncStateModel.findOne({ chainId: config.chainId }).lean().exec(),
+			"verify.loadSyncState",
+			log,
+		);
+		if (!state) {
+			throw new Error(`Chain ${config.chainId} has no sync checkpoint yet, pass the end of the range explicitly`);
+		}
+		toBlock = state.lastProcessedBlock;
+	}
+
+	// Unconfirmed blocks are the live sync's job: it is the one that detects and rolls back reorgs
+	if (toBlock > safeBlock) {
+		log.warn({ requested: toBlock, safeBlock }, "toBlock is past the safe block, capping it");
+	}
+	return Math.min(toBlock, safeBlock);
+}
+
+/**
+ * Compares on-chain events with stored ones by `(txHash, logIndex)`. Stored events outside the verified
+ * blocks are only matched, never reported as extra: the chain may have them in another batch.
+ * `unparsedKeys` are logs that failed to parse; their stored copies aren't extra either.
+ */
+function diffEvents(
+	onChain: ParsedFeeCollectedEvent[],
+	stored: StoredEvent[],
+	range: { fromBlock: number; toBlock: number },
+	unparsedKeys: Set<string>,
+): Discrepancy[] {
+	const storedByKey = new Map(stored.map((event) => [eventKey(event), event]));
+	const onChainKeys = new Set(onChain.map(eventKey));
+	const discrepancies: Discrepancy[] = [];
+
+	for (const event of onChain) {
+		const copy = storedByKey.get(eventKey(event));
+		if (!copy) {
+			discrepancies.push({ kind: "missing", onChain: event });
+			continue;
+		}
+
+		const fields = VERIFIED_FIELDS.filter((field) => copy[field] !== event[field]);
+		if (fields.length > 0) discrepancies.push({ kind: "mismatched", onChain: event, stored: copy, fields });
+	}
+
+	for (const event of stored) {
+		const key = eventKey(event);
+		const inRange = event.blockNumber >= range.fromBlock && event.blockNumber <= range.toBlock;
+		if (inRange && !onChainKeys.has(key) && !unparsedKeys.has(key)) {
+			discrepancies.push({ kind: "extra", stored: event });
+		}
+	}
+
+	return discrepancies;
+}
+
+/** Verifies (and with `repair`, fixes) one batch, storing its discrepancies. Returns the counts to add to the run. */
+async function verifyBatch(
+	client: SyncClient,
+	config: VerifyConfig,
+	runId: Types.ObjectId,
+	fromBlock: number,
+	toBlock: number,
+	logs: ethers.Event[],
+	log: Logger,
+): Promise<BatchCounts> {
+	const blockTimestamps =
+		logs.length > 0
+			? await fetchBlockTimestamps(
+					client,
+					logs.map((e) => e.blockNumber),
+					log,
+				)
+			: new Map<number, number>();
+	const failures: ParseFailure[] = [];
+	const onChain = parseFeeCollectedEvents(logs, config.chainId, blockTimestamps, failures);
+	const unparsedKeys = new Set(
+		failures.map(({ event }) => eventKey({ txHash: event.transactionHash, logIndex: event.logIndex })),
+	);
+
+	// Events the chain has in this batch are looked up by key too, so one stored under the wrong block is matched
+	const stored = await withRetry(
+		() =>
+			FeeCollectedEventModel.find({
+				chainId: config.chainId,
+				reorgId: null,
+				$or: [
+					{ blockNumber: { $gte: fromBlock, $lte: toBlock } },
+					...(onChain.length > 0 ? [{ txHash: { $in: [...new Set(onChain.map((e) => e.txHash))] } }] : []),
+				],
+			})
+				.lean<StoredEvent[]>()
+				.exec(),
+		"verify.loadStoredEvents",
+		log,
+	);
+
+	const discrepancies = diffEvents(onChain, stored, { fromBlock, toBlock }, unparsedKeys);
+	const counts: BatchCounts = {
+		onChainEvents: logs.length,
+		storedEvents: stored.filter((e) => e.blockNumber >= fromBlock && e.blockNumber <= toBlock).length,
+		missing: discrepancies.filter((d) => d.kind === "missing").length,
+		extra: discrepancies.filter((d) => d.kind === "extra").length,
+		mismatched: discrepancies.filter((d) => d.kind === "mismatched").length,
+		unparsed: failures.length,
+		repaired: 0,
+	};
+	if (discrepancies.length === 0) return counts;
+
+	log.warn({ fromBlock, toBlock, ...counts }, "stored events drifted from the chain");
+
+	// Recorded before the repair, so a repair that fails half-way still leaves what was found
+	const recorded = await withRetry(
+		() =>
+			VerificationDiscrepancyModel.insertMany(
+				discrepancies.map((d) => {
+					const event = d.kind === "extra" ? d.stored : d.onChain;
+					return {
+						runId,
+						chainId: config.chainId,
+						kind: d.kind,
+						blockNumber: event.blockNumber,
+						txHash: event.txHash,
+						logIndex: event.logIndex,
+						fields: d.kind === "mismatched" ? d.fields : [],
+						onChain: d.kind === "extra" ? undefined : d.onChain,
+						stored: d.kind === "missing" ? undefined : d.stored,
+					};
+				}),
+			),
+		"verify.recordDiscrepancies",
+		log,
+	);
+
+	if (!config.repair) return counts;
+
+	await repairDiscrepancies(client, config, runId, logs, discrepancies, log);
+	await withRetry(
+		() =>
+			VerificationDiscrepancyModel.updateMany(
+				{ _id: { $in: recorded.map((d) => d._id) } },
+				{ $set: { repaired: true } },
+			).exec(),
+		"verify.markRepaired",
+		log,
+	);
+	return { ...counts, repaired: discrepancies.length };
+}
+
+async function repairDiscrepancies(
+	client: SyncClient,
+	config: VerifyConfig,
+	runId: Types.ObjectId,
+	logs: ethers.Event[],
+	discrepancies: Discrepancy[],
+	log: Logger,
+): Promise<void> {
+	const extra = discrepancies.flatMap((d) => (d.kind === "extra" ? [d.stored] : []));
+	const mismatched = discrepancies.flatMap((d) => (d.kind === "mismatched" ? [d] : []));
+	const missingKeys = new Set(discrepancies.flatMap((d) => (d.kind === "missing" ? [eventKey(d.onChain)] : [])));
+
+	// Orphaned like the events of a reorg, with the run in place of the reorg: they drop out of every canonical
+	// query and the balances, but stay stored as history
+	if (extra.length > 0) {
+		await withRetry(
+			() =>
+				FeeCollectedEventModel.updateMany(
+					{ _id: { $in: extra.map((e) => e._id) }, reorgId: null },
+					{ $set: { orphanedAt: new Date(), reorgId: runId } },
+				).exec(),
+			"verify.orphanExtraEvents",
+			log,
+		);
+	}
+
+	if (mismatched.length > 0) {
+		const bulkOps = mismatched.map(({ onChain, stored, fields }) => {
+			const values = Object.fromEntries(fields.map((field) => [field, onChain[field]]));
+			const reprice = fields.some((field) => PRICE_INPUTS.includes(field));
+			return {
+				updateOne: {
+					filter: { _id: stored._id },
+					update: {
+						$set: { ...values, ...(reprice && { priceStatus: "pending" as const }) },
+						...(reprice && {
+							$unset: { unpricedReason: 1, tokenPriceUsd: 1, integratorFeeUsd: 1, lifiFeeUsd: 1, pricedAt: 1 } as const,
+						}),
+					},
+				},
+			};
+		});
+		await withRetry(
+			() => FeeCollectedEventModel.bulkWrite(bulkOps, { ordered: false }),
+			"verify.overwriteMismatchedEvents",
+			log,
+		);
+	}
+
+	// Indexed like the sync does, so they get balances, token metadata, prices and transaction context too
+	if (missingKeys.size > 0) {
+		const feesCollected = logs.filter((e) =>
+			missingKeys.has(eventKey({ txHash: e.transactionHash, logIndex: e.logIndex })),
+		);
+		await indexBatchLogs(client, config.chainId, { feesCollected, withdrawals: [] }, log, {
+			enrichTransactions: config.enrichTransactions,
+		});
+	}
+
+	// Both sides of a mismatch: the balance the stored copy counted towards, and the one it belongs to
+	const balanceKeys = balanceKeysOf(
+		[...extra, ...mismatched.flatMap(({ onChain, stored }) => [onChain, stored])],
+		NO_WITHDRAWALS,
+	);
+	await withRetry(() => refreshBalances(balanceKeys, log), "refreshBalances", log);
+	const tokens = [...new Set(mismatched.map(({ onChain }) => onChain.token))];
+	await withRetry(() => resolveTokens(client, config.chainId, tokens, log), "resolveTokens", log);
+
+	log.info(
+		{ missing: missingKeys.size, extra: extra.length, mismatched: mismatched.length },
+		"repaired drifted events",
+	);
+}
+
+function toReport(run: VerificationRun & { _id: Types.ObjectId }): VerificationReport {
+	return {
+		runId: run._id.toString(),
+		chainId: run.chainId,
+		fromBlock: run.fromBlock,
+		toBlock: run.toBlock,
+		repair: run.repair,
+		status: run.status,
+		lastVerifiedBlock: run.lastVerifiedBlock,
+		onChainEvents: run.onChainEvents,
+		storedEvents: run.storedEvents,
+		missing: run.missing,
+		extra: run.extra,
+		mismatched: run.mismatched,
+		unparsed: run.unparsed,
+		repaired: run.repaired,
+	};
+}
+
+function eventKey(event: { txHash: string; logIndex: number }): string {
+	return `${event.txHash}:${event.logIndex}`;
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,83 @@
+import type { Logger } from "pino";
+import { connectMongo, disconnectMongo } from "@/common/db/mongo";
+import { readIntegerFlag, readSingleChainFlag } from "@/fee-collector/command-args";
+import { CHAIN_REGISTRY, type ChainDefinition, getChainStartBlock } from "@/fee-collector/config/chains.config";
+import { env } from "@/fee-collector/config/env.config";
+import { runWithRetryPolicies } from "@/fee-collector/retry/retry-policy";
+import { verifyRange } from "@/fee-collector/services/verification.service";
+import { createWorkerConfigs } from "@/fee-collector/worker.helpers";
+
+export interface VerifyArgs {
+	chain: ChainDefinition;
+	/** Defaults to the chain's earliest deployment. */
+	fromBlock: number;
+	/** Defaults to the chain's sync checkpoint. */
+	toBlock?: number;
+	repair: boolean;
+}
+
+/**
+ * Checks that Mongo holds exactly the chain's FeesCollected events for a block range:
+ * `verify --chain polygon [--from <block>] [--to <block>] [--repair]`.
+ *
+ * Every run is stored in `verification_runs`, with its missing, extra and mismatched events in
+ * `verification_discrepancies`. Exits non-zero when the run found drift it didn't repair, failed or was stopped.
+ */
+export async function run(argv: string[], signal: AbortSignal, logger: Logger): Promise<void> {
+	const args = parseVerifyArgs(argv, CHAIN_REGISTRY);
+	const [{ client, syncConfig }] = createWorkerConfigs([args.chain]);
+
+	await connectMongo(env.MONGO_URI, env.MONGO_DB);
+
+	try {
+		const report = await runWithRetryPolicies(args.chain.retry, () =>
+			verifyRange(
+				client,
+				{
+					chainId: syncConfig.chainId,
+					fromBlock: args.fromBlock,
+					toBlock: args.toBlock,
+					confirmations: syncConfig.confirmations,
+					batchSize: syncConfig.batchSize,
+					minBatchSize: syncConfig.minBatchSize,
+					maxBatchSize: syncConfig.maxBatchSize,
+					targetLogsPerBatch: syncConfig.targetLogsPerBatch,
+					batchDelayMs: syncConfig.batchDelayMs,
+					repair: args.repair,
+					enrichTransactions: syncConfig.enrichTransactions,
+				},
+				logger,
+				signal,
+			),
+		);
+
+		const drift = report.missing + report.extra + report.mismatched;
+		if (report.status !== "done") {
+			logger.warn({ chain: args.chain.name, report }, "verification incomplete");
+			process.exitCode = 1;
+		} else if (drift > report.repaired) {
+			logger.warn(
+				{ chain: args.chain.name, report },
+				"stored events differ from the chain, re-run with --repair to fix them",
+			);
+			process.exitCode = 1;
+		} else {
+			logger.info({ chain: args.chain.name, report }, "verification complete");
+		}
+	} finally {
+		await disconnectMongo();
+	}
+}
+
+/** Parses the verify flags; `--chain` must name exactly one chain of the registry (disabled chains are allowed). */
+export function parseVerifyArgs(argv: string[], registry: ChainDefinition[]): VerifyArgs {
+	const chain = readSingleChainFlag(argv, registry, "Verification");
+
+	const fromBlock = readIntegerFlag(argv, "--from", 0) ?? getChainStartBlock(chain.deployments);
+	const toBlock = readIntegerFlag(argv, "--to", 0);
+	if (toBlock !== undefined && toBlock < fromBlock) {
+		throw new Error(`--to (${toBlock}) must not be below --from (${fromBlock})`);
+	}
+
+	return { chain, fromBlock, toBlock, repair: argv.includes("--repair") };
+}
@@ -1,6 +1,10 @@
 import { pino } from "pino";
 import { prettyTransport } from "@/common/utils/logger";
+import { env } from "@/fee-collector/config/env.config";
+import { WorkerHealth } from "@/fee-collector/health/worker-health";
+import { metricsRegistry } from "@/fee-collector/metrics/worker-metrics";
 import { run } from "@/fee-collector/worker";
+import { startWorkerServer } from "@/fee-collector/worker.server";
 
 const logger = pino({
 	name: "fee-collector-worker",
@@ -13,9 +17,23 @@ function onShutdown(): void {
 	abortController.abort();
 }
 
+async function main(): Promise<void> {
+	const health = new WorkerHealth({ livenessWindowMs: env.FEE_COLLECTOR_LIVENESS_WINDOW_MS });
+	// Port 0 turns the metrics and health endpoints off
+	const server = env.FEE_COLLECTOR_WORKER_PORT
+		? await startWorkerServer(env.FEE_COLLECTOR_WORKER_PORT, { registry: metricsRegistry, health }, logger)
+		: undefined;
+
+	try {
+		await run(process.argv, abortController.signal, logger, health);
+	} finally {
+		await server?.close();
+	}
+}
+
 process.on("SIGINT", onShutdown);
 process.on("SIGTERM", onShutdown);
-run(process.argv, abortController.signal, logger).catch((err) => {
+main().catch((err) => {
 	logger.error({ err }, "worker crashed");
 	process.exit(1);
 });
@@ -1,6 +1,8 @@
+import { randomUUID } from "node:crypto";
+import { hostname } from "node:os";
 import type { FeeCollectorClient } from "@/fee-collector/client";
 import { createFeeCollectorClient } from "@/fee-collector/client";
-import { Chain, type ChainDefinition } from "@/fee-collector/config/chains.config";
+import { type ChainDefinition, getChainStartBlock } from "@/fee-collector/config/chains.config";
 import { env } from "@/fee-collector/config/env.config";
 import type { SyncConfig } from "@/fee-collector/services/sync.service";
 
@@ -8,13 +10,19 @@ export interface WorkerConfig {
 	chain: ChainDefinition;
 	client: FeeCollectorClient;
 	syncConfig: SyncConfig;
+	/** Time between the end of one sync cycle for the chain and the start of the next. */
+	pollIntervalMs: number;
 }
 
-export function parseChainFlag(argv: string[]): Chain[] {
+/**
+ * Returns the chain names requested with `--chain`, validated against the chain registry.
+ * Without the flag, every enabled chain in the registry is selected.
+ */
+export function parseChainFlag(argv: string[], registry: ChainDefinition[]): string[] {
 	const flagIndex = argv.indexOf("--chain");
 	const chainFlagNotSetOrEmpty = flagIndex === -1 || flagIndex + 1 >= argv.length;
 
-	if (chainFlagNotSetOrEmpty) return [Chain.Polygon];
+	if (chainFlagNotSetOrEmpty) return registry.filter((chain) => chain.enabled).map((chain) => chain.name);
 
 	// Detect space-separated chains like "--chain polygon, solana" where "solana" becomes a separate arg
 	const nextArg = argv[flagIndex + 2];
@@ -26,32 +34,54 @@ export function parseChainFlag(argv: string[]): Chain[] {
 		.split(",")
 		.map((s) => s.trim().toLowerCase())
 		.filter(Boolean);
-	const validChains = Object.values(Chain);
+	const validChains = registry.map((chain) => chain.name);
 
 	for (const chainName of rawChains) {
-		if (!validChains.includes(chainName as Chain)) {
+		if (!validChains.includes(chainName)) {
 			throw new Error(`Unknown chain "${chainName}". Valid chains: ${validChains.join(", ")}`);
 		}
 	}
 
-	return [...new Set(rawChains)] as Chain[];
+	return [...new Set(rawChains)];
 }
 
 export function createWorkerConfigs(chainDefinitions: ChainDefinition[]): WorkerConfig[] {
 	return chainDefinitions.map((definition) => ({
 		chain: definition,
-		client: createFeeCollectorClient(definition.rpcUrl, definition.contractAddress),
+		client: createFeeCollectorClient(definition.rpcEndpoints, definition.deployments, {
+			quorum: env.FEE_COLLECTOR_RPC_QUORUM,
+			wsUrl: definition.wsUrl,
+			nativeCurrency: definition.nativeCurrency,
+			rpcBatchSize: definition.rpcBatchSize,
+			blockCacheSize: env.FEE_COLLECTOR_BLOCK_CACHE_SIZE,
+			rateLimit: {
+				requestsPerSecond: env.FEE_COLLECTOR_RPC_REQUESTS_PER_SECOND,
+				maxConcurrency: env.FEE_COLLECTOR_RPC_MAX_CONCURRENCY,
+			},
+			maxConsecutiveFailures: env.FEE_COLLECTOR_RPC_MAX_FAILURES,
+			cooldownMs: env.FEE_COLLECTOR_RPC_COOLDOWN_MS,
+		}),
 		syncConfig: {
 			chainId: definition.chainId,
-			startBlock: definition.startBlock,
-			confirmations: env.FEE_COLLECTOR_CONFIRMATIONS,
-			batchSize: env.FEE_COLLECTOR_BATCH_SIZE,
+			startBlock: getChainStartBlock(definition.deployments),
+			confirmations: definition.confirmations,
+			batchSize: definition.batchSize,
+			minBatchSize: env.FEE_COLLECTOR_MIN_BATCH_SIZE,
+			maxBatchSize: env.FEE_COLLECTOR_MAX_BATCH_SIZE,
+			targetLogsPerBatch: env.FEE_COLLECTOR_BATCH_TARGET_LOGS,
 			reorgBacktrack: definition.reorgBacktrack,
 			batchDelayMs: env.FEE_COLLECTOR_BATCH_DELAY_MS,
+			enrichTransactions: definition.enrichTransactions,
 		},
+		pollIntervalMs: definition.pollIntervalMs,
 	}));
 }
 
+/** Unique, human-readable identifier for this worker process, used as the lease owner. */
+export function createWorkerId(): string {
+	return `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+}
+
 export function sleep(ms: number, signal: AbortSignal): Promise<void> {
 	if (signal.aborted) return Promise.resolve();
 
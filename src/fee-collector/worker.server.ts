@@ -0,0 +1,62 @@
+import { createServer, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Logger } from "pino";
+import type { HealthReport, WorkerHealth } from "@/fee-collector/health/worker-health";
+import type { MetricsRegistry } from "@/fee-collector/metrics/registry";
+
+export interface WorkerServer {
+	/** The port the server listens on; differs from the requested one when that was 0. */
+	port: number;
+	close(): Promise<void>;
+}
+
+export interface WorkerServerOptions {
+	registry: MetricsRegistry;
+	health: WorkerHealth;
+}
+
+const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * Serves the worker's operational endpoints:
+ * - `GET /metrics`: the registry, for Prometheus to scrape
+ * - `GET /health/live`: liveness, 503 when the worker loop has stalled
+ * - `GET /health/ready`: readiness, 503 when a synced chain lags too far behind
+ *
+ * Both probes answer with the health report as JSON, which lists the state of each chain. Any other path is a 404.
+ */
+export function startWorkerServer(port: number, options: WorkerServerOptions, log: Logger): Promise<WorkerServer> {
+	const server = createServer((req, res) => {
+		const path = req.url?.split("?")[0];
+
+		if (req.method !== "GET") {
+			res.writeHead(404).end();
+		} else if (path === "/metrics") {
+			res.writeHead(200, { "Content-Type": METRICS_CONTENT_TYPE }).end(options.registry.render());
+		} else if (path === "/health/live") {
+			sendReport(res, options.health.liveness());
+		} else if (path === "/health/ready") {
+			sendReport(res, options.health.readiness());
+		} else {
+			res.writeHead(404).end();
+		}
+	});
+
+	return new Promise((resolve, reject) => {
+		server.once("error", reject);
+		server.listen(port, () => {
+			server.off("error", reject);
+			const { port: boundPort } = server.address() as AddressInfo;
+			log.info({ port: boundPort }, "worker server listening");
+
+			resolve({
+				port: boundPort,
+				close: () => new Promise<void>((done) => server.close(() => done())),
+			});
+		});
+	});
+}
+
+function sendReport(res: ServerResponse, report: HealthReport): void {
+	res.writeHead(report.status === "ok" ? 200 : 503, { "Content-Type": "application/json" }).end(JSON.stringify(report));
+}
@@ -1,44 +1,157 @@
 import type { Logger } from "pino";
 import { connectMongo, disconnectMongo } from "@/common/db/mongo";
-import { type ChainDefinition, SUPPORTED_CHAINS } from "@/fee-collector/config/chains.config";
+import { CHAIN_REGISTRY, type ChainDefinition } from "@/fee-collector/config/chains.config";
 import { env } from "@/fee-collector/config/env.config";
-import { sync } from "@/fee-collector/services/sync.service";
-import { createWorkerConfigs, parseChainFlag, sleep } from "@/fee-collector/worker.helpers";
-
-export async function run(argv: string[], signal: AbortSignal, logger: Logger): Promise<void> {
-	const chainNames = parseChainFlag(argv);
-	const chainDefinitions = chainNames
-		.filter((name) => {
-			if (!SUPPORTED_CHAINS[name]) {
-				logger.warn({ chain: name }, "chain recognized (extensibility POC only) but not yet supported, skipping...");
-				return false;
-			}
-			return true;
-		})
-		.map((name) => SUPPORTED_CHAINS[name] as ChainDefinition);
+import type { WorkerHealth } from "@/fee-collector/health/worker-health";
+import { ChainMetrics, runWithChainMetrics } from "@/fee-collector/metrics/worker-metrics";
+import { loadFilePriceProvider } from "@/fee-collector/prices/file-price-provider";
+import type { PriceProvider } from "@/fee-collector/prices/price-provider";
+import { runWithRetryPolicies } from "@/fee-collector/retry/retry-policy";
+import { acquireLease, getLeaseHolder, type LeaseOptions, releaseLease } from "@/fee-collector/services/lease.service";
+import {
+	claimAssignedChains,
+	deregisterInstance,
+	registerInstance,
+	startInstanceHeartbeat,
+} from "@/fee-collector/services/pool.service";
+import { preflightChain } from "@/fee-collector/services/preflight.service";
+import { priceFees } from "@/fee-collector/services/pricing.service";
+import { type ProvisionalSubscription, startLogSubscription } from "@/fee-collector/services/subscription.service";
+import { ReorgTooDeepError, readSyncProgress, type SyncProgress, sync } from "@/fee-collector/services/sync.service";
+import {
+	createWorkerConfigs,
+	createWorkerId,
+	parseChainFlag,
+	sleep,
+	type WorkerConfig,
+} from "@/fee-collector/worker.helpers";
+
+/**
+ * Runs the sync loop until `signal` aborts. When `health` is given, the outcome of every cycle is reported to it
+ * for the liveness and readiness probes.
+ */
+export async function run(argv: string[], signal: AbortSignal, logger: Logger, health?: WorkerHealth): Promise<void> {
+	const isPoolMode = argv.includes("--pool");
+	if (isPoolMode && argv.includes("--chain")) {
+		throw new Error("--pool and --chain cannot be combined: pool mode splits all enabled chains between instances");
+	}
+
+	const chainNames = isPoolMode
+		? CHAIN_REGISTRY.filter((chain) => chain.enabled).map((chain) => chain.name)
+		: parseChainFlag(argv, CHAIN_REGISTRY);
+	const chainDefinitions = CHAIN_REGISTRY.filter((chain) => chainNames.includes(chain.name)).filter((chain) => {
+		if (!chain.enabled) {
+			logger.warn({ chain: chain.name }, "chain is disabled in the chain registry, skipping...");
+			return false;
+		}
+		return true;
+	});
 
 	if (!chainDefinitions.length) {
-		logger.warn("no supported chains to sync");
+		logger.warn("no enabled chains to sync");
 		return;
 	}
 
-	const workerConfigs = createWorkerConfigs(chainDefinitions);
+	// A chain's lease is only renewed while its cycle runs. The last renewal can be a renew interval before the
+	// cycle ends, and the next cycle takes the lease again a poll interval later, so that gap must fit in the TTL
+	const leaseGapMs = (chain: ChainDefinition) => chain.pollIntervalMs + env.FEE_COLLECTOR_LEASE_RENEW_INTERVAL_MS;
+	const lapsingChains = chainDefinitions.filter((chain) => leaseGapMs(chain) >= env.FEE_COLLECTOR_LEASE_TTL_MS);
+	if (lapsingChains.length) {
+		const gaps = lapsingChains.map((chain) => `${chain.name} (${leaseGapMs(chain)}ms)`);
+		throw new Error(
+			`The chain lease would expire between cycles of ${gaps.join(", ")}: pollIntervalMs plus ` +
+				`FEE_COLLECTOR_LEASE_RENEW_INTERVAL_MS must stay below FEE_COLLECTOR_LEASE_TTL_MS (${env.FEE_COLLECTOR_LEASE_TTL_MS}ms)`,
+		);
+	}
+
+	const priceProvider = loadFilePriceProvider(env.FEE_COLLECTOR_PRICES_FILE, env.FEE_COLLECTOR_PRICE_MAX_AGE_SECONDS);
 	const shouldSyncOnce = argv.includes("--once");
+	const lease: LeaseOptions = {
+		ownerId: createWorkerId(),
+		ttlMs: env.FEE_COLLECTOR_LEASE_TTL_MS,
+		renewIntervalMs: env.FEE_COLLECTOR_LEASE_RENEW_INTERVAL_MS,
+	};
 
 	await connectMongo(env.MONGO_URI, env.MONGO_DB);
+	const workerConfigs = createWorkerConfigs(chainDefinitions);
+	// Chains that failed their preflight checks, with the failed checks. They are checked again whenever they are
+	// due and synced once they pass
+	const refusedChains = await preflightChains(workerConfigs, logger);
+	if (refusedChains.size === workerConfigs.length) {
+		await disconnectMongo();
+		throw new Error("Every chain failed its preflight checks, see the log for the diagnostics");
+	}
+
 	logger.info(
 		{
 			chains: workerConfigs.map((workerConfig) => workerConfig.chain.name),
-			pollIntervalMs: env.FEE_COLLECTOR_POLL_INTERVAL_MS,
+			refused: [...refusedChains.keys()].map((workerConfig) => workerConfig.chain.name),
+			workerId: lease.ownerId,
+			pool: isPoolMode,
+			pollIntervalMs: Object.fromEntries(
+				workerConfigs.map((workerConfig) => [workerConfig.chain.name, workerConfig.pollIntervalMs]),
+			),
 		},
 		"worker started",
 	);
 
+	let poolHeartbeat: { stop(): void } | undefined;
+	if (isPoolMode) {
+		await registerInstance(lease.ownerId, env.FEE_COLLECTOR_POOL_INSTANCE_TTL_MS);
+		poolHeartbeat = startInstanceHeartbeat(
+			lease.ownerId,
+			env.FEE_COLLECTOR_POOL_INSTANCE_TTL_MS,
+			env.FEE_COLLECTOR_POOL_HEARTBEAT_INTERVAL_MS,
+			logger,
+		);
+	}
+
 	const processIsAborted = () => signal.aborted;
+	// Outside pool mode every requested chain is ours; in pool mode this is refreshed every cycle
+	let assignedConfigs = isPoolMode ? [] : workerConfigs;
+	// Chains run on their own poll intervals; a chain missing here is due right away
+	const nextDueAt = new Map<number, number>();
+	for (const workerConfig of refusedChains.keys()) {
+		nextDueAt.set(workerConfig.syncConfig.chainId, Date.now() + workerConfig.pollIntervalMs);
+	}
+	// Errors retrying can't fix; the worker stops and run() rethrows the error after cleaning up
+	let fatalError: unknown;
+	// Log subscriptions of the chains whose lease this worker holds (chains with a WebSocket endpoint only)
+	const subscriptions = new Map<number, ProvisionalSubscription>();
 
 	while (!processIsAborted()) {
+		if (isPoolMode) {
+			// Every instance splits all enabled chains, refused ones included: dropping the chains this instance's
+			// preflight refused would make the instances disagree on the split and leave other chains unowned
+			assignedConfigs = await refreshPoolAssignments(workerConfigs, assignedConfigs, lease.ownerId, logger);
+		}
+
+		const cycleStartedAt = Date.now();
+		const isDue = (workerConfig: WorkerConfig) =>
+			(nextDueAt.get(workerConfig.syncConfig.chainId) ?? 0) <= cycleStartedAt;
+		await recheckRefusedChains(
+			assignedConfigs.filter((workerConfig) => refusedChains.has(workerConfig) && isDue(workerConfig)),
+			refusedChains,
+			nextDueAt,
+			logger,
+		);
+
+		const activeConfigs = assignedConfigs.filter((workerConfig) => !refusedChains.has(workerConfig));
+		const droppedChainIds = [...subscriptions.keys()].filter(
+			(chainId) => !activeConfigs.some((workerConfig) => workerConfig.syncConfig.chainId === chainId),
+		);
+		await stopSubscriptions(subscriptions, droppedChainIds, logger);
+		health?.track(
+			assignedConfigs.map((workerConfig) => ({
+				name: workerConfig.chain.name,
+				maxLagBlocks: workerConfig.chain.maxLagBlocks,
+			})),
+		);
+		for (const [workerConfig, failed] of refusedChains) health?.chainRefused(workerConfig.chain.name, failed);
+
+		const dueConfigs = activeConfigs.filter(isDue);
 		const results = await Promise.allSettled(
-			workerConfigs.map((workerConfig) => sync(workerConfig.client, workerConfig.syncConfig, logger, signal)),
+			dueConfigs.map((workerConfig) => syncWithLease(workerConfig, lease, priceProvider, signal, logger, health)),
 		);
 
 		// Check if shutdown was requested during sync. If so, exit immediately
@@ -49,17 +162,35 @@ export async function run(argv: string[], signal: AbortSignal, logger: Logger):
 
 		let anySyncFailed = false;
 
-		// Log sync results and errors if any
+		// Log sync results and errors if any, along with how each chain's RPC endpoints are holding up
 		for (const [i, result] of results.entries()) {
-			if (result.status === "rejected") {
+			const { chain, client } = dueConfigs[i];
+			const endpoints = client.getEndpointHealth();
+			logger.info({ chain: chain.name, endpoints }, "rpc endpoint health");
+			new ChainMetrics(chain.name).rpcHealth(endpoints);
+
+			// Only the lease holder subscribes; a standby worker leaves pushed events to it
+			if (result.status === "fulfilled" && !shouldSyncOnce) {
+				await updateSubscription(subscriptions, dueConfigs[i], result.value !== null, logger);
+			}
+
+			if (health) await reportChainHealth(health, dueConfigs[i], result, logger);
+
+			if (result.status === "rejected" && result.reason instanceof ReorgTooDeepError) {
+				fatalError = result.reason;
+				logger.fatal({ chain: chain.name, err: result.reason }, "unrecoverable reorg, stopping worker");
+			} else if (result.status === "rejected") {
 				anySyncFailed = true;
 				logger.error(
-					{ chain: workerConfigs[i].chain.name, err: result.reason },
+					{ chain: chain.name, err: result.reason },
 					`sync failed${shouldSyncOnce ? "" : ", will retry after poll interval"}`,
 				);
 			}
 		}
 
+		if (fatalError) break;
+		health?.cycleFinished();
+
 		// If --once flag is set, exit after the first cycle regardless of success or failure
 		if (shouldSyncOnce) {
 			logger.info("--once flag set, exiting after single cycle");
@@ -71,9 +202,260 @@ export async function run(argv: string[], signal: AbortSignal, logger: Logger):
 			break;
 		}
 
-		await sleep(env.FEE_COLLECTOR_POLL_INTERVAL_MS, signal);
+		const cycleEndedAt = Date.now();
+		for (const workerConfig of dueConfigs) {
+			nextDueAt.set(workerConfig.syncConfig.chainId, cycleEndedAt + workerConfig.pollIntervalMs);
+		}
+		await sleep(timeUntilNextDue(assignedConfigs, nextDueAt, cycleEndedAt), signal);
+	}
+
+	await stopSubscriptions(subscriptions, [...subscriptions.keys()], logger);
+
+	// Hand the chains over to a standby worker right away instead of making it wait for expiry
+	await Promise.allSettled(
+		workerConfigs.map((workerConfig) => releaseLease(workerConfig.syncConfig.chainId, lease.ownerId)),
+	);
+
+	if (poolHeartbeat) {
+		poolHeartbeat.stop();
+		await deregisterInstance(lease.ownerId).catch((err) => {
+			logger.warn({ err }, "failed to leave worker pool, registration will expire on its own");
+		});
 	}
 
 	await disconnectMongo();
 	logger.info("worker stopped");
+
+	if (fatalError) throw fatalError;
+}
+
+/**
+ * Checks each chain's configuration against what its endpoints and the stored checkpoint say (see
+ * preflight.service.ts) and refuses the chains that fail, so a wrong RPC URL or contract address is reported
+ * before anything is synced from it.
+ *
+ * @returns the refused chains, with the diagnostics of their failed checks.
+ */
+async function preflightChains(workerConfigs: WorkerConfig[], logger: Logger): Promise<Map<WorkerConfig, string[]>> {
+	const reports = await Promise.all(
+		workerConfigs.map((workerConfig) => preflightChain(workerConfig.client, workerConfig.chain, logger)),
+	);
+
+	const refused = new Map<WorkerConfig, string[]>();
+	for (const [i, workerConfig] of workerConfigs.entries()) {
+		const { passed, checks } = reports[i];
+		if (passed) continue;
+
+		const failed = checks
+			.filter((check) => check.status === "failed")
+			.map(({ check, detail }) => `${check}: ${detail}`);
+		logger.error({ chain: workerConfig.chain.name, failed }, "chain failed its preflight checks, refusing to sync it");
+		refused.set(workerConfig, failed);
+	}
+	return refused;
+}
+
+/**
+ * Runs the preflight checks of refused chains again, e.g. after an operator fixed the endpoint or the checkpoint.
+ * A chain that passes now is synced in the same cycle; one that still fails is checked again a poll interval later.
+ */
+async function recheckRefusedChains(
+	dueConfigs: WorkerConfig[],
+	refusedChains: Map<WorkerConfig, string[]>,
+	nextDueAt: Map<number, number>,
+	logger: Logger,
+): Promise<void> {
+	if (dueConfigs.length === 0) return;
+
+	const stillRefused = await preflightChains(dueConfigs, logger);
+	const checkedAt = Date.now();
+	for (const workerConfig of dueConfigs) {
+		const failed = stillRefused.get(workerConfig);
+		if (failed) {
+			refusedChains.set(workerConfig, failed);
+			nextDueAt.set(workerConfig.syncConfig.chainId, checkedAt + workerConfig.pollIntervalMs);
+		} else {
+			refusedChains.delete(workerConfig);
+			logger.info({ chain: workerConfig.chain.name }, "chain passed its preflight checks, syncing it");
+		}
+	}
+}
+
+/**
+ * How long to wait until the next active chain is due. With no active chains (a pool instance with
+ * nothing assigned) this is the default poll interval, after which the assignments are re-checked.
+ */
+function timeUntilNextDue(activeConfigs: WorkerConfig[], nextDueAt: Map<number, number>, now: number): number {
+	if (activeConfigs.length === 0) return env.FEE_COLLECTOR_POLL_INTERVAL_MS;
+
+	const earliest = Math.min(
+		...activeConfigs.map((workerConfig) => nextDueAt.get(workerConfig.syncConfig.chainId) ?? now),
+	);
+	return Math.max(0, earliest - now);
+}
+
+/**
+ * Re-computes which chains this pool instance owns. Chains that moved to another instance have
+ * their lease released so the new owner can pick them up on its next cycle.
+ * If the pool can't be read, the previous assignments are kept for this cycle.
+ */
+async function refreshPoolAssignments(
+	workerConfigs: WorkerConfig[],
+	currentConfigs: WorkerConfig[],
+	instanceId: string,
+	logger: Logger,
+): Promise<WorkerConfig[]> {
+	let assignedChainIds: number[];
+
+	try {
+		assignedChainIds = await claimAssignedChains(
+			instanceId,
+			workerConfigs.map((workerConfig) => ({
+				chainId: workerConfig.syncConfig.chainId,
+				name: workerConfig.chain.name,
+			})),
+			logger,
+		);
+	} catch (err) {
+		logger.error({ err }, "failed to refresh pool assignments, keeping previous assignments");
+		return currentConfigs;
+	}
+
+	const assignedConfigs = workerConfigs.filter((workerConfig) =>
+		assignedChainIds.includes(workerConfig.syncConfig.chainId),
+	);
+	const droppedConfigs = currentConfigs.filter((workerConfig) => !assignedConfigs.includes(workerConfig));
+	const addedConfigs = assignedConfigs.filter((workerConfig) => !currentConfigs.includes(workerConfig));
+
+	if (droppedConfigs.length || addedConfigs.length) {
+		logger.info(
+			{
+				assigned: assignedConfigs.map((workerConfig) => workerConfig.chain.name),
+				added: addedConfigs.map((workerConfig) => workerConfig.chain.name),
+				dropped: droppedConfigs.map((workerConfig) => workerConfig.chain.name),
+			},
+			"pool assignments changed",
+		);
+	}
+
+	await Promise.allSettled(
+		droppedConfigs.map((workerConfig) => releaseLease(workerConfig.syncConfig.chainId, instanceId)),
+	);
+
+	return assignedConfigs;
+}
+
+/**
+ * Syncs a chain only if this worker holds (or can take) its lease. Otherwise the worker stays on
+ * standby for that chain and retries on the next cycle, taking over once the holder's lease expires.
+ * After syncing, the chain's new events are valued in USD. Both record into the chain's metrics and
+ * retry with the chain's retry policies. Every checkpoint the sync saves is reported to `health` as it happens,
+ * so a long catch-up counts as progress before its cycle finishes.
+ *
+ * @returns how far the chain got, or null when another worker holds its lease.
+ */
+async function syncWithLease(
+	workerConfig: WorkerConfig,
+	lease: LeaseOptions,
+	priceProvider: PriceProvider,
+	signal: AbortSignal,
+	logger: Logger,
+	health?: WorkerHealth,
+): Promise<SyncProgress | null> {
+	const { chainId } = workerConfig.syncConfig;
+
+	if (!(await acquireLease(chainId, lease.ownerId, lease.ttlMs))) {
+		const holder = await getLeaseHolder(chainId);
+		logger.info({ chain: workerConfig.chain.name, holder }, "chain lease held by another worker, standing by");
+		return null;
+	}
+
+	const metrics = new ChainMetrics(
+		workerConfig.chain.name,
+		health && ((progress) => health.checkpointSaved(workerConfig.chain.name, progress)),
+	);
+	const syncAndPrice = async () => {
+		const startedAt = Date.now();
+		let progress: SyncProgress;
+		try {
+			progress = await sync(workerConfig.client, workerConfig.syncConfig, logger, signal, lease);
+		} finally {
+			metrics.syncCycle(Date.now() - startedAt);
+		}
+		// The events stay pending when pricing fails, so the next cycle picks them up; the sync itself succeeded
+		await priceFees(priceProvider, chainId, logger).catch((err: unknown) => {
+			logger.warn({ chain: workerConfig.chain.name, err }, "pricing failed, will retry next cycle");
+		});
+		return progress;
+	};
+	return runWithRetryPolicies(workerConfig.chain.retry, () => runWithChainMetrics(metrics, syncAndPrice));
+}
+
+/**
+ * Reports a chain's cycle to the probes, with the lag measured against the chain's head as of now: a finished
+ * cycle only caught up with the safe block it started from, and a failed one never got to report at all.
+ */
+async function reportChainHealth(
+	health: WorkerHealth,
+	workerConfig: WorkerConfig,
+	result: PromiseSettledResult<SyncProgress | null>,
+	logger: Logger,
+): Promise<void> {
+	const { chain, client, syncConfig } = workerConfig;
+	const currentProgress = () =>
+		readSyncProgress(client, syncConfig).catch((err: unknown) => {
+			logger.warn({ chain: chain.name, err }, "could not read the chain's sync progress for the health probes");
+			return null;
+		});
+
+	if (result.status === "rejected") {
+		health.chainFailed(chain.name, result.reason, await currentProgress());
+	} else if (result.value) {
+		health.chainSynced(chain.name, (await currentProgress()) ?? result.value);
+	} else {
+		health.chainStandby(chain.name);
+	}
+}
+
+/**
+ * Keeps a chain's log subscription in line with its lease: started (or restarted after its socket
+ * closed) while this worker holds the lease, stopped once it doesn't.
+ */
+async function updateSubscription(
+	subscriptions: Map<number, ProvisionalSubscription>,
+	workerConfig: WorkerConfig,
+	holdsLease: boolean,
+	logger: Logger,
+): Promise<void> {
+	const { chainId } = workerConfig.syncConfig;
+	const current = subscriptions.get(chainId);
+
+	if (!holdsLease) {
+		await stopSubscriptions(subscriptions, [chainId], logger);
+		return;
+	}
+	if (current?.active) return;
+
+	const subscription = startLogSubscription(workerConfig.client, chainId, logger);
+	if (subscription) {
+		subscriptions.set(chainId, subscription);
+	} else {
+		subscriptions.delete(chainId);
+	}
+}
+
+async function stopSubscriptions(
+	subscriptions: Map<number, ProvisionalSubscription>,
+	chainIds: number[],
+	logger: Logger,
+): Promise<void> {
+	await Promise.all(
+		chainIds.map(async (chainId) => {
+			const subscription = subscriptions.get(chainId);
+			subscriptions.delete(chainId);
+			await subscription?.stop().catch((err: unknown) => {
+				logger.warn({ chainId, err }, "failed to stop log subscription");
+			});
+		}),
+	);
 }